@@ -0,0 +1,40 @@
+/*
+  Warnings:
+
+  - Added the required column `keyId` to the `OneTimePreKey` table without a default value. Existing one-time prekeys carry no key id and are dropped.
+
+*/
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_SignedPreKey" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "keyId" INTEGER NOT NULL DEFAULT 1,
+    "key" TEXT NOT NULL,
+    "signature" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "SignedPreKey_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_SignedPreKey" ("id", "key", "signature", "userId") SELECT "id", "key", "signature", "userId" FROM "SignedPreKey";
+DROP TABLE "SignedPreKey";
+ALTER TABLE "new_SignedPreKey" RENAME TO "SignedPreKey";
+CREATE UNIQUE INDEX "SignedPreKey_userId_key" ON "SignedPreKey"("userId");
+DROP TABLE "OneTimePreKey";
+CREATE TABLE "OneTimePreKey" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "keyId" INTEGER NOT NULL,
+    "key" TEXT NOT NULL,
+    "isUsed" BOOLEAN NOT NULL DEFAULT false,
+    "usedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "OneTimePreKey_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "OneTimePreKey_userId_isUsed_idx" ON "OneTimePreKey"("userId", "isUsed");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OneTimePreKey_userId_keyId_key" ON "OneTimePreKey"("userId", "keyId");
@@ -0,0 +1,27 @@
+-- DropIndex
+DROP INDEX "SignedPreKey_userId_key";
+
+-- AlterTable
+ALTER TABLE "IdentityKey" ADD COLUMN "signingKey" TEXT;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_SignedPreKey" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "keyId" INTEGER NOT NULL DEFAULT 1,
+    "key" TEXT NOT NULL,
+    "signature" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" DATETIME,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "SignedPreKey_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_SignedPreKey" ("id", "key", "keyId", "signature", "userId") SELECT "id", "key", "keyId", "signature", "userId" FROM "SignedPreKey";
+DROP TABLE "SignedPreKey";
+ALTER TABLE "new_SignedPreKey" RENAME TO "SignedPreKey";
+CREATE INDEX "SignedPreKey_userId_isActive_idx" ON "SignedPreKey"("userId", "isActive");
+CREATE UNIQUE INDEX "SignedPreKey_userId_keyId_key" ON "SignedPreKey"("userId", "keyId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
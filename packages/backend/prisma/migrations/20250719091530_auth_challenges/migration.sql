@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "auth_challenges" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "handle" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "expiresAt" DATETIME NOT NULL,
+    "usedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "auth_challenges_nonce_key" ON "auth_challenges"("nonce");
+
+-- CreateIndex
+CREATE INDEX "auth_challenges_handle_idx" ON "auth_challenges"("handle");
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "message_deliveries" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "messageId" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "encryptedData" TEXT NOT NULL,
+    "deliveredAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "message_deliveries_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "messages" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "message_deliveries_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "devices" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_messages" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "senderId" TEXT NOT NULL,
+    "receiverId" TEXT NOT NULL,
+    "senderDeviceId" TEXT NOT NULL,
+    "receiverDeviceId" TEXT,
+    "content" TEXT NOT NULL,
+    "messageType" TEXT NOT NULL DEFAULT 'TEXT',
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "delivered" BOOLEAN NOT NULL DEFAULT false,
+    "deliveredAt" DATETIME,
+    "read" BOOLEAN NOT NULL DEFAULT false,
+    "readAt" DATETIME,
+    "isEdited" BOOLEAN NOT NULL DEFAULT false,
+    "editedAt" DATETIME,
+    "replyToId" TEXT,
+    "metadata" TEXT,
+    CONSTRAINT "messages_senderId_fkey" FOREIGN KEY ("senderId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "messages_receiverId_fkey" FOREIGN KEY ("receiverId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "messages_replyToId_fkey" FOREIGN KEY ("replyToId") REFERENCES "messages" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_messages" ("content", "delivered", "deliveredAt", "editedAt", "id", "isEdited", "messageType", "metadata", "read", "readAt", "receiverDeviceId", "receiverId", "replyToId", "senderDeviceId", "senderId", "timestamp") SELECT "content", "delivered", "deliveredAt", "editedAt", "id", "isEdited", "messageType", "metadata", "read", "readAt", "receiverDeviceId", "receiverId", "replyToId", "senderDeviceId", "senderId", "timestamp" FROM "messages";
+DROP TABLE "messages";
+ALTER TABLE "new_messages" RENAME TO "messages";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "message_deliveries_deviceId_deliveredAt_idx" ON "message_deliveries"("deviceId", "deliveredAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_deliveries_messageId_deviceId_key" ON "message_deliveries"("messageId", "deviceId");
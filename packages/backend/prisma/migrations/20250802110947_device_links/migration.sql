@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "device_links" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "initiatorDeviceId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "initiatorKey" TEXT NOT NULL,
+    "joinerKey" TEXT,
+    "joinerProof" TEXT,
+    "joinerDeviceId" TEXT,
+    "payload" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "expiresAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "device_links_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "device_links_initiatorDeviceId_fkey" FOREIGN KEY ("initiatorDeviceId") REFERENCES "devices" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "device_links_code_key" ON "device_links"("code");
+
+-- CreateIndex
+CREATE INDEX "device_links_userId_idx" ON "device_links"("userId");
@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "groups" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "groups_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "group_members" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "groupId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'member',
+    "invitedById" TEXT,
+    "joinedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "group_members_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "groups" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "group_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_messages" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "senderId" TEXT NOT NULL,
+    "receiverId" TEXT,
+    "groupId" TEXT,
+    "senderDeviceId" TEXT NOT NULL,
+    "receiverDeviceId" TEXT,
+    "content" TEXT NOT NULL,
+    "messageType" TEXT NOT NULL DEFAULT 'TEXT',
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "delivered" BOOLEAN NOT NULL DEFAULT false,
+    "deliveredAt" DATETIME,
+    "read" BOOLEAN NOT NULL DEFAULT false,
+    "readAt" DATETIME,
+    "isEdited" BOOLEAN NOT NULL DEFAULT false,
+    "editedAt" DATETIME,
+    "replyToId" TEXT,
+    "metadata" TEXT,
+    CONSTRAINT "messages_senderId_fkey" FOREIGN KEY ("senderId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "messages_receiverId_fkey" FOREIGN KEY ("receiverId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "messages_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "groups" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "messages_replyToId_fkey" FOREIGN KEY ("replyToId") REFERENCES "messages" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_messages" ("content", "delivered", "deliveredAt", "editedAt", "id", "isEdited", "messageType", "metadata", "read", "readAt", "receiverDeviceId", "receiverId", "replyToId", "senderDeviceId", "senderId", "timestamp") SELECT "content", "delivered", "deliveredAt", "editedAt", "id", "isEdited", "messageType", "metadata", "read", "readAt", "receiverDeviceId", "receiverId", "replyToId", "senderDeviceId", "senderId", "timestamp" FROM "messages";
+DROP TABLE "messages";
+ALTER TABLE "new_messages" RENAME TO "messages";
+CREATE INDEX "messages_groupId_timestamp_idx" ON "messages"("groupId", "timestamp");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "group_members_userId_idx" ON "group_members"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "group_members_groupId_userId_key" ON "group_members"("groupId", "userId");
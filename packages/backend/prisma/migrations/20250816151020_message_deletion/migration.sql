@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "deletedAt" DATETIME;
+ALTER TABLE "messages" ADD COLUMN "isDeleted" BOOLEAN NOT NULL DEFAULT false;
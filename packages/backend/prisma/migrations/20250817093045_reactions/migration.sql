@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "reactions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "messageId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "encryptedData" TEXT NOT NULL,
+    "pfsMessage" BOOLEAN NOT NULL DEFAULT false,
+    "deliveredAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "reactions_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "messages" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "reactions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "reactions_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "devices" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "reactions_deviceId_deliveredAt_idx" ON "reactions"("deviceId", "deliveredAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reactions_messageId_userId_deviceId_key" ON "reactions"("messageId", "userId", "deviceId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "sendReadReceipts" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "expiresAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "messages_expiresAt_idx" ON "messages"("expiresAt");
@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "deliveryTokenHash" TEXT;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_messages" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "senderId" TEXT,
+    "receiverId" TEXT,
+    "groupId" TEXT,
+    "senderDeviceId" TEXT,
+    "receiverDeviceId" TEXT,
+    "content" TEXT NOT NULL,
+    "messageType" TEXT NOT NULL DEFAULT 'TEXT',
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "delivered" BOOLEAN NOT NULL DEFAULT false,
+    "deliveredAt" DATETIME,
+    "read" BOOLEAN NOT NULL DEFAULT false,
+    "readAt" DATETIME,
+    "isEdited" BOOLEAN NOT NULL DEFAULT false,
+    "editedAt" DATETIME,
+    "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+    "deletedAt" DATETIME,
+    "expiresAt" DATETIME,
+    "replyToId" TEXT,
+    "clientMessageId" TEXT,
+    "metadata" TEXT,
+    CONSTRAINT "messages_senderId_fkey" FOREIGN KEY ("senderId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "messages_receiverId_fkey" FOREIGN KEY ("receiverId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "messages_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "groups" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "messages_replyToId_fkey" FOREIGN KEY ("replyToId") REFERENCES "messages" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_messages" ("clientMessageId", "content", "deletedAt", "delivered", "deliveredAt", "editedAt", "expiresAt", "groupId", "id", "isDeleted", "isEdited", "messageType", "metadata", "read", "readAt", "receiverDeviceId", "receiverId", "replyToId", "senderDeviceId", "senderId", "timestamp") SELECT "clientMessageId", "content", "deletedAt", "delivered", "deliveredAt", "editedAt", "expiresAt", "groupId", "id", "isDeleted", "isEdited", "messageType", "metadata", "read", "readAt", "receiverDeviceId", "receiverId", "replyToId", "senderDeviceId", "senderId", "timestamp" FROM "messages";
+DROP TABLE "messages";
+ALTER TABLE "new_messages" RENAME TO "messages";
+CREATE INDEX "messages_groupId_timestamp_idx" ON "messages"("groupId", "timestamp");
+CREATE INDEX "messages_expiresAt_idx" ON "messages"("expiresAt");
+CREATE UNIQUE INDEX "messages_senderId_clientMessageId_key" ON "messages"("senderId", "clientMessageId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,33 @@
+/*
+  Warnings:
+
+  - Added the required column `deviceId` to the `OneTimePreKey` table without a default value. Existing one-time prekeys cannot be attributed to a device and are dropped; each device uploads a new batch on its next login.
+
+*/
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+DROP TABLE "OneTimePreKey";
+CREATE TABLE "OneTimePreKey" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "keyId" INTEGER NOT NULL,
+    "key" TEXT NOT NULL,
+    "isUsed" BOOLEAN NOT NULL DEFAULT false,
+    "usedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    CONSTRAINT "OneTimePreKey_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "OneTimePreKey_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "devices" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "OneTimePreKey_deviceId_isUsed_idx" ON "OneTimePreKey"("deviceId", "isUsed");
+
+-- CreateIndex
+CREATE INDEX "OneTimePreKey_userId_isUsed_idx" ON "OneTimePreKey"("userId", "isUsed");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OneTimePreKey_deviceId_keyId_key" ON "OneTimePreKey"("deviceId", "keyId");
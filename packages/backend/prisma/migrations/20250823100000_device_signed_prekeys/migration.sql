@@ -0,0 +1,33 @@
+/*
+  Warnings:
+
+  - Existing signed prekeys cannot be attributed to a device and keep a null `deviceId`. They are no longer handed out; each device publishes its own on its next start.
+
+*/
+-- AlterTable
+ALTER TABLE "reactions" ADD COLUMN "senderDeviceId" TEXT;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_SignedPreKey" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "keyId" INTEGER NOT NULL DEFAULT 1,
+    "key" TEXT NOT NULL,
+    "signature" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" DATETIME,
+    "userId" TEXT NOT NULL,
+    "deviceId" TEXT,
+    CONSTRAINT "SignedPreKey_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "SignedPreKey_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "devices" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_SignedPreKey" ("createdAt", "expiresAt", "id", "isActive", "key", "keyId", "signature", "userId") SELECT "createdAt", "expiresAt", "id", "isActive", "key", "keyId", "signature", "userId" FROM "SignedPreKey";
+DROP TABLE "SignedPreKey";
+ALTER TABLE "new_SignedPreKey" RENAME TO "SignedPreKey";
+CREATE INDEX "SignedPreKey_userId_isActive_idx" ON "SignedPreKey"("userId", "isActive");
+CREATE INDEX "SignedPreKey_deviceId_isActive_idx" ON "SignedPreKey"("deviceId", "isActive");
+CREATE UNIQUE INDEX "SignedPreKey_deviceId_keyId_key" ON "SignedPreKey"("deviceId", "keyId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -1,7 +1,8 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import prisma from '@/db';
 import { logger } from '@/utils/logger';
-import { toggleRateLimit } from '../auth/handlers/accounts';
+import { rateLimiter, globalRateLimiter, type RateLimitBucket } from '../services/rateLimiter';
+import { getRetentionMetrics } from '../services/messageRetention';
 
 // In-memory store for dev purposes
 const devStore = {
@@ -18,8 +19,9 @@ async function adminAuth(request: FastifyRequest, reply: FastifyReply) {
 
 async function handleReset(request: FastifyRequest, reply: FastifyReply) {
   try {
-    // 1. Clear rate limit attempts (if using a more persistent store)
-    // For now, in-memory is reset on restart
+    // 1. Clear rate limit counters
+    await rateLimiter.clear('');
+    await globalRateLimiter.clear('');
 
     // 2. Clear database
     await prisma.user.deleteMany({});
@@ -34,37 +36,65 @@ async function handleReset(request: FastifyRequest, reply: FastifyReply) {
   }
 }
 
-async function handleToggleRateLimit(
-  request: FastifyRequest<{ Body: { disable: boolean } }>,
+/**
+ * List rate limit counters, optionally only keys starting with `prefix`
+ * (keys look like `<route>:<ip|handle|ip-handle|user-handle>:<value>`)
+ */
+async function handleListRateLimits(
+  request: FastifyRequest<{ Querystring: { prefix?: string } }>,
   reply: FastifyReply
 ) {
   try {
-    const { disable } = request.body;
-    toggleRateLimit(disable);
-    return reply.send({ success: true, message: `Rate limiting is now ${disable ? 'disabled' : 'enabled'}.` });
+    // With the database store both limiters read the same table
+    const entries = new Map<string, RateLimitBucket>();
+    for (const limiter of [globalRateLimiter, rateLimiter]) {
+      for (const entry of await limiter.list(request.query.prefix)) {
+        entries.set(`${entry.key}|${entry.windowStart.getTime()}`, entry);
+      }
+    }
+    return reply.send({ success: true, entries: [...entries.values()] });
   } catch (error) {
-    logger.error('Failed to toggle rate limit:', error);
-    return reply.status(500).send({ error: 'Failed to toggle rate limit' });
+    logger.error('Failed to list rate limits:', error);
+    return reply.status(500).send({ error: 'Failed to list rate limits' });
   }
 }
 
+/**
+ * Clear the counters of one key, or of every key starting with `prefix`
+ */
+async function handleClearRateLimits(
+  request: FastifyRequest<{ Querystring: { key?: string; prefix?: string } }>,
+  reply: FastifyReply
+) {
+  try {
+    const { key, prefix } = request.query;
+    if (!key && prefix === undefined) {
+      return reply.status(400).send({ error: 'Either key or prefix is required' });
+    }
+
+    let cleared = 0;
+    for (const limiter of [rateLimiter, globalRateLimiter]) {
+      cleared += key ? await limiter.reset(key) : await limiter.clear(prefix!);
+    }
+    logger.info(`Admin action: cleared ${cleared} rate limit entries for ${key ?? `prefix "${prefix}"`}`);
+
+    return reply.send({ success: true, cleared });
+  } catch (error) {
+    logger.error('Failed to clear rate limits:', error);
+    return reply.status(500).send({ error: 'Failed to clear rate limits' });
+  }
+}
+
+/**
+ * Counters of the message retention job since the server started
+ */
+async function handleRetentionMetrics(request: FastifyRequest, reply: FastifyReply) {
+  return reply.send({ success: true, metrics: getRetentionMetrics() });
+}
 
 export async function adminRoutes(fastify: FastifyInstance) {
   fastify.post('/reset', { preHandler: [adminAuth] }, handleReset);
-  fastify.post(
-    '/toggle-rate-limit',
-    {
-      preHandler: [adminAuth],
-      schema: {
-        body: {
-          type: 'object',
-          properties: {
-            disable: { type: 'boolean' }
-          },
-          required: ['disable']
-        }
-      } as const
-    },
-    handleToggleRateLimit
-  );
+  fastify.get<{ Querystring: { prefix?: string } }>('/rate-limits', { preHandler: [adminAuth] }, handleListRateLimits);
+  fastify.delete<{ Querystring: { key?: string; prefix?: string } }>('/rate-limits', { preHandler: [adminAuth] }, handleClearRateLimits);
+  fastify.get('/retention-metrics', { preHandler: [adminAuth] }, handleRetentionMetrics);
 }
\ No newline at end of file
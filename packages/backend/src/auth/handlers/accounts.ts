@@ -4,13 +4,13 @@ import * as libsignal from '@signalapp/libsignal-client';
 import { SignalCrypto } from '@/crypto/signalCrypto';
 
 import { logger } from '@/utils/logger';
+import { config } from '@/utils/config';
+import { rateLimiter, rateLimitKey } from '@/services/rateLimiter';
+import type { SignedPreKeyUpload } from '@/services/preKeys';
 
 
 const prismaClient = new PrismaClient();
 
-// Global flag to control rate limiting
-let isRateLimitDisabled = false;
-
 export interface CreateAccountRequest {
   handle: string;
   publicKey: string;
@@ -34,40 +34,10 @@ export interface CheckHandleRequest {
   handle: string;
 }
 
-// Rate limiting tracker (in production, use Redis)
-const rateLimitTracker = new Map<string, { count: number; resetTime: number }>();
-const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
-const MAX_REQUESTS_PER_WINDOW = 10;
-
-
-function checkRateLimit(request: FastifyRequest): boolean {
-  if (isRateLimitDisabled) {
-    logger.warn('Rate limiting is temporarily disabled.');
-    return true;
-  }
-  const clientIp = request.ip;
-  const now = Date.now();
-  
-  const existing = rateLimitTracker.get(clientIp);
-  
-  if (!existing || now > existing.resetTime) {
-    rateLimitTracker.set(clientIp, { count: 1, resetTime: now + RATE_LIMIT_WINDOW });
-    return true;
-  }
-  
-  if (existing.count >= MAX_REQUESTS_PER_WINDOW) {
-    return false;
-  }
-  
-  existing.count++;
-  return true;
-}
-
-
-export function toggleRateLimit(shouldDisable: boolean) {
-  isRateLimitDisabled = shouldDisable;
-  logger.info(`Rate limiting has been ${shouldDisable ? 'disabled' : 'enabled'}.`);
-}
+const accountCreationRule = {
+  limit: config.ACCOUNT_CREATION_RATE_LIMIT,
+  windowMs: config.ACCOUNT_CREATION_RATE_WINDOW
+};
 
 
 function validateHandle(handle: string): { valid: boolean; error?: string } {
@@ -132,6 +102,42 @@ function validatePublicKey(publicKey: string): { valid: boolean; error?: string;
 }
 
 
+function validateSigningKey(signingKey: string): { valid: boolean; error?: string } {
+  if (!signingKey || typeof signingKey !== 'string') {
+    return { valid: false, error: 'Signing key is required' };
+  }
+
+  // Ed25519 public keys are 32 bytes
+  if (Buffer.from(signingKey, 'base64').length !== 32) {
+    return { valid: false, error: 'Signing key must be a base64 Ed25519 public key' };
+  }
+
+  return { valid: true };
+}
+
+
+async function validateSignedPreKey(
+  signedPreKey: SignedPreKeyUpload,
+  signingKey: string
+): Promise<{ valid: boolean; error?: string }> {
+  if (
+    !signedPreKey ||
+    !Number.isInteger(signedPreKey.keyId) || signedPreKey.keyId < 0 ||
+    typeof signedPreKey.publicKey !== 'string' || !signedPreKey.publicKey ||
+    typeof signedPreKey.signature !== 'string' || !signedPreKey.signature
+  ) {
+    return { valid: false, error: 'Signed prekey with keyId, publicKey and signature is required' };
+  }
+
+  const verified = await SignalCrypto.verifyPreKeySignature(signedPreKey.publicKey, signedPreKey.signature, signingKey);
+  if (!verified) {
+    return { valid: false, error: 'Signed prekey signature is invalid' };
+  }
+
+  return { valid: true };
+}
+
+
 export async function checkHandleAvailability(request: FastifyRequest, reply: FastifyReply) {
   const { handle } = request.body as { handle: string };
   
@@ -157,17 +163,19 @@ export async function checkHandleAvailability(request: FastifyRequest, reply: Fa
 
 
 export async function createAccount(
-  request: FastifyRequest<{ Body: { handle: string, publicKey: string } }>,
+  request: FastifyRequest<{ Body: { handle: string, publicKey: string, signingKey: string, signedPreKey: SignedPreKeyUpload } }>,
   reply: FastifyReply
 ) {
-  const { handle, publicKey } = request.body;
+  const { handle, publicKey, signingKey, signedPreKey } = request.body;
 
   try {
     // Rate limiting
-    if (!checkRateLimit(request)) {
+    const limit = await rateLimiter.consume(rateLimitKey('account-create', 'ip', request.ip), accountCreationRule);
+    if (!limit.allowed) {
       return reply.status(429).send({
         error: 'Rate limit exceeded',
-        message: 'Too many account creation attempts. Please try again later.'
+        message: 'Too many account creation attempts. Please try again later.',
+        retryAfter: limit.retryAfter
       });
     }
 
@@ -180,11 +188,28 @@ export async function createAccount(
       });
     }
 
+    // The signing key verifies the first signed prekey here and every later
+    // rotation and login challenge, so it cannot be added afterwards
+    const signingKeyValidation = validateSigningKey(signingKey);
+    if (!signingKeyValidation.valid) {
+      return reply.status(400).send({
+        error: 'Invalid signing key',
+        message: signingKeyValidation.error
+      });
+    }
+
+    const signedPreKeyValidation = await validateSignedPreKey(signedPreKey, signingKey);
+    if (!signedPreKeyValidation.valid) {
+      return reply.status(400).send({
+        error: 'Invalid signed prekey',
+        message: signedPreKeyValidation.error
+      });
+    }
+
     // Store the caller-supplied public key *also* as the long-term identity
     // key used for E2EE so that both client and server speak the same
-    // crypto identity.  For now we simply mirror it into the Identity and
-    // SignedPreKey tables so that the existing key-bundle endpoint keeps
-  
+    // crypto identity.  The signed prekey stored next to it is the client's
+    // own, verified above.
 
     // Transaction to prevent race conditions
     const result = await prismaClient.$transaction(async (tx: any) => {
@@ -207,12 +232,14 @@ export async function createAccount(
           identity: {
             create: {
               publicKey, // SAME key – ensures symmetry
+              signingKey, // verifies signed prekey rotations
             },
           },
-          signedPreKey: {
+          signedPreKeys: {
             create: {
-              key: publicKey,
-              signature: '', // not yet signed – will be phased in later
+              keyId: signedPreKey.keyId,
+              key: signedPreKey.publicKey,
+              signature: signedPreKey.signature,
             },
           },
         },
@@ -222,7 +249,7 @@ export async function createAccount(
           publicKey: true,
           createdAt: true,
           identity: { select: { publicKey: true } },
-          signedPreKey: { select: { key: true, signature: true } },
+          signedPreKeys: { select: { keyId: true, key: true, signature: true } },
         }
       });
 
@@ -0,0 +1,263 @@
+import sodium from 'libsodium-wrappers';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { config } from '@/utils/config';
+import {
+  buildChallengeMessage,
+  createChallenge,
+  describeChallenge,
+  issueChallenge,
+  verifyChallengeResponse
+} from './challenges';
+
+interface Challenge {
+  id: string;
+  handle: string;
+  nonce: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+}
+
+interface Identity {
+  userId: string;
+  publicKey: string;
+  signingKey: string | null;
+}
+
+// The tables the challenge handlers touch
+const mockChallenges = new Map<string, Challenge>();
+const mockIdentities = new Map<string, Identity>(); // handle -> identity
+
+jest.mock('@/db', () => ({
+  __esModule: true,
+  default: {
+    authChallenge: {
+      create: async ({ data }: { data: Omit<Challenge, 'id' | 'usedAt'> }) => {
+        const challenge = { ...data, id: `challenge-${mockChallenges.size + 1}`, usedAt: null };
+        mockChallenges.set(challenge.id, challenge);
+        return { ...challenge };
+      },
+      updateMany: async ({ where, data }: {
+        where: { id: string; handle: string; usedAt: null; expiresAt: { gt: Date } };
+        data: { usedAt: Date };
+      }) => {
+        const challenge = mockChallenges.get(where.id);
+        if (!challenge || challenge.handle !== where.handle || challenge.usedAt || challenge.expiresAt <= where.expiresAt.gt) {
+          return { count: 0 };
+        }
+        challenge.usedAt = data.usedAt;
+        return { count: 1 };
+      },
+      findUnique: async ({ where }: { where: { id: string } }) => {
+        const challenge = mockChallenges.get(where.id);
+        return challenge ? { ...challenge } : null;
+      }
+    },
+    user: {
+      findUnique: async ({ where }: { where: { handle: string } }) => {
+        const identity = mockIdentities.get(where.handle);
+        return identity ? { id: identity.userId, identity: { ...identity } } : null;
+      }
+    },
+    identityKey: {
+      updateMany: async ({ where, data }: { where: { userId: string; signingKey: null }; data: { signingKey: string } }) => {
+        const identity = [...mockIdentities.values()].find((entry) => entry.userId === where.userId && !entry.signingKey);
+        if (!identity) {
+          return { count: 0 };
+        }
+        identity.signingKey = data.signingKey;
+        return { count: 1 };
+      }
+    }
+  }
+}));
+
+// Challenges are counted in memory here instead of in the RateLimitEntry table
+jest.mock('@/services/rateLimiter', () => {
+  const actual = jest.requireActual<typeof import('@/services/rateLimiter')>('@/services/rateLimiter');
+  return { ...actual, rateLimiter: new actual.RateLimiter(new actual.MemoryRateLimitStore()) };
+});
+
+const HANDLE = 'ABC-123';
+
+const createAccount = (handle: string, userId: string, withSigningKey: boolean) => {
+  const identityKey = sodium.crypto_box_keypair();
+  const signingKey = sodium.crypto_sign_keypair();
+  mockIdentities.set(handle, {
+    userId,
+    publicKey: Buffer.from(identityKey.publicKey).toString('base64'),
+    signingKey: withSigningKey ? sodium.to_base64(signingKey.publicKey) : null
+  });
+  return { identityKey, signingKey };
+};
+
+const sign = (handle: string, nonce: string, privateKey: Uint8Array) =>
+  sodium.to_base64(sodium.crypto_sign_detached(sodium.from_string(buildChallengeMessage(handle, nonce)), privateKey));
+
+const fakeReply = () => {
+  const reply = {
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      reply.statusCode = code;
+      return reply;
+    },
+    send(body: unknown) {
+      reply.body = body;
+      return reply;
+    }
+  };
+  return reply;
+};
+
+const requestChallenge = async (handle: string, ip: string) => {
+  const reply = fakeReply();
+  await createChallenge(
+    { body: { handle }, ip } as unknown as FastifyRequest<{ Body: { handle: string } }>,
+    reply as unknown as FastifyReply
+  );
+  return reply;
+};
+
+describe('login challenges', () => {
+  beforeAll(async () => {
+    await sodium.ready;
+  });
+
+  beforeEach(() => {
+    mockChallenges.clear();
+    mockIdentities.clear();
+  });
+
+  describe('issueChallenge', () => {
+    it('stores a fresh nonce that expires after the challenge TTL', async () => {
+      const before = Date.now();
+      const first = await issueChallenge(HANDLE);
+      const second = await issueChallenge(HANDLE);
+
+      expect(first.handle).toBe(HANDLE);
+      expect(first.nonce).not.toBe(second.nonce);
+      expect(sodium.from_base64(first.nonce)).toHaveLength(32);
+      expect(first.expiresAt.getTime()).toBeGreaterThanOrEqual(before + config.AUTH_CHALLENGE_TTL);
+    });
+  });
+
+  describe('verifyChallengeResponse', () => {
+    it('accepts a signature over the challenge with the registered signing key', async () => {
+      const { signingKey } = createAccount(HANDLE, 'user-1', true);
+      const challenge = await issueChallenge(HANDLE);
+
+      await expect(verifyChallengeResponse(challenge.id, HANDLE, sign(HANDLE, challenge.nonce, signingKey.privateKey)))
+        .resolves.toBe(true);
+    });
+
+    it('rejects a replayed response', async () => {
+      const { signingKey } = createAccount(HANDLE, 'user-1', true);
+      const challenge = await issueChallenge(HANDLE);
+      const signature = sign(HANDLE, challenge.nonce, signingKey.privateKey);
+
+      await expect(verifyChallengeResponse(challenge.id, HANDLE, signature)).resolves.toBe(true);
+      await expect(verifyChallengeResponse(challenge.id, HANDLE, signature)).resolves.toBe(false);
+    });
+
+    it('uses up the challenge on a wrong first answer', async () => {
+      const { signingKey } = createAccount(HANDLE, 'user-1', true);
+      const challenge = await issueChallenge(HANDLE);
+      const wrongKey = sodium.crypto_sign_keypair();
+
+      await expect(verifyChallengeResponse(challenge.id, HANDLE, sign(HANDLE, challenge.nonce, wrongKey.privateKey)))
+        .resolves.toBe(false);
+      await expect(verifyChallengeResponse(challenge.id, HANDLE, sign(HANDLE, challenge.nonce, signingKey.privateKey)))
+        .resolves.toBe(false);
+    });
+
+    it('rejects an expired challenge', async () => {
+      const { signingKey } = createAccount(HANDLE, 'user-1', true);
+      const challenge = await issueChallenge(HANDLE);
+      mockChallenges.get(challenge.id)!.expiresAt = new Date(Date.now() - 1000);
+
+      await expect(verifyChallengeResponse(challenge.id, HANDLE, sign(HANDLE, challenge.nonce, signingKey.privateKey)))
+        .resolves.toBe(false);
+    });
+
+    it('rejects a challenge issued for another handle', async () => {
+      createAccount(HANDLE, 'user-1', true);
+      const { signingKey } = createAccount('XYZ-999', 'user-2', true);
+      const challenge = await issueChallenge(HANDLE);
+
+      await expect(verifyChallengeResponse(challenge.id, 'XYZ-999', sign('XYZ-999', challenge.nonce, signingKey.privateKey)))
+        .resolves.toBe(false);
+    });
+
+    it('rejects a signature over another handle', async () => {
+      const { signingKey } = createAccount(HANDLE, 'user-1', true);
+      const challenge = await issueChallenge(HANDLE);
+
+      await expect(verifyChallengeResponse(challenge.id, HANDLE, sign('XYZ-999', challenge.nonce, signingKey.privateKey)))
+        .resolves.toBe(false);
+    });
+  });
+
+  describe('accounts without a signing key', () => {
+    const openProof = async (identityKey: sodium.KeyPair, challenge: { id: string; nonce: string; expiresAt: Date }) => {
+      const described = await describeChallenge(challenge, mockIdentities.get(HANDLE)!);
+      expect(described).toHaveProperty('sealedProof');
+      const sealedProof = (described as { sealedProof: string }).sealedProof;
+      return sodium.to_string(sodium.crypto_box_seal_open(sodium.from_base64(sealedProof), identityKey.publicKey, identityKey.privateKey));
+    };
+
+    it('registers the signing key once the sealed proof comes back', async () => {
+      const { identityKey, signingKey } = createAccount(HANDLE, 'user-1', false);
+      const challenge = await issueChallenge(HANDLE);
+      const legacyProof = await openProof(identityKey, challenge);
+
+      await expect(verifyChallengeResponse(challenge.id, HANDLE, sign(HANDLE, challenge.nonce, signingKey.privateKey), {
+        signingKey: sodium.to_base64(signingKey.publicKey),
+        legacyProof
+      })).resolves.toBe(true);
+      expect(mockIdentities.get(HANDLE)!.signingKey).toBe(sodium.to_base64(signingKey.publicKey));
+    });
+
+    it('does not register a signing key without the proof', async () => {
+      const { signingKey } = createAccount(HANDLE, 'user-1', false);
+      const challenge = await issueChallenge(HANDLE);
+
+      await expect(verifyChallengeResponse(challenge.id, HANDLE, sign(HANDLE, challenge.nonce, signingKey.privateKey), {
+        signingKey: sodium.to_base64(signingKey.publicKey),
+        legacyProof: Buffer.alloc(32).toString('base64')
+      })).resolves.toBe(false);
+      expect(mockIdentities.get(HANDLE)!.signingKey).toBeNull();
+    });
+
+    it('only seals a proof for accounts without a signing key', async () => {
+      createAccount(HANDLE, 'user-1', true);
+      const challenge = await issueChallenge(HANDLE);
+
+      expect(await describeChallenge(challenge, mockIdentities.get(HANDLE)!)).not.toHaveProperty('sealedProof');
+    });
+  });
+
+  describe('createChallenge', () => {
+    it('limits challenges per caller and handle', async () => {
+      createAccount(HANDLE, 'user-1', true);
+
+      for (let i = 0; i < config.AUTH_CHALLENGE_RATE_LIMIT; i++) {
+        expect((await requestChallenge(HANDLE, '10.0.0.1')).statusCode).toBe(201);
+      }
+      expect((await requestChallenge(HANDLE, '10.0.0.1')).statusCode).toBe(429);
+    });
+
+    it('leaves the quota of other callers for the same handle alone', async () => {
+      createAccount(HANDLE, 'user-1', true);
+
+      for (let i = 0; i <= config.AUTH_CHALLENGE_RATE_LIMIT; i++) {
+        await requestChallenge(HANDLE, '10.0.0.2');
+      }
+      expect((await requestChallenge(HANDLE, '10.0.0.3')).statusCode).toBe(201);
+    });
+
+    it('returns 404 for an unknown handle', async () => {
+      expect((await requestChallenge('XYZ-999', '10.0.0.4')).statusCode).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import crypto from 'crypto';
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import sodium from 'libsodium-wrappers';
+import prisma from '@/db';
+import { logger } from '@/utils/logger';
+import { config } from '@/utils/config';
+import { SignalCrypto } from '@/crypto/signalCrypto';
+import { rateLimiter, rateLimitKey } from '@/services/rateLimiter';
+
+const challengeRequestSchema = z.object({
+  handle: z.string().regex(/^[A-Z]{3}-\d{3}$/, 'Handle must be in format ABC-123')
+});
+
+/**
+ * Extra fields of a challenge response from an account registered before
+ * signing keys existed: the opened `sealedProof` and the signing key to register
+ */
+export const signingKeyBootstrapFields = {
+  signingKey: z.string().min(1).optional(),
+  legacyProof: z.string().min(1).optional()
+};
+
+export interface SigningKeyBootstrap {
+  signingKey?: string;
+  legacyProof?: string;
+}
+
+/**
+ * The exact string a client signs to answer a login challenge.
+ * Binding the handle and a prefix keeps the signature from being
+ * reused for anything other than logging in as this handle.
+ */
+export const buildChallengeMessage = (handle: string, nonce: string): string =>
+  `secmes-login:${handle}:${nonce}`;
+
+/**
+ * Store a fresh single-use nonce for `handle`
+ */
+export const issueChallenge = async (handle: string) => {
+  await sodium.ready;
+  const nonce = sodium.to_base64(sodium.randombytes_buf(32));
+
+  return prisma.authChallenge.create({
+    data: {
+      handle,
+      nonce,
+      expiresAt: new Date(Date.now() + config.AUTH_CHALLENGE_TTL)
+    }
+  });
+};
+
+const legacyProofFor = (challengeId: string, nonce: string): Buffer =>
+  crypto.createHmac('sha256', config.JWT_SECRET).update(`signing-key-bootstrap:${challengeId}:${nonce}`).digest();
+
+/**
+ * The challenge as sent to the client. Accounts without a signing key cannot
+ * answer with a verifiable signature yet, so they also get a proof sealed to
+ * their X25519 identity key, which only the key owner can open and return.
+ */
+export const describeChallenge = async (
+  challenge: { id: string; nonce: string; expiresAt: Date },
+  identity: { publicKey: string; signingKey: string | null } | null
+) => {
+  const description = {
+    challengeId: challenge.id,
+    nonce: challenge.nonce,
+    expiresAt: challenge.expiresAt
+  };
+
+  await sodium.ready;
+  const identityKey = identity && !identity.signingKey ? Buffer.from(identity.publicKey, 'base64') : null;
+  if (!identityKey || identityKey.length !== sodium.crypto_box_PUBLICKEYBYTES) {
+    return description;
+  }
+
+  const proof = legacyProofFor(challenge.id, challenge.nonce).toString('base64');
+  const sealedProof = sodium.to_base64(sodium.crypto_box_seal(sodium.from_string(proof), identityKey));
+
+  return { ...description, sealedProof };
+};
+
+/**
+ * Issue a single-use nonce bound to a handle
+ */
+export const createChallenge = async (
+  request: FastifyRequest<{ Body: typeof challengeRequestSchema._type }>,
+  reply: FastifyReply
+) => {
+  try {
+    const { handle } = challengeRequestSchema.parse(request.body);
+
+    // Counted per caller and handle: one caller cannot flood an account with
+    // challenges, and cannot use up the quota of the account's owner either
+    const limit = await rateLimiter.consume(rateLimitKey('auth-challenge', 'ip-handle', `${request.ip}/${handle}`), {
+      limit: config.AUTH_CHALLENGE_RATE_LIMIT,
+      windowMs: config.AUTH_CHALLENGE_RATE_WINDOW
+    });
+    if (!limit.allowed) {
+      return reply.status(429).send({
+        error: 'Rate limit exceeded',
+        message: 'Too many login attempts for this handle. Please try again later.',
+        retryAfter: limit.retryAfter
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { handle },
+      select: { identity: { select: { publicKey: true, signingKey: true } } }
+    });
+
+    if (!user) {
+      return reply.status(404).send({
+        error: 'Benutzer nicht gefunden',
+        message: 'Kein Benutzer mit diesem Handle gefunden'
+      });
+    }
+
+    const challenge = await issueChallenge(handle);
+
+    return reply.status(201).send(await describeChallenge(challenge, user.identity));
+
+  } catch (error) {
+    logger.error('Challenge creation failed:', error);
+
+    if (error instanceof z.ZodError) {
+      return reply.status(400).send({
+        error: 'Validation Error',
+        message: error.errors
+      });
+    }
+
+    return reply.status(500).send({
+      error: 'Internal Server Error',
+      message: 'Failed to create challenge'
+    });
+  }
+};
+
+/**
+ * Consume a challenge and check the client's signature over it.
+ *
+ * User.publicKey is an X25519 key and cannot verify signatures, so the
+ * signature is checked against the Ed25519 signing key registered with the
+ * identity, which is derived from the same private key.
+ * An account without a signing key proves possession of the identity key by
+ * returning the proof sealed in describeChallenge instead; the signing key it
+ * sends is then checked against the signature and registered.
+ * The challenge is marked used before verification so it can never be
+ * answered twice, even with a wrong first attempt.
+ */
+export const verifyChallengeResponse = async (
+  challengeId: string,
+  handle: string,
+  signature: string,
+  bootstrap: SigningKeyBootstrap = {}
+): Promise<boolean> => {
+  const claimed = await prisma.authChallenge.updateMany({
+    where: {
+      id: challengeId,
+      handle,
+      usedAt: null,
+      expiresAt: { gt: new Date() }
+    },
+    data: { usedAt: new Date() }
+  });
+
+  if (claimed.count !== 1) {
+    logger.warn(`Challenge ${challengeId} for ${handle} is unknown, expired or already used`);
+    return false;
+  }
+
+  const challenge = await prisma.authChallenge.findUnique({ where: { id: challengeId } });
+  const user = await prisma.user.findUnique({
+    where: { handle },
+    include: { identity: true }
+  });
+
+  if (!challenge || !user?.identity) {
+    logger.warn(`No identity registered for ${handle}, cannot verify challenge`);
+    return false;
+  }
+
+  const message = buildChallengeMessage(handle, challenge.nonce);
+
+  if (user.identity.signingKey) {
+    return SignalCrypto.verifySignature(message, signature, user.identity.signingKey);
+  }
+
+  if (!bootstrap.signingKey || !bootstrap.legacyProof) {
+    logger.warn(`No signing key registered for ${handle}, cannot verify challenge`);
+    return false;
+  }
+
+  const expected = legacyProofFor(challenge.id, challenge.nonce);
+  const presented = Buffer.from(bootstrap.legacyProof, 'base64');
+  if (expected.length !== presented.length || !crypto.timingSafeEqual(expected, presented)) {
+    logger.warn(`Invalid identity proof for ${handle}`);
+    return false;
+  }
+
+  if (!await SignalCrypto.verifySignature(message, signature, bootstrap.signingKey)) {
+    return false;
+  }
+
+  // Only the first bootstrap wins, a registered signing key is never replaced here
+  const registered = await prisma.identityKey.updateMany({
+    where: { userId: user.id, signingKey: null },
+    data: { signingKey: bootstrap.signingKey }
+  });
+
+  if (registered.count !== 1) {
+    return false;
+  }
+
+  logger.info(`Registered signing key for ${handle}`);
+  return true;
+};
+
+/**
+ * Remove expired and used challenges (called periodically)
+ */
+export const cleanupExpiredChallenges = async () => {
+  try {
+    const result = await prisma.authChallenge.deleteMany({
+      where: {
+        OR: [
+          { expiresAt: { lt: new Date() } },
+          { usedAt: { not: null } }
+        ]
+      }
+    });
+
+    if (result.count > 0) {
+      logger.info(`Cleaned up ${result.count} auth challenges`);
+    }
+  } catch (error) {
+    logger.error('Error cleaning up auth challenges:', error);
+  }
+};
@@ -4,11 +4,15 @@ import jwt from 'jsonwebtoken';
 import prisma from '@/db';
 import { logger } from '@/utils/logger';
 import { config } from '@/utils/config';
+import { signingKeyBootstrapFields, verifyChallengeResponse } from './challenges';
 
 // Session creation schema
 const sessionCreateSchema = z.object({
   handle: z.string().regex(/^[A-Z]{3}-\d{3}$/, 'Handle must be in format ABC-123'),
-  deviceId: z.string().min(1)
+  deviceId: z.string().min(1),
+  challengeId: z.string().min(1),
+  signature: z.string().min(1),
+  ...signingKeyBootstrapFields
 });
 
 // Heartbeat schema
@@ -29,12 +33,128 @@ export interface SessionData {
 }
 
 
+export const deviceSessionErrors: Record<string, { status: number; error: string; message: string }> = {
+  DEVICE_OWNED_BY_OTHER_ACCOUNT: { status: 409, error: 'Conflict', message: 'Device is registered to another account' },
+  DEVICE_REVOKED: { status: 403, error: 'Forbidden', message: 'Device has been revoked' },
+};
+
+/**
+ * Register the device for `user` and open a fresh session on it.
+ * Only the previous session of this device is replaced; the caller must have
+ * verified possession of the identity key already.
+ */
+export const openDeviceSession = async (
+  user: { id: string; publicKey: string },
+  deviceId: string
+) => {
+  // Check if device exists, create if not. Every deviceId is its own
+  // Device record, so one account can stay signed in on several devices.
+  let device = await prisma.device.findUnique({
+    where: { deviceId }
+  });
+
+  if (!device) {
+    logger.info(`Creating new device record for deviceId: ${deviceId}`);
+
+    // Create device record with basic Signal Protocol data
+    device = await prisma.device.create({
+      data: {
+        userId: user.id,
+        deviceId,
+        publicKey: user.publicKey, // Use user's public key for device
+        registrationId: Math.floor(Math.random() * 16380) + 1, // Random registration ID (1-16383)
+        signedPreKeyId: 1,
+        signedPreKey: user.publicKey, 
+        preKeySignature: "",
+        identityKey: user.publicKey, // Use user's identity key
+        isActive: true
+      }
+    });
+
+    // The signed prekey uploaded at registration was made by the device that
+    // signs in first; other devices publish their own on their first start
+    await prisma.signedPreKey.updateMany({
+      where: { userId: user.id, deviceId: null, isActive: true },
+      data: { deviceId: device.id }
+    });
+
+    logger.info(`Device created with ID: ${device.id}`);
+  } else {
+    // A device stays with the account it was registered for, and a revoked
+    // device cannot sign itself back in
+    if (device.userId !== user.id) {
+      throw new Error('DEVICE_OWNED_BY_OTHER_ACCOUNT');
+    }
+    if (!device.isActive) {
+      throw new Error('DEVICE_REVOKED');
+    }
+
+    device = await prisma.device.update({
+      where: { deviceId },
+      data: {
+        publicKey: user.publicKey,
+        identityKey: user.publicKey,
+        lastSeen: new Date()
+      }
+    });
+
+    logger.info(`Updated existing device: ${device.id}`);
+  }
+
+  // Only the previous session of this device is replaced; other devices stay signed in
+  await prisma.session.updateMany({
+    where: {
+      deviceId: device.id,
+      isActive: true
+    },
+    data: {
+      isActive: false
+    }
+  });
+
+  const expiresAt = new Date();
+  expiresAt.setHours(expiresAt.getHours() + 24); // 24 hour expiry
+
+  // Create new session first to get the session ID
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      deviceId: device.id, // Use the device's ID (primary key)
+      token: 'placeholder', // Will be updated with JWT
+      isActive: true,
+      lastHeartbeat: new Date(),
+      expiresAt
+    }
+  });
+
+  // Generate JWT token with session info
+  const jwtPayload = {
+    userId: user.id,
+    deviceId: device.id,
+    sessionId: session.id
+  };
+
+  const token = jwt.sign(jwtPayload, config.JWT_SECRET, {
+    expiresIn: '24h'
+  });
+
+  // Update session with the JWT token
+  const updatedSession = await prisma.session.update({
+    where: { id: session.id },
+    data: { 
+      token
+    }
+  });
+
+  return { device, session: updatedSession };
+};
+
 export const createSession = async (
   request: FastifyRequest<{ Body: typeof sessionCreateSchema._type }>,
   reply: FastifyReply
 ) => {
   try {
-    const { handle, deviceId } = sessionCreateSchema.parse(request.body);
+    const { handle, deviceId, challengeId, signature, ...bootstrap } = sessionCreateSchema.parse(request.body);
 
     // Find the user
     logger.info(`Looking for user with handle: "${handle}"`);
@@ -55,105 +175,17 @@ export const createSession = async (
       });
     }
 
-    // Check for existing active sessions and invalidate them
-    await prisma.session.updateMany({
-      where: {
-        userId: user.id,
-        isActive: true
-      },
-      data: {
-        isActive: false
-      }
-    });
-
-    // Check if device exists, create if not
-    let device = await prisma.device.findUnique({
-      where: { deviceId }
-    });
-
-    if (!device) {
-      // Also check if a device with this public key already exists for this user
-      const existingDeviceWithKey = await prisma.device.findUnique({
-        where: { publicKey: user.publicKey }
-      });
-
-      if (existingDeviceWithKey) {
-        // Update the existing device with new deviceId
-        device = await prisma.device.update({
-          where: { id: existingDeviceWithKey.id },
-          data: {
-            deviceId,
-            isActive: true,
-            lastSeen: new Date()
-          }
-        });
-        logger.info(`Updated existing device with same public key: ${device.id}`);
-      } else {
-        logger.info(`Creating new device record for deviceId: ${deviceId}`);
-        
-        // Create device record with basic Signal Protocol data
-        device = await prisma.device.create({
-          data: {
-            userId: user.id,
-            deviceId,
-            publicKey: user.publicKey, // Use user's public key for device
-            registrationId: Math.floor(Math.random() * 16380) + 1, // Random registration ID (1-16383)
-            signedPreKeyId: 1,
-            signedPreKey: user.publicKey, 
-            preKeySignature: "",
-            identityKey: user.publicKey, // Use user's identity key
-            isActive: true
-          }
-        });
-        
-        logger.info(`Device created with ID: ${device.id}`);
-      }
-    } else {
-      // Update device as active and last seen
-      device = await prisma.device.update({
-        where: { deviceId },
-        data: {
-          isActive: true,
-          lastSeen: new Date()
-        }
+    // Proof of possession: the caller must have signed our challenge with the identity key
+    const proofValid = await verifyChallengeResponse(challengeId, handle, signature, bootstrap);
+    if (!proofValid) {
+      logger.warn(`Session creation for ${handle} rejected: invalid challenge response`);
+      return reply.status(401).send({
+        error: 'Unauthorized',
+        message: 'Challenge signature invalid or expired'
       });
-      
-      logger.info(`Updated existing device: ${device.id}`);
     }
 
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + 24); // 24 hour expiry
-
-    // Create new session first to get the session ID
-    const session = await prisma.session.create({
-      data: {
-        userId: user.id,
-        deviceId: device.id, // Use the device's ID (primary key)
-        token: 'placeholder', // Will be updated with JWT
-        isActive: true,
-        lastHeartbeat: new Date(),
-        expiresAt
-      }
-    });
-
-    // Generate JWT token with session info
-    const jwtPayload = {
-      userId: user.id,
-      deviceId: device.id,
-      sessionId: session.id
-    };
-
-    const token = jwt.sign(jwtPayload, config.JWT_SECRET, {
-      expiresIn: '24h'
-    });
-
-    // Update session with the JWT token
-    const updatedSession = await prisma.session.update({
-      where: { id: session.id },
-      data: { 
-        token
-      }
-    });
+    const { session: updatedSession } = await openDeviceSession(user, deviceId);
 
     logger.info(`Session created for user ${handle} on device ${deviceId}`);
 
@@ -174,6 +206,11 @@ export const createSession = async (
       });
     }
 
+    const deviceError = error instanceof Error ? deviceSessionErrors[error.message] : undefined;
+    if (deviceError) {
+      return reply.status(deviceError.status).send({ error: deviceError.error, message: deviceError.message });
+    }
+
     // Handle Prisma constraint errors
     if (error.code === 'P2002') {
       logger.error('Database constraint violation:', error.meta);
@@ -8,6 +8,7 @@ import {
   deleteAccountWithRecovery,
 } from './handlers/accounts';
 import { createSession, handleHeartbeat, logout } from './handlers/sessions';
+import { createChallenge } from './handlers/challenges';
 
 export async function authRoutes(fastify: FastifyInstance) {
   fastify.post('/register', createAccount);
@@ -16,6 +17,7 @@ export async function authRoutes(fastify: FastifyInstance) {
   fastify.delete('/account', deleteAccount);
   fastify.delete('/delete-with-recovery', deleteAccountWithRecovery);
   fastify.get('/health', healthCheck);
+  fastify.post('/challenge', createChallenge);
   fastify.post('/session', createSession);
   fastify.post('/heartbeat', handleHeartbeat);
   fastify.post('/logout', logout);
@@ -14,6 +14,7 @@ const updateContactSchema = z.object({
   contactId: z.string(),
   nickname: z.string().optional(),
   isBlocked: z.boolean().optional(),
+  isVerified: z.boolean().optional(),
 });
 
 
@@ -205,6 +206,9 @@ export const updateContact = async (
       data: {
         nickname: body.nickname,
         isBlocked: body.isBlocked,
+        // Set once both sides verified each other in person
+        isVerified: body.isVerified,
+        verifiedAt: body.isVerified === undefined ? undefined : body.isVerified ? new Date() : null,
       },
       include: {
         contact: {
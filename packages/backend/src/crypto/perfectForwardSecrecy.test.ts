@@ -0,0 +1,194 @@
+import sodium from 'libsodium-wrappers';
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { RatchetState } from '@secure-messenger/shared';
+import { PerfectForwardSecrecy as BackendPFS, RatchetCipherPacket } from './perfectForwardSecrecy';
+import { PerfectForwardSecrecy as WebPFS } from '../../../web-app/src/lib/crypto/perfectForwardSecrecy';
+
+type RatchetImplementation = Pick<typeof BackendPFS, 'initializeRatchet' | 'encryptWithPFS' | 'decryptWithPFS'>;
+
+// Both packages keep their own copy of the ratchet; messages must cross between them
+const implementations: [string, RatchetImplementation, RatchetImplementation][] = [
+  ['backend initiator, backend responder', BackendPFS, BackendPFS],
+  ['web-app initiator, backend responder', WebPFS, BackendPFS],
+  ['backend initiator, web-app responder', BackendPFS, WebPFS]
+];
+
+describe.each(implementations)('Double Ratchet (%s)', (_name, Initiator, Responder) => {
+  let alice: RatchetState;
+  let bob: RatchetState;
+
+  beforeEach(async () => {
+    await sodium.ready;
+    const sessionKey = sodium.randombytes_buf(32);
+    const signedPreKey = sodium.crypto_box_keypair();
+    alice = await Initiator.initializeRatchet(sessionKey, true, { publicKey: signedPreKey.publicKey });
+    bob = await Responder.initializeRatchet(sessionKey, false, signedPreKey);
+  });
+
+  const send = (Sender: RatchetImplementation, state: RatchetState, message: string) =>
+    Sender.encryptWithPFS(message, state);
+  const receive = (
+    Receiver: RatchetImplementation,
+    packet: RatchetCipherPacket,
+    state: RatchetState,
+    maxSkippedKeys?: number
+  ) => Receiver.decryptWithPFS(packet, state, maxSkippedKeys);
+
+  it('exchanges messages in both directions', async () => {
+    for (let round = 0; round < 3; round++) {
+      const fromAlice = await send(Initiator, alice, `alice ${round}`);
+      alice = fromAlice.newRatchetState;
+      const receivedByBob = await receive(Responder, fromAlice.cipherPacket, bob);
+      bob = receivedByBob.newRatchetState;
+      expect(receivedByBob.message).toBe(`alice ${round}`);
+
+      const fromBob = await send(Responder, bob, `bob ${round}`);
+      bob = fromBob.newRatchetState;
+      const receivedByAlice = await receive(Initiator, fromBob.cipherPacket, alice);
+      alice = receivedByAlice.newRatchetState;
+      expect(receivedByAlice.message).toBe(`bob ${round}`);
+    }
+  });
+
+  it('uses the responder\'s signed prekey as its first ratchet key', async () => {
+    const sent = await send(Initiator, alice, 'hello');
+
+    const otherSignedPreKey = sodium.crypto_box_keypair();
+    const impostor = { ...bob, sendingRatchetKey: otherSignedPreKey };
+    await expect(receive(Responder, sent.cipherPacket, impostor)).rejects.toThrow();
+
+    const received = await receive(Responder, sent.cipherPacket, bob);
+    expect(received.message).toBe('hello');
+  });
+
+  it('lets the responder send first', async () => {
+    const fromBob = await send(Responder, bob, 'hi first');
+    bob = fromBob.newRatchetState;
+    const received = await receive(Initiator, fromBob.cipherPacket, alice);
+    expect(received.message).toBe('hi first');
+    alice = received.newRatchetState;
+
+    const fromAlice = await send(Initiator, alice, 'hi back');
+    const reply = await receive(Responder, fromAlice.cipherPacket, bob);
+    expect(reply.message).toBe('hi back');
+  });
+
+  it('sends a new ratchet key after every reply', async () => {
+    const first = await send(Initiator, alice, 'one');
+    alice = first.newRatchetState;
+    bob = (await receive(Responder, first.cipherPacket, bob)).newRatchetState;
+
+    const reply = await send(Responder, bob, 'two');
+    bob = reply.newRatchetState;
+    alice = (await receive(Initiator, reply.cipherPacket, alice)).newRatchetState;
+
+    const second = await send(Initiator, alice, 'three');
+
+    expect(reply.cipherPacket.ratchetKey).not.toBe(first.cipherPacket.ratchetKey);
+    expect(second.cipherPacket.ratchetKey).not.toBe(first.cipherPacket.ratchetKey);
+    expect(second.cipherPacket.ratchetKey).not.toBe(reply.cipherPacket.ratchetKey);
+    expect(second.cipherPacket.messageNumber).toBe(0);
+    expect(second.cipherPacket.previousChainLength).toBe(1);
+  });
+
+  it('keeps a leaked chain key from decrypting messages after the next DH step', async () => {
+    const first = await send(Initiator, alice, 'before');
+    alice = first.newRatchetState;
+    const leakedChainKey = alice.sendingChainKey.slice();
+    bob = (await receive(Responder, first.cipherPacket, bob)).newRatchetState;
+
+    const reply = await send(Responder, bob, 'reply');
+    bob = reply.newRatchetState;
+    alice = (await receive(Initiator, reply.cipherPacket, alice)).newRatchetState;
+
+    const after = await send(Initiator, alice, 'after');
+    const attacker = {
+      ...bob,
+      receivingChainKey: leakedChainKey,
+      receivingRatchetKey: after.cipherPacket.ratchetKey,
+      receiveMessageNumber: 0,
+      skippedKeys: new Map()
+    };
+
+    await expect(receive(Responder, after.cipherPacket, attacker)).rejects.toThrow();
+    const received = await receive(Responder, after.cipherPacket, bob);
+    expect(received.message).toBe('after');
+  });
+
+  it('decrypts out-of-order messages across ratchet steps', async () => {
+    const packets: Awaited<ReturnType<RatchetImplementation['encryptWithPFS']>>[] = [];
+    for (let i = 0; i < 3; i++) {
+      const sent = await send(Initiator, alice, `first chain ${i}`);
+      alice = sent.newRatchetState;
+      packets.push(sent);
+    }
+
+    bob = (await receive(Responder, packets[2].cipherPacket, bob)).newRatchetState;
+    expect(bob.skippedKeys.size).toBe(2);
+
+    const reply = await send(Responder, bob, 'reply');
+    bob = reply.newRatchetState;
+    alice = (await receive(Initiator, reply.cipherPacket, alice)).newRatchetState;
+
+    const later = await send(Initiator, alice, 'second chain');
+    alice = later.newRatchetState;
+    let received = await receive(Responder, later.cipherPacket, bob);
+    bob = received.newRatchetState;
+    expect(received.message).toBe('second chain');
+
+    received = await receive(Responder, packets[0].cipherPacket, bob);
+    bob = received.newRatchetState;
+    expect(received.message).toBe('first chain 0');
+
+    received = await receive(Responder, packets[1].cipherPacket, bob);
+    bob = received.newRatchetState;
+    expect(received.message).toBe('first chain 1');
+    expect(bob.skippedKeys.size).toBe(0);
+  });
+
+  it('rejects replayed messages', async () => {
+    const sent = await send(Initiator, alice, 'once');
+    bob = (await receive(Responder, sent.cipherPacket, bob)).newRatchetState;
+
+    await expect(receive(Responder, sent.cipherPacket, bob)).rejects.toThrow();
+  });
+
+  it('bounds the skipped message key store', async () => {
+    const maxSkippedKeys = 5;
+
+    // Gaps spread over several chains never keep more than the limit
+    for (let round = 0; round < 3; round++) {
+      let last!: Awaited<ReturnType<RatchetImplementation['encryptWithPFS']>>;
+      for (let i = 0; i < maxSkippedKeys; i++) {
+        last = await send(Initiator, alice, `round ${round} message ${i}`);
+        alice = last.newRatchetState;
+      }
+      bob = (await receive(Responder, last.cipherPacket, bob, maxSkippedKeys)).newRatchetState;
+      expect(bob.skippedKeys.size).toBeLessThanOrEqual(maxSkippedKeys);
+
+      const reply = await send(Responder, bob, `reply ${round}`);
+      bob = reply.newRatchetState;
+      alice = (await receive(Initiator, reply.cipherPacket, alice, maxSkippedKeys)).newRatchetState;
+    }
+
+    let sent!: Awaited<ReturnType<RatchetImplementation['encryptWithPFS']>>;
+    for (let i = 0; i <= maxSkippedKeys + 1; i++) {
+      sent = await send(Initiator, alice, `message ${i}`);
+      alice = sent.newRatchetState;
+    }
+
+    await expect(receive(Responder, sent.cipherPacket, bob, maxSkippedKeys)).rejects.toThrow(
+      'Too many skipped messages'
+    );
+  });
+
+  it('rejects a tampered header without changing the ratchet state', async () => {
+    const sent = await send(Initiator, alice, 'authentic');
+    const tampered = { ...sent.cipherPacket, previousChainLength: sent.cipherPacket.previousChainLength + 1 };
+
+    await expect(receive(Responder, tampered, bob)).rejects.toThrow();
+
+    const received = await receive(Responder, sent.cipherPacket, bob);
+    expect(received.message).toBe('authentic');
+  });
+});
@@ -106,6 +106,51 @@ export class SignalCrypto {
     return sodium.to_base64(signature);
   }
 
+  /**
+   * Returns the Ed25519 public key that signPreKey signs with.
+   */
+  static async getSigningPublicKey(identityKey: KeyPair): Promise<string> {
+    await sodium.ready;
+    const identityPrivateKeyBytes = sodium.from_base64(identityKey.privateKey);
+    const signingKeyPair = sodium.crypto_sign_seed_keypair(identityPrivateKeyBytes.slice(0, 32));
+    return sodium.to_base64(signingKeyPair.publicKey);
+  }
+
+  /**
+   * Verifies a pre-key signature created by signPreKey.
+   */
+  static async verifyPreKeySignature(preKey: string, signature: string, signingKey: string): Promise<boolean> {
+    await sodium.ready;
+    try {
+      return sodium.crypto_sign_verify_detached(
+        this.base64ToBytes(signature),
+        this.base64ToBytes(preKey),
+        this.base64ToBytes(signingKey)
+      );
+    } catch (error) {
+      console.warn('[Backend] Pre-key signature could not be verified:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Verifies a detached Ed25519 signature over a UTF-8 message,
+   * e.g. a login challenge signed with the identity's signing key.
+   */
+  static async verifySignature(message: string, signature: string, signingKey: string): Promise<boolean> {
+    await sodium.ready;
+    try {
+      return sodium.crypto_sign_verify_detached(
+        this.base64ToBytes(signature),
+        sodium.from_string(message),
+        this.base64ToBytes(signingKey)
+      );
+    } catch (error) {
+      console.warn('[Backend] Signature could not be verified:', error);
+      return false;
+    }
+  }
+
   /**
    * Converts hex-encoded keys to Uint8Array format.
    */
@@ -0,0 +1,201 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import prisma from '@/db';
+import { logger } from '@/utils/logger';
+import { wsManager } from '@/messaging/websocket';
+
+const renameDeviceSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+});
+
+interface DeviceSession {
+  id: string;
+  lastHeartbeat: Date;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+interface DeviceWithSessions {
+  id: string;
+  name: string | null;
+  isActive: boolean;
+  lastSeen: Date;
+  createdAt: Date;
+  sessions: DeviceSession[];
+}
+
+/**
+ * List the caller's devices with their active sessions
+ */
+export const listDevices = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { userId, deviceId } = request.user!;
+    const now = new Date();
+
+    const devices = await prisma.device.findMany({
+      where: { userId },
+      include: {
+        sessions: {
+          where: {
+            isActive: true,
+            expiresAt: { gt: now }
+          },
+          select: {
+            id: true,
+            lastHeartbeat: true,
+            createdAt: true,
+            expiresAt: true
+          },
+          orderBy: { lastHeartbeat: 'desc' }
+        }
+      },
+      orderBy: { lastSeen: 'desc' }
+    });
+
+    const connected = new Set(wsManager.getDeviceIds(userId));
+
+    return reply.send({
+      success: true,
+      devices: devices.map((device: DeviceWithSessions) => {
+        // Device.lastSeen only moves on login; session heartbeats are more recent
+        const latestHeartbeat = device.sessions[0]?.lastHeartbeat;
+        const lastSeen = latestHeartbeat && latestHeartbeat > device.lastSeen ? latestHeartbeat : device.lastSeen;
+
+        return {
+          id: device.id,
+          name: device.name,
+          isActive: device.isActive,
+          isCurrent: device.id === deviceId,
+          online: connected.has(device.id),
+          lastSeen,
+          createdAt: device.createdAt,
+          sessions: device.sessions.map((session: DeviceSession) => ({
+            id: session.id,
+            lastHeartbeat: session.lastHeartbeat,
+            createdAt: session.createdAt,
+            expiresAt: session.expiresAt
+          }))
+        };
+      })
+    });
+
+  } catch (error) {
+    logger.error('List devices error:', error);
+    return reply.status(500).send({
+      error: 'Internal Server Error',
+      message: 'Failed to list devices'
+    });
+  }
+};
+
+export const renameDevice = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { deviceId } = request.params as { deviceId: string };
+    const { name } = renameDeviceSchema.parse(request.body);
+    const userId = request.user!.userId;
+
+    const updated = await prisma.device.updateMany({
+      where: { id: deviceId, userId },
+      data: { name }
+    });
+
+    if (updated.count !== 1) {
+      return reply.status(404).send({
+        error: 'Not Found',
+        message: 'Device not found'
+      });
+    }
+
+    return reply.send({
+      success: true,
+      message: 'Device renamed',
+      device: { id: deviceId, name }
+    });
+
+  } catch (error) {
+    logger.error('Rename device error:', error);
+
+    if (error instanceof z.ZodError) {
+      return reply.status(400).send({
+        error: 'Bad Request',
+        message: 'Invalid input data',
+        details: error.errors
+      });
+    }
+
+    return reply.status(500).send({
+      error: 'Internal Server Error',
+      message: 'Failed to rename device'
+    });
+  }
+};
+
+/**
+ * Revoke a device: deactivate it and its sessions, then drop its live socket.
+ * A revoked device cannot open a session again; it has to sign in as a new device.
+ */
+export const revokeDevice = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { deviceId } = request.params as { deviceId: string };
+    const { userId, deviceId: currentDeviceId } = request.user!;
+
+    if (deviceId === currentDeviceId) {
+      return reply.status(400).send({
+        error: 'Bad Request',
+        message: 'Use logout to sign out the current device'
+      });
+    }
+
+    const device = await prisma.device.findFirst({
+      where: { id: deviceId, userId }
+    });
+
+    if (!device) {
+      return reply.status(404).send({
+        error: 'Not Found',
+        message: 'Device not found'
+      });
+    }
+
+    const [, sessions] = await prisma.$transaction([
+      prisma.device.update({
+        where: { id: deviceId },
+        data: { isActive: false }
+      }),
+      prisma.session.updateMany({
+        where: { deviceId, isActive: true },
+        data: { isActive: false }
+      }),
+      // Nothing left to deliver to a revoked device
+      prisma.messageDelivery.deleteMany({
+        where: { deviceId, deliveredAt: null }
+      })
+    ]);
+
+    wsManager.disconnectDevice(userId, deviceId);
+
+    logger.info(`Device ${deviceId} revoked by user ${userId} (${sessions.count} sessions ended)`);
+
+    return reply.send({
+      success: true,
+      message: 'Device revoked',
+      sessionsRevoked: sessions.count
+    });
+
+  } catch (error) {
+    logger.error('Revoke device error:', error);
+    return reply.status(500).send({
+      error: 'Internal Server Error',
+      message: 'Failed to revoke device'
+    });
+  }
+};
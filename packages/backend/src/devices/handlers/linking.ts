@@ -0,0 +1,333 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import sodium from 'libsodium-wrappers';
+import prisma from '@/db';
+import { logger } from '@/utils/logger';
+import { config } from '@/utils/config';
+import { wsManager } from '@/messaging/websocket';
+
+const createLinkSchema = z.object({
+  ephemeralKey: z.string().min(1),
+});
+
+const joinLinkSchema = z.object({
+  code: z.string().min(1),
+  ephemeralKey: z.string().min(1),
+  proof: z.string().min(1),
+  deviceId: z.string().min(1),
+});
+
+const approveLinkSchema = z.object({
+  payload: z.string().min(1),
+});
+
+const claimLinkSchema = z.object({
+  code: z.string().min(1),
+});
+
+const linkNotFound = {
+  error: 'Not Found',
+  message: 'Device link is unknown, expired or already used'
+};
+
+const sendLinkError = (reply: FastifyReply, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      error: 'Bad Request',
+      message: 'Invalid input data',
+      details: error.errors
+    });
+  }
+
+  return reply.status(500).send({
+    error: 'Internal Server Error',
+    message
+  });
+};
+
+/**
+ * Start linking a new device. Called by a signed-in device, which then shows
+ * the returned code together with its ephemeral key and a local secret as QR code.
+ */
+export const createDeviceLink = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { ephemeralKey } = createLinkSchema.parse(request.body);
+    const { userId, deviceId } = request.user!;
+
+    // Only one open link per device; showing a new QR code invalidates the old one
+    await prisma.deviceLink.deleteMany({
+      where: {
+        initiatorDeviceId: deviceId,
+        status: { in: ['pending', 'joined'] }
+      }
+    });
+
+    await sodium.ready;
+    const link = await prisma.deviceLink.create({
+      data: {
+        userId,
+        initiatorDeviceId: deviceId,
+        code: sodium.to_base64(sodium.randombytes_buf(24)),
+        initiatorKey: ephemeralKey,
+        expiresAt: new Date(Date.now() + config.DEVICE_LINK_TTL)
+      }
+    });
+
+    return reply.status(201).send({
+      success: true,
+      linkId: link.id,
+      code: link.code,
+      expiresAt: link.expiresAt
+    });
+
+  } catch (error) {
+    logger.error('Create device link error:', error);
+    return sendLinkError(reply, error, 'Failed to create device link');
+  }
+};
+
+/**
+ * Called by the new device after scanning the QR code. Its ephemeral key is
+ * relayed to the initiating device, which checks the proof before approving.
+ */
+export const joinDeviceLink = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const body = joinLinkSchema.parse(request.body);
+
+    const joined = await prisma.deviceLink.updateMany({
+      where: {
+        code: body.code,
+        status: 'pending',
+        expiresAt: { gt: new Date() }
+      },
+      data: {
+        joinerKey: body.ephemeralKey,
+        joinerProof: body.proof,
+        joinerDeviceId: body.deviceId,
+        status: 'joined'
+      }
+    });
+
+    if (joined.count !== 1) {
+      return reply.status(404).send(linkNotFound);
+    }
+
+    const link = await prisma.deviceLink.findUnique({ where: { code: body.code } });
+    if (!link) {
+      return reply.status(404).send(linkNotFound);
+    }
+
+    // The initiator also polls, so a missed push only delays the approval
+    wsManager.sendToDevice(link.userId, link.initiatorDeviceId, {
+      type: 'device_link_request',
+      data: {
+        linkId: link.id,
+        ephemeralKey: link.joinerKey,
+        proof: link.joinerProof,
+        deviceId: link.joinerDeviceId
+      },
+      timestamp: Date.now()
+    });
+
+    logger.info(`Device ${body.deviceId} joined link ${link.id}`);
+
+    return reply.send({
+      success: true,
+      linkId: link.id,
+      expiresAt: link.expiresAt
+    });
+
+  } catch (error) {
+    logger.error('Join device link error:', error);
+    return sendLinkError(reply, error, 'Failed to join device link');
+  }
+};
+
+/**
+ * Status of a link for the initiating device
+ */
+export const getDeviceLink = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { linkId } = request.params as { linkId: string };
+    const { userId, deviceId } = request.user!;
+
+    const link = await prisma.deviceLink.findFirst({
+      where: {
+        id: linkId,
+        userId,
+        initiatorDeviceId: deviceId
+      }
+    });
+
+    if (!link || link.expiresAt < new Date()) {
+      return reply.status(404).send(linkNotFound);
+    }
+
+    return reply.send({
+      success: true,
+      linkId: link.id,
+      status: link.status,
+      ephemeralKey: link.joinerKey,
+      proof: link.joinerProof,
+      deviceId: link.joinerDeviceId,
+      expiresAt: link.expiresAt
+    });
+
+  } catch (error) {
+    logger.error('Get device link error:', error);
+    return sendLinkError(reply, error, 'Failed to get device link');
+  }
+};
+
+/**
+ * Hand over the sealed identity and contacts. The payload is encrypted to the
+ * new device's ephemeral key, so the server cannot read it.
+ */
+export const approveDeviceLink = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { linkId } = request.params as { linkId: string };
+    const { payload } = approveLinkSchema.parse(request.body);
+    const { userId, deviceId } = request.user!;
+
+    const approved = await prisma.deviceLink.updateMany({
+      where: {
+        id: linkId,
+        userId,
+        initiatorDeviceId: deviceId,
+        status: 'joined',
+        expiresAt: { gt: new Date() }
+      },
+      data: {
+        payload,
+        status: 'approved'
+      }
+    });
+
+    if (approved.count !== 1) {
+      return reply.status(404).send(linkNotFound);
+    }
+
+    logger.info(`Device link ${linkId} approved`);
+
+    return reply.send({
+      success: true,
+      message: 'Device link approved'
+    });
+
+  } catch (error) {
+    logger.error('Approve device link error:', error);
+    return sendLinkError(reply, error, 'Failed to approve device link');
+  }
+};
+
+export const rejectDeviceLink = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { linkId } = request.params as { linkId: string };
+    const { userId } = request.user!;
+
+    const rejected = await prisma.deviceLink.updateMany({
+      where: {
+        id: linkId,
+        userId,
+        status: { in: ['pending', 'joined'] }
+      },
+      data: {
+        payload: null,
+        status: 'rejected'
+      }
+    });
+
+    if (rejected.count !== 1) {
+      return reply.status(404).send(linkNotFound);
+    }
+
+    return reply.send({
+      success: true,
+      message: 'Device link rejected'
+    });
+
+  } catch (error) {
+    logger.error('Reject device link error:', error);
+    return sendLinkError(reply, error, 'Failed to reject device link');
+  }
+};
+
+/**
+ * Polled by the new device until the link is approved. The payload is handed
+ * out exactly once and removed from the server afterwards.
+ */
+export const claimDeviceLink = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { code } = claimLinkSchema.parse(request.body);
+
+    const link = await prisma.deviceLink.findUnique({ where: { code } });
+    if (!link || link.expiresAt < new Date()) {
+      return reply.status(404).send(linkNotFound);
+    }
+
+    if (link.status !== 'approved') {
+      return reply.send({ success: true, status: link.status });
+    }
+
+    const claimed = await prisma.deviceLink.updateMany({
+      where: { id: link.id, status: 'approved' },
+      data: { payload: null, status: 'completed' }
+    });
+
+    if (claimed.count !== 1) {
+      return reply.status(404).send(linkNotFound);
+    }
+
+    logger.info(`Device link ${link.id} completed`);
+
+    return reply.send({
+      success: true,
+      status: 'approved',
+      payload: link.payload
+    });
+
+  } catch (error) {
+    logger.error('Claim device link error:', error);
+    return sendLinkError(reply, error, 'Failed to claim device link');
+  }
+};
+
+/**
+ * Remove expired and finished links (called periodically)
+ */
+export const cleanupDeviceLinks = async () => {
+  try {
+    const result = await prisma.deviceLink.deleteMany({
+      where: {
+        OR: [
+          { expiresAt: { lt: new Date() } },
+          { status: { in: ['rejected', 'completed'] } }
+        ]
+      }
+    });
+
+    if (result.count > 0) {
+      logger.info(`Cleaned up ${result.count} device links`);
+    }
+  } catch (error) {
+    logger.error('Error cleaning up device links:', error);
+  }
+};
@@ -0,0 +1,26 @@
+import { FastifyInstance } from 'fastify';
+import {
+  createDeviceLink,
+  joinDeviceLink,
+  getDeviceLink,
+  approveDeviceLink,
+  rejectDeviceLink,
+  claimDeviceLink,
+} from './handlers/linking';
+import { listDevices, renameDevice, revokeDevice } from './handlers/devices';
+import { authenticateToken } from '../middleware/auth';
+
+export async function deviceRoutes(fastify: FastifyInstance) {
+  fastify.get('/', { preHandler: [authenticateToken] }, listDevices);
+  fastify.patch('/:deviceId', { preHandler: [authenticateToken] }, renameDevice);
+  fastify.delete('/:deviceId', { preHandler: [authenticateToken] }, revokeDevice);
+
+  // The new device has no session yet; it authenticates with the code from the QR code
+  fastify.post('/link/join', joinDeviceLink);
+  fastify.post('/link/claim', claimDeviceLink);
+
+  fastify.post('/link', { preHandler: [authenticateToken] }, createDeviceLink);
+  fastify.get('/link/:linkId', { preHandler: [authenticateToken] }, getDeviceLink);
+  fastify.post('/link/:linkId/approve', { preHandler: [authenticateToken] }, approveDeviceLink);
+  fastify.post('/link/:linkId/reject', { preHandler: [authenticateToken] }, rejectDeviceLink);
+}
@@ -0,0 +1,493 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import prisma from '@/db';
+import { logger } from '@/utils/logger';
+import { wsManager } from '@/messaging/websocket';
+import { findGroupForMember, GroupMemberInfo } from '@/services/groups';
+
+const createGroupSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  memberHandles: z.array(z.string().min(3).max(30)).max(99).default([]),
+});
+
+const addMembersSchema = z.object({
+  handles: z.array(z.string().min(3).max(30)).min(1).max(99),
+});
+
+const getGroupMessagesSchema = z.object({
+  limit: z.number().min(1).max(100).default(50),
+  offset: z.number().min(0).default(0),
+});
+
+interface GroupMessageRow {
+  id: string;
+  content: string;
+  messageType: string;
+  replyToId: string | null;
+  timestamp: Date;
+  delivered: boolean;
+  isEdited: boolean;
+  editedAt: Date | null;
+  isDeleted: boolean;
+  deletedAt: Date | null;
+  expiresAt: Date | null;
+  metadata: string | null;
+  sender: { handle: string } | null; // Only sealed messages have no sender, and those are never group messages
+  deliveries: { encryptedData: string }[];
+}
+
+type GroupView = NonNullable<Awaited<ReturnType<typeof findGroupForMember>>>;
+
+const formatGroup = (group: GroupView) => ({
+  id: group.id,
+  name: group.name,
+  createdAt: group.createdAt,
+  members: group.members.map((member: GroupMemberInfo) => ({
+    handle: member.handle,
+    role: member.role,
+    joinedAt: member.joinedAt
+  }))
+});
+
+const sendGroupError = (reply: FastifyReply, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      error: 'Bad Request',
+      message: 'Invalid input data',
+      details: error.errors
+    });
+  }
+
+  return reply.status(500).send({
+    error: 'Internal Server Error',
+    message
+  });
+};
+
+/**
+ * Resolve handles to users the caller may add to a group: existing,
+ * unblocked contacts. Returns the handles that failed so the client can say which.
+ */
+const resolveInvitees = async (userId: string, handles: string[]) => {
+  const uniqueHandles = [...new Set(handles)];
+
+  const contacts = await prisma.contact.findMany({
+    where: {
+      userId,
+      isBlocked: false,
+      contact: { handle: { in: uniqueHandles } }
+    },
+    select: { contact: { select: { id: true, handle: true } } }
+  });
+
+  const users = contacts.map((entry: { contact: { id: string; handle: string } }) => entry.contact);
+  const found = new Set(users.map((user: { handle: string }) => user.handle));
+
+  return {
+    users: users as { id: string; handle: string }[],
+    rejected: uniqueHandles.filter((handle) => !found.has(handle))
+  };
+};
+
+/**
+ * Tell every member's devices that the group changed. Clients refetch the
+ * group and re-establish keys for the new member list.
+ */
+const notifyGroupUpdated = (group: GroupView, reason: string, extraUserIds: string[] = []) => {
+  const payload = {
+    type: 'group_updated',
+    data: { groupId: group.id, reason, group: formatGroup(group) },
+    timestamp: Date.now()
+  };
+
+  group.members.forEach((member: GroupMemberInfo) => wsManager.broadcastToUser(member.userId, payload));
+
+  // Users who are no longer members only learn that they were removed
+  extraUserIds.forEach((userId) => wsManager.broadcastToUser(userId, {
+    type: 'group_updated',
+    data: { groupId: group.id, reason, removed: true },
+    timestamp: Date.now()
+  }));
+};
+
+/**
+ * Create a group with the caller as admin and the given contacts as members
+ */
+export const createGroup = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { name, memberHandles } = createGroupSchema.parse(request.body);
+    const userId = request.user!.userId;
+
+    const { users, rejected } = await resolveInvitees(userId, memberHandles);
+    if (rejected.length > 0) {
+      return reply.status(400).send({
+        error: 'Bad Request',
+        message: 'Nur Kontakte können hinzugefügt werden',
+        handles: rejected
+      });
+    }
+
+    const created = await prisma.group.create({
+      data: {
+        name,
+        createdById: userId,
+        members: {
+          create: [
+            { userId, role: 'admin' },
+            ...users
+              .filter((user) => user.id !== userId)
+              .map((user) => ({ userId: user.id, role: 'member', invitedById: userId }))
+          ]
+        }
+      }
+    });
+
+    const group = (await findGroupForMember(created.id, userId))!;
+    notifyGroupUpdated(group, 'created');
+
+    logger.info(`Group ${group.id} created by ${userId} with ${group.members.length} members`);
+
+    return reply.status(201).send({
+      success: true,
+      group: formatGroup(group)
+    });
+
+  } catch (error) {
+    logger.error('Create group error:', error);
+    return sendGroupError(reply, error, 'Failed to create group');
+  }
+};
+
+export const listGroups = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const userId = request.user!.userId;
+
+    const memberships = await prisma.groupMember.findMany({
+      where: { userId },
+      select: { groupId: true },
+      orderBy: { joinedAt: 'desc' }
+    });
+
+    const groups = await Promise.all(
+      memberships.map((membership: { groupId: string }) => findGroupForMember(membership.groupId, userId))
+    );
+
+    return reply.send({
+      success: true,
+      groups: groups.filter(Boolean).map((group) => formatGroup(group as GroupView))
+    });
+
+  } catch (error) {
+    logger.error('List groups error:', error);
+    return sendGroupError(reply, error, 'Failed to list groups');
+  }
+};
+
+export const getGroup = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { groupId } = request.params as { groupId: string };
+
+    const group = await findGroupForMember(groupId, request.user!.userId);
+    if (!group) {
+      return reply.status(404).send({
+        error: 'Not Found',
+        message: 'Gruppe nicht gefunden'
+      });
+    }
+
+    return reply.send({
+      success: true,
+      group: formatGroup(group)
+    });
+
+  } catch (error) {
+    logger.error('Get group error:', error);
+    return sendGroupError(reply, error, 'Failed to get group');
+  }
+};
+
+/**
+ * Invite contacts into a group (admins only)
+ */
+export const addGroupMembers = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { groupId } = request.params as { groupId: string };
+    const { handles } = addMembersSchema.parse(request.body);
+    const userId = request.user!.userId;
+
+    const group = await findGroupForMember(groupId, userId);
+    if (!group) {
+      return reply.status(404).send({
+        error: 'Not Found',
+        message: 'Gruppe nicht gefunden'
+      });
+    }
+
+    if (group.members.find((member: GroupMemberInfo) => member.userId === userId)?.role !== 'admin') {
+      return reply.status(403).send({
+        error: 'Forbidden',
+        message: 'Only group admins can add members'
+      });
+    }
+
+    const { users, rejected } = await resolveInvitees(userId, handles);
+    if (rejected.length > 0) {
+      return reply.status(400).send({
+        error: 'Bad Request',
+        message: 'Nur Kontakte können hinzugefügt werden',
+        handles: rejected
+      });
+    }
+
+    const memberIds = new Set(group.members.map((member: GroupMemberInfo) => member.userId));
+    const newMembers = users.filter((user) => !memberIds.has(user.id));
+
+    if (newMembers.length > 0) {
+      await prisma.$transaction([
+        prisma.groupMember.createMany({
+          data: newMembers.map((user) => ({ groupId, userId: user.id, role: 'member', invitedById: userId }))
+        }),
+        prisma.group.update({
+          where: { id: groupId },
+          data: { updatedAt: new Date() }
+        })
+      ]);
+    }
+
+    const updated = (await findGroupForMember(groupId, userId))!;
+    if (newMembers.length > 0) {
+      notifyGroupUpdated(updated, 'members_added');
+    }
+
+    return reply.send({
+      success: true,
+      added: newMembers.map((user) => user.handle),
+      group: formatGroup(updated)
+    });
+
+  } catch (error) {
+    logger.error('Add group members error:', error);
+    return sendGroupError(reply, error, 'Failed to add group members');
+  }
+};
+
+/**
+ * Remove a member from a group (admins only). Members leave through `leaveGroup`.
+ */
+export const removeGroupMember = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { groupId, handle } = request.params as { groupId: string; handle: string };
+    const userId = request.user!.userId;
+
+    const group = await findGroupForMember(groupId, userId);
+    if (!group) {
+      return reply.status(404).send({
+        error: 'Not Found',
+        message: 'Gruppe nicht gefunden'
+      });
+    }
+
+    if (group.members.find((member: GroupMemberInfo) => member.userId === userId)?.role !== 'admin') {
+      return reply.status(403).send({
+        error: 'Forbidden',
+        message: 'Only group admins can remove members'
+      });
+    }
+
+    const target = group.members.find((member: GroupMemberInfo) => member.handle === handle);
+    if (!target) {
+      return reply.status(404).send({
+        error: 'Not Found',
+        message: 'Member not found'
+      });
+    }
+
+    if (target.userId === userId) {
+      return reply.status(400).send({
+        error: 'Bad Request',
+        message: 'Use leave to remove yourself from a group'
+      });
+    }
+
+    await prisma.$transaction([
+      prisma.groupMember.delete({
+        where: { groupId_userId: { groupId, userId: target.userId } }
+      }),
+      prisma.group.update({
+        where: { id: groupId },
+        data: { updatedAt: new Date() }
+      })
+    ]);
+
+    const updated = (await findGroupForMember(groupId, userId))!;
+    notifyGroupUpdated(updated, 'member_removed', [target.userId]);
+
+    logger.info(`User ${target.handle} removed from group ${groupId} by ${userId}`);
+
+    return reply.send({
+      success: true,
+      group: formatGroup(updated)
+    });
+
+  } catch (error) {
+    logger.error('Remove group member error:', error);
+    return sendGroupError(reply, error, 'Failed to remove group member');
+  }
+};
+
+/**
+ * Leave a group. If the last admin leaves, the longest-standing member takes
+ * over; the group is deleted together with its messages once nobody is left.
+ */
+export const leaveGroup = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { groupId } = request.params as { groupId: string };
+    const userId = request.user!.userId;
+
+    const group = await findGroupForMember(groupId, userId);
+    if (!group) {
+      return reply.status(404).send({
+        error: 'Not Found',
+        message: 'Gruppe nicht gefunden'
+      });
+    }
+
+    const remaining = group.members.filter((member: GroupMemberInfo) => member.userId !== userId);
+
+    if (remaining.length === 0) {
+      await prisma.group.delete({ where: { id: groupId } });
+      logger.info(`Group ${groupId} deleted after its last member left`);
+
+      return reply.send({
+        success: true,
+        deleted: true
+      });
+    }
+
+    const hasAdmin = remaining.some((member: GroupMemberInfo) => member.role === 'admin');
+
+    await prisma.$transaction([
+      prisma.groupMember.delete({
+        where: { groupId_userId: { groupId, userId } }
+      }),
+      // Members are ordered by join date, so the first one is the oldest
+      ...(hasAdmin ? [] : [prisma.groupMember.update({
+        where: { groupId_userId: { groupId, userId: remaining[0].userId } },
+        data: { role: 'admin' }
+      })]),
+      prisma.group.update({
+        where: { id: groupId },
+        data: { updatedAt: new Date() }
+      })
+    ]);
+
+    const updated = (await findGroupForMember(groupId, remaining[0].userId))!;
+    notifyGroupUpdated(updated, 'member_left', [userId]);
+
+    return reply.send({
+      success: true,
+      deleted: false
+    });
+
+  } catch (error) {
+    logger.error('Leave group error:', error);
+    return sendGroupError(reply, error, 'Failed to leave group');
+  }
+};
+
+/**
+ * Group history for the calling device. Only messages sent since the caller
+ * joined are returned, each with this device's own ciphertext.
+ */
+export const getGroupMessages = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { groupId } = request.params as { groupId: string };
+    const { limit, offset } = request.query as { limit?: string; offset?: string };
+    const query = getGroupMessagesSchema.parse({
+      limit: limit ? parseInt(limit) : 50,
+      offset: offset ? parseInt(offset) : 0,
+    });
+    const { userId, deviceId } = request.user!;
+
+    const membership = await prisma.groupMember.findUnique({
+      where: { groupId_userId: { groupId, userId } }
+    });
+
+    if (!membership) {
+      return reply.status(404).send({
+        error: 'Not Found',
+        message: 'Gruppe nicht gefunden'
+      });
+    }
+
+    const messages = await prisma.message.findMany({
+      where: {
+        groupId,
+        timestamp: { gte: membership.joinedAt },
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }]
+      },
+      include: {
+        sender: {
+          select: { handle: true }
+        },
+        deliveries: {
+          where: { deviceId },
+          select: { encryptedData: true }
+        }
+      },
+      orderBy: { timestamp: 'desc' },
+      take: query.limit,
+      skip: query.offset,
+    });
+
+    return reply.send({
+      success: true,
+      messages: messages.map((msg: GroupMessageRow) => {
+        const metadata = msg.metadata ? JSON.parse(msg.metadata) : null;
+        return {
+          id: msg.id,
+          groupId,
+          content: msg.content,
+          messageType: msg.messageType,
+          replyToId: msg.replyToId,
+          timestamp: msg.timestamp,
+          senderHandle: msg.sender?.handle,
+          delivered: msg.delivered,
+          encrypted: metadata?.encrypted || false,
+          pfsMessage: metadata?.pfsMessage || false,
+          encryptedData: msg.isDeleted ? undefined : msg.deliveries[0]?.encryptedData,
+          isEdited: msg.isEdited,
+          editedAt: msg.editedAt,
+          isDeleted: msg.isDeleted,
+          deletedAt: msg.deletedAt,
+          expiresAt: msg.expiresAt
+        };
+      }).reverse()
+    });
+
+  } catch (error) {
+    logger.error('Get group messages error:', error);
+    return sendGroupError(reply, error, 'Failed to get group messages');
+  }
+};
@@ -0,0 +1,23 @@
+import { FastifyInstance } from 'fastify';
+import {
+  createGroup,
+  listGroups,
+  getGroup,
+  addGroupMembers,
+  removeGroupMember,
+  leaveGroup,
+  getGroupMessages,
+} from './handlers/groups';
+import { authenticateToken } from '../middleware/auth';
+
+export async function groupRoutes(fastify: FastifyInstance) {
+  fastify.post('/', { preHandler: [authenticateToken] }, createGroup);
+  fastify.get('/', { preHandler: [authenticateToken] }, listGroups);
+  fastify.get('/:groupId', { preHandler: [authenticateToken] }, getGroup);
+  fastify.post('/:groupId/members', { preHandler: [authenticateToken] }, addGroupMembers);
+  fastify.delete('/:groupId/members/:handle', { preHandler: [authenticateToken] }, removeGroupMember);
+  fastify.post('/:groupId/leave', { preHandler: [authenticateToken] }, leaveGroup);
+
+  // Messages are sent over the WebSocket, one ciphertext per member
+  fastify.get('/:groupId/messages', { preHandler: [authenticateToken] }, getGroupMessages);
+}
@@ -12,7 +12,15 @@ import { messagingRoutes } from '@/messaging/routes';
 import { recoveryRoutes } from '@/recovery/routes';
 import { adminRoutes } from '@/admin/routes';
 import { userRoutes } from '@/users/routes';
+import { deviceRoutes } from '@/devices/routes';
+import { groupRoutes } from '@/groups/routes';
 import { cleanupStaleSessions } from '@/auth/handlers/sessions';
+import { cleanupExpiredChallenges } from '@/auth/handlers/challenges';
+import { cleanupDeviceLinks } from '@/devices/handlers/linking';
+import { retireExpiredSignedPreKeys } from '@/services/preKeys';
+import { purgeExpiredMessages } from '@/services/messageExpiry';
+import { purgeRetainedMessages } from '@/services/messageRetention';
+import { rateLimiter, globalRateLimiter, createFastifyRateLimitStore } from '@/services/rateLimiter';
 import { setupWebSocket } from '@/messaging/websocket';
 import prisma from '@/db';
 
@@ -41,6 +49,7 @@ async function startServer() {
       await fastify.register(rateLimit, {
         max: config.RATE_LIMIT_MAX,
         timeWindow: config.RATE_LIMIT_WINDOW,
+        store: createFastifyRateLimitStore(globalRateLimiter, 'global'),
         errorResponseBuilder: (_request, context) => {
           return {
             error: 'Rate Limit Exceeded',
@@ -50,7 +59,7 @@ async function startServer() {
         },
       });
     } else {
-      logger.info('Global rate limiting has been disabled via configuration. Account creation limiter remains active.');
+      logger.info('Global rate limiting has been disabled via configuration. Per-route limiters remain active.');
     }
 
     await fastify.register(websocket);
@@ -83,10 +92,23 @@ async function startServer() {
     await fastify.register(messagingRoutes, { prefix: '/api' });
     await fastify.register(recoveryRoutes, { prefix: '/api' });
     await fastify.register(userRoutes, { prefix: '/api/users' });
+    await fastify.register(deviceRoutes, { prefix: '/api/devices' });
+    await fastify.register(groupRoutes, { prefix: '/api/groups' });
     await fastify.register(adminRoutes, { prefix: '/api' });
 
     // Schedule stale session cleanup
     setInterval(cleanupStaleSessions, 5 * 60 * 1000); // Every 5 minutes
+    setInterval(cleanupExpiredChallenges, 5 * 60 * 1000); // Every 5 minutes
+    setInterval(cleanupDeviceLinks, 5 * 60 * 1000); // Every 5 minutes
+    setInterval(() => rateLimiter.cleanup(), 5 * 60 * 1000); // Every 5 minutes
+    setInterval(() => globalRateLimiter.cleanup(), 5 * 60 * 1000); // Every 5 minutes
+    setInterval(purgeRetainedMessages, 5 * 60 * 1000); // Every 5 minutes
+
+    // Disappearing messages
+    setInterval(purgeExpiredMessages, 60 * 1000); // Every minute
+
+    // Retire signed prekeys whose grace window has ended
+    setInterval(retireExpiredSignedPreKeys, 60 * 60 * 1000); // Every hour
 
     // WebSocket for real-time messaging
     setupWebSocket(fastify);
@@ -135,6 +157,7 @@ const gracefulShutdown = async (signal: string) => {
   
   try {
     await fastify.close();
+    await globalRateLimiter.flush();
     await prisma.$disconnect();
     logger.info('Server closed successfully');
     process.exit(0);
@@ -18,6 +18,7 @@ export const getConversations = async (
           { senderId: userId },
           { receiverId: userId },
         ],
+        groupId: null, // Group conversations are listed under /api/groups
       },
       orderBy: {
         timestamp: 'desc',
@@ -32,7 +33,8 @@ export const getConversations = async (
 
     for (const message of messages) {
       const contact = message.senderId === userId ? message.receiver : message.sender;
-      if (conversationsMap.has(contact.id)) continue;
+      // Sealed messages do not say which conversation they belong to
+      if (!contact || conversationsMap.has(contact.id)) continue;
 
       const contactRelation = await prisma.contact.findFirst({
         where: {
@@ -47,7 +49,8 @@ export const getConversations = async (
         where: {
           senderId: contact.id,
           receiverId: userId,
-          deliveredAt: null, // Using deliveredAt to track read status
+          groupId: null,
+          read: false,
         },
       });
 
@@ -1,6 +1,47 @@
 import { FastifyInstance } from 'fastify';
 import db from '@/db';
+import { z } from 'zod';
 import { logger } from '@/utils/logger';
+import { config } from '@/utils/config';
+import { authenticateToken } from '@/middleware/auth';
+import { rateLimiter, rateLimitKey } from '@/services/rateLimiter';
+import {
+  countUnusedPreKeys,
+  fetchPreKeyBundle,
+  getActiveSignedPreKey,
+  listSessionDevices,
+  listUnusedPreKeyIds,
+  rotateSignedPreKey,
+  storeOneTimePreKeys
+} from '@/services/preKeys';
+
+const MAX_PREKEYS_PER_UPLOAD = 100;
+
+const uploadPreKeysSchema = z.object({
+  preKeys: z.array(z.object({
+    keyId: z.number().int().nonnegative(),
+    publicKey: z.string().min(1),
+  })).min(1).max(MAX_PREKEYS_PER_UPLOAD),
+  replace: z.boolean().optional(),
+});
+
+const rotateSignedPreKeySchema = z.object({
+  keyId: z.number().int().nonnegative(),
+  publicKey: z.string().min(1),
+  signature: z.string().min(1),
+});
+
+const bundleRule = {
+  limit: config.PREKEY_BUNDLE_RATE_LIMIT,
+  windowMs: config.PREKEY_BUNDLE_RATE_WINDOW
+};
+
+const rotationErrors: Record<string, { status: number; error: string; message: string }> = {
+  IDENTITY_NOT_FOUND: { status: 404, error: 'Not Found', message: 'Identity key not found' },
+  SIGNING_KEY_MISSING: { status: 400, error: 'Bad Request', message: 'No signing key registered for this identity' },
+  INVALID_SIGNATURE: { status: 400, error: 'Bad Request', message: 'Signed prekey signature is invalid' },
+  KEY_ID_IN_USE: { status: 409, error: 'Conflict', message: 'Signed prekey id already used' },
+};
 
 export const keysRoutes = async (server: FastifyInstance) => {
   // Add a simple test endpoint
@@ -14,38 +55,50 @@ export const keysRoutes = async (server: FastifyInstance) => {
     }
   });
 
-  server.get('/bundle/:handle', async (request, reply) => {
+  // Devices of a handle a sender needs a session with; our own device is left out
+  server.get('/devices/:handle', { preHandler: [authenticateToken] }, async (request, reply) => {
     const { handle } = request.params as { handle: string };
 
     try {
-      logger.info(`Starting key bundle request for handle: ${handle}`);
-      
-      const user = await db.user.findUnique({
-        where: { handle },
-        include: {
-          identity: true,
-          signedPreKey: true,
-        },
-      });
-      
-      logger.info(`Fetched user for key bundle request: ${handle}`, { user });
+      const deviceIds = await listSessionDevices(handle, request.user!.deviceId);
+
+      if (!deviceIds) {
+        return reply.status(404).send({ error: 'User not found' });
+      }
+
+      return reply.send({ success: true, deviceIds });
+
+    } catch (error) {
+      logger.error(`Error listing devices for user: ${handle}`, { error });
+      return reply.status(500).send({ error: 'Internal Server Error' });
+    }
+  });
+
+  // Fetching a bundle consumes a one-time prekey, so callers must be authenticated
+  // and are limited per handle, which keeps any one of them from draining its prekeys
+  server.get('/bundle/:handle/:deviceId', { preHandler: [authenticateToken] }, async (request, reply) => {
+    const { handle, deviceId } = request.params as { handle: string; deviceId: string };
+
+    try {
+      const limit = await rateLimiter.consume(rateLimitKey('prekey-bundle', 'user-handle', `${request.user!.userId}/${handle}`), bundleRule);
+      if (!limit.allowed) {
+        return reply.status(429).send({
+          error: 'Rate limit exceeded',
+          message: 'Too many key bundle requests for this handle. Please try again later.',
+          retryAfter: limit.retryAfter
+        });
+      }
+
+      logger.info(`Starting key bundle request for device ${deviceId} of handle: ${handle}`);
 
-      if (!user || !user.identity || !user.signedPreKey) {
-        logger.warn(`Key bundle not found for user: ${handle}`);
+      const keyBundle = await fetchPreKeyBundle(handle, deviceId);
+
+      if (!keyBundle) {
+        logger.warn(`Key bundle not found for device ${deviceId} of user: ${handle}`);
         return reply.status(404).send({ error: 'Key bundle not found' });
       }
-      
-      
-
-      const keyBundle = {
-        identityKey: user.identity.publicKey,
-        signedPreKey: {
-          key: user.signedPreKey.key,
-          signature: user.signedPreKey.signature,
-        },
-      };
-
-      logger.info(`Returning key bundle for user: ${handle}`, { keyBundle });
+
+      logger.info(`Returning key bundle for device ${deviceId} of user: ${handle}`, { preKeyId: keyBundle.preKey?.keyId });
       return reply.send(keyBundle);
 
     } catch (error) {
@@ -53,4 +106,125 @@ export const keysRoutes = async (server: FastifyInstance) => {
       return reply.status(500).send({ error: 'Internal Server Error' });
     }
   });
-}; 
\ No newline at end of file
+
+  // Upload a batch of one-time prekeys for the authenticated device
+  server.post('/prekeys', { preHandler: [authenticateToken] }, async (request, reply) => {
+    try {
+      const body = uploadPreKeysSchema.parse(request.body);
+      const { userId, deviceId } = request.user!;
+
+      const stored = await storeOneTimePreKeys(userId, deviceId, body.preKeys, body.replace);
+
+      logger.info(`Stored ${stored} one-time prekeys for device ${deviceId} of user ${userId}`);
+      return reply.status(201).send({ success: true, stored });
+
+    } catch (error) {
+      logger.error('Upload prekeys error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Bad Request',
+          message: 'Invalid input data',
+          details: error.errors
+        });
+      }
+
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to store prekeys'
+      });
+    }
+  });
+
+  // Unused one-time prekeys of the device, so it can drop private halves of claimed ones
+  server.get('/prekeys', { preHandler: [authenticateToken] }, async (request, reply) => {
+    try {
+      const keyIds = await listUnusedPreKeyIds(request.user!.deviceId);
+
+      return reply.send({ success: true, keyIds });
+
+    } catch (error) {
+      logger.error('List prekeys error:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to list prekeys'
+      });
+    }
+  });
+
+  // Remaining one-time prekeys of the device, for clients catching up after being offline
+  server.get('/prekeys/count', { preHandler: [authenticateToken] }, async (request, reply) => {
+    try {
+      const count = await countUnusedPreKeys(request.user!.deviceId);
+
+      return reply.send({
+        success: true,
+        count,
+        threshold: config.PREKEY_LOW_THRESHOLD,
+        target: config.PREKEY_TARGET_COUNT
+      });
+
+    } catch (error) {
+      logger.error('Count prekeys error:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to count prekeys'
+      });
+    }
+  });
+
+  // The signed prekey the server hands out for the device, or null if it has none
+  server.get('/signed-prekey', { preHandler: [authenticateToken] }, async (request, reply) => {
+    try {
+      const signedPreKey = await getActiveSignedPreKey(request.user!.deviceId);
+
+      return reply.send({
+        success: true,
+        signedPreKey: signedPreKey
+          ? { keyId: signedPreKey.keyId, publicKey: signedPreKey.key, createdAt: signedPreKey.createdAt }
+          : null
+      });
+
+    } catch (error) {
+      logger.error('Get signed prekey error:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to get signed prekey'
+      });
+    }
+  });
+
+  // Rotate the device's signed prekey; the signature must verify against the identity key
+  server.put('/signed-prekey', { preHandler: [authenticateToken] }, async (request, reply) => {
+    try {
+      const signedPreKey = rotateSignedPreKeySchema.parse(request.body);
+      const { userId, deviceId } = request.user!;
+
+      const rotated = await rotateSignedPreKey(userId, deviceId, signedPreKey);
+
+      logger.info(`Rotated signed prekey for device ${deviceId} of user ${userId} to keyId ${rotated.keyId}`);
+      return reply.send({ success: true, keyId: rotated.keyId, createdAt: rotated.createdAt });
+
+    } catch (error) {
+      logger.error('Rotate signed prekey error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          error: 'Bad Request',
+          message: 'Invalid input data',
+          details: error.errors
+        });
+      }
+
+      const known = error instanceof Error ? rotationErrors[error.message] : undefined;
+      if (known) {
+        return reply.status(known.status).send({ error: known.error, message: known.message });
+      }
+
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to rotate signed prekey'
+      });
+    }
+  });
+};
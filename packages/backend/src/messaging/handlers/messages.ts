@@ -1,7 +1,14 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { logger } from '@/utils/logger';
+import { config } from '@/utils/config';
 import prisma from '@/db';
+import { buildDirectCopies, toDeliveries, markCopyDelivered, resolveReplyToId, findMessageByClientId, findConflictingMessage } from '@/services/messageDelivery';
+import { editMessage as applyMessageEdit, deleteMessage as applyMessageDelete, MessageChangeResult } from '@/services/messageChanges';
+import { pushMessageChange, pushSealedMessage } from '@/messaging/websocket';
+import { expiryFromNow, MAX_MESSAGE_EXPIRY_SECONDS } from '@/services/messageExpiry';
+import { authorizeSealedDelivery, storeSealedMessage } from '@/services/sealedSender';
+import { rateLimiter, rateLimitKey } from '@/services/rateLimiter';
 
 // Validation schemas - Updated to enforce E2EE
 const sendMessageSchema = z.object({
@@ -13,7 +20,26 @@ const sendMessageSchema = z.object({
   encrypted: z.boolean().refine((val) => val === true, {
     message: "Only encrypted messages are allowed"
   }),
-  encryptedData: z.string().min(1, "Encrypted data is required"),
+  // One ciphertext per device, keyed by Device.id: the receiver's devices and our other ones
+  deviceCiphertexts: z.record(z.string().min(1)).refine((ciphertexts) => Object.keys(ciphertexts).length > 0, {
+    message: "Encrypted data is required"
+  }),
+  // Disappearing message timer in seconds
+  expiresIn: z.number().int().positive().max(MAX_MESSAGE_EXPIRY_SECONDS).optional(),
+  // Idempotency key; retrying with the same one returns the stored message
+  clientMessageId: z.string().uuid().transform((id) => id.toLowerCase()).optional(),
+});
+
+// Sealed sender: no authentication, the delivery token authorises the send
+const sendSealedMessageSchema = z.object({
+  receiverHandle: z.string(),
+  deliveryToken: z.string().min(1),
+  // Per Device.id: sender certificate and that device's session ciphertext, encrypted to the receiver's identity key
+  deviceEnvelopes: z.record(z.string().min(1)).refine((envelopes) => Object.keys(envelopes).length > 0, {
+    message: "Envelope is required"
+  }),
+  expiresIn: z.number().int().positive().max(MAX_MESSAGE_EXPIRY_SECONDS).optional(),
+  clientMessageId: z.string().uuid().transform((id) => id.toLowerCase()).optional(),
 });
 
 const getMessagesSchema = z.object({
@@ -26,6 +52,15 @@ const clearMessagesSchema = z.object({
   contactHandle: z.string(),
 });
 
+// Group edits carry encryptedData, direct edits one ciphertext per device
+const editMessageSchema = z.object({
+  encryptedData: z.string().min(1).optional(),
+  deviceCiphertexts: z.record(z.string().min(1)).optional(),
+  pfsMessage: z.boolean().optional(),
+}).refine((body) => !!body.encryptedData || !!body.deviceCiphertexts, {
+  message: "Encrypted data is required"
+});
+
 export const sendMessage = async (
   request: FastifyRequest,
   reply: FastifyReply
@@ -72,32 +107,61 @@ export const sendMessage = async (
       });
     }
 
+    const sendStored = (stored: { id: string; content: string; messageType: string; timestamp: Date; replyToId: string | null; clientMessageId: string | null }) =>
+      reply.status(200).send({
+        success: true,
+        message: 'Message already sent',
+        data: {
+          id: stored.id,
+          content: stored.content,
+          messageType: stored.messageType,
+          timestamp: stored.timestamp,
+          receiverHandle: receiver.handle,
+          replyToId: stored.replyToId,
+          clientMessageId: stored.clientMessageId,
+        }
+      });
+
+    const existing = await findMessageByClientId(userId, body.clientMessageId ?? null);
+    if (existing) {
+      return sendStored(existing);
+    }
+
+    // One encrypted copy per device of the receiver and per other device of the sender
+    const copies = await buildDirectCopies({ userId, deviceId }, receiver.id, body.deviceCiphertexts);
+
     // Create the message - enforcing E2EE
     const message = await prisma.message.create({
       data: {
         senderId: userId,
         receiverId: receiver.id,
         senderDeviceId: deviceId,
-        receiverDeviceId: deviceId, // For now, use same device
         content: '[Encrypted Message]', // Never store plaintext
         messageType: body.messageType,
-        replyToId: body.replyToId,
+        replyToId: await resolveReplyToId(body.replyToId, { userId, peerId: receiver.id }),
+        expiresAt: expiryFromNow(body.expiresIn),
+        clientMessageId: body.clientMessageId,
         metadata: JSON.stringify({
-          encrypted: true,
-          encryptedData: body.encryptedData
+          encrypted: true
         }),
-      },
-      include: {
-        sender: {
-          select: { handle: true }
-        },
-        receiver: {
-          select: { handle: true }
+        deliveries: {
+          create: toDeliveries(copies)
         }
       }
+    }).catch(async (error: unknown) => {
+      // A concurrent retry stored the message first; return that one
+      const stored = await findConflictingMessage(error, userId, body.clientMessageId ?? null);
+      if (!stored) {
+        throw error;
+      }
+      return { ...stored, duplicate: true as const };
     });
 
-    logger.info(`Message sent from ${message.sender.handle} to ${message.receiver.handle}`);
+    if ('duplicate' in message) {
+      return sendStored(message);
+    }
+
+    logger.info(`Message sent from user ${userId} to ${receiver.handle}`);
 
     return reply.status(201).send({
       success: true,
@@ -107,8 +171,9 @@ export const sendMessage = async (
         content: message.content,
         messageType: message.messageType,
         timestamp: message.timestamp,
-        receiverHandle: message.receiver.handle,
+        receiverHandle: receiver.handle,
         replyToId: message.replyToId,
+        clientMessageId: message.clientMessageId,
       }
     });
 
@@ -130,6 +195,77 @@ export const sendMessage = async (
   }
 };
 
+/**
+ * Deliver a sealed message. The request is unauthenticated so the server
+ * never learns the sender; the receiver's delivery token, which only their
+ * contacts have, stands in for the contact check. Sends are limited per
+ * receiver, counting wrong tokens too, so nobody can flood an inbox or guess
+ * its token.
+ */
+export const sendSealedMessage = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const body = sendSealedMessageSchema.parse(request.body);
+
+    const limit = await rateLimiter.consume(rateLimitKey('sealed-message', 'handle', body.receiverHandle), {
+      limit: config.SEALED_MESSAGE_RATE_LIMIT,
+      windowMs: config.SEALED_MESSAGE_RATE_WINDOW
+    });
+    if (!limit.allowed) {
+      return reply.status(429).send({
+        error: 'Rate limit exceeded',
+        message: 'Too many messages for this receiver. Please try again later.',
+        retryAfter: limit.retryAfter
+      });
+    }
+
+    const receiver = await authorizeSealedDelivery(body.receiverHandle, body.deliveryToken);
+    if (!receiver) {
+      // Unknown receivers look the same as wrong tokens
+      return reply.status(403).send({
+        error: 'Forbidden',
+        message: 'Invalid delivery token'
+      });
+    }
+
+    const message = await storeSealedMessage({
+      receiverId: receiver.id,
+      deviceEnvelopes: body.deviceEnvelopes,
+      clientMessageId: body.clientMessageId ?? null,
+      expiresIn: body.expiresIn
+    });
+
+    pushSealedMessage(receiver.id, message);
+
+    return reply.status(message.duplicate ? 200 : 201).send({
+      success: true,
+      data: {
+        id: message.id,
+        timestamp: message.timestamp,
+        clientMessageId: body.clientMessageId
+      }
+    });
+
+  } catch (error) {
+    logger.error('Send sealed message error:', error);
+
+    if (error instanceof z.ZodError) {
+      return reply.status(400).send({
+        error: 'Bad Request',
+        message: 'Invalid input data',
+        details: error.errors
+      });
+    }
+
+    return reply.status(500).send({
+      error: 'Internal Server Error',
+      message: 'Failed to send message'
+    });
+  }
+};
+
 export const getMessages = async (
   request: FastifyRequest,
   reply: FastifyReply
@@ -137,6 +273,7 @@ export const getMessages = async (
   try {
     const query = getMessagesSchema.parse(request.query);
     const userId = request.user!.userId;
+    const deviceId = request.user!.deviceId;
 
     // Find the contact
     const contact = await prisma.user.findUnique({
@@ -163,7 +300,9 @@ export const getMessages = async (
             senderId: contact.id,
             receiverId: userId
           }
-        ]
+        ],
+        groupId: null,
+        AND: [{ OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] }]
       },
       include: {
         sender: {
@@ -180,6 +319,11 @@ export const getMessages = async (
               select: { handle: true }
             }
           }
+        },
+        // This device's own copy, if one was stored for it
+        deliveries: {
+          where: { deviceId },
+          select: { encryptedData: true }
         }
       },
       orderBy: { timestamp: 'desc' },
@@ -187,19 +331,6 @@ export const getMessages = async (
       skip: query.offset,
     });
 
-    // Mark messages as read
-    await prisma.message.updateMany({
-      where: {
-        senderId: contact.id,
-        receiverId: userId,
-        read: false
-      },
-      data: {
-        read: true,
-        readAt: new Date()
-      }
-    });
-
     return reply.send({
       success: true,
       messages: messages.map((msg: any) => {
@@ -210,6 +341,7 @@ export const getMessages = async (
           messageType: msg.messageType,
           timestamp: msg.timestamp,
           senderHandle: msg.sender.handle,
+          senderDeviceId: msg.senderDeviceId ?? undefined,
           receiverHandle: msg.receiver.handle,
           delivered: msg.delivered,
           read: msg.read,
@@ -219,7 +351,14 @@ export const getMessages = async (
             senderHandle: msg.replyTo.sender.handle
           } : null,
           encrypted: metadata?.encrypted || false,
-          encryptedData: metadata?.encryptedData || undefined
+          encryptedData: msg.isDeleted
+            ? undefined
+            : msg.deliveries[0]?.encryptedData || metadata?.encryptedData || undefined,
+          isEdited: msg.isEdited,
+          editedAt: msg.editedAt,
+          isDeleted: msg.isDeleted,
+          deletedAt: msg.deletedAt,
+          expiresAt: msg.expiresAt
         };
       }).reverse()
     });
@@ -253,7 +392,11 @@ export const markMessageDelivered = async (
     const message = await prisma.message.findFirst({
       where: {
         id: messageId,
-        receiverId: userId
+        OR: [
+          { receiverId: userId },
+          { senderId: userId }, // Copies on our other devices
+          { group: { members: { some: { userId } } } }
+        ]
       }
     });
 
@@ -264,13 +407,7 @@ export const markMessageDelivered = async (
       });
     }
 
-    await prisma.message.update({
-      where: { id: messageId },
-      data: {
-        delivered: true,
-        deliveredAt: new Date()
-      }
-    });
+    await markCopyDelivered(messageId, request.user!.deviceId, message.senderId !== userId);
 
     return reply.send({
       success: true,
@@ -286,6 +423,93 @@ export const markMessageDelivered = async (
   }
 };
 
+/**
+ * Send a successful edit or deletion to the recipients, or the service's
+ * rejection to the client.
+ */
+const sendMessageChange = async (
+  request: FastifyRequest,
+  reply: FastifyReply,
+  result: MessageChangeResult
+): Promise<void> => {
+  if (!result.ok) {
+    return reply.status(result.status).send({
+      error: result.error,
+      message: result.message
+    });
+  }
+
+  const sender = await prisma.user.findUnique({
+    where: { id: request.user!.userId },
+    select: { handle: true }
+  });
+
+  await pushMessageChange(result.message, {
+    userId: request.user!.userId,
+    deviceId: request.user!.deviceId,
+    handle: sender?.handle ?? ''
+  });
+
+  return reply.send({
+    success: true,
+    message: result.message.deleted ? 'Message deleted' : 'Message edited',
+    data: {
+      id: result.message.id,
+      groupId: result.message.groupId,
+      isDeleted: result.message.deleted,
+      changedAt: result.message.changedAt
+    }
+  });
+};
+
+export const editMessage = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { messageId } = request.params as { messageId: string };
+    const body = editMessageSchema.parse(request.body);
+
+    const result = await applyMessageEdit(messageId, request.user!, body);
+    return sendMessageChange(request, reply, result);
+
+  } catch (error) {
+    logger.error('Edit message error:', error);
+
+    if (error instanceof z.ZodError) {
+      return reply.status(400).send({
+        error: 'Bad Request',
+        message: 'Invalid input data',
+        details: error.errors
+      });
+    }
+
+    return reply.status(500).send({
+      error: 'Internal Server Error',
+      message: 'Failed to edit message'
+    });
+  }
+};
+
+export const deleteMessage = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { messageId } = request.params as { messageId: string };
+
+    const result = await applyMessageDelete(messageId, request.user!.userId);
+    return sendMessageChange(request, reply, result);
+
+  } catch (error) {
+    logger.error('Delete message error:', error);
+    return reply.status(500).send({
+      error: 'Internal Server Error',
+      message: 'Failed to delete message'
+    });
+  }
+};
+
 export const clearMessages = async (
   request: FastifyRequest,
   reply: FastifyReply
@@ -319,7 +543,8 @@ export const clearMessages = async (
             senderId: contact.id,
             receiverId: userId
           }
-        ]
+        ],
+        groupId: null
       }
     });
 
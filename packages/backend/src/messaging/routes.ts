@@ -1,7 +1,7 @@
 import { FastifyInstance } from 'fastify';
 import { keysRoutes } from './handlers/keys';
 import { getConversations } from './handlers/conversations';
-import { sendMessage, getMessages, markMessageDelivered, clearMessages } from './handlers/messages';
+import { sendMessage, sendSealedMessage, getMessages, markMessageDelivered, clearMessages, editMessage, deleteMessage } from './handlers/messages';
 import { authenticateToken } from '../middleware/auth';
 
 export const messagingRoutes = async (server: FastifyInstance) => {
@@ -20,6 +20,12 @@ export const messagingRoutes = async (server: FastifyInstance) => {
     sendMessage
   );
 
+  // Sealed sender: deliberately unauthenticated, see sendSealedMessage
+  server.post(
+    '/messages/sealed',
+    sendSealedMessage
+  );
+
   server.get(
     '/messages',
     { preHandler: [authenticateToken] },
@@ -37,4 +43,16 @@ export const messagingRoutes = async (server: FastifyInstance) => {
     { preHandler: [authenticateToken] },
     clearMessages
   );
+
+  server.patch(
+    '/messages/:messageId',
+    { preHandler: [authenticateToken] },
+    editMessage
+  );
+
+  server.delete(
+    '/messages/:messageId',
+    { preHandler: [authenticateToken] },
+    deleteMessage
+  );
 }; 
\ No newline at end of file
@@ -3,6 +3,13 @@ import jwt from 'jsonwebtoken';
 import { config } from '@/utils/config';
 import { logger } from '@/utils/logger';
 import prisma from '@/db';
+import { buildDirectCopies, toDeliveries, acknowledgeCopies, resolveReplyToId, parseClientMessageId, findMessageByClientId, findConflictingMessage } from '@/services/messageDelivery';
+import { findGroupForMember, buildGroupCopies } from '@/services/groups';
+import { editMessage, deleteMessage, ChangedMessage, MessageChangeResult } from '@/services/messageChanges';
+import { setReaction, acknowledgeReactions, SavedReaction } from '@/services/reactions';
+import { markMessagesRead } from '@/services/readReceipts';
+import { expiryFromNow } from '@/services/messageExpiry';
+import { StoredSealedMessage } from '@/services/sealedSender';
 
 interface AuthenticatedSocket {
   userId: string;
@@ -12,7 +19,7 @@ interface AuthenticatedSocket {
 }
 
 interface WebSocketMessage {
-  type: 'message' | 'typing' | 'heartbeat' | 'auth' | 'contact_added';
+  type: 'message' | 'sealed_message' | 'typing' | 'heartbeat' | 'auth' | 'contact_added' | 'prekeys_low' | 'device_link_request' | 'device_revoked' | 'group_updated' | 'message_edit' | 'message_delete' | 'reaction' | 'read_receipt' | 'delivery_receipt' | 'message_expired' | 'ack';
   data: any;
   timestamp: number;
 }
@@ -23,37 +30,88 @@ interface EncryptedMessageData {
   messageType?: string;
   tempId?: string;
   encrypted?: boolean;
-  encryptedData?: string;
+  deviceCiphertexts?: Record<string, string>; // Device.id -> ciphertext, for the receiver's and our other devices
+  pfsMessage?: boolean;
+  replyToId?: string; // The quoted snippet itself is inside the ciphertext
+  expiresIn?: number; // Disappearing message timer in seconds
+  clientMessageId?: string; // UUID idempotency key; a retry with the same one is not stored again
+}
+
+interface GroupMessageData {
+  groupId: string;
+  messageType?: string;
+  tempId?: string;
+  encrypted?: boolean;
+  encryptedData?: string; // Encrypted with the sender's group key, readable by every member
+  deviceCiphertexts?: Record<string, string>; // Device.id -> pairwise ciphertext, for sender key distributions
+  pfsMessage?: boolean;
+  replyToId?: string;
+  expiresIn?: number;
+  clientMessageId?: string;
+}
+
+interface MessageEditData {
+  messageId: string;
+  encryptedData?: string; // Group messages only
+  deviceCiphertexts?: Record<string, string>; // Device.id -> ciphertext, direct messages only
+  pfsMessage?: boolean;
+}
+
+interface ReactionData {
+  messageId: string;
+  encryptedData?: string; // Encrypted emoji in groups; without any ciphertext our reaction is removed
+  deviceCiphertexts?: Record<string, string>; // Device.id -> ciphertext, direct messages only
   pfsMessage?: boolean;
 }
 
 class WebSocketManager {
-  private connections = new Map<string, any>(); // userId -> socket
-  private userSessions = new Map<string, AuthenticatedSocket>(); // socketId -> user data
+  private connections = new Map<string, Map<string, any>>(); // userId -> (deviceId -> socket)
 
   addConnection(userId: string, socket: any, sessionData: AuthenticatedSocket) {
-    // Remove existing connection for this user (single device policy)
-    if (this.connections.has(userId)) {
-      const oldSocket = this.connections.get(userId);
+    let devices = this.connections.get(userId);
+    if (!devices) {
+      devices = new Map();
+      this.connections.set(userId, devices);
+    }
+
+    // One socket per device: a reconnect from the same device replaces the old socket
+    const oldSocket = devices.get(sessionData.deviceId);
+    if (oldSocket && oldSocket !== socket) {
       oldSocket.close();
     }
 
-    this.connections.set(userId, socket);
-    this.userSessions.set(socket.id || socket._id || Math.random().toString(), sessionData);
-    logger.info(`WebSocket connected for user ${sessionData.handle}`);
+    devices.set(sessionData.deviceId, socket);
+    logger.info(`WebSocket connected for user ${sessionData.handle} on device ${sessionData.deviceId} (${devices.size} active)`);
+  }
+
+  removeConnection(userId: string, deviceId: string, socket?: unknown) {
+    const devices = this.connections.get(userId);
+    if (!devices) {
+      return;
+    }
+
+    // Ignore close events of sockets that were already replaced
+    if (socket && devices.get(deviceId) !== socket) {
+      return;
+    }
+
+    devices.delete(deviceId);
+    if (devices.size === 0) {
+      this.connections.delete(userId);
+    }
+    logger.info(`WebSocket disconnected for user ${userId} on device ${deviceId}`);
   }
 
-  removeConnection(userId: string) {
-    this.connections.delete(userId);
-    logger.info(`WebSocket disconnected for user ${userId}`);
+  getConnection(userId: string, deviceId: string) {
+    return this.connections.get(userId)?.get(deviceId);
   }
 
-  getConnection(userId: string) {
-    return this.connections.get(userId);
+  getDeviceIds(userId: string): string[] {
+    return Array.from(this.connections.get(userId)?.keys() ?? []);
   }
 
-  broadcastToUser(userId: string, message: any) {
-    const socket = this.connections.get(userId);
+  sendToDevice(userId: string, deviceId: string, message: object) {
+    const socket = this.getConnection(userId, deviceId);
     if (socket) {
       socket.send(JSON.stringify(message));
       return true;
@@ -61,6 +119,39 @@ class WebSocketManager {
     return false;
   }
 
+  /**
+   * Tell a device it was revoked and close its socket.
+   */
+  disconnectDevice(userId: string, deviceId: string) {
+    const socket = this.getConnection(userId, deviceId);
+    if (!socket) {
+      return false;
+    }
+
+    socket.send(JSON.stringify({
+      type: 'device_revoked',
+      data: { deviceId },
+      timestamp: Date.now()
+    }));
+    socket.close();
+    this.removeConnection(userId, deviceId, socket);
+    return true;
+  }
+
+  /**
+   * Send to every connected device of a user. Returns true if at least one device got it.
+   */
+  broadcastToUser(userId: string, message: any) {
+    const devices = this.connections.get(userId);
+    if (!devices || devices.size === 0) {
+      return false;
+    }
+
+    const payload = JSON.stringify(message);
+    devices.forEach((socket) => socket.send(payload));
+    return true;
+  }
+
   getConnectedUsers(): string[] {
     return Array.from(this.connections.keys());
   }
@@ -83,9 +174,40 @@ class WebSocketManager {
     });
   }
 
+  /**
+   * Ask a device to upload more one-time prekeys.
+   */
+  notifyPreKeysLow(userId: string, deviceId: string, remaining: number) {
+    const notified = this.sendToDevice(userId, deviceId, {
+      type: 'prekeys_low',
+      data: {
+        remaining,
+        threshold: config.PREKEY_LOW_THRESHOLD,
+        target: config.PREKEY_TARGET_COUNT
+      },
+      timestamp: Date.now()
+    });
+    if (notified) {
+      logger.info(`Sent prekeys_low to device ${deviceId} of user ${userId} (${remaining} left)`);
+    }
+    return notified;
+  }
+
+  /**
+   * Tell a sender that a message expired before any device received it.
+   */
+  notifyMessageExpired(senderId: string, expired: { messageId: string; receiverHandle?: string; groupId?: string }) {
+    return this.broadcastToUser(senderId, {
+      type: 'message_expired',
+      data: expired,
+      timestamp: Date.now()
+    });
+  }
+
   broadcast(message: WebSocketMessage) {
-    this.connections.forEach(socket => {
-      socket.send(JSON.stringify(message));
+    const payload = JSON.stringify(message);
+    this.connections.forEach(devices => {
+      devices.forEach(socket => socket.send(payload));
     });
   }
 }
@@ -138,12 +260,12 @@ export function setupWebSocket(fastify: FastifyInstance) {
                     select: { id: true, handle: true }
                   },
                   device: {
-                    select: { deviceId: true }
+                    select: { isActive: true }
                   }
                 }
               });
 
-              if (!session) {
+              if (!session || !session.device.isActive) {
                 logger.error(`Session not found or invalid for sessionId: ${sessionId}`);
                 throw new Error('Invalid session');
               }
@@ -163,7 +285,7 @@ export function setupWebSocket(fastify: FastifyInstance) {
 
               authenticatedUser = {
                 userId: session.userId,
-                deviceId: session.device.deviceId,
+                deviceId: session.deviceId, // Device.id, same as in the JWT
                 sessionId: session.id,
                 handle: session.user.handle
               };
@@ -180,8 +302,8 @@ export function setupWebSocket(fastify: FastifyInstance) {
               }));
               logger.info(`Sent auth_success to ${session.user.handle}`);
               
-              // Deliver any offline messages
-              await deliverOfflineMessages(session.userId);
+              // Deliver any offline messages for this device
+              await deliverOfflineMessages(session.userId, session.deviceId);
 
               return;
 
@@ -214,7 +336,7 @@ export function setupWebSocket(fastify: FastifyInstance) {
 
       socket.on('close', () => {
         if (authenticatedUser) {
-          wsManager.removeConnection(authenticatedUser.userId);
+          wsManager.removeConnection(authenticatedUser.userId, authenticatedUser.deviceId, socket);
           logger.info(`WebSocket connection closed for user ${authenticatedUser.handle}`);
         }
       });
@@ -222,7 +344,7 @@ export function setupWebSocket(fastify: FastifyInstance) {
       socket.on('error', (error) => {
         logger.error('WebSocket error:', error);
         if (authenticatedUser) {
-          wsManager.removeConnection(authenticatedUser.userId);
+          wsManager.removeConnection(authenticatedUser.userId, authenticatedUser.deviceId, socket);
         }
       });
     });
@@ -236,9 +358,30 @@ async function handleAuthenticatedMessage(
 ) {
   switch (message.type) {
     case 'message':
-      await handleMessageSend(message, user);
+      if (message.data?.groupId) {
+        await handleGroupMessageSend(message, user);
+      } else {
+        await handleMessageSend(message, user);
+      }
       break;
       
+    case 'message_edit':
+    case 'message_delete':
+      await handleMessageChange(message, user);
+      break;
+
+    case 'reaction':
+      await handleReaction(message, user);
+      break;
+
+    case 'read_receipt':
+      await handleReadReceipt(message, user);
+      break;
+
+    case 'ack':
+      await handleAck(message, user);
+      break;
+
     case 'typing':
       await handleTypingIndicator(message, user);
       break;
@@ -250,11 +393,11 @@ async function handleAuthenticatedMessage(
 }
 
 async function handleMessageSend(message: WebSocketMessage, sender: AuthenticatedSocket) {
-  const { receiverHandle, messageType = 'text', tempId, encrypted, encryptedData, pfsMessage } = message.data as EncryptedMessageData;
+  const { receiverHandle, messageType = 'text', tempId, encrypted, deviceCiphertexts, pfsMessage, replyToId, expiresIn, clientMessageId } = message.data as EncryptedMessageData;
 
   try {
     // ENFORCE E2EE: Reject all unencrypted messages
-    if (!encrypted || !encryptedData) {
+    if (!encrypted || !deviceCiphertexts || Object.keys(deviceCiphertexts).length === 0) {
       logger.warn(`Rejected unencrypted message from ${sender.handle} to ${receiverHandle}`);
       return; // Silently reject unencrypted messages
     }
@@ -283,23 +426,44 @@ async function handleMessageSend(message: WebSocketMessage, sender: Authenticate
       return;
     }
 
+    // A retry of a stored message only gets the confirmation again; undelivered
+    // copies reach the receiver through the ack and redelivery path
+    const clientId = parseClientMessageId(clientMessageId);
+    const existing = await findMessageByClientId(sender.userId, clientId);
+    if (existing) {
+      wsManager.sendToDevice(sender.userId, sender.deviceId, {
+        type: 'message_sent',
+        data: { tempId, id: existing.id, timestamp: existing.timestamp.getTime() },
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    // One encrypted copy per device of the receiver and per other device of the sender
+    const copies = await buildDirectCopies(sender, receiver.id, deviceCiphertexts);
+    const validReplyToId = await resolveReplyToId(replyToId, { userId: sender.userId, peerId: receiver.id });
+
     // Store ONLY encrypted messages in database
     const dbMessage = await prisma.message.create({
       data: {
         senderId: sender.userId,
         receiverId: receiver.id,
         senderDeviceId: sender.deviceId,
-        receiverDeviceId: sender.deviceId,
         content: '[Encrypted Message]', // Never store plaintext
         messageType,
+        replyToId: validReplyToId,
+        expiresAt: expiryFromNow(expiresIn),
+        clientMessageId: clientId,
         delivered: false,
         read: false,
-        // Always store encrypted data in metadata
-        metadata: JSON.stringify({ 
-          encrypted: true, 
-          encryptedData: encryptedData,
+        // The ciphertexts only live in the device copies
+        metadata: JSON.stringify({
+          encrypted: true,
           pfsMessage: pfsMessage || false
-        })
+        }),
+        deliveries: {
+          create: toDeliveries(copies)
+        }
       }
     });
 
@@ -310,44 +474,403 @@ async function handleMessageSend(message: WebSocketMessage, sender: Authenticate
       messageType: dbMessage.messageType,
       senderHandle: sender.handle,
       senderId: sender.userId,
+      senderDeviceId: sender.deviceId,
+      receiverHandle: receiver.handle,
       timestamp: dbMessage.timestamp.getTime(),
       encrypted: encrypted || false,
-      encryptedData: encryptedData || undefined,
-      pfsMessage: pfsMessage || false
+      pfsMessage: pfsMessage || false,
+      replyToId: validReplyToId ?? undefined,
+      expiresAt: dbMessage.expiresAt?.getTime()
     };
 
-    // Send to receiver if online
-    const delivered = wsManager.broadcastToUser(receiver.id, {
-      type: 'message',
-      data: messagePayload,
+    // Send each online device its own copy; copies stay pending until the device acks
+    for (const copy of copies) {
+      wsManager.sendToDevice(copy.userId, copy.deviceId, {
+        type: 'message',
+        data: { ...messagePayload, encryptedData: copy.encryptedData },
+        timestamp: Date.now()
+      });
+    }
+
+    // Send confirmation to the sending device
+    wsManager.sendToDevice(sender.userId, sender.deviceId, {
+      type: 'message_sent',
+      data: {
+        tempId,
+        id: dbMessage.id,
+        timestamp: dbMessage.timestamp.getTime()
+      },
       timestamp: Date.now()
     });
 
-    // Update delivery status
-    if (delivered) {
-      await prisma.message.update({
-        where: { id: dbMessage.id },
-        data: { delivered: true, deliveredAt: new Date() }
+  } catch (error) {
+    // A concurrent retry stored the message first; confirm that one
+    const stored = await findConflictingMessage(error, sender.userId, parseClientMessageId(clientMessageId)).catch(() => null);
+    if (stored) {
+      wsManager.sendToDevice(sender.userId, sender.deviceId, {
+        type: 'message_sent',
+        data: { tempId, id: stored.id, timestamp: stored.timestamp.getTime() },
+        timestamp: Date.now()
       });
+      return;
+    }
+
+    logger.error('Failed to send message:', error);
+  }
+}
+
+/**
+ * Fan a group message out to every member device, including the sender's
+ * other devices. Regular messages are encrypted once with the sender's group
+ * key; sender key distributions carry one pairwise ciphertext per device.
+ */
+async function handleGroupMessageSend(message: WebSocketMessage, sender: AuthenticatedSocket) {
+  const { groupId, messageType = 'text', tempId, encrypted, encryptedData, deviceCiphertexts, pfsMessage, replyToId, expiresIn, clientMessageId } = message.data as GroupMessageData;
+
+  try {
+    // ENFORCE E2EE: Reject all unencrypted messages
+    const hasDeviceCiphertexts = !!deviceCiphertexts && Object.keys(deviceCiphertexts).length > 0;
+    if (!encrypted || (!encryptedData && !hasDeviceCiphertexts)) {
+      logger.warn(`Rejected unencrypted group message from ${sender.handle} to group ${groupId}`);
+      return;
+    }
+
+    const group = await findGroupForMember(groupId, sender.userId);
+    if (!group) {
+      return;
     }
 
-    // Send confirmation to sender
-    const senderSocket = wsManager.getConnection(sender.userId);
-    if (senderSocket) {
-      senderSocket.send(JSON.stringify({
+    const clientId = parseClientMessageId(clientMessageId);
+    const existing = await findMessageByClientId(sender.userId, clientId);
+    if (existing) {
+      wsManager.sendToDevice(sender.userId, sender.deviceId, {
         type: 'message_sent',
-        data: {
-          tempId,
-          id: dbMessage.id,
-          delivered,
-          timestamp: dbMessage.timestamp.getTime()
-        },
+        data: { tempId, id: existing.id, groupId: group.id, timestamp: existing.timestamp.getTime() },
         timestamp: Date.now()
-      }));
+      });
+      return;
     }
 
+    const recipients = await buildGroupCopies(group.members, sender, { encryptedData, deviceCiphertexts });
+    const validReplyToId = await resolveReplyToId(replyToId, { groupId: group.id });
+
+    const dbMessage = await prisma.message.create({
+      data: {
+        senderId: sender.userId,
+        groupId: group.id,
+        senderDeviceId: sender.deviceId,
+        content: '[Encrypted Message]', // Never store plaintext
+        messageType,
+        replyToId: validReplyToId,
+        expiresAt: expiryFromNow(expiresIn),
+        clientMessageId: clientId,
+        delivered: false,
+        read: false,
+        metadata: JSON.stringify({
+          encrypted: true,
+          pfsMessage: pfsMessage || false
+        }),
+        deliveries: {
+          create: recipients.flatMap((recipient) => recipient.copies)
+        }
+      }
+    });
+
+    const messagePayload = {
+      id: dbMessage.id,
+      groupId: group.id,
+      content: dbMessage.content,
+      messageType: dbMessage.messageType,
+      senderHandle: sender.handle,
+      senderId: sender.userId,
+      senderDeviceId: sender.deviceId,
+      timestamp: dbMessage.timestamp.getTime(),
+      encrypted: true,
+      pfsMessage: pfsMessage || false,
+      replyToId: validReplyToId ?? undefined,
+      expiresAt: dbMessage.expiresAt?.getTime()
+    };
+
+    for (const recipient of recipients) {
+      for (const copy of recipient.copies) {
+        wsManager.sendToDevice(recipient.userId, copy.deviceId, {
+          type: 'message',
+          data: { ...messagePayload, encryptedData: copy.encryptedData },
+          timestamp: Date.now()
+        });
+      }
+    }
+
+    wsManager.sendToDevice(sender.userId, sender.deviceId, {
+      type: 'message_sent',
+      data: {
+        tempId,
+        id: dbMessage.id,
+        groupId: group.id,
+        timestamp: dbMessage.timestamp.getTime()
+      },
+      timestamp: Date.now()
+    });
+
   } catch (error) {
-    logger.error('Failed to send message:', error);
+    const stored = await findConflictingMessage(error, sender.userId, parseClientMessageId(clientMessageId)).catch(() => null);
+    if (stored) {
+      wsManager.sendToDevice(sender.userId, sender.deviceId, {
+        type: 'message_sent',
+        data: { tempId, id: stored.id, groupId: stored.groupId, timestamp: stored.timestamp.getTime() },
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    logger.error('Failed to send group message:', error);
+  }
+}
+
+async function handleMessageChange(message: WebSocketMessage, sender: AuthenticatedSocket) {
+  const { messageId, encryptedData, deviceCiphertexts, pfsMessage } = message.data as MessageEditData;
+
+  try {
+    let result: MessageChangeResult;
+    if (message.type === 'message_edit') {
+      // ENFORCE E2EE: edits carry ciphertexts like any other message
+      if (!encryptedData && !deviceCiphertexts) {
+        logger.warn(`Rejected unencrypted edit from ${sender.handle} for message ${messageId}`);
+        return;
+      }
+      result = await editMessage(messageId, sender, { encryptedData, deviceCiphertexts, pfsMessage });
+    } else {
+      result = await deleteMessage(messageId, sender.userId);
+    }
+
+    if (!result.ok) {
+      wsManager.sendToDevice(sender.userId, sender.deviceId, {
+        type: 'error',
+        data: { messageId, message: result.message },
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    await pushMessageChange(result.message, sender);
+
+  } catch (error) {
+    logger.error('Failed to change message:', error);
+  }
+}
+
+/**
+ * Send an edit or deletion to every online recipient device, then confirm it
+ * to the sending device. Devices that are offline get it from their queued
+ * copy on the next connect.
+ */
+export async function pushMessageChange(
+  changed: ChangedMessage,
+  sender: { userId: string; deviceId: string; handle: string }
+): Promise<void> {
+  const { deleted } = changed;
+  const payload = messageChangePayload(deleted, {
+    id: changed.id,
+    groupId: changed.groupId,
+    senderHandle: sender.handle,
+    senderId: sender.userId,
+    senderDeviceId: sender.deviceId,
+    changedAt: changed.changedAt,
+    pfsMessage: changed.pfsMessage
+  });
+
+  for (const copy of changed.copies) {
+    wsManager.sendToDevice(copy.userId, copy.deviceId, {
+      type: payload.type,
+      data: {
+        ...payload.data,
+        receiverHandle: changed.receiverHandle ?? undefined,
+        encryptedData: deleted ? undefined : copy.encryptedData
+      },
+      timestamp: Date.now()
+    });
+  }
+
+  wsManager.sendToDevice(sender.userId, sender.deviceId, {
+    type: deleted ? 'message_delete_sent' : 'message_edit_sent',
+    data: {
+      id: changed.id,
+      groupId: changed.groupId ?? undefined,
+      timestamp: changed.changedAt.getTime()
+    },
+    timestamp: Date.now()
+  });
+}
+
+/**
+ * Send a sealed message to the recipient's online devices. The frame has no
+ * sender; the recipient finds it inside the envelope.
+ */
+export function pushSealedMessage(receiverId: string, message: StoredSealedMessage): void {
+  for (const copy of message.copies) {
+    wsManager.sendToDevice(receiverId, copy.deviceId, {
+      type: 'sealed_message',
+      data: sealedMessagePayload(message, copy.encryptedData),
+      timestamp: Date.now()
+    });
+  }
+}
+
+function sealedMessagePayload(
+  message: { id: string; timestamp: Date; expiresAt: Date | null },
+  envelope: string
+) {
+  return {
+    id: message.id,
+    envelope,
+    timestamp: message.timestamp.getTime(),
+    expiresAt: message.expiresAt?.getTime()
+  };
+}
+
+function messageChangePayload(
+  deleted: boolean,
+  change: {
+    id: string;
+    groupId: string | null;
+    senderHandle: string;
+    senderId: string;
+    senderDeviceId: string | null;
+    changedAt: Date;
+    pfsMessage: boolean;
+  }
+) {
+  const common = {
+    id: change.id,
+    groupId: change.groupId ?? undefined,
+    senderHandle: change.senderHandle,
+    senderId: change.senderId,
+    senderDeviceId: change.senderDeviceId ?? undefined
+  };
+
+  if (deleted) {
+    return {
+      type: 'message_deleted',
+      data: { ...common, deletedAt: change.changedAt.getTime() }
+    };
+  }
+
+  return {
+    type: 'message_edited',
+    data: { ...common, editedAt: change.changedAt.getTime(), encrypted: true, pfsMessage: change.pfsMessage }
+  };
+}
+
+async function handleReaction(message: WebSocketMessage, sender: AuthenticatedSocket) {
+  const { messageId, encryptedData, deviceCiphertexts, pfsMessage } = message.data as ReactionData;
+
+  try {
+    const result = await setReaction(messageId, sender, { encryptedData, deviceCiphertexts, pfsMessage });
+
+    if (!result.ok) {
+      wsManager.sendToDevice(sender.userId, sender.deviceId, {
+        type: 'error',
+        data: { messageId, message: result.message },
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    await pushReaction(result.reaction, sender);
+
+  } catch (error) {
+    logger.error('Failed to handle reaction:', error);
+  }
+}
+
+/**
+ * Send a reaction, or its removal, to every online recipient device. Copies
+ * stay pending until the device acks them, and are sent again on its next connect.
+ */
+async function pushReaction(
+  reaction: SavedReaction,
+  sender: { userId: string; deviceId: string; handle: string }
+): Promise<void> {
+  for (const copy of reaction.copies) {
+    wsManager.sendToDevice(copy.userId, copy.deviceId, {
+      type: 'reaction',
+      data: {
+        reactionId: copy.id,
+        messageId: reaction.messageId,
+        groupId: reaction.groupId ?? undefined,
+        senderHandle: sender.handle,
+        senderId: sender.userId,
+        senderDeviceId: sender.deviceId,
+        removed: reaction.removed,
+        encrypted: !reaction.removed,
+        encryptedData: reaction.removed ? undefined : copy.encryptedData,
+        pfsMessage: reaction.pfsMessage,
+        timestamp: reaction.reactedAt.getTime()
+      },
+      timestamp: Date.now()
+    });
+  }
+}
+
+/**
+ * A client displayed messages. They are marked read either way; the senders
+ * are only told if the reader has read receipts enabled.
+ */
+async function handleReadReceipt(message: WebSocketMessage, reader: AuthenticatedSocket) {
+  const { messageIds } = message.data as { messageIds?: string[] };
+  if (!Array.isArray(messageIds) || messageIds.length === 0) {
+    return;
+  }
+
+  try {
+    const { readAt, bySender, notifySenders } = await markMessagesRead(reader.userId, messageIds.filter((id) => typeof id === 'string'));
+    if (!notifySenders) {
+      return;
+    }
+
+    bySender.forEach((ids, senderId) => {
+      wsManager.broadcastToUser(senderId, {
+        type: 'read_receipt',
+        data: { messageIds: ids, readerHandle: reader.handle, readAt: readAt.getTime() },
+        timestamp: Date.now()
+      });
+    });
+
+  } catch (error) {
+    logger.error('Failed to handle read receipt:', error);
+  }
+}
+
+/**
+ * A device processed messages (or changes to them) and reactions. Their copies
+ * stop being redelivered, and senders get a delivery receipt for the first device.
+ */
+async function handleAck(message: WebSocketMessage, user: AuthenticatedSocket) {
+  const { messageIds, reactionIds } = message.data as { messageIds?: string[]; reactionIds?: string[] };
+
+  try {
+    if (Array.isArray(reactionIds)) {
+      await acknowledgeReactions(user.deviceId, reactionIds.filter((id) => typeof id === 'string'));
+    }
+
+    if (!Array.isArray(messageIds) || messageIds.length === 0) {
+      return;
+    }
+
+    const firstDeliveries = await acknowledgeCopies(user.userId, user.deviceId, messageIds.filter((id) => typeof id === 'string'));
+
+    // Sealed messages have no sender to tell
+    for (const delivered of firstDeliveries) {
+      if (!delivered.senderId) continue;
+      wsManager.broadcastToUser(delivered.senderId, {
+        type: 'delivery_receipt',
+        data: { messageId: delivered.id },
+        timestamp: Date.now()
+      });
+    }
+
+  } catch (error) {
+    logger.error('Failed to handle ack:', error);
   }
 }
 
@@ -394,68 +917,141 @@ async function handleHeartbeat(user: AuthenticatedSocket, socket: any) {
   }
 }
 
-async function deliverOfflineMessages(userId: string) {
+async function deliverOfflineMessages(userId: string, deviceId: string) {
   try {
-    const offlineMessages = await prisma.message.findMany({
+    const pendingCopies = await prisma.messageDelivery.findMany({
       where: {
-        receiverId: userId,
+        deviceId,
         deliveredAt: null,
+        // Expired messages that were not purged yet are never delivered
+        message: {
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+        },
       },
       include: {
-        sender: {
-          select: { id: true, handle: true },
+        message: {
+          include: {
+            sender: {
+              select: { id: true, handle: true },
+            },
+            receiver: {
+              select: { handle: true },
+            },
+          },
         },
       },
+      orderBy: { createdAt: 'asc' },
     });
 
-    if (offlineMessages.length > 0) {
-      logger.info(`Found ${offlineMessages.length} offline messages for user ${userId}.`);
+    if (pendingCopies.length > 0) {
+      logger.info(`Found ${pendingCopies.length} offline messages for user ${userId} on device ${deviceId}.`);
     }
 
-    for (const message of offlineMessages) {
+    for (const copy of pendingCopies) {
+      const message = copy.message;
+
+      // Sealed messages go out as stored; only the recipient can tell who sent them
+      if (!message.sender) {
+        wsManager.sendToDevice(userId, deviceId, {
+          type: 'sealed_message',
+          data: sealedMessagePayload(message, copy.encryptedData),
+          timestamp: Date.now(),
+        });
+        continue;
+      }
+
       // Parse metadata to get encryption details
-      let encryptedData, pfsMessage = false;
+      let pfsMessage = false;
       try {
         if (message.metadata) {
           const metadata = JSON.parse(message.metadata as string);
-          encryptedData = metadata.encryptedData;
           pfsMessage = metadata.pfsMessage || false;
         }
       } catch (metadataError) {
         logger.warn(`Failed to parse metadata for message ${message.id}`);
       }
 
-      // 1. Deliver the message to the recipient
-      const delivered = wsManager.broadcastToUser(userId, {
+      // Deliver this device's copy. Messages that were changed while the
+      // device was offline arrive as the change, which clients apply whether
+      // or not they have seen the original.
+      const changedAt = message.isDeleted ? message.deletedAt : message.isEdited ? message.editedAt : null;
+      const change = changedAt
+        ? messageChangePayload(message.isDeleted, {
+            id: message.id,
+            groupId: message.groupId,
+            senderHandle: message.sender.handle,
+            senderId: message.sender.id,
+            senderDeviceId: message.senderDeviceId,
+            changedAt,
+            pfsMessage
+          })
+        : null;
+
+      // The copy stays pending until the device acks it, so it is sent
+      // again on the next connect if the client never processed it
+      wsManager.sendToDevice(userId, deviceId, change ? {
+        type: change.type,
+        data: {
+          ...change.data,
+          receiverHandle: message.receiver?.handle,
+          timestamp: message.timestamp.toISOString(),
+          messageType: message.messageType,
+          encryptedData: message.isDeleted ? undefined : copy.encryptedData
+        },
+        timestamp: Date.now(),
+      } : {
         type: 'message',
         data: {
           id: message.id,
+          groupId: message.groupId ?? undefined,
           content: message.content,
           messageType: message.messageType,
           senderHandle: message.sender.handle,
+          senderDeviceId: message.senderDeviceId ?? undefined,
+          receiverHandle: message.receiver?.handle,
           timestamp: message.timestamp.toISOString(),
-          encrypted: !!encryptedData,
-          encryptedData: encryptedData,
-          pfsMessage: pfsMessage
+          encrypted: true,
+          encryptedData: copy.encryptedData,
+          pfsMessage: pfsMessage,
+          replyToId: message.replyToId ?? undefined,
+          expiresAt: message.expiresAt?.getTime()
         },
         timestamp: Date.now(),
       });
+    }
 
-      if (delivered) {
-        // 2. Mark as delivered in DB
-        await prisma.message.update({
-          where: { id: message.id },
-          data: { deliveredAt: new Date() },
-        });
+    // Reactions go after the messages they refer to
+    const pendingReactions = await prisma.reaction.findMany({
+      where: {
+        deviceId,
+        deliveredAt: null,
+      },
+      include: {
+        user: { select: { id: true, handle: true } },
+        message: { select: { groupId: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
 
-        // 3. Notify the original sender
-        wsManager.broadcastToUser(message.senderId, {
-          type: 'delivery_receipt',
-          data: { messageId: message.id },
-          timestamp: Date.now(),
-        });
-        logger.info(`Sent delivery_receipt for message ${message.id} to sender ${message.sender.handle}`);
-      }
+    for (const reaction of pendingReactions) {
+      const removed = reaction.encryptedData === '';
+      wsManager.sendToDevice(userId, deviceId, {
+        type: 'reaction',
+        data: {
+          reactionId: reaction.id,
+          messageId: reaction.messageId,
+          groupId: reaction.message.groupId ?? undefined,
+          senderHandle: reaction.user.handle,
+          senderId: reaction.user.id,
+          senderDeviceId: reaction.senderDeviceId ?? undefined,
+          removed,
+          encrypted: !removed,
+          encryptedData: removed ? undefined : reaction.encryptedData,
+          pfsMessage: reaction.pfsMessage,
+          timestamp: reaction.createdAt.getTime()
+        },
+        timestamp: Date.now(),
+      });
     }
   } catch (error) {
     logger.error(`Error delivering offline messages for user ${userId}:`, error);
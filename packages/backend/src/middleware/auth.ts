@@ -52,7 +52,10 @@ export const authenticateToken = async (
         }
       },
       include: {
-        user: true
+        user: true,
+        device: {
+          select: { isActive: true }
+        }
       }
     });
 
@@ -63,6 +66,14 @@ export const authenticateToken = async (
       });
     }
 
+    // Revoked devices lose access even if their token has not expired yet
+    if (!session.device.isActive) {
+      return reply.status(401).send({
+        error: 'Unauthorized',
+        message: 'Device has been revoked'
+      });
+    }
+
     // Update last heartbeat
     await prisma.session.update({
       where: { id: session.id },
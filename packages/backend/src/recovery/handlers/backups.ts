@@ -0,0 +1,245 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import prisma from '@/db';
+import { logger } from '@/utils/logger';
+import { config } from '@/utils/config';
+import { signingKeyBootstrapFields, verifyChallengeResponse } from '@/auth/handlers/challenges';
+
+// Backups are encrypted on the client; the server only stores opaque blobs
+const MAX_BACKUP_LENGTH = 512 * 1024;
+
+const uploadBackupSchema = z.object({
+  encryptedBackup: z.string().min(1).max(MAX_BACKUP_LENGTH),
+});
+
+const pruneBackupsSchema = z.object({
+  keep: z.coerce.number().int().min(1).default(1),
+});
+
+const restoreBackupSchema = z.object({
+  handle: z.string().regex(/^[A-Z]{3}-\d{3}$/, 'Handle must be in format ABC-123'),
+  challengeId: z.string().min(1),
+  signature: z.string().min(1),
+  version: z.number().int().positive().optional(),
+  ...signingKeyBootstrapFields,
+});
+
+const versionParamsSchema = z.object({
+  version: z.coerce.number().int().positive(),
+});
+
+/**
+ * Delete everything but the newest `keep` versions of a user's backups
+ */
+const pruneOldBackups = async (userId: string, keep: number): Promise<number> => {
+  const stale = await prisma.recoveryBackup.findMany({
+    where: { userId },
+    orderBy: { version: 'desc' },
+    skip: keep,
+    select: { id: true }
+  });
+
+  if (stale.length === 0) {
+    return 0;
+  }
+
+  const result = await prisma.recoveryBackup.deleteMany({
+    where: { id: { in: stale.map((backup: { id: string }) => backup.id) } }
+  });
+  return result.count;
+};
+
+const sendBackupError = (reply: FastifyReply, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      error: 'Bad Request',
+      message: 'Invalid input data',
+      details: error.errors
+    });
+  }
+
+  return reply.status(500).send({
+    error: 'Internal Server Error',
+    message
+  });
+};
+
+/**
+ * Store a new backup version; older versions beyond BACKUP_MAX_VERSIONS are pruned
+ */
+export const uploadBackup = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { encryptedBackup } = uploadBackupSchema.parse(request.body);
+    const userId = request.user!.userId;
+
+    const latest = await prisma.recoveryBackup.findFirst({
+      where: { userId },
+      orderBy: { version: 'desc' },
+      select: { version: true }
+    });
+
+    const backup = await prisma.recoveryBackup.create({
+      data: {
+        userId,
+        encryptedBackup,
+        version: (latest?.version ?? 0) + 1
+      }
+    });
+
+    const pruned = await pruneOldBackups(userId, config.BACKUP_MAX_VERSIONS);
+
+    logger.info(`Stored backup version ${backup.version} for user ${userId} (${pruned} pruned)`);
+
+    return reply.status(201).send({
+      success: true,
+      version: backup.version,
+      createdAt: backup.createdAt
+    });
+
+  } catch (error) {
+    logger.error('Upload backup error:', error);
+
+    // Two uploads raced for the same version number
+    if ((error as { code?: string }).code === 'P2002') {
+      return reply.status(409).send({
+        error: 'Conflict',
+        message: 'Another backup was uploaded at the same time, please retry'
+      });
+    }
+
+    return sendBackupError(reply, error, 'Failed to store backup');
+  }
+};
+
+export const listBackups = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const userId = request.user!.userId;
+
+    const backups = await prisma.recoveryBackup.findMany({
+      where: { userId },
+      orderBy: { version: 'desc' },
+      select: {
+        version: true,
+        createdAt: true
+      }
+    });
+
+    return reply.send({
+      success: true,
+      backups
+    });
+
+  } catch (error) {
+    logger.error('List backups error:', error);
+    return sendBackupError(reply, error, 'Failed to list backups');
+  }
+};
+
+export const getBackup = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { version } = versionParamsSchema.parse(request.params);
+    const userId = request.user!.userId;
+
+    const backup = await prisma.recoveryBackup.findUnique({
+      where: { userId_version: { userId, version } }
+    });
+
+    if (!backup) {
+      return reply.status(404).send({
+        error: 'Not Found',
+        message: 'Backup not found'
+      });
+    }
+
+    return reply.send({
+      success: true,
+      version: backup.version,
+      createdAt: backup.createdAt,
+      encryptedBackup: backup.encryptedBackup
+    });
+
+  } catch (error) {
+    logger.error('Get backup error:', error);
+    return sendBackupError(reply, error, 'Failed to get backup');
+  }
+};
+
+export const pruneBackups = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { keep } = pruneBackupsSchema.parse(request.query);
+    const userId = request.user!.userId;
+
+    const deleted = await pruneOldBackups(userId, keep);
+
+    return reply.send({
+      success: true,
+      deleted
+    });
+
+  } catch (error) {
+    logger.error('Prune backups error:', error);
+    return sendBackupError(reply, error, 'Failed to prune backups');
+  }
+};
+
+/**
+ * Fetch a backup on a device without a session. The caller proves ownership
+ * of the identity key by signing a login challenge, like when creating a session.
+ */
+export const restoreBackup = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { handle, challengeId, signature, version, ...bootstrap } = restoreBackupSchema.parse(request.body);
+
+    const proofValid = await verifyChallengeResponse(challengeId, handle, signature, bootstrap);
+    if (!proofValid) {
+      logger.warn(`Backup restore for ${handle} rejected: invalid challenge response`);
+      return reply.status(401).send({
+        error: 'Unauthorized',
+        message: 'Challenge signature invalid or expired'
+      });
+    }
+
+    const backup = await prisma.recoveryBackup.findFirst({
+      where: {
+        user: { handle },
+        ...(version ? { version } : {})
+      },
+      orderBy: { version: 'desc' }
+    });
+
+    if (!backup) {
+      return reply.status(404).send({
+        error: 'Not Found',
+        message: 'Backup not found'
+      });
+    }
+
+    logger.info(`Backup version ${backup.version} restored for ${handle}`);
+
+    return reply.send({
+      success: true,
+      version: backup.version,
+      createdAt: backup.createdAt,
+      encryptedBackup: backup.encryptedBackup
+    });
+
+  } catch (error) {
+    logger.error('Restore backup error:', error);
+    return sendBackupError(reply, error, 'Failed to restore backup');
+  }
+};
@@ -1,7 +1,133 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import prisma from '@/db';
 import { logger } from '@/utils/logger';
+import { describeChallenge, issueChallenge, signingKeyBootstrapFields, verifyChallengeResponse } from '@/auth/handlers/challenges';
+import { deviceSessionErrors, openDeviceSession } from '@/auth/handlers/sessions';
 
+// The public key is derived on the client from the mnemonic; the phrase itself never leaves the device
+const recoveryChallengeSchema = z.object({
+  publicKey: z.string().min(1),
+});
+
+const seedRecoverySchema = z.object({
+  publicKey: z.string().min(1),
+  deviceId: z.string().min(1),
+  challengeId: z.string().min(1),
+  signature: z.string().min(1),
+  ...signingKeyBootstrapFields,
+});
+
+const findAccountByPublicKey = (publicKey: string) =>
+  prisma.user.findFirst({
+    where: { publicKey },
+    select: {
+      id: true,
+      handle: true,
+      publicKey: true,
+      createdAt: true,
+      identity: { select: { publicKey: true, signingKey: true } }
+    }
+  });
+
+const sendRecoveryError = (reply: FastifyReply, error: unknown, message: string) => {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      error: 'Bad Request',
+      message: 'Invalid input data',
+      details: error.errors
+    });
+  }
+
+  const deviceError = error instanceof Error ? deviceSessionErrors[error.message] : undefined;
+  if (deviceError) {
+    return reply.status(deviceError.status).send({ error: deviceError.error, message: deviceError.message });
+  }
+
+  return reply.status(500).send({
+    error: 'Internal Server Error',
+    message
+  });
+};
+
+/**
+ * Issue a login challenge for the account owning `publicKey`.
+ * The handle is returned because the client needs it to build the signed message.
+ */
+export async function createRecoveryChallenge(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    const { publicKey } = recoveryChallengeSchema.parse(request.body);
+
+    const account = await findAccountByPublicKey(publicKey);
+    if (!account) {
+      return reply.status(404).send({
+        error: 'Konto nicht gefunden',
+        message: 'Kein Konto mit diesem öffentlichen Schlüssel gefunden'
+      });
+    }
+
+    const challenge = await issueChallenge(account.handle);
+
+    return reply.status(201).send({
+      ...await describeChallenge(challenge, account.identity),
+      handle: account.handle
+    });
+
+  } catch (error) {
+    logger.error('Recovery challenge error:', error);
+    return sendRecoveryError(reply, error, 'Failed to create recovery challenge');
+  }
+}
+
+/**
+ * Recover an account from its seed phrase. The client proves possession of the
+ * derived identity key by signing the recovery challenge; on success the account
+ * is returned together with a session on a fresh device.
+ */
 export async function handleSeedRecovery(request: FastifyRequest, reply: FastifyReply) {
-  logger.info('Recovery attempt received');
-  return reply.status(501).send({ error: 'Not Implemented' });
-} 
\ No newline at end of file
+  try {
+    const { publicKey, deviceId, challengeId, signature, ...bootstrap } = seedRecoverySchema.parse(request.body);
+
+    logger.info('Recovery attempt received');
+
+    const account = await findAccountByPublicKey(publicKey);
+    if (!account) {
+      return reply.status(404).send({
+        error: 'Konto nicht gefunden',
+        message: 'Kein Konto mit diesem öffentlichen Schlüssel gefunden'
+      });
+    }
+
+    const proofValid = await verifyChallengeResponse(challengeId, account.handle, signature, bootstrap);
+    if (!proofValid) {
+      logger.warn(`Recovery for ${account.handle} rejected: invalid challenge response`);
+      return reply.status(401).send({
+        error: 'Unauthorized',
+        message: 'Challenge signature invalid or expired'
+      });
+    }
+
+    const { device, session } = await openDeviceSession(account, deviceId);
+
+    logger.info(`Account ${account.handle} recovered on device ${device.id}`);
+
+    return reply.status(201).send({
+      success: true,
+      account: {
+        handle: account.handle,
+        publicKey: account.publicKey,
+        createdAt: account.createdAt
+      },
+      session: {
+        sessionId: session.id,
+        token: session.token,
+        expiresAt: session.expiresAt
+      },
+      deviceId: device.id
+    });
+
+  } catch (error) {
+    logger.error('Seed recovery error:', error);
+    return sendRecoveryError(reply, error, 'Failed to recover account');
+  }
+}
@@ -1,50 +1,84 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { handleSeedRecovery } from './handlers/recovery';
+import { handleSeedRecovery, createRecoveryChallenge } from './handlers/recovery';
+import { uploadBackup, listBackups, getBackup, pruneBackups, restoreBackup } from './handlers/backups';
+import { authenticateToken } from '../middleware/auth';
+import { rateLimiter, rateLimitKey } from '../services/rateLimiter';
+import { config } from '../utils/config';
 
-const recoveryAttempts: Map<string, number[]> = new Map();
+const RECOVERY_ROUTE = 'recover';
 
-const MAX_ATTEMPTS_PER_HOUR = 3;
-const WINDOW_MS = 60 * 60 * 1000; // 1 hour
+const recoveryRule = {
+  limit: config.RECOVERY_RATE_LIMIT,
+  windowMs: config.RECOVERY_RATE_WINDOW
+};
 
-// Helper to prune outdated attempts
-function pruneAttempts(ip: string) {
-  const now = Date.now();
-  const attempts = recoveryAttempts.get(ip) || [];
-  const recent = attempts.filter((t) => now - t < WINDOW_MS);
-  recoveryAttempts.set(ip, recent);
+const recoveryKey = (ip: string) => rateLimitKey(RECOVERY_ROUTE, 'ip', ip);
+
+// Failed attempts count against the IP; a success clears its history
+async function recordAttempt(ip: string, success: boolean) {
+  if (success) {
+    await rateLimiter.reset(recoveryKey(ip));
+    return;
+  }
+
+  await rateLimiter.hit(recoveryKey(ip), recoveryRule);
 }
 
-// Exposed helper to clear all stored attempts (useful for admin resets or tests)
-export function clearRecoveryAttempts() {
-  recoveryAttempts.clear();
+/**
+ * Reject callers over the limit and record the outcome of the wrapped handler.
+ * Unknown keys and bad signatures count as failures; server errors do not.
+ */
+function withRecoveryLimit(
+  handler: (request: FastifyRequest, reply: FastifyReply) => Promise<unknown>,
+  recordSuccess: boolean
+) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const { allowed, retryAfter } = await rateLimiter.check(recoveryKey(request.ip), recoveryRule);
+    if (!allowed) {
+      return reply.status(429).send({
+        error: 'Too Many Requests',
+        message: 'Zu viele Wiederherstellungsversuche. Bitte versuchen Sie es später erneut.',
+        retryAfter
+      });
+    }
+
+    await handler(request, reply);
+
+    if (reply.statusCode === 401 || reply.statusCode === 404) {
+      await recordAttempt(request.ip, false);
+    } else if (recordSuccess && reply.statusCode < 300) {
+      await recordAttempt(request.ip, true);
+    }
+
+    return reply;
+  };
 }
 
 export async function recoveryRoutes(fastify: FastifyInstance) {
-  fastify.post('/recover', handleSeedRecovery);
+  fastify.post('/recover/challenge', withRecoveryLimit(createRecoveryChallenge, false));
+  fastify.post('/recover', withRecoveryLimit(handleSeedRecovery, true));
+
+  // Client-encrypted backups
+  fastify.post('/backups', { preHandler: [authenticateToken] }, uploadBackup);
+  fastify.get('/backups', { preHandler: [authenticateToken] }, listBackups);
+  fastify.get('/backups/:version', { preHandler: [authenticateToken] }, getBackup);
+  fastify.delete('/backups', { preHandler: [authenticateToken] }, pruneBackups);
+  fastify.post('/backups/restore', restoreBackup);
 
   /**
    * Check current rate-limit status for the caller IP
    * GET /recovery/rate-limit
    */
   fastify.get('/recovery/rate-limit', async (request: FastifyRequest, reply: FastifyReply) => {
-    const ip = request.ip;
-    pruneAttempts(ip);
-    const attempts = recoveryAttempts.get(ip) || [];
-    const allowed = attempts.length < MAX_ATTEMPTS_PER_HOUR;
-    let retryAfter = 0;
-
-    if (!allowed) {
-      const oldest = Math.min(...attempts);
-      retryAfter = Math.ceil((oldest + WINDOW_MS - Date.now()) / 1000); // seconds
-    }
-
+    const { allowed, retryAfter } = await rateLimiter.check(recoveryKey(request.ip), recoveryRule);
     return reply.send({ allowed, retryAfter });
   });
 
   /**
    * Record recovery attempt outcome
    * POST /recovery/rate-limit  { success: boolean }
-   * - Records failed attempts; on success, clears attempt history
+   * - Records failed attempts. Only a verified recovery through POST /recover
+   *   clears the history, so a client cannot reset its own limit here.
    */
   fastify.post('/recovery/rate-limit', {
     schema: {
@@ -57,29 +91,13 @@ export async function recoveryRoutes(fastify: FastifyInstance) {
       },
     },
   }, async (request: FastifyRequest<{ Body: { success: boolean } }>, reply: FastifyReply) => {
-    const ip = request.ip;
     const { success } = request.body;
 
-    pruneAttempts(ip);
-
-    if (success) {
-      // On successful recovery, clear failed attempts for IP
-      recoveryAttempts.delete(ip);
-      return reply.send({ recorded: true, allowed: true, retryAfter: 0 });
-    }
-
-    // Record failed attempt
-    const attempts = recoveryAttempts.get(ip) || [];
-    attempts.push(Date.now());
-    recoveryAttempts.set(ip, attempts);
-
-    const allowed = attempts.length < MAX_ATTEMPTS_PER_HOUR;
-    let retryAfter = 0;
-    if (!allowed) {
-      const oldest = Math.min(...attempts);
-      retryAfter = Math.ceil((oldest + WINDOW_MS - Date.now()) / 1000);
+    if (!success) {
+      await recordAttempt(request.ip, false);
     }
 
+    const { allowed, retryAfter } = await rateLimiter.check(recoveryKey(request.ip), recoveryRule);
     return reply.send({ recorded: true, allowed, retryAfter });
   });
 
@@ -0,0 +1,83 @@
+import prisma from '@/db';
+import { buildDeviceCopies, DeviceCiphertexts, DeviceCopy } from '@/services/messageDelivery';
+
+export interface GroupMemberInfo {
+  userId: string;
+  handle: string;
+  role: string;
+  joinedAt: Date;
+}
+
+export interface GroupRecipient {
+  userId: string;
+  handle: string;
+  copies: DeviceCopy[];
+}
+
+interface GroupMemberRow {
+  userId: string;
+  role: string;
+  joinedAt: Date;
+  user: { handle: string };
+}
+
+/**
+ * Load a group with its members, or null if `userId` is not one of them.
+ * Non-members get the same answer as for a missing group.
+ */
+export async function findGroupForMember(groupId: string, userId: string) {
+  const group = await prisma.group.findFirst({
+    where: {
+      id: groupId,
+      members: { some: { userId } }
+    },
+    include: {
+      members: {
+        include: { user: { select: { handle: true } } },
+        orderBy: { joinedAt: 'asc' }
+      }
+    }
+  });
+
+  if (!group) {
+    return null;
+  }
+
+  return {
+    id: group.id as string,
+    name: group.name as string,
+    createdAt: group.createdAt as Date,
+    members: group.members.map((member: GroupMemberRow): GroupMemberInfo => ({
+      userId: member.userId,
+      handle: member.user.handle,
+      role: member.role,
+      joinedAt: member.joinedAt
+    }))
+  };
+}
+
+/**
+ * Build the per-device copies of a group message for every member device,
+ * including the sender's other devices. Messages encrypted with the sender's
+ * group key carry one ciphertext for everyone; sender key distributions go
+ * over pairwise sessions and carry one ciphertext per Device.id. Devices
+ * without a ciphertext are skipped; they could not read it anyway.
+ */
+export async function buildGroupCopies(
+  members: GroupMemberInfo[],
+  sender: { userId: string; deviceId: string },
+  ciphertexts: DeviceCiphertexts
+): Promise<GroupRecipient[]> {
+  const recipients: GroupRecipient[] = [];
+
+  for (const member of members) {
+    const copies = await buildDeviceCopies(member.userId, ciphertexts, sender.deviceId);
+    if (copies.length === 0) {
+      continue;
+    }
+
+    recipients.push({ userId: member.userId, handle: member.handle, copies });
+  }
+
+  return recipients;
+}
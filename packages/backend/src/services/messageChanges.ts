@@ -0,0 +1,195 @@
+import prisma from '@/db';
+import { config } from '@/utils/config';
+import { buildDirectCopies, toDeliveries } from '@/services/messageDelivery';
+import { findGroupForMember, buildGroupCopies } from '@/services/groups';
+
+export interface MessageChangeCopy {
+  userId: string;
+  deviceId: string;
+  encryptedData: string;
+}
+
+export interface ChangedMessage {
+  id: string;
+  groupId: string | null;
+  receiverHandle: string | null; // Lets the sender's other devices file a direct message
+  deleted: boolean;
+  changedAt: Date;
+  pfsMessage: boolean;
+  copies: MessageChangeCopy[];
+}
+
+export interface MessageEditCiphertexts {
+  encryptedData?: string; // Group messages only
+  deviceCiphertexts?: Record<string, string>; // Device.id -> ciphertext, direct messages only
+  pfsMessage?: boolean;
+}
+
+export type MessageChangeResult =
+  | { ok: true; message: ChangedMessage }
+  | { ok: false; status: 400 | 403 | 404 | 409; error: string; message: string };
+
+const reject = (status: 400 | 403 | 404 | 409, error: string, message: string): MessageChangeResult =>
+  ({ ok: false, status, error, message });
+
+/**
+ * Load a message its sender may still change: not deleted and inside the edit window
+ */
+async function findChangeableMessage(messageId: string, senderId: string) {
+  const message = await prisma.message.findUnique({
+    where: { id: messageId },
+    include: { receiver: { select: { handle: true } } }
+  });
+
+  if (!message) {
+    return { rejected: reject(404, 'Not Found', 'Message not found') };
+  }
+
+  if (message.senderId !== senderId) {
+    return { rejected: reject(403, 'Forbidden', 'Only the sender can change a message') };
+  }
+
+  if (message.isDeleted) {
+    return { rejected: reject(409, 'Conflict', 'Message was deleted') };
+  }
+
+  if (Date.now() - message.timestamp.getTime() > config.MESSAGE_EDIT_WINDOW) {
+    return { rejected: reject(403, 'Forbidden', 'Edit window has expired') };
+  }
+
+  return { message };
+}
+
+/**
+ * Replace the content of a sent message. The new ciphertexts replace every
+ * device copy and are queued again, so offline devices pick up the edit on
+ * their next connect. The editing device becomes the message's sender
+ * device, since the new copies are encrypted with its sessions.
+ */
+export async function editMessage(
+  messageId: string,
+  sender: { userId: string; deviceId: string },
+  ciphertexts: MessageEditCiphertexts
+): Promise<MessageChangeResult> {
+  const senderId = sender.userId;
+  const found = await findChangeableMessage(messageId, senderId);
+  if (found.rejected) {
+    return found.rejected;
+  }
+  const { message } = found;
+
+  let copies: MessageChangeCopy[];
+  if (message.groupId) {
+    if (!ciphertexts.encryptedData) {
+      return reject(400, 'Bad Request', 'Group edits need the ciphertext under the sender key');
+    }
+
+    const group = await findGroupForMember(message.groupId, senderId);
+    if (!group) {
+      return reject(403, 'Forbidden', 'No longer a member of this group');
+    }
+
+    const recipients = await buildGroupCopies(group.members, sender, { encryptedData: ciphertexts.encryptedData });
+    copies = recipients.flatMap((recipient) =>
+      recipient.copies.map((copy) => ({ userId: recipient.userId, ...copy }))
+    );
+  } else {
+    if (!ciphertexts.deviceCiphertexts || !message.receiverId) {
+      return reject(400, 'Bad Request', 'Direct edits need one ciphertext per device');
+    }
+
+    copies = await buildDirectCopies(sender, message.receiverId, ciphertexts.deviceCiphertexts);
+  }
+
+  const metadata = message.metadata ? JSON.parse(message.metadata) : {};
+  const editedAt = new Date();
+
+  await prisma.$transaction([
+    prisma.message.update({
+      where: { id: messageId },
+      data: {
+        isEdited: true,
+        editedAt,
+        senderDeviceId: sender.deviceId,
+        metadata: JSON.stringify({
+          ...metadata,
+          encrypted: true,
+          // The ciphertexts only live in the device copies
+          encryptedData: undefined,
+          pfsMessage: ciphertexts.pfsMessage ?? metadata.pfsMessage ?? false
+        })
+      }
+    }),
+    prisma.messageDelivery.deleteMany({
+      where: { messageId }
+    }),
+    prisma.messageDelivery.createMany({
+      data: toDeliveries(copies).map((copy) => ({ messageId, ...copy }))
+    })
+  ]);
+
+  return {
+    ok: true,
+    message: {
+      id: messageId,
+      groupId: message.groupId,
+      receiverHandle: message.receiver?.handle ?? null,
+      deleted: false,
+      changedAt: editedAt,
+      pfsMessage: ciphertexts.pfsMessage ?? metadata.pfsMessage ?? false,
+      copies
+    }
+  };
+}
+
+/**
+ * Delete a sent message for everyone. The content is dropped and every
+ * device copy becomes an empty tombstone that is queued again for delivery.
+ */
+export async function deleteMessage(messageId: string, senderId: string): Promise<MessageChangeResult> {
+  const found = await findChangeableMessage(messageId, senderId);
+  if (found.rejected) {
+    return found.rejected;
+  }
+  const { message } = found;
+
+  const deliveries = await prisma.messageDelivery.findMany({
+    where: { messageId },
+    select: { deviceId: true, device: { select: { userId: true } } }
+  });
+
+  const deletedAt = new Date();
+
+  await prisma.$transaction([
+    prisma.message.update({
+      where: { id: messageId },
+      data: {
+        isDeleted: true,
+        deletedAt,
+        content: '[Deleted Message]',
+        metadata: JSON.stringify({ encrypted: true, deleted: true })
+      }
+    }),
+    prisma.messageDelivery.updateMany({
+      where: { messageId },
+      data: { encryptedData: '', deliveredAt: null }
+    })
+  ]);
+
+  return {
+    ok: true,
+    message: {
+      id: messageId,
+      groupId: message.groupId,
+      receiverHandle: message.receiver?.handle ?? null,
+      deleted: true,
+      changedAt: deletedAt,
+      pfsMessage: false,
+      copies: deliveries.map((delivery: { deviceId: string; device: { userId: string } }) => ({
+        userId: delivery.device.userId,
+        deviceId: delivery.deviceId,
+        encryptedData: ''
+      }))
+    }
+  };
+}
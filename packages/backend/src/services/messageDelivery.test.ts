@@ -0,0 +1,212 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  acknowledgeCopies,
+  buildDirectCopies,
+  findConflictingMessage,
+  findMessageByClientId,
+  parseClientMessageId,
+  resolveReplyToId,
+  toDeliveries
+} from './messageDelivery';
+
+interface MessageRow {
+  id: string;
+  senderId: string | null;
+  receiverId: string | null;
+  groupId: string | null;
+  clientMessageId: string | null;
+  delivered: boolean;
+}
+
+interface DeliveryRow {
+  messageId: string;
+  deviceId: string;
+  deliveredAt: Date | null;
+}
+
+type MessageWhere = Partial<MessageRow> & { OR?: Partial<MessageRow>[] };
+
+// Alice (two devices) writes to Bob (two devices, one revoked)
+const mockDevices = [
+  { id: 'alice-phone', userId: 'alice', isActive: true },
+  { id: 'alice-laptop', userId: 'alice', isActive: true },
+  { id: 'bob-phone', userId: 'bob', isActive: true },
+  { id: 'bob-tablet', userId: 'bob', isActive: true },
+  { id: 'bob-old', userId: 'bob', isActive: false }
+];
+const mockMessages: MessageRow[] = [];
+const mockDeliveries: DeliveryRow[] = [];
+
+const mockMatches = (row: object, where: object) =>
+  Object.entries(where).every(([field, value]) => (row as Record<string, unknown>)[field] === value);
+
+jest.mock('@/db', () => ({
+  __esModule: true,
+  default: {
+    device: {
+      findMany: async ({ where }: { where: { userId: string; isActive: boolean } }) =>
+        mockDevices.filter((device) => mockMatches(device, where)).map((device) => ({ id: device.id }))
+    },
+    message: {
+      findUnique: async ({ where }: { where: { senderId_clientMessageId: { senderId: string; clientMessageId: string } } }) =>
+        mockMessages.find((row) => mockMatches(row, where.senderId_clientMessageId)) ?? null,
+      findFirst: async ({ where }: { where: MessageWhere }) => {
+        const { OR, ...fields } = where;
+        const row = mockMessages.find((message) =>
+          mockMatches(message, fields) && (!OR || OR.some((alternative) => mockMatches(message, alternative)))
+        );
+        return row ? { id: row.id } : null;
+      },
+      updateMany: async ({ where, data }: { where: Partial<MessageRow>; data: Partial<MessageRow> }) => {
+        const rows = mockMessages.filter((row) => mockMatches(row, where));
+        rows.forEach((row) => Object.assign(row, data));
+        return { count: rows.length };
+      }
+    },
+    messageDelivery: {
+      findMany: async ({ where }: { where: { deviceId: string; deliveredAt: null; messageId: { in: string[] } } }) =>
+        mockDeliveries
+          .filter((row) => row.deviceId === where.deviceId && row.deliveredAt === null && where.messageId.in.includes(row.messageId))
+          .map((row) => ({ message: { ...mockMessages.find((message) => message.id === row.messageId)! } })),
+      updateMany: async ({ where, data }: { where: Partial<DeliveryRow>; data: Partial<DeliveryRow> }) => {
+        const rows = mockDeliveries.filter((row) => mockMatches(row, where));
+        rows.forEach((row) => Object.assign(row, data));
+        return { count: rows.length };
+      }
+    },
+    $transaction: async (queries: Promise<unknown>[]) => Promise.all(queries)
+  }
+}));
+
+const CLIENT_MESSAGE_ID = '0b6f3c1e-7d2a-4c5b-9e8f-1a2b3c4d5e6f';
+
+const storeMessage = (message: Partial<MessageRow> & { id: string }, deviceIds: string[] = []) => {
+  mockMessages.push({ senderId: null, receiverId: null, groupId: null, clientMessageId: null, delivered: false, ...message });
+  deviceIds.forEach((deviceId) => mockDeliveries.push({ messageId: message.id, deviceId, deliveredAt: null }));
+};
+
+const pendingDevices = (messageId: string) =>
+  mockDeliveries.filter((row) => row.messageId === messageId && !row.deliveredAt).map((row) => row.deviceId);
+
+describe('message delivery', () => {
+  beforeEach(() => {
+    mockMessages.length = 0;
+    mockDeliveries.length = 0;
+  });
+
+  describe('buildDirectCopies', () => {
+    it('copies the message to the receiver\'s devices and the sender\'s other devices', async () => {
+      const copies = await buildDirectCopies({ userId: 'alice', deviceId: 'alice-phone' }, 'bob', {
+        'alice-phone': 'to-self',
+        'alice-laptop': 'to-laptop',
+        'bob-phone': 'to-phone',
+        'bob-tablet': 'to-tablet',
+        'bob-old': 'to-revoked'
+      });
+
+      expect(copies).toEqual([
+        { userId: 'bob', deviceId: 'bob-phone', encryptedData: 'to-phone' },
+        { userId: 'bob', deviceId: 'bob-tablet', encryptedData: 'to-tablet' },
+        { userId: 'alice', deviceId: 'alice-laptop', encryptedData: 'to-laptop' }
+      ]);
+      expect(toDeliveries(copies)).toEqual([
+        { deviceId: 'bob-phone', encryptedData: 'to-phone' },
+        { deviceId: 'bob-tablet', encryptedData: 'to-tablet' },
+        { deviceId: 'alice-laptop', encryptedData: 'to-laptop' }
+      ]);
+    });
+
+    it('leaves out devices the sender did not encrypt for', async () => {
+      const copies = await buildDirectCopies({ userId: 'alice', deviceId: 'alice-phone' }, 'bob', { 'bob-phone': 'to-phone' });
+
+      expect(copies.map((copy) => copy.deviceId)).toEqual(['bob-phone']);
+    });
+  });
+
+  describe('acknowledgeCopies', () => {
+    beforeEach(() => {
+      storeMessage({ id: 'message-1', senderId: 'alice', receiverId: 'bob' }, ['bob-phone', 'bob-tablet', 'alice-laptop']);
+    });
+
+    it('marks only the acking device\'s copy, the others stay pending for redelivery', async () => {
+      await acknowledgeCopies('bob', 'bob-phone', ['message-1']);
+
+      expect(pendingDevices('message-1')).toEqual(['bob-tablet', 'alice-laptop']);
+    });
+
+    it('reports the first recipient device as the delivery', async () => {
+      await expect(acknowledgeCopies('bob', 'bob-phone', ['message-1'])).resolves.toEqual([{ id: 'message-1', senderId: 'alice' }]);
+      await expect(acknowledgeCopies('bob', 'bob-tablet', ['message-1'])).resolves.toEqual([]);
+
+      expect(mockMessages[0].delivered).toBe(true);
+      expect(pendingDevices('message-1')).toEqual(['alice-laptop']);
+    });
+
+    it('does not count the sender\'s own devices as a delivery', async () => {
+      await expect(acknowledgeCopies('alice', 'alice-laptop', ['message-1'])).resolves.toEqual([]);
+
+      expect(mockMessages[0].delivered).toBe(false);
+      expect(pendingDevices('message-1')).toEqual(['bob-phone', 'bob-tablet']);
+    });
+
+    it('ignores repeated acks and messages without a copy for the device', async () => {
+      storeMessage({ id: 'message-2', senderId: 'alice', receiverId: 'bob' }, ['bob-tablet']);
+
+      await acknowledgeCopies('bob', 'bob-phone', ['message-1', 'message-2', 'unknown']);
+      await expect(acknowledgeCopies('bob', 'bob-phone', ['message-1'])).resolves.toEqual([]);
+
+      expect(pendingDevices('message-2')).toEqual(['bob-tablet']);
+    });
+
+    it('reports sealed messages without a sender', async () => {
+      storeMessage({ id: 'sealed-1', receiverId: 'bob' }, ['bob-phone']);
+
+      await expect(acknowledgeCopies('bob', 'bob-phone', ['sealed-1'])).resolves.toEqual([{ id: 'sealed-1', senderId: null }]);
+    });
+  });
+
+  describe('client message ids', () => {
+    it('accepts UUIDs only, in lower case', () => {
+      expect(parseClientMessageId(CLIENT_MESSAGE_ID.toUpperCase())).toBe(CLIENT_MESSAGE_ID);
+      expect(parseClientMessageId('not-a-uuid')).toBeNull();
+      expect(parseClientMessageId(42)).toBeNull();
+      expect(parseClientMessageId(undefined)).toBeNull();
+    });
+
+    it('finds a retried send among the sender\'s own messages only', async () => {
+      storeMessage({ id: 'message-1', senderId: 'alice', receiverId: 'bob', clientMessageId: CLIENT_MESSAGE_ID });
+
+      await expect(findMessageByClientId('alice', CLIENT_MESSAGE_ID)).resolves.toMatchObject({ id: 'message-1' });
+      await expect(findMessageByClientId('bob', CLIENT_MESSAGE_ID)).resolves.toBeNull();
+      await expect(findMessageByClientId('alice', null)).resolves.toBeNull();
+    });
+
+    it('returns the message a concurrent retry stored first', async () => {
+      storeMessage({ id: 'message-1', senderId: 'alice', receiverId: 'bob', clientMessageId: CLIENT_MESSAGE_ID });
+      const conflict = Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+
+      await expect(findConflictingMessage(conflict, 'alice', CLIENT_MESSAGE_ID)).resolves.toMatchObject({ id: 'message-1' });
+      await expect(findConflictingMessage(new Error('Connection lost'), 'alice', CLIENT_MESSAGE_ID)).resolves.toBeNull();
+    });
+  });
+
+  describe('resolveReplyToId', () => {
+    beforeEach(() => {
+      storeMessage({ id: 'direct-1', senderId: 'bob', receiverId: 'alice' });
+      storeMessage({ id: 'other-1', senderId: 'bob', receiverId: 'carol' });
+      storeMessage({ id: 'group-1', senderId: 'bob', groupId: 'group-a' });
+    });
+
+    it('keeps replies to messages of the same conversation', async () => {
+      await expect(resolveReplyToId('direct-1', { userId: 'alice', peerId: 'bob' })).resolves.toBe('direct-1');
+      await expect(resolveReplyToId('group-1', { groupId: 'group-a' })).resolves.toBe('group-1');
+    });
+
+    it('drops replies to messages elsewhere', async () => {
+      await expect(resolveReplyToId('other-1', { userId: 'alice', peerId: 'bob' })).resolves.toBeNull();
+      await expect(resolveReplyToId('group-1', { userId: 'alice', peerId: 'bob' })).resolves.toBeNull();
+      await expect(resolveReplyToId('group-1', { groupId: 'group-b' })).resolves.toBeNull();
+      await expect(resolveReplyToId(undefined, { groupId: 'group-a' })).resolves.toBeNull();
+    });
+  });
+});
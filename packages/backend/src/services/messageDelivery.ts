@@ -0,0 +1,193 @@
+import prisma from '@/db';
+
+// Largest batch of message ids accepted in one ack
+export const MAX_ACK_BATCH = 200;
+
+const CLIENT_MESSAGE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface DeviceCopy {
+  deviceId: string;
+  encryptedData: string;
+}
+
+export interface UserDeviceCopy extends DeviceCopy {
+  userId: string;
+}
+
+export interface DeviceCiphertexts {
+  encryptedData?: string; // Readable by every device, like group messages under the sender's group key
+  deviceCiphertexts?: Record<string, string>; // Device.id -> ciphertext of the session with that device
+}
+
+/**
+ * Build one encrypted copy per active device of a user. Pairwise sessions run
+ * between devices, so a pairwise ciphertext only decrypts on the device it
+ * was encrypted for: devices get their entry of `deviceCiphertexts`, or the
+ * shared `encryptedData` if there is one. Devices the client did not encrypt
+ * for get no copy. `excludeDeviceId` leaves out the sending device.
+ */
+export async function buildDeviceCopies(
+  userId: string,
+  ciphertexts: DeviceCiphertexts,
+  excludeDeviceId?: string
+): Promise<DeviceCopy[]> {
+  const devices = await prisma.device.findMany({
+    where: { userId, isActive: true },
+    select: { id: true }
+  });
+
+  const copies: DeviceCopy[] = [];
+  for (const device of devices) {
+    const encryptedData = ciphertexts.deviceCiphertexts?.[device.id] ?? ciphertexts.encryptedData;
+    if (device.id !== excludeDeviceId && encryptedData) {
+      copies.push({ deviceId: device.id, encryptedData });
+    }
+  }
+  return copies;
+}
+
+/**
+ * Build the copies of a direct message: the receiver's devices and the
+ * sender's other devices, which keep their view of the conversation in sync.
+ * Every copy is encrypted for its device's own session.
+ */
+export async function buildDirectCopies(
+  sender: { userId: string; deviceId: string },
+  receiverId: string,
+  deviceCiphertexts: Record<string, string>
+): Promise<UserDeviceCopy[]> {
+  const receiverCopies = await buildDeviceCopies(receiverId, { deviceCiphertexts });
+  const senderCopies = await buildDeviceCopies(sender.userId, { deviceCiphertexts }, sender.deviceId);
+
+  return [
+    ...receiverCopies.map((copy) => ({ userId: receiverId, ...copy })),
+    ...senderCopies.map((copy) => ({ userId: sender.userId, ...copy }))
+  ];
+}
+
+/**
+ * The delivery rows of a message's copies
+ */
+export const toDeliveries = (copies: UserDeviceCopy[]): DeviceCopy[] =>
+  copies.map(({ deviceId, encryptedData }) => ({ deviceId, encryptedData }));
+
+/**
+ * Mark one device's copy as delivered. The message itself counts as delivered
+ * once a recipient has it; copies on the sender's own devices do not count.
+ */
+export async function markCopyDelivered(messageId: string, deviceId: string, byRecipient: boolean = true): Promise<void> {
+  const now = new Date();
+
+  const markCopy = prisma.messageDelivery.updateMany({
+    where: { messageId, deviceId, deliveredAt: null },
+    data: { deliveredAt: now }
+  });
+
+  if (!byRecipient) {
+    await markCopy;
+    return;
+  }
+
+  await prisma.$transaction([
+    markCopy,
+    prisma.message.updateMany({
+      where: { id: messageId, delivered: false },
+      data: { delivered: true, deliveredAt: now }
+    })
+  ]);
+}
+
+/**
+ * Mark the copies a device acknowledged as delivered. Ids without a pending
+ * copy for the device are ignored, so repeated acks are harmless. Returns the
+ * messages this ack delivered to their first recipient device; sealed
+ * messages have no sender id.
+ */
+export async function acknowledgeCopies(
+  userId: string,
+  deviceId: string,
+  messageIds: string[]
+): Promise<{ id: string; senderId: string | null }[]> {
+  const ids = Array.from(new Set(messageIds)).slice(0, MAX_ACK_BATCH);
+
+  const pending = await prisma.messageDelivery.findMany({
+    where: { deviceId, deliveredAt: null, messageId: { in: ids } },
+    select: { message: { select: { id: true, senderId: true, delivered: true } } }
+  });
+
+  const firstDeliveries: { id: string; senderId: string | null }[] = [];
+  for (const { message } of pending) {
+    // Copies on the sender's other devices are synced history, not deliveries
+    const byRecipient = message.senderId !== userId;
+    await markCopyDelivered(message.id, deviceId, byRecipient);
+    if (byRecipient && !message.delivered) {
+      firstDeliveries.push({ id: message.id, senderId: message.senderId });
+    }
+  }
+
+  return firstDeliveries;
+}
+
+/**
+ * Return `replyToId` if it names a message of the same conversation, otherwise
+ * null, so replies cannot reference (or probe for) messages elsewhere.
+ */
+export async function resolveReplyToId(
+  replyToId: string | undefined,
+  conversation: { userId: string; peerId: string } | { groupId: string }
+): Promise<string | null> {
+  if (!replyToId) {
+    return null;
+  }
+
+  const where = 'groupId' in conversation
+    ? { id: replyToId, groupId: conversation.groupId }
+    : {
+        id: replyToId,
+        groupId: null,
+        OR: [
+          { senderId: conversation.userId, receiverId: conversation.peerId },
+          { senderId: conversation.peerId, receiverId: conversation.userId }
+        ]
+      };
+
+  const original = await prisma.message.findFirst({
+    where,
+    select: { id: true }
+  });
+
+  return original ? original.id : null;
+}
+
+/**
+ * The idempotency key of a send if it is a UUID, otherwise null
+ */
+export function parseClientMessageId(value: unknown): string | null {
+  return typeof value === 'string' && CLIENT_MESSAGE_ID_PATTERN.test(value) ? value.toLowerCase() : null;
+}
+
+/**
+ * The message a sender already stored under an idempotency key, so a retried
+ * send returns it instead of creating a duplicate
+ */
+export async function findMessageByClientId(senderId: string, clientMessageId: string | null) {
+  if (!clientMessageId) {
+    return null;
+  }
+
+  return prisma.message.findUnique({
+    where: { senderId_clientMessageId: { senderId, clientMessageId } }
+  });
+}
+
+/**
+ * The message a concurrent retry stored first, when storing one failed on the
+ * unique idempotency key; null when `error` is anything else
+ */
+export async function findConflictingMessage(error: unknown, senderId: string, clientMessageId: string | null) {
+  if ((error as { code?: string }).code !== 'P2002') {
+    return null;
+  }
+
+  return findMessageByClientId(senderId, clientMessageId);
+}
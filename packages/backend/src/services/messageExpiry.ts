@@ -0,0 +1,36 @@
+import prisma from '@/db';
+import { logger } from '@/utils/logger';
+
+// Longest disappearing message timer a conversation can set
+export const MAX_MESSAGE_EXPIRY_SECONDS = 4 * 7 * 24 * 60 * 60; // 4 weeks
+
+/**
+ * Expiry time of a message sent now with a timer of `expiresIn` seconds, or
+ * null for messages that do not disappear. Out of range timers are ignored.
+ */
+export function expiryFromNow(expiresIn: unknown): Date | null {
+  if (typeof expiresIn !== 'number' || !Number.isInteger(expiresIn) || expiresIn <= 0 || expiresIn > MAX_MESSAGE_EXPIRY_SECONDS) {
+    return null;
+  }
+  return new Date(Date.now() + expiresIn * 1000);
+}
+
+/**
+ * Delete messages whose timer ran out, together with their undelivered
+ * copies and reactions (called periodically)
+ */
+export const purgeExpiredMessages = async () => {
+  try {
+    const result = await prisma.message.deleteMany({
+      where: {
+        expiresAt: { lt: new Date() }
+      }
+    });
+
+    if (result.count > 0) {
+      logger.info(`Purged ${result.count} expired messages`);
+    }
+  } catch (error) {
+    logger.error('Error purging expired messages:', error);
+  }
+};
@@ -0,0 +1,105 @@
+import prisma from '@/db';
+import { logger } from '@/utils/logger';
+import { config } from '@/utils/config';
+import { wsManager } from '@/messaging/websocket';
+
+export interface RetentionMetrics {
+  runs: number;
+  lastRunAt: Date | null;
+  lastRunDurationMs: number;
+  expiredUndelivered: number; // Messages no device received in time
+  droppedCopies: number; // Copies a device never picked up, of messages other devices received
+  purgedDelivered: number; // Messages deleted after every device acknowledged them
+  failures: number;
+}
+
+const metrics: RetentionMetrics = {
+  runs: 0,
+  lastRunAt: null,
+  lastRunDurationMs: 0,
+  expiredUndelivered: 0,
+  droppedCopies: 0,
+  purgedDelivered: 0,
+  failures: 0
+};
+
+/**
+ * Totals since the server started
+ */
+export function getRetentionMetrics(): RetentionMetrics {
+  return { ...metrics };
+}
+
+/**
+ * Enforce the message retention policy (called periodically):
+ * messages no device received within UNDELIVERED_MESSAGE_RETENTION expire and
+ * their senders are told, and delivered messages are deleted
+ * DELIVERED_MESSAGE_RETENTION after the last device acknowledged them.
+ */
+export const purgeRetainedMessages = async () => {
+  const startedAt = Date.now();
+  const undeliveredCutoff = new Date(startedAt - config.UNDELIVERED_MESSAGE_RETENTION);
+  const deliveredCutoff = new Date(startedAt - config.DELIVERED_MESSAGE_RETENTION);
+
+  try {
+    const expired = await prisma.message.findMany({
+      where: {
+        delivered: false,
+        timestamp: { lt: undeliveredCutoff }
+      },
+      select: { id: true, senderId: true, groupId: true, receiver: { select: { handle: true } } }
+    });
+
+    if (expired.length > 0) {
+      await prisma.message.deleteMany({
+        where: { id: { in: expired.map((message: { id: string }) => message.id) } }
+      });
+
+      // Senders that are offline miss the notice; the message stays unconfirmed for them
+      for (const message of expired) {
+        if (!message.senderId) continue; // Sealed: nobody to notify
+        wsManager.notifyMessageExpired(message.senderId, {
+          messageId: message.id,
+          receiverHandle: message.receiver?.handle,
+          groupId: message.groupId ?? undefined
+        });
+      }
+    }
+
+    const dropped = await prisma.messageDelivery.deleteMany({
+      where: {
+        deliveredAt: null,
+        createdAt: { lt: undeliveredCutoff }
+      }
+    });
+
+    const purged = await prisma.message.deleteMany({
+      where: {
+        delivered: true,
+        deliveredAt: { lt: deliveredCutoff },
+        deliveries: {
+          none: {
+            OR: [{ deliveredAt: null }, { deliveredAt: { gte: deliveredCutoff } }]
+          }
+        }
+      }
+    });
+
+    metrics.expiredUndelivered += expired.length;
+    metrics.droppedCopies += dropped.count;
+    metrics.purgedDelivered += purged.count;
+
+    if (expired.length > 0 || dropped.count > 0 || purged.count > 0) {
+      logger.info(
+        `Message retention: expired ${expired.length} undelivered, dropped ${dropped.count} pending copies, purged ${purged.count} delivered`
+      );
+    }
+  } catch (error) {
+    metrics.failures++;
+    logger.error('Error enforcing message retention:', error);
+  } finally {
+    metrics.runs++;
+    metrics.lastRunAt = new Date(startedAt);
+    metrics.lastRunDurationMs = Date.now() - startedAt;
+  }
+};
@@ -0,0 +1,186 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { config } from '@/utils/config';
+import { wsManager } from '@/messaging/websocket';
+import {
+  claimOneTimePreKey,
+  countUnusedPreKeys,
+  fetchPreKeyBundle,
+  listUnusedPreKeyIds,
+  storeOneTimePreKeys
+} from './preKeys';
+
+interface PreKeyRow {
+  id: string;
+  userId: string;
+  deviceId: string;
+  keyId: number;
+  key: string;
+  isUsed: boolean;
+  usedAt: Date | null;
+  createdAt: Date;
+}
+
+type PreKeyWhere = Partial<Pick<PreKeyRow, 'id' | 'deviceId' | 'isUsed'>> & { keyId?: { in: number[] } };
+
+// The OneTimePreKey table, and one device of ABC-123 with a published signed prekey
+const mockPreKeys: PreKeyRow[] = [];
+let mockNextId = 0;
+
+const mockMatches = (row: PreKeyRow, where: PreKeyWhere) =>
+  (where.id === undefined || row.id === where.id) &&
+  (where.deviceId === undefined || row.deviceId === where.deviceId) &&
+  (where.isUsed === undefined || row.isUsed === where.isUsed) &&
+  (where.keyId === undefined || where.keyId.in.includes(row.keyId));
+
+// Every query yields once, so concurrent claims interleave like separate requests
+const mockTick = () => new Promise((resolve) => setImmediate(resolve));
+
+jest.mock('@/db', () => {
+  const client = {
+    oneTimePreKey: {
+      findFirst: async ({ where }: { where: PreKeyWhere }) => {
+        await mockTick();
+        const row = mockPreKeys
+          .filter((candidate) => mockMatches(candidate, where))
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0];
+        return row ? { id: row.id, keyId: row.keyId, key: row.key } : null;
+      },
+      findMany: async ({ where }: { where: PreKeyWhere }) =>
+        mockPreKeys.filter((row) => mockMatches(row, where)).map((row) => ({ keyId: row.keyId })),
+      updateMany: async ({ where, data }: { where: PreKeyWhere; data: { isUsed: boolean; usedAt: Date } }) => {
+        await mockTick();
+        const rows = mockPreKeys.filter((row) => mockMatches(row, where));
+        rows.forEach((row) => Object.assign(row, data));
+        return { count: rows.length };
+      },
+      deleteMany: async ({ where }: { where: PreKeyWhere }) => {
+        const rows = mockPreKeys.filter((row) => mockMatches(row, where));
+        rows.forEach((row) => mockPreKeys.splice(mockPreKeys.indexOf(row), 1));
+        return { count: rows.length };
+      },
+      createMany: async ({ data }: { data: Pick<PreKeyRow, 'userId' | 'deviceId' | 'keyId' | 'key'>[] }) => {
+        data.forEach((row) => mockPreKeys.push({
+          ...row,
+          id: `prekey-${++mockNextId}`,
+          isUsed: false,
+          usedAt: null,
+          createdAt: new Date(Date.now() + mockNextId)
+        }));
+        return { count: data.length };
+      },
+      count: async ({ where }: { where: PreKeyWhere }) => mockPreKeys.filter((row) => mockMatches(row, where)).length
+    },
+    device: {
+      findFirst: async ({ where }: { where: { id: string; user: { handle: string } } }) =>
+        where.id === 'device-1' && where.user.handle === 'ABC-123'
+          ? {
+            id: 'device-1',
+            userId: 'user-1',
+            user: { identity: { publicKey: 'identity-key', signingKey: 'signing-key' } },
+            signedPreKeys: [{ keyId: 7, key: 'signed-prekey', signature: 'signature' }]
+          }
+          : null
+    },
+    $transaction: async <T>(run: (tx: unknown) => Promise<T>) => run(client)
+  };
+  return { __esModule: true, default: client };
+});
+
+jest.mock('@/messaging/websocket', () => ({
+  wsManager: { notifyPreKeysLow: jest.fn() }
+}));
+
+const upload = (deviceId: string, keyIds: number[], replace?: boolean) =>
+  storeOneTimePreKeys('user-1', deviceId, keyIds.map((keyId) => ({ keyId, publicKey: `key-${keyId}` })), replace);
+
+describe('one-time prekeys', () => {
+  beforeEach(() => {
+    mockPreKeys.length = 0;
+    jest.mocked(wsManager.notifyPreKeysLow).mockClear();
+  });
+
+  describe('storeOneTimePreKeys', () => {
+    it('stores new key ids and skips known ones', async () => {
+      await expect(upload('device-1', [1, 2, 3])).resolves.toBe(3);
+      await expect(upload('device-1', [3, 4])).resolves.toBe(1);
+
+      expect(await listUnusedPreKeyIds('device-1')).toEqual([1, 2, 3, 4]);
+    });
+
+    it('keeps the prekeys of each device apart', async () => {
+      await upload('device-1', [1, 2]);
+      await upload('device-2', [1]);
+
+      expect(await countUnusedPreKeys('device-1')).toBe(2);
+      expect(await countUnusedPreKeys('device-2')).toBe(1);
+    });
+
+    it('drops the unused prekeys of the device on replace', async () => {
+      await upload('device-1', [1, 2]);
+      await upload('device-2', [1]);
+      await claimOneTimePreKey('device-1');
+
+      await expect(upload('device-1', [10, 11], true)).resolves.toBe(2);
+      expect(await listUnusedPreKeyIds('device-1')).toEqual([10, 11]);
+      expect(await countUnusedPreKeys('device-2')).toBe(1);
+    });
+  });
+
+  describe('claimOneTimePreKey', () => {
+    it('hands out the oldest unused prekey once', async () => {
+      await upload('device-1', [1, 2]);
+
+      await expect(claimOneTimePreKey('device-1')).resolves.toEqual({ keyId: 1, publicKey: 'key-1' });
+      await expect(claimOneTimePreKey('device-1')).resolves.toEqual({ keyId: 2, publicKey: 'key-2' });
+      await expect(claimOneTimePreKey('device-1')).resolves.toBeNull();
+    });
+
+    it('never hands out the same prekey to concurrent claims', async () => {
+      await upload('device-1', [1, 2, 3]);
+
+      const claimed = await Promise.all([1, 2, 3].map(() => claimOneTimePreKey('device-1')));
+
+      expect(claimed.map((key) => key?.keyId).sort()).toEqual([1, 2, 3]);
+      expect(await countUnusedPreKeys('device-1')).toBe(0);
+    });
+  });
+
+  describe('fetchPreKeyBundle', () => {
+    it('returns the device keys and consumes a one-time prekey', async () => {
+      await upload('device-1', [1, 2]);
+
+      await expect(fetchPreKeyBundle('ABC-123', 'device-1')).resolves.toEqual({
+        identityKey: 'identity-key',
+        signingKey: 'signing-key',
+        signedPreKey: { keyId: 7, publicKey: 'signed-prekey', signature: 'signature' },
+        preKey: { keyId: 1, publicKey: 'key-1' }
+      });
+      expect(await listUnusedPreKeyIds('device-1')).toEqual([2]);
+    });
+
+    it('returns a bundle without one-time prekey once they ran out', async () => {
+      const bundle = await fetchPreKeyBundle('ABC-123', 'device-1');
+
+      expect(bundle).not.toBeNull();
+      expect(bundle?.preKey).toBeUndefined();
+    });
+
+    it('returns null for a device of another handle', async () => {
+      await upload('device-1', [1]);
+
+      await expect(fetchPreKeyBundle('XYZ-999', 'device-1')).resolves.toBeNull();
+      expect(await countUnusedPreKeys('device-1')).toBe(1);
+    });
+
+    it('asks the device to top up once its supply runs low', async () => {
+      const keyIds = Array.from({ length: config.PREKEY_LOW_THRESHOLD + 1 }, (_, i) => i + 1);
+      await upload('device-1', keyIds);
+
+      await fetchPreKeyBundle('ABC-123', 'device-1');
+      expect(wsManager.notifyPreKeysLow).not.toHaveBeenCalled();
+
+      await fetchPreKeyBundle('ABC-123', 'device-1');
+      expect(wsManager.notifyPreKeysLow).toHaveBeenCalledWith('user-1', 'device-1', config.PREKEY_LOW_THRESHOLD - 1);
+    });
+  });
+});
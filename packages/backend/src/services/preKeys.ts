@@ -0,0 +1,286 @@
+import type { PreKeyBundle } from '@secure-messenger/shared';
+import prisma from '@/db';
+import { logger } from '@/utils/logger';
+import { config } from '@/utils/config';
+import { wsManager } from '@/messaging/websocket';
+import { SignalCrypto } from '@/crypto/signalCrypto';
+
+// Upper bound on retries when another request claims the same prekey first
+const MAX_CLAIM_ATTEMPTS = 5;
+
+export interface OneTimePreKeyUpload {
+  keyId: number;
+  publicKey: string;
+}
+
+export interface SignedPreKeyUpload {
+  keyId: number;
+  publicKey: string;
+  signature: string;
+}
+
+/**
+ * Atomically claim one unused one-time prekey of a device.
+ * The conditional update only succeeds for the request that flips isUsed,
+ * so concurrent bundle fetches never hand out the same key twice.
+ */
+export async function claimOneTimePreKey(
+  deviceId: string
+): Promise<{ keyId: number; publicKey: string } | null> {
+  for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+    const claimed = await prisma.$transaction(async (tx) => {
+      const candidate = await tx.oneTimePreKey.findFirst({
+        where: { deviceId, isUsed: false },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true, keyId: true, key: true },
+      });
+
+      if (!candidate) {
+        return { exhausted: true as const };
+      }
+
+      const result = await tx.oneTimePreKey.updateMany({
+        where: { id: candidate.id, isUsed: false },
+        data: { isUsed: true, usedAt: new Date() },
+      });
+
+      return result.count === 1
+        ? { exhausted: false as const, key: { keyId: candidate.keyId, publicKey: candidate.key } }
+        : { exhausted: false as const, key: null };
+    });
+
+    if (claimed.exhausted) {
+      return null;
+    }
+    if (claimed.key) {
+      return claimed.key;
+    }
+  }
+
+  logger.warn(`Could not claim a one-time prekey for device ${deviceId} after ${MAX_CLAIM_ATTEMPTS} attempts`);
+  return null;
+}
+
+/**
+ * Device.ids of a user's active devices that published a signed prekey, i.e.
+ * the devices a sender needs a session with. `excludeDeviceId` leaves out the
+ * asking device when users list their own devices.
+ */
+export async function listSessionDevices(handle: string, excludeDeviceId?: string): Promise<string[] | null> {
+  const user = await prisma.user.findUnique({
+    where: { handle },
+    select: {
+      devices: {
+        where: { isActive: true, signedPreKeys: { some: { isActive: true } } },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true },
+      },
+    },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  return user.devices
+    .map((device: { id: string }) => device.id)
+    .filter((id: string) => id !== excludeDeviceId);
+}
+
+/**
+ * Build the PreKeyBundle of one device of a handle, consuming one of its
+ * one-time prekeys if available. Sessions run between devices, so the bundle
+ * only carries keys whose private halves that device holds.
+ * Returns null if the user, the device or its published keys do not exist.
+ */
+export async function fetchPreKeyBundle(handle: string, deviceId: string): Promise<PreKeyBundle | null> {
+  const device = await prisma.device.findFirst({
+    where: { id: deviceId, isActive: true, user: { handle } },
+    include: {
+      user: { include: { identity: true } },
+      signedPreKeys: {
+        where: { isActive: true },
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+      },
+    },
+  });
+
+  const signedPreKey = device?.signedPreKeys[0];
+  if (!device || !device.user.identity || !signedPreKey) {
+    return null;
+  }
+
+  const bundle: PreKeyBundle = {
+    identityKey: device.user.identity.publicKey,
+    signingKey: device.user.identity.signingKey ?? undefined,
+    signedPreKey: {
+      keyId: signedPreKey.keyId,
+      publicKey: signedPreKey.key,
+      signature: signedPreKey.signature,
+    },
+  };
+
+  const preKey = await claimOneTimePreKey(device.id);
+  if (preKey) {
+    bundle.preKey = preKey;
+    await checkPreKeySupply(device.userId, device.id);
+  } else {
+    logger.warn(`No one-time prekeys left for device ${device.id} of ${handle}, returning bundle without preKey`);
+  }
+
+  return bundle;
+}
+
+/**
+ * Store a batch of one-time prekeys uploaded by one device.
+ * Key ids that are already known for the device are skipped. With `replace`
+ * the device's unused prekeys are dropped first, e.g. when it lost their
+ * private halves; other devices of the user keep theirs.
+ */
+export async function storeOneTimePreKeys(
+  userId: string,
+  deviceId: string,
+  preKeys: OneTimePreKeyUpload[],
+  replace: boolean = false
+): Promise<number> {
+  return prisma.$transaction(async (tx) => {
+    if (replace) {
+      await tx.oneTimePreKey.deleteMany({ where: { deviceId, isUsed: false } });
+    }
+
+    const existing = await tx.oneTimePreKey.findMany({
+      where: { deviceId, keyId: { in: preKeys.map((p) => p.keyId) } },
+      select: { keyId: true },
+    });
+    const knownIds = new Set(existing.map((p) => p.keyId));
+    const fresh = preKeys.filter((p) => !knownIds.has(p.keyId));
+
+    if (fresh.length === 0) {
+      return 0;
+    }
+
+    const result = await tx.oneTimePreKey.createMany({
+      data: fresh.map((p) => ({ userId, deviceId, keyId: p.keyId, key: p.publicKey })),
+    });
+    return result.count;
+  });
+}
+
+/**
+ * Ids of the one-time prekeys the server still holds unused for a device.
+ */
+export async function listUnusedPreKeyIds(deviceId: string): Promise<number[]> {
+  const preKeys = await prisma.oneTimePreKey.findMany({
+    where: { deviceId, isUsed: false },
+    select: { keyId: true },
+  });
+  return preKeys.map((p) => p.keyId);
+}
+
+/**
+ * Number of one-time prekeys the server still holds for a device.
+ */
+export async function countUnusedPreKeys(deviceId: string): Promise<number> {
+  return prisma.oneTimePreKey.count({ where: { deviceId, isUsed: false } });
+}
+
+/**
+ * Push a prekeys_low event to the device if its supply dropped below the threshold.
+ * Offline clients pick this up through the count endpoint when they reconnect.
+ */
+export async function checkPreKeySupply(userId: string, deviceId: string): Promise<void> {
+  try {
+    const remaining = await countUnusedPreKeys(deviceId);
+    if (remaining < config.PREKEY_LOW_THRESHOLD) {
+      wsManager.notifyPreKeysLow(userId, deviceId, remaining);
+    }
+  } catch (error) {
+    logger.error(`Failed to check prekey supply for device ${deviceId}:`, error);
+  }
+}
+
+/**
+ * The active signed prekey of a device, so it can tell whether the server
+ * still hands out the key it holds the private half of.
+ */
+export async function getActiveSignedPreKey(deviceId: string) {
+  return prisma.signedPreKey.findFirst({
+    where: { deviceId, isActive: true },
+    orderBy: { createdAt: 'desc' },
+    select: { keyId: true, key: true, createdAt: true },
+  });
+}
+
+/**
+ * Replace the active signed prekey of a device after verifying its signature
+ * against the identity's signing key. The previous key stays stored until
+ * the grace window ends so that in-flight session setups can still use it.
+ */
+export async function rotateSignedPreKey(userId: string, deviceId: string, signedPreKey: SignedPreKeyUpload) {
+  const identity = await prisma.identityKey.findUnique({ where: { userId } });
+  if (!identity) {
+    throw new Error('IDENTITY_NOT_FOUND');
+  }
+
+  if (!identity.signingKey) {
+    throw new Error('SIGNING_KEY_MISSING');
+  }
+
+  const valid = await SignalCrypto.verifyPreKeySignature(
+    signedPreKey.publicKey,
+    signedPreKey.signature,
+    identity.signingKey
+  );
+  if (!valid) {
+    throw new Error('INVALID_SIGNATURE');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.signedPreKey.findUnique({
+      where: { deviceId_keyId: { deviceId, keyId: signedPreKey.keyId } },
+    });
+    if (existing) {
+      throw new Error('KEY_ID_IN_USE');
+    }
+
+    await tx.signedPreKey.updateMany({
+      where: { deviceId, isActive: true },
+      data: {
+        isActive: false,
+        expiresAt: new Date(Date.now() + config.SIGNED_PREKEY_GRACE_PERIOD),
+      },
+    });
+
+    return tx.signedPreKey.create({
+      data: {
+        userId,
+        deviceId,
+        keyId: signedPreKey.keyId,
+        key: signedPreKey.publicKey,
+        signature: signedPreKey.signature,
+      },
+      select: { keyId: true, createdAt: true },
+    });
+  });
+}
+
+/**
+ * Delete superseded signed prekeys whose grace window has passed.
+ */
+export const retireExpiredSignedPreKeys = async () => {
+  try {
+    const result = await prisma.signedPreKey.deleteMany({
+      where: {
+        isActive: false,
+        expiresAt: { lt: new Date() },
+      },
+    });
+
+    if (result.count > 0) {
+      logger.info(`Retired ${result.count} expired signed prekeys`);
+    }
+  } catch (error) {
+    logger.error('Error retiring signed prekeys:', error);
+  }
+};
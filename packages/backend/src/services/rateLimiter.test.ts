@@ -0,0 +1,247 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  BatchedRateLimitStore,
+  MemoryRateLimitStore,
+  PrismaRateLimitStore,
+  RateLimiter,
+  RateLimitStore
+} from './rateLimiter';
+
+interface Entry {
+  key: string;
+  count: number;
+  resetTime: Date;
+}
+
+type EntryWhere = {
+  key?: string | { in?: string[]; startsWith?: string };
+  count?: { gt: number };
+  resetTime?: { gt?: Date; lte?: Date };
+};
+
+// The RateLimitEntry table, for the queries PrismaRateLimitStore makes
+const mockEntries = new Map<string, Entry>();
+
+const mockMatches = (entry: Entry, where: EntryWhere = {}) => {
+  const { key, count, resetTime } = where;
+  if (typeof key === 'string' && entry.key !== key) return false;
+  if (typeof key === 'object' && key.in && !key.in.includes(entry.key)) return false;
+  if (typeof key === 'object' && key.startsWith !== undefined && !entry.key.startsWith(key.startsWith)) return false;
+  if (count && !(entry.count > count.gt)) return false;
+  if (resetTime?.gt && !(entry.resetTime > resetTime.gt)) return false;
+  if (resetTime?.lte && !(entry.resetTime <= resetTime.lte)) return false;
+  return true;
+};
+
+jest.mock('@/db', () => ({
+  __esModule: true,
+  default: {
+    rateLimitEntry: {
+      findMany: async ({ where }: { where: EntryWhere }) =>
+        [...mockEntries.values()].filter((entry) => mockMatches(entry, where)).map((entry) => ({ ...entry })),
+      upsert: async ({ where, create, update }: { where: { key: string }; create: Entry; update: { count: { increment: number } } }) => {
+        const entry = mockEntries.get(where.key);
+        if (entry) {
+          entry.count += update.count.increment;
+          return { ...entry };
+        }
+        mockEntries.set(where.key, { ...create });
+        return { ...create };
+      },
+      updateMany: async ({ where, data }: { where: EntryWhere; data: { count: { decrement: number } } }) => {
+        const matching = [...mockEntries.values()].filter((entry) => mockMatches(entry, where));
+        matching.forEach((entry) => { entry.count -= data.count.decrement; });
+        return { count: matching.length };
+      },
+      deleteMany: async ({ where }: { where: EntryWhere }) => {
+        const matching = [...mockEntries.values()].filter((entry) => mockMatches(entry, where));
+        matching.forEach((entry) => mockEntries.delete(entry.key));
+        return { count: matching.length };
+      }
+    }
+  }
+}));
+
+const WINDOW_MS = 60 * 1000;
+const rule = { limit: 10, windowMs: WINDOW_MS };
+// A window boundary, so tests can step through windows exactly
+const START = Date.UTC(2025, 0, 1);
+
+const stores: [string, () => RateLimitStore][] = [
+  ['memory', () => new MemoryRateLimitStore()],
+  ['database', () => new PrismaRateLimitStore()],
+  ['batched database', () => new BatchedRateLimitStore(new PrismaRateLimitStore(), 60 * 60 * 1000)]
+];
+
+describe.each(stores)('RateLimiter (%s store)', (_name, createStore) => {
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+    mockEntries.clear();
+    limiter = new RateLimiter(createStore());
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const consumeTimes = async (key: string, times: number) => {
+    const results = [];
+    for (let i = 0; i < times; i++) {
+      results.push(await limiter.consume(key, rule));
+    }
+    return results;
+  };
+
+  it('allows requests up to the limit and rejects the next one', async () => {
+    const results = await consumeTimes('login:ip:1.2.3.4', rule.limit);
+    expect(results.every((result) => result.allowed)).toBe(true);
+    expect(results[results.length - 1].remaining).toBe(0);
+
+    const rejected = await limiter.consume('login:ip:1.2.3.4', rule);
+    expect(rejected.allowed).toBe(false);
+    expect(rejected.retryAfter).toBeGreaterThan(0);
+  });
+
+  it('does not count rejected requests', async () => {
+    await consumeTimes('login:ip:1.2.3.4', rule.limit + 5);
+
+    const state = await limiter.check('login:ip:1.2.3.4', rule);
+    expect(state.current).toBe(rule.limit);
+  });
+
+  it('counts every hit, including those over the limit', async () => {
+    for (let i = 0; i < rule.limit + 2; i++) {
+      await limiter.hit('recover:ip:1.2.3.4', rule);
+    }
+
+    const state = await limiter.check('recover:ip:1.2.3.4', rule);
+    expect(state.allowed).toBe(false);
+    expect(state.current).toBe(rule.limit + 2);
+  });
+
+  it('keeps keys apart', async () => {
+    await consumeTimes('login:ip:1.2.3.4', rule.limit);
+
+    expect((await limiter.consume('login:ip:5.6.7.8', rule)).allowed).toBe(true);
+  });
+
+  it('weighs the previous window by how much of it still overlaps', async () => {
+    await consumeTimes('login:ip:1.2.3.4', rule.limit);
+
+    // A quarter into the next window, three quarters of the old hits still count
+    jest.setSystemTime(START + WINDOW_MS * 1.25);
+    const state = await limiter.check('login:ip:1.2.3.4', rule);
+    expect(state.current).toBe(8);
+
+    expect((await consumeTimes('login:ip:1.2.3.4', 4)).map((result) => result.allowed)).toEqual([true, true, true, false]);
+  });
+
+  it('reports when a request would be allowed again', async () => {
+    await consumeTimes('login:ip:1.2.3.4', rule.limit);
+
+    // The current window is full until it ends
+    jest.setSystemTime(START + WINDOW_MS / 2);
+    const rejected = await limiter.consume('login:ip:1.2.3.4', rule);
+    expect(rejected.allowed).toBe(false);
+    expect(rejected.retryAfter).toBe(WINDOW_MS / 2 / 1000);
+
+    jest.setSystemTime(START + WINDOW_MS + rejected.retryAfter * 1000);
+    expect((await limiter.consume('login:ip:1.2.3.4', rule)).allowed).toBe(true);
+  });
+
+  it('forgets hits older than two windows', async () => {
+    await consumeTimes('login:ip:1.2.3.4', rule.limit);
+
+    jest.setSystemTime(START + WINDOW_MS * 2);
+    const state = await limiter.check('login:ip:1.2.3.4', rule);
+    expect(state.current).toBe(0);
+    expect(state.allowed).toBe(true);
+  });
+
+  it('resets a key and clears keys by prefix', async () => {
+    await consumeTimes('login:ip:1.2.3.4', rule.limit);
+    await consumeTimes('login:ip:5.6.7.8', 2);
+    await consumeTimes('recover:ip:1.2.3.4', 2);
+
+    await limiter.reset('login:ip:1.2.3.4');
+    expect((await limiter.check('login:ip:1.2.3.4', rule)).current).toBe(0);
+    expect((await limiter.check('login:ip:5.6.7.8', rule)).current).toBe(2);
+
+    await limiter.clear('login:');
+    expect((await limiter.check('login:ip:5.6.7.8', rule)).current).toBe(0);
+    expect((await limiter.check('recover:ip:1.2.3.4', rule)).current).toBe(2);
+  });
+
+  it('lists counters with their window', async () => {
+    await consumeTimes('login:ip:1.2.3.4', 3);
+
+    const buckets = await limiter.list('login:');
+    expect(buckets).toEqual([{
+      key: 'login:ip:1.2.3.4',
+      windowStart: new Date(START),
+      count: 3,
+      resetTime: new Date(START + 2 * WINDOW_MS)
+    }]);
+  });
+
+  it('removes expired counters on cleanup', async () => {
+    await consumeTimes('login:ip:1.2.3.4', 3);
+
+    jest.setSystemTime(START + WINDOW_MS * 2);
+    await limiter.cleanup();
+    expect(await limiter.list()).toEqual([]);
+  });
+});
+
+describe('BatchedRateLimitStore', () => {
+  let store: BatchedRateLimitStore;
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+    mockEntries.clear();
+    store = new BatchedRateLimitStore(new PrismaRateLimitStore(), 5000);
+    limiter = new RateLimiter(store);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('writes hits to the table only on flush, one row per key', async () => {
+    for (let i = 0; i < 4; i++) {
+      await limiter.hit('global:ip:1.2.3.4', rule);
+    }
+    expect(mockEntries.size).toBe(0);
+
+    await store.flush();
+    expect([...mockEntries.values()].map((entry) => [entry.key, entry.count])).toEqual([
+      [`global:ip:1.2.3.4|${START}`, 4]
+    ]);
+  });
+
+  it('adds hits of other processes from the table to its own', async () => {
+    mockEntries.set(`global:ip:1.2.3.4|${START}`, {
+      key: `global:ip:1.2.3.4|${START}`,
+      count: 5,
+      resetTime: new Date(START + 2 * WINDOW_MS)
+    });
+
+    const result = await limiter.hit('global:ip:1.2.3.4', rule);
+    expect(result.current).toBe(6);
+
+    await store.flush();
+    expect(mockEntries.get(`global:ip:1.2.3.4|${START}`)?.count).toBe(6);
+  });
+
+  it('takes a rejected hit back before it is written', async () => {
+    for (let i = 0; i < rule.limit + 3; i++) {
+      await limiter.consume('global:ip:1.2.3.4', rule);
+    }
+
+    await store.flush();
+    expect(mockEntries.get(`global:ip:1.2.3.4|${START}`)?.count).toBe(rule.limit);
+  });
+});
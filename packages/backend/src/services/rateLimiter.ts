@@ -0,0 +1,459 @@
+import type { RouteOptions } from 'fastify';
+import type { FastifyRateLimitOptions, FastifyRateLimitStore, FastifyRateLimitStoreCtor } from '@fastify/rate-limit';
+import prisma from '@/db';
+import { config } from '@/utils/config';
+import { logger } from '@/utils/logger';
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  current: number;
+  remaining: number;
+  retryAfter: number; // seconds
+}
+
+export interface RateLimitBucket {
+  key: string;
+  windowStart: Date;
+  count: number;
+  resetTime: Date;
+}
+
+/**
+ * Storage backend of the limiter. Counters are kept per fixed window under
+ * `<key>|<windowStart>`; the limiter weighs two neighbouring windows into a
+ * sliding one, so a store only has to count.
+ */
+export interface RateLimitStore {
+  get(bucketKeys: string[]): Promise<Map<string, number>>;
+  increment(bucketKey: string, resetTime: Date, by?: number): Promise<number>;
+  decrement(bucketKey: string): Promise<void>;
+  list(prefix?: string): Promise<{ key: string; count: number; resetTime: Date }[]>;
+  clear(prefix: string): Promise<number>;
+  removeExpired(now: Date): Promise<number>;
+}
+
+const BUCKET_SEPARATOR = '|';
+
+const bucketKey = (key: string, windowStart: number) => `${key}${BUCKET_SEPARATOR}${windowStart}`;
+
+/**
+ * Build a limiter key from the route and the subject it is counted against
+ */
+export const rateLimitKey = (route: string, kind: 'ip' | 'handle' | 'ip-handle' | 'user-handle', value: string) =>
+  `${route}:${kind}:${value}`;
+
+/**
+ * Counters in process memory; they reset on restart and are not shared
+ * between server instances
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { count: number; resetTime: Date }>();
+
+  async get(bucketKeys: string[]): Promise<Map<string, number>> {
+    const now = new Date();
+    const counts = new Map<string, number>();
+    for (const key of bucketKeys) {
+      const bucket = this.buckets.get(key);
+      if (bucket && bucket.resetTime > now) {
+        counts.set(key, bucket.count);
+      }
+    }
+    return counts;
+  }
+
+  async increment(key: string, resetTime: Date, by = 1): Promise<number> {
+    const bucket = this.buckets.get(key);
+    if (!bucket || bucket.resetTime <= new Date()) {
+      this.buckets.set(key, { count: by, resetTime });
+      return by;
+    }
+    bucket.count += by;
+    return bucket.count;
+  }
+
+  async decrement(key: string): Promise<void> {
+    const bucket = this.buckets.get(key);
+    if (bucket && bucket.count > 0) {
+      bucket.count--;
+    }
+  }
+
+  async list(prefix = ''): Promise<{ key: string; count: number; resetTime: Date }[]> {
+    return [...this.buckets.entries()]
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, bucket]) => ({ key, count: bucket.count, resetTime: bucket.resetTime }));
+  }
+
+  async clear(prefix: string): Promise<number> {
+    let removed = 0;
+    for (const key of [...this.buckets.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.buckets.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async removeExpired(now: Date): Promise<number> {
+    let removed = 0;
+    for (const [key, bucket] of [...this.buckets.entries()]) {
+      if (bucket.resetTime <= now) {
+        this.buckets.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+/**
+ * Counters in the RateLimitEntry table, shared by every process using the database
+ */
+export class PrismaRateLimitStore implements RateLimitStore {
+  async get(bucketKeys: string[]): Promise<Map<string, number>> {
+    const entries = await prisma.rateLimitEntry.findMany({
+      where: {
+        key: { in: bucketKeys },
+        resetTime: { gt: new Date() }
+      },
+      select: { key: true, count: true }
+    });
+    return new Map(entries.map((entry: { key: string; count: number }) => [entry.key, entry.count]));
+  }
+
+  // Runs as a single INSERT ... ON CONFLICT DO UPDATE, so concurrent hits never
+  // read the same count
+  async increment(key: string, resetTime: Date, by = 1): Promise<number> {
+    const entry = await prisma.rateLimitEntry.upsert({
+      where: { key },
+      create: { key, count: by, resetTime },
+      update: { count: { increment: by } }
+    });
+    return entry.count;
+  }
+
+  async decrement(key: string): Promise<void> {
+    await prisma.rateLimitEntry.updateMany({
+      where: { key, count: { gt: 0 } },
+      data: { count: { decrement: 1 } }
+    });
+  }
+
+  async list(prefix = ''): Promise<{ key: string; count: number; resetTime: Date }[]> {
+    return prisma.rateLimitEntry.findMany({
+      where: { key: { startsWith: prefix } },
+      select: { key: true, count: true, resetTime: true },
+      orderBy: { key: 'asc' }
+    });
+  }
+
+  async clear(prefix: string): Promise<number> {
+    const result = await prisma.rateLimitEntry.deleteMany({
+      where: { key: { startsWith: prefix } }
+    });
+    return result.count;
+  }
+
+  async removeExpired(now: Date): Promise<number> {
+    const result = await prisma.rateLimitEntry.deleteMany({
+      where: { resetTime: { lte: now } }
+    });
+    return result.count;
+  }
+}
+
+/**
+ * Counts hits in memory and adds them to another store in one write per key
+ * every `flushIntervalMs`. Reads add the unwritten hits to the stored counts,
+ * so other processes see this one's hits at most one interval late.
+ */
+export class BatchedRateLimitStore implements RateLimitStore {
+  private pending = new Map<string, { count: number; resetTime: Date }>();
+  // Hits taken out of `pending` by a flush that is still writing them
+  private flushing = new Map<string, { count: number; resetTime: Date }>();
+
+  constructor(private store: RateLimitStore, flushIntervalMs: number) {
+    setInterval(() => this.flush(), flushIntervalMs).unref();
+  }
+
+  private unwritten(key: string): number {
+    return (this.pending.get(key)?.count ?? 0) + (this.flushing.get(key)?.count ?? 0);
+  }
+
+  async get(bucketKeys: string[]): Promise<Map<string, number>> {
+    const counts = await this.store.get(bucketKeys);
+    const now = new Date();
+    for (const key of bucketKeys) {
+      const unwritten = this.unwritten(key);
+      const resetTime = this.pending.get(key)?.resetTime ?? this.flushing.get(key)?.resetTime;
+      if (unwritten > 0 && resetTime && resetTime > now) {
+        counts.set(key, (counts.get(key) ?? 0) + unwritten);
+      }
+    }
+    return counts;
+  }
+
+  async increment(key: string, resetTime: Date, by = 1): Promise<number> {
+    const bucket = this.pending.get(key);
+    if (bucket) {
+      bucket.count += by;
+    } else {
+      this.pending.set(key, { count: by, resetTime });
+    }
+    const counts = await this.get([key]);
+    return counts.get(key) ?? by;
+  }
+
+  async decrement(key: string): Promise<void> {
+    const bucket = this.pending.get(key);
+    if (bucket && bucket.count > 0) {
+      bucket.count--;
+      return;
+    }
+    await this.store.decrement(key);
+  }
+
+  async list(prefix = ''): Promise<{ key: string; count: number; resetTime: Date }[]> {
+    await this.flush();
+    return this.store.list(prefix);
+  }
+
+  async clear(prefix: string): Promise<number> {
+    for (const key of [...this.pending.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.pending.delete(key);
+      }
+    }
+    return this.store.clear(prefix);
+  }
+
+  async removeExpired(now: Date): Promise<number> {
+    for (const [key, bucket] of [...this.pending.entries()]) {
+      if (bucket.resetTime <= now) {
+        this.pending.delete(key);
+      }
+    }
+    return this.store.removeExpired(now);
+  }
+
+  /**
+   * Write the hits counted since the last flush to the underlying store
+   */
+  async flush(): Promise<void> {
+    if (this.pending.size === 0 || this.flushing.size > 0) {
+      return;
+    }
+    this.flushing = this.pending;
+    this.pending = new Map();
+
+    for (const [key, bucket] of this.flushing) {
+      if (bucket.count <= 0) {
+        continue;
+      }
+      try {
+        await this.store.increment(key, bucket.resetTime, bucket.count);
+      } catch (error) {
+        logger.error(`Error writing rate limit hits for ${key}:`, error);
+        // Keep the hits for the next flush
+        const pending = this.pending.get(key);
+        this.pending.set(key, { count: (pending?.count ?? 0) + bucket.count, resetTime: bucket.resetTime });
+      }
+    }
+    this.flushing = new Map();
+  }
+}
+
+/**
+ * Sliding-window limiter. The previous window's count is weighted by how much
+ * of it still overlaps the sliding window, which approximates a full request
+ * log with two counters per key.
+ */
+export class RateLimiter {
+  constructor(private store: RateLimitStore) {}
+
+  private windows(rule: RateLimitRule, now: number) {
+    const windowStart = Math.floor(now / rule.windowMs) * rule.windowMs;
+    return {
+      windowStart,
+      currentKey: (key: string) => bucketKey(key, windowStart),
+      previousKey: (key: string) => bucketKey(key, windowStart - rule.windowMs),
+      // Each bucket is still needed as the previous window of the next one
+      resetTime: new Date(windowStart + 2 * rule.windowMs),
+      elapsed: (now - windowStart) / rule.windowMs
+    };
+  }
+
+  private evaluate(previous: number, current: number, rule: RateLimitRule, now: number): RateLimitResult {
+    const { windowStart, elapsed } = this.windows(rule, now);
+    const weighted = previous * (1 - elapsed) + current;
+    const allowed = weighted < rule.limit;
+
+    let retryAfterMs = 0;
+    if (!allowed) {
+      if (current >= rule.limit) {
+        retryAfterMs = windowStart + rule.windowMs - now;
+      } else {
+        // Wait until enough of the previous window has slid out
+        const neededElapsed = 1 - (rule.limit - current) / previous;
+        retryAfterMs = neededElapsed * rule.windowMs - (now - windowStart);
+      }
+    }
+
+    return {
+      allowed,
+      current: Math.ceil(weighted),
+      remaining: Math.max(0, rule.limit - Math.ceil(weighted)),
+      retryAfter: allowed ? 0 : Math.max(1, Math.ceil(retryAfterMs / 1000))
+    };
+  }
+
+  /**
+   * Report the state of `key` without counting a hit
+   */
+  async check(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const now = Date.now();
+    const { currentKey, previousKey } = this.windows(rule, now);
+    const counts = await this.store.get([currentKey(key), previousKey(key)]);
+    return this.evaluate(counts.get(previousKey(key)) ?? 0, counts.get(currentKey(key)) ?? 0, rule, now);
+  }
+
+  /**
+   * Count a hit for `key`, whether or not it is over the limit, and report
+   * the state after it
+   */
+  async hit(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const now = Date.now();
+    const { currentKey, previousKey, resetTime } = this.windows(rule, now);
+    const current = await this.store.increment(currentKey(key), resetTime);
+    const counts = await this.store.get([previousKey(key)]);
+    return this.evaluate(counts.get(previousKey(key)) ?? 0, current, rule, now);
+  }
+
+  /**
+   * Count a hit only if `key` is still under the limit. The hit is counted
+   * first and taken back when it went over, so concurrent callers cannot all
+   * pass a check made before any of them counted.
+   */
+  async consume(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+    const now = Date.now();
+    const { currentKey, previousKey, resetTime } = this.windows(rule, now);
+    const current = await this.store.increment(currentKey(key), resetTime);
+    const counts = await this.store.get([previousKey(key)]);
+    const previous = counts.get(previousKey(key)) ?? 0;
+
+    const before = this.evaluate(previous, current - 1, rule, now);
+    if (!before.allowed) {
+      await this.store.decrement(currentKey(key));
+      return before;
+    }
+    return { ...this.evaluate(previous, current, rule, now), allowed: true };
+  }
+
+  /**
+   * Forget all counters of `key`
+   */
+  async reset(key: string): Promise<number> {
+    return this.store.clear(`${key}${BUCKET_SEPARATOR}`);
+  }
+
+  /**
+   * Forget all counters whose key starts with `prefix`
+   */
+  async clear(prefix: string): Promise<number> {
+    return this.store.clear(prefix);
+  }
+
+  async list(prefix?: string): Promise<RateLimitBucket[]> {
+    const buckets = await this.store.list(prefix);
+    return buckets.map((bucket) => {
+      const separator = bucket.key.lastIndexOf(BUCKET_SEPARATOR);
+      return {
+        key: bucket.key.slice(0, separator),
+        windowStart: new Date(Number(bucket.key.slice(separator + 1))),
+        count: bucket.count,
+        resetTime: bucket.resetTime
+      };
+    });
+  }
+
+  /**
+   * Write out hits a batching store has not stored yet
+   */
+  async flush(): Promise<void> {
+    if (this.store instanceof BatchedRateLimitStore) {
+      await this.store.flush();
+    }
+  }
+
+  /**
+   * Remove counters that no longer affect any window (called periodically)
+   */
+  async cleanup(): Promise<void> {
+    try {
+      const removed = await this.store.removeExpired(new Date());
+      if (removed > 0) {
+        logger.info(`Cleaned up ${removed} rate limit entries`);
+      }
+    } catch (error) {
+      logger.error('Error cleaning up rate limit entries:', error);
+    }
+  }
+}
+
+// What @fastify/rate-limit actually passes to stores, after normalizing its options
+interface FastifyStoreParams {
+  timeWindow: number;
+  routeInfo?: { url?: string };
+}
+
+/**
+ * Store constructor for @fastify/rate-limit, so the global limiter can be
+ * listed and cleared like the per-route limiters. Route-level overrides get their own keys.
+ */
+export const createFastifyRateLimitStore = (limiter: RateLimiter, route: string): FastifyRateLimitStoreCtor => {
+  class SharedRateLimitStore implements FastifyRateLimitStore {
+    private windowMs: number;
+
+    constructor(options: FastifyRateLimitOptions, private route: string = route) {
+      this.windowMs = (options as FastifyStoreParams).timeWindow;
+    }
+
+    incr(key: string, callback: (error: Error | null, result?: { current: number; ttl: number }) => void, max?: number) {
+      limiter.hit(rateLimitKey(this.route, 'ip', key), { limit: max ?? Infinity, windowMs: this.windowMs })
+        .then((result) => callback(null, {
+          current: result.current,
+          // Time until the current window ends, which the reset header reports
+          ttl: result.retryAfter > 0 ? result.retryAfter * 1000 : this.windowMs - (Date.now() % this.windowMs)
+        }))
+        .catch((error: Error) => callback(error));
+    }
+
+    child(routeOptions: RouteOptions & { path: string; prefix: string }) {
+      const url = (routeOptions as unknown as FastifyStoreParams).routeInfo?.url;
+      return new SharedRateLimitStore(routeOptions as FastifyRateLimitOptions, url ? `${route}${url}` : route);
+    }
+  }
+
+  return SharedRateLimitStore;
+};
+
+// Export singleton instance
+export const rateLimiter = new RateLimiter(
+  config.RATE_LIMIT_STORE === 'memory' ? new MemoryRateLimitStore() : new PrismaRateLimitStore()
+);
+
+// Every request passes the global limiter, so with the database store its hits
+// are written in batches instead of once per request
+const GLOBAL_FLUSH_INTERVAL_MS = 5 * 1000;
+
+export const globalRateLimiter = new RateLimiter(
+  config.RATE_LIMIT_STORE === 'memory'
+    ? new MemoryRateLimitStore()
+    : new BatchedRateLimitStore(new PrismaRateLimitStore(), GLOBAL_FLUSH_INTERVAL_MS)
+);
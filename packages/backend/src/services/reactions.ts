@@ -0,0 +1,196 @@
+import prisma from '@/db';
+import { buildDirectCopies, MAX_ACK_BATCH } from '@/services/messageDelivery';
+import { findGroupForMember, buildGroupCopies } from '@/services/groups';
+
+export interface ReactionCopy {
+  id: string; // Reaction row, which the device acks once it processed the copy
+  userId: string;
+  deviceId: string;
+  encryptedData: string;
+}
+
+export interface SavedReaction {
+  messageId: string;
+  groupId: string | null;
+  removed: boolean;
+  pfsMessage: boolean;
+  reactedAt: Date;
+  copies: ReactionCopy[];
+}
+
+export interface ReactionCiphertexts {
+  encryptedData?: string; // Group messages only; without any ciphertext the reaction is removed
+  deviceCiphertexts?: Record<string, string>; // Device.id -> ciphertext, direct messages only
+  pfsMessage?: boolean;
+}
+
+export type ReactionResult =
+  | { ok: true; reaction: SavedReaction }
+  | { ok: false; status: 403 | 404 | 409; error: string; message: string };
+
+const reject = (status: 403 | 404 | 409, error: string, message: string): ReactionResult =>
+  ({ ok: false, status, error, message });
+
+/**
+ * Set or remove a user's reaction to a message. Every participant device gets
+ * one copy, including the reacting user's other devices; a user has at most
+ * one reaction per message, so a new one replaces the old.
+ */
+export async function setReaction(
+  messageId: string,
+  reactor: { userId: string; deviceId: string },
+  ciphertexts: ReactionCiphertexts
+): Promise<ReactionResult> {
+  const { userId } = reactor;
+  const message = await prisma.message.findUnique({
+    where: { id: messageId },
+    select: { id: true, senderId: true, receiverId: true, groupId: true, isDeleted: true }
+  });
+
+  if (!message) {
+    return reject(404, 'Not Found', 'Message not found');
+  }
+
+  if (message.isDeleted) {
+    return reject(409, 'Conflict', 'Message was deleted');
+  }
+
+  // The server cannot route a reaction to the unknown sender of a sealed message
+  if (!message.senderId) {
+    return reject(409, 'Conflict', 'Message was sent sealed');
+  }
+
+  const reactedAt = new Date();
+  const pfsMessage = ciphertexts.pfsMessage ?? false;
+
+  if (!ciphertexts.encryptedData && !ciphertexts.deviceCiphertexts) {
+    if (!(await isParticipant(message, userId))) {
+      return reject(404, 'Not Found', 'Message not found');
+    }
+
+    // Removals go to the devices that got the reaction
+    const existing = await prisma.reaction.findMany({
+      where: { messageId, userId },
+      select: { deviceId: true, senderDeviceId: true, device: { select: { userId: true } } }
+    });
+
+    const removals = existing.map((reaction: { deviceId: string; senderDeviceId: string | null; device: { userId: string } }) => ({
+      userId: reaction.device.userId,
+      deviceId: reaction.deviceId,
+      senderDeviceId: reaction.senderDeviceId,
+      encryptedData: ''
+    }));
+
+    return {
+      ok: true,
+      reaction: {
+        messageId,
+        groupId: message.groupId,
+        removed: true,
+        pfsMessage: false,
+        reactedAt,
+        copies: await replaceReactionRows(messageId, userId, removals, false)
+      }
+    };
+  }
+
+  let copies: Omit<ReactionCopy, 'id'>[];
+  if (message.groupId) {
+    const group = await findGroupForMember(message.groupId, userId);
+    if (!group) {
+      return reject(404, 'Not Found', 'Message not found');
+    }
+
+    const recipients = await buildGroupCopies(group.members, reactor, { encryptedData: ciphertexts.encryptedData });
+    copies = recipients.flatMap((recipient) =>
+      recipient.copies.map((copy) => ({ userId: recipient.userId, ...copy }))
+    );
+  } else {
+    if (!(await isParticipant(message, userId))) {
+      return reject(404, 'Not Found', 'Message not found');
+    }
+
+    const peerId = message.senderId === userId ? message.receiverId : message.senderId;
+    copies = await buildDirectCopies(reactor, peerId as string, ciphertexts.deviceCiphertexts ?? {});
+  }
+
+  const saved = await replaceReactionRows(
+    messageId,
+    userId,
+    copies.map((copy) => ({ ...copy, senderDeviceId: reactor.deviceId })),
+    pfsMessage
+  );
+
+  return {
+    ok: true,
+    reaction: { messageId, groupId: message.groupId, removed: false, pfsMessage, reactedAt, copies: saved }
+  };
+}
+
+/**
+ * Replace a user's reaction rows on a message. Every change gets new rows, so
+ * a late ack of an earlier reaction cannot confirm the one replacing it.
+ */
+async function replaceReactionRows(
+  messageId: string,
+  userId: string,
+  copies: (Omit<ReactionCopy, 'id'> & { senderDeviceId: string | null })[],
+  pfsMessage: boolean
+): Promise<ReactionCopy[]> {
+  const [, rows] = await prisma.$transaction([
+    prisma.reaction.deleteMany({
+      where: { messageId, userId }
+    }),
+    prisma.reaction.createManyAndReturn({
+      data: copies.map((copy) => ({
+        messageId,
+        userId,
+        deviceId: copy.deviceId,
+        senderDeviceId: copy.senderDeviceId,
+        encryptedData: copy.encryptedData,
+        pfsMessage
+      })),
+      select: { id: true, deviceId: true }
+    })
+  ]);
+
+  const ids = new Map(rows.map((row: { id: string; deviceId: string }) => [row.deviceId, row.id]));
+  return copies.map((copy) => ({
+    id: ids.get(copy.deviceId) as string,
+    userId: copy.userId,
+    deviceId: copy.deviceId,
+    encryptedData: copy.encryptedData
+  }));
+}
+
+/**
+ * Mark the reaction copies a device acknowledged as delivered. Removals are
+ * dropped once delivered; there is nothing left to keep. Ids of other devices'
+ * copies, or of replaced reactions, are ignored.
+ */
+export async function acknowledgeReactions(deviceId: string, reactionIds: string[]): Promise<void> {
+  const ids = Array.from(new Set(reactionIds)).slice(0, MAX_ACK_BATCH);
+  if (ids.length === 0) {
+    return;
+  }
+
+  await prisma.$transaction([
+    prisma.reaction.deleteMany({
+      where: { id: { in: ids }, deviceId, encryptedData: '' }
+    }),
+    prisma.reaction.updateMany({
+      where: { id: { in: ids }, deviceId, deliveredAt: null },
+      data: { deliveredAt: new Date() }
+    })
+  ]);
+}
+
+async function isParticipant(
+  message: { senderId: string | null; receiverId: string | null; groupId: string | null },
+  userId: string
+): Promise<boolean> {
+  if (message.groupId) {
+    return !!(await findGroupForMember(message.groupId, userId));
+  }
+  return message.senderId === userId || message.receiverId === userId;
+}
@@ -0,0 +1,52 @@
+import prisma from '@/db';
+
+// Largest batch of message ids accepted in one read receipt
+export const MAX_READ_RECEIPT_BATCH = 200;
+
+export interface ReadMessages {
+  readAt: Date;
+  bySender: Map<string, string[]>; // sender userId -> message ids that are now read
+  notifySenders: boolean; // The reader's privacy setting
+}
+
+/**
+ * Mark direct messages as read by their receiver. Ids of other users'
+ * messages, already read messages and group messages (which have no
+ * per-member read state) are ignored.
+ */
+export async function markMessagesRead(readerId: string, messageIds: string[]): Promise<ReadMessages> {
+  const readAt = new Date();
+  const ids = Array.from(new Set(messageIds)).slice(0, MAX_READ_RECEIPT_BATCH);
+
+  const [unread, reader] = await Promise.all([
+    prisma.message.findMany({
+      where: {
+        id: { in: ids },
+        receiverId: readerId,
+        groupId: null,
+        read: false
+      },
+      select: { id: true, senderId: true }
+    }),
+    prisma.user.findUnique({
+      where: { id: readerId },
+      select: { sendReadReceipts: true }
+    })
+  ]);
+
+  if (unread.length > 0) {
+    await prisma.message.updateMany({
+      where: { id: { in: unread.map((message: { id: string }) => message.id) } },
+      data: { read: true, readAt }
+    });
+  }
+
+  // Senders of sealed messages are unknown and get no receipt
+  const bySender = new Map<string, string[]>();
+  for (const message of unread as { id: string; senderId: string | null }[]) {
+    if (!message.senderId) continue;
+    bySender.set(message.senderId, [...(bySender.get(message.senderId) ?? []), message.id]);
+  }
+
+  return { readAt, bySender, notifySenders: reader?.sendReadReceipts ?? true };
+}
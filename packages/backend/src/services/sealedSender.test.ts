@@ -0,0 +1,196 @@
+import sodium from 'libsodium-wrappers';
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { config } from '@/utils/config';
+import { fromB64 } from '@/utils/base64';
+import {
+  authorizeSealedDelivery,
+  issueSenderCertificate,
+  SEALED_MESSAGE_TYPE,
+  setDeliveryToken,
+  storeSealedMessage
+} from './sealedSender';
+
+interface UserRow {
+  id: string;
+  handle: string;
+  deliveryTokenHash: string | null;
+  identity: { publicKey: string } | null;
+}
+
+interface MessageRow {
+  id: string;
+  senderId: string | null;
+  receiverId: string;
+  messageType: string;
+  clientMessageId: string | null;
+  timestamp: Date;
+  expiresAt: Date | null;
+  deliveries: { deviceId: string; encryptedData: string }[];
+}
+
+// The tables sealed delivery touches; BOB-002 has two active devices and a revoked one
+const mockUsers = new Map<string, UserRow>();
+const mockDevices = [
+  { id: 'bob-phone', userId: 'bob', isActive: true },
+  { id: 'bob-laptop', userId: 'bob', isActive: true },
+  { id: 'bob-old', userId: 'bob', isActive: false }
+];
+const mockMessages: MessageRow[] = [];
+
+jest.mock('@/db', () => ({
+  __esModule: true,
+  default: {
+    user: {
+      findUnique: async ({ where }: { where: { id?: string; handle?: string } }) => {
+        const user = [...mockUsers.values()].find((row) => row.id === where.id || row.handle === where.handle);
+        return user ? { ...user } : null;
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Partial<UserRow> }) => {
+        Object.assign(mockUsers.get(where.id)!, data);
+        return { ...mockUsers.get(where.id)! };
+      }
+    },
+    device: {
+      findMany: async ({ where }: { where: { userId: string; isActive: boolean } }) =>
+        mockDevices
+          .filter((device) => device.userId === where.userId && device.isActive === where.isActive)
+          .map((device) => ({ id: device.id }))
+    },
+    message: {
+      findFirst: async ({ where }: { where: { senderId: null; receiverId: string; clientMessageId: string } }) => {
+        const row = mockMessages.find((message) =>
+          message.senderId === null && message.receiverId === where.receiverId && message.clientMessageId === where.clientMessageId
+        );
+        return row ? { id: row.id, timestamp: row.timestamp, expiresAt: row.expiresAt } : null;
+      },
+      create: async ({ data }: {
+        data: Omit<MessageRow, 'id' | 'senderId' | 'timestamp' | 'deliveries'> & { deliveries: { create: MessageRow['deliveries'] } };
+      }) => {
+        const row: MessageRow = {
+          id: `message-${mockMessages.length + 1}`,
+          senderId: null,
+          receiverId: data.receiverId,
+          messageType: data.messageType,
+          clientMessageId: data.clientMessageId,
+          timestamp: new Date(),
+          expiresAt: data.expiresAt,
+          deliveries: data.deliveries.create
+        };
+        mockMessages.push(row);
+        return { id: row.id, timestamp: row.timestamp, expiresAt: row.expiresAt };
+      }
+    }
+  }
+}));
+
+const CLIENT_MESSAGE_ID = '0b6f3c1e-7d2a-4c5b-9e8f-1a2b3c4d5e6f';
+
+describe('sealed sender', () => {
+  beforeAll(async () => {
+    await sodium.ready;
+  });
+
+  beforeEach(() => {
+    mockUsers.clear();
+    mockUsers.set('alice', { id: 'alice', handle: 'ALI-001', deliveryTokenHash: null, identity: { publicKey: 'alice-identity' } });
+    mockUsers.set('bob', { id: 'bob', handle: 'BOB-002', deliveryTokenHash: null, identity: { publicKey: 'bob-identity' } });
+    mockMessages.length = 0;
+  });
+
+  describe('delivery tokens', () => {
+    it('stores only a hash of the token', async () => {
+      await setDeliveryToken('bob', 'secret-token');
+
+      const stored = mockUsers.get('bob')!.deliveryTokenHash;
+      expect(stored).toMatch(/^[0-9a-f]{64}$/);
+      expect(stored).not.toContain('secret-token');
+    });
+
+    it('authorizes delivery with the receiver\'s token', async () => {
+      await setDeliveryToken('bob', 'secret-token');
+
+      await expect(authorizeSealedDelivery('BOB-002', 'secret-token')).resolves.toEqual({ id: 'bob', handle: 'BOB-002' });
+      await expect(authorizeSealedDelivery('bob-002', 'secret-token')).resolves.toEqual({ id: 'bob', handle: 'BOB-002' });
+    });
+
+    it('rejects a wrong token and another user\'s token', async () => {
+      await setDeliveryToken('alice', 'alice-token');
+      await setDeliveryToken('bob', 'secret-token');
+
+      await expect(authorizeSealedDelivery('BOB-002', 'secret-tokeN')).resolves.toBeNull();
+      await expect(authorizeSealedDelivery('BOB-002', 'alice-token')).resolves.toBeNull();
+    });
+
+    it('rejects the old token once it was replaced', async () => {
+      await setDeliveryToken('bob', 'old-token');
+      await setDeliveryToken('bob', 'new-token');
+
+      await expect(authorizeSealedDelivery('BOB-002', 'old-token')).resolves.toBeNull();
+      await expect(authorizeSealedDelivery('BOB-002', 'new-token')).resolves.not.toBeNull();
+    });
+
+    it('rejects receivers without a token and unknown receivers alike', async () => {
+      await expect(authorizeSealedDelivery('BOB-002', '')).resolves.toBeNull();
+      await expect(authorizeSealedDelivery('XYZ-999', 'secret-token')).resolves.toBeNull();
+    });
+  });
+
+  describe('sender certificates', () => {
+    it('certifies handle, device and identity key under the server key', async () => {
+      const before = Date.now();
+      const signed = await issueSenderCertificate('alice', 'alice-phone');
+
+      expect(signed).not.toBeNull();
+      expect(sodium.crypto_sign_verify_detached(
+        fromB64(signed!.signature),
+        sodium.from_string(signed!.certificate),
+        fromB64(signed!.serverKey)
+      )).toBe(true);
+
+      const certificate = JSON.parse(signed!.certificate);
+      expect(certificate).toMatchObject({ handle: 'ALI-001', deviceId: 'alice-phone', identityKey: 'alice-identity' });
+      expect(certificate.expiresAt).toBeGreaterThanOrEqual(before + config.SENDER_CERTIFICATE_TTL);
+    });
+
+    it('signs every certificate with the same server key', async () => {
+      const first = await issueSenderCertificate('alice', 'alice-phone');
+      const second = await issueSenderCertificate('bob', 'bob-phone');
+
+      expect(second!.serverKey).toBe(first!.serverKey);
+    });
+
+    it('issues no certificate without an identity key', async () => {
+      mockUsers.get('alice')!.identity = null;
+
+      await expect(issueSenderCertificate('alice', 'alice-phone')).resolves.toBeNull();
+    });
+  });
+
+  describe('storeSealedMessage', () => {
+    it('stores the message without sender, with a copy per active device that has an envelope', async () => {
+      const stored = await storeSealedMessage({
+        receiverId: 'bob',
+        deviceEnvelopes: { 'bob-phone': 'envelope-1', 'bob-laptop': 'envelope-2', 'bob-old': 'envelope-3' },
+        clientMessageId: null
+      });
+
+      expect(stored.duplicate).toBe(false);
+      expect(stored.copies).toEqual([
+        { deviceId: 'bob-phone', encryptedData: 'envelope-1' },
+        { deviceId: 'bob-laptop', encryptedData: 'envelope-2' }
+      ]);
+      expect(mockMessages).toHaveLength(1);
+      expect(mockMessages[0]).toMatchObject({ senderId: null, receiverId: 'bob', messageType: SEALED_MESSAGE_TYPE, expiresAt: null });
+    });
+
+    it('returns the stored message for a retry without copies to push again', async () => {
+      const input = { receiverId: 'bob', deviceEnvelopes: { 'bob-phone': 'envelope-1' }, clientMessageId: CLIENT_MESSAGE_ID, expiresIn: 60 };
+      const first = await storeSealedMessage(input);
+      const retry = await storeSealedMessage(input);
+
+      expect(retry).toEqual({ id: first.id, timestamp: first.timestamp, expiresAt: first.expiresAt, copies: [], duplicate: true });
+      expect(first.expiresAt).not.toBeNull();
+      expect(mockMessages).toHaveLength(1);
+    });
+  });
+});
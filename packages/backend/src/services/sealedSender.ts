@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import sodium from 'libsodium-wrappers';
+import prisma from '@/db';
+import { config } from '@/utils/config';
+import { toB64 } from '@/utils/base64';
+import { buildDeviceCopies, DeviceCopy } from '@/services/messageDelivery';
+import { expiryFromNow } from '@/services/messageExpiry';
+
+// Stored in place of the message type, which is inside the envelope
+export const SEALED_MESSAGE_TYPE = 'sealed';
+
+export interface SignedSenderCertificate {
+  certificate: string; // JSON of { handle, identityKey, expiresAt }, signed as is
+  signature: string;
+  serverKey: string; // Ed25519 key recipients check the signature with
+}
+
+export interface SealedMessageInput {
+  receiverId: string;
+  deviceEnvelopes: Record<string, string>; // Device.id -> envelope for that device
+  clientMessageId: string | null;
+  expiresIn?: number;
+}
+
+export interface StoredSealedMessage {
+  id: string;
+  timestamp: Date;
+  expiresAt: Date | null;
+  copies: DeviceCopy[]; // Empty for a retried send, which is not pushed again
+  duplicate: boolean;
+}
+
+let signingKeyPair: { publicKey: Uint8Array; privateKey: Uint8Array } | null = null;
+
+/**
+ * The server's certificate signing key, derived from the JWT secret so that
+ * every instance and restart signs with the same key
+ */
+async function getSigningKeyPair() {
+  if (!signingKeyPair) {
+    await sodium.ready;
+    const seed = crypto.createHmac('sha256', config.JWT_SECRET).update('sender-certificate').digest();
+    const keyPair = sodium.crypto_sign_seed_keypair(new Uint8Array(seed));
+    signingKeyPair = { publicKey: keyPair.publicKey, privateKey: keyPair.privateKey };
+  }
+  return signingKeyPair;
+}
+
+const hashDeliveryToken = (token: string): Buffer =>
+  crypto.createHash('sha256').update(token).digest();
+
+/**
+ * Replace a user's delivery token. Only its hash is kept, and contacts with
+ * the old token can no longer send sealed messages.
+ */
+export async function setDeliveryToken(userId: string, token: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { deliveryTokenHash: hashDeliveryToken(token).toString('hex') }
+  });
+}
+
+/**
+ * The recipient of a sealed message if the delivery token is theirs. This
+ * replaces the contact check of regular sends, which needs the sender.
+ */
+export async function authorizeSealedDelivery(
+  receiverHandle: string,
+  deliveryToken: string
+): Promise<{ id: string; handle: string } | null> {
+  const receiver = await prisma.user.findUnique({
+    where: { handle: receiverHandle.toUpperCase() },
+    select: { id: true, handle: true, deliveryTokenHash: true }
+  });
+
+  if (!receiver?.deliveryTokenHash) {
+    return null;
+  }
+
+  const expected = Buffer.from(receiver.deliveryTokenHash, 'hex');
+  const presented = hashDeliveryToken(deliveryToken);
+  if (expected.length !== presented.length || !crypto.timingSafeEqual(expected, presented)) {
+    return null;
+  }
+
+  return { id: receiver.id, handle: receiver.handle };
+}
+
+/**
+ * Certify a user's handle, device and identity key for sealed messages.
+ * Recipients trust the sender named inside an envelope only with a valid
+ * certificate, and decrypt with the session of the certified device.
+ */
+export async function issueSenderCertificate(userId: string, deviceId: string): Promise<SignedSenderCertificate | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { handle: true, identity: { select: { publicKey: true } } }
+  });
+
+  if (!user?.identity) {
+    return null;
+  }
+
+  const keyPair = await getSigningKeyPair();
+  const certificate = JSON.stringify({
+    handle: user.handle,
+    deviceId,
+    identityKey: user.identity.publicKey,
+    expiresAt: Date.now() + config.SENDER_CERTIFICATE_TTL
+  });
+
+  return {
+    certificate,
+    signature: toB64(sodium.crypto_sign_detached(sodium.from_string(certificate), keyPair.privateKey)),
+    serverKey: toB64(keyPair.publicKey)
+  };
+}
+
+/**
+ * Store a sealed message without a sender, one envelope per active device of
+ * the recipient that the sender encrypted for. A retry with the same
+ * idempotency key returns the stored message without copies to push again.
+ */
+export async function storeSealedMessage(input: SealedMessageInput): Promise<StoredSealedMessage> {
+  if (input.clientMessageId) {
+    const existing = await prisma.message.findFirst({
+      where: { senderId: null, receiverId: input.receiverId, clientMessageId: input.clientMessageId },
+      select: { id: true, timestamp: true, expiresAt: true }
+    });
+    if (existing) {
+      return { ...existing, copies: [], duplicate: true };
+    }
+  }
+
+  const copies = await buildDeviceCopies(input.receiverId, { deviceCiphertexts: input.deviceEnvelopes });
+
+  const message = await prisma.message.create({
+    data: {
+      receiverId: input.receiverId,
+      content: '[Encrypted Message]', // Never store plaintext
+      messageType: SEALED_MESSAGE_TYPE,
+      expiresAt: expiryFromNow(input.expiresIn),
+      clientMessageId: input.clientMessageId,
+      delivered: false,
+      read: false,
+      metadata: JSON.stringify({ encrypted: true, sealed: true }),
+      deliveries: {
+        create: copies
+      }
+    },
+    select: { id: true, timestamp: true, expiresAt: true }
+  });
+
+  return { ...message, copies, duplicate: false };
+}
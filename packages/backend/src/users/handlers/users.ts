@@ -1,6 +1,9 @@
 import { FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
 import prisma from '@/db';
 import { logger } from '@/utils/logger';
+import { fetchPreKeyBundle } from '@/services/preKeys';
+import { setDeliveryToken, issueSenderCertificate } from '@/services/sealedSender';
 
 export async function getUserByHandle(
   request: FastifyRequest<{ Params: { handle: string } }>,
@@ -35,42 +38,17 @@ export const getPreKeyBundle = async (
   reply: FastifyReply
 ): Promise<void> => {
   try {
-    const { handle } = request.params as { handle: string };
+    const { handle, deviceId } = request.params as { handle: string; deviceId: string };
 
-    // Find the user
-    const user = await prisma.user.findUnique({
-      where: { handle },
-      select: { 
-        id: true, 
-        handle: true, 
-        publicKey: true,
-        // For now, return a mock PreKey bundle
-      
-      }
-    });
+    const preKeyBundle = await fetchPreKeyBundle(handle, deviceId);
 
-    if (!user) {
+    if (!preKeyBundle) {
       return reply.status(404).send({
         error: 'Not Found',
         message: 'Benutzer nicht gefunden'
       });
     }
 
-    // Mock PreKey bundle - in production, this would be generated and stored
-    const preKeyBundle = {
-      identityKey: user.publicKey,
-      registrationId: 1, // Mock registration ID
-      signedPreKey: {
-        keyId: 1,
-        publicKey: user.publicKey, // Mock - should be separate signed prekey
-        signature: 'mock_signature' // Mock signature
-      },
-      preKey: {
-        keyId: 1,
-        publicKey: user.publicKey // Mock - should be separate prekey
-      }
-    };
-
     return reply.send({
       success: true,
       data: preKeyBundle
@@ -83,4 +61,105 @@ export const getPreKeyBundle = async (
       message: 'Failed to get PreKey bundle'
     });
   }
-}; 
\ No newline at end of file
+}; 
+const updateSettingsSchema = z.object({
+  sendReadReceipts: z.boolean().optional(),
+});
+
+export const getSettings = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: request.user!.userId },
+      select: { sendReadReceipts: true }
+    });
+
+    if (!user) {
+      return reply.code(404).send({ message: 'Benutzer nicht gefunden' });
+    }
+
+    return reply.send({ success: true, settings: user });
+  } catch (error) {
+    logger.error('Get settings error:', error);
+    return reply.code(500).send({ message: 'Internal server error' });
+  }
+};
+
+export const updateSettings = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const body = updateSettingsSchema.parse(request.body);
+
+    const user = await prisma.user.update({
+      where: { id: request.user!.userId },
+      data: body,
+      select: { sendReadReceipts: true }
+    });
+
+    return reply.send({ success: true, settings: user });
+  } catch (error) {
+    logger.error('Update settings error:', error);
+
+    if (error instanceof z.ZodError) {
+      return reply.status(400).send({
+        error: 'Bad Request',
+        message: 'Invalid input data',
+        details: error.errors
+      });
+    }
+
+    return reply.code(500).send({ message: 'Internal server error' });
+  }
+};
+
+const deliveryTokenSchema = z.object({
+  // Random secret the user shares with contacts inside encrypted messages
+  deliveryToken: z.string().min(32).max(128),
+});
+
+export const updateDeliveryToken = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { deliveryToken } = deliveryTokenSchema.parse(request.body);
+
+    await setDeliveryToken(request.user!.userId, deliveryToken);
+
+    return reply.send({ success: true });
+  } catch (error) {
+    logger.error('Update delivery token error:', error);
+
+    if (error instanceof z.ZodError) {
+      return reply.status(400).send({
+        error: 'Bad Request',
+        message: 'Invalid input data',
+        details: error.errors
+      });
+    }
+
+    return reply.code(500).send({ message: 'Internal server error' });
+  }
+};
+
+export const getSenderCertificate = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const certificate = await issueSenderCertificate(request.user!.userId, request.user!.deviceId);
+
+    if (!certificate) {
+      return reply.code(404).send({ message: 'Kein Identitätsschlüssel vorhanden' });
+    }
+
+    return reply.send({ success: true, data: certificate });
+  } catch (error) {
+    logger.error('Sender certificate error:', error);
+    return reply.code(500).send({ message: 'Internal server error' });
+  }
+};
@@ -2,13 +2,25 @@ import { FastifyInstance } from 'fastify';
 import { authenticateToken } from '../middleware/auth';
 import { 
   getUserByHandle,
-  getPreKeyBundle
+  getPreKeyBundle,
+  getSettings,
+  updateSettings,
+  updateDeliveryToken,
+  getSenderCertificate
 } from './handlers/users';
 
 export async function userRoutes(fastify: FastifyInstance) {
   // Get user by handle - requires authentication
   fastify.get<{Params: {handle: string}}>('/handle/:handle', { preHandler: authenticateToken }, getUserByHandle);
 
-  // Get PreKey bundle for Signal Protocol - requires authentication
-  fastify.get<{Params: {handle: string}}>('/prekey-bundle/:handle', { preHandler: authenticateToken }, getPreKeyBundle);
+  // Get the PreKey bundle of one device for Signal Protocol - requires authentication
+  fastify.get<{Params: {handle: string; deviceId: string}}>('/prekey-bundle/:handle/:deviceId', { preHandler: authenticateToken }, getPreKeyBundle);
+
+  // Privacy settings of the current user
+  fastify.get('/me/settings', { preHandler: authenticateToken }, getSettings);
+  fastify.patch('/me/settings', { preHandler: authenticateToken }, updateSettings);
+
+  // Sealed sender: the token contacts deliver with, and the certificate we send with
+  fastify.put('/me/delivery-token', { preHandler: authenticateToken }, updateDeliveryToken);
+  fastify.get('/me/sender-certificate', { preHandler: authenticateToken }, getSenderCertificate);
 } 
\ No newline at end of file
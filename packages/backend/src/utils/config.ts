@@ -19,6 +19,9 @@ const configSchema = z.object({
   // Rate Limiting
   RATE_LIMIT_MAX: z.number().default(100),
   RATE_LIMIT_WINDOW: z.number().default(900000), // 15 minutes
+  RATE_LIMIT_STORE: z.enum(['database', 'memory']).default('database'),
+  ACCOUNT_CREATION_RATE_LIMIT: z.number().default(10),
+  ACCOUNT_CREATION_RATE_WINDOW: z.number().default(60000), // 1 minute
   
   // Toggle for completely disabling Fastify rate-limiting middleware
   DISABLE_RATE_LIMIT: z.preprocess(
@@ -33,10 +36,30 @@ const configSchema = z.object({
   
   // Session
   SESSION_TIMEOUT: z.number().default(86400000), // 24 hours
+  AUTH_CHALLENGE_TTL: z.number().default(120000), // 2 minutes
+  AUTH_CHALLENGE_RATE_LIMIT: z.number().default(20),
+  AUTH_CHALLENGE_RATE_WINDOW: z.number().default(60000), // 1 minute
+  DEVICE_LINK_TTL: z.number().default(300000), // 5 minutes, same as the QR code expiry
   
   // Recovery
   RECOVERY_RATE_LIMIT: z.number().default(3),
   RECOVERY_RATE_WINDOW: z.number().default(3600000), // 1 hour
+  BACKUP_MAX_VERSIONS: z.number().default(5),
+  
+  // Messaging
+  MESSAGE_EDIT_WINDOW: z.number().default(900000), // 15 minutes, for edits and deletes
+  DELIVERED_MESSAGE_RETENTION: z.number().default(86400000), // 24 hours after the last device acknowledged it
+  UNDELIVERED_MESSAGE_RETENTION: z.number().default(2592000000), // 30 days
+  SENDER_CERTIFICATE_TTL: z.number().default(86400000), // 24 hours
+  SEALED_MESSAGE_RATE_LIMIT: z.number().default(60), // Sealed messages per recipient
+  SEALED_MESSAGE_RATE_WINDOW: z.number().default(60000), // 1 minute
+  
+  // One-time prekeys
+  PREKEY_LOW_THRESHOLD: z.number().default(10),
+  PREKEY_TARGET_COUNT: z.number().default(50),
+  SIGNED_PREKEY_GRACE_PERIOD: z.number().default(604800000), // 7 days
+  PREKEY_BUNDLE_RATE_LIMIT: z.number().default(20), // Bundle fetches per requester and handle
+  PREKEY_BUNDLE_RATE_WINDOW: z.number().default(3600000), // 1 hour
   
   // Logging
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
@@ -55,10 +78,29 @@ const createConfig = (): Config => {
     CORS_ORIGIN: process.env.CORS_ORIGIN,
     RATE_LIMIT_MAX: process.env.RATE_LIMIT_MAX ? parseInt(process.env.RATE_LIMIT_MAX, 10) : undefined,
     RATE_LIMIT_WINDOW: process.env.RATE_LIMIT_WINDOW ? parseInt(process.env.RATE_LIMIT_WINDOW, 10) : undefined,
+    RATE_LIMIT_STORE: process.env.RATE_LIMIT_STORE,
+    ACCOUNT_CREATION_RATE_LIMIT: process.env.ACCOUNT_CREATION_RATE_LIMIT ? parseInt(process.env.ACCOUNT_CREATION_RATE_LIMIT, 10) : undefined,
+    ACCOUNT_CREATION_RATE_WINDOW: process.env.ACCOUNT_CREATION_RATE_WINDOW ? parseInt(process.env.ACCOUNT_CREATION_RATE_WINDOW, 10) : undefined,
     SESSION_TIMEOUT: process.env.SESSION_TIMEOUT ? parseInt(process.env.SESSION_TIMEOUT, 10) : undefined,
+    AUTH_CHALLENGE_TTL: process.env.AUTH_CHALLENGE_TTL ? parseInt(process.env.AUTH_CHALLENGE_TTL, 10) : undefined,
+    AUTH_CHALLENGE_RATE_LIMIT: process.env.AUTH_CHALLENGE_RATE_LIMIT ? parseInt(process.env.AUTH_CHALLENGE_RATE_LIMIT, 10) : undefined,
+    AUTH_CHALLENGE_RATE_WINDOW: process.env.AUTH_CHALLENGE_RATE_WINDOW ? parseInt(process.env.AUTH_CHALLENGE_RATE_WINDOW, 10) : undefined,
+    DEVICE_LINK_TTL: process.env.DEVICE_LINK_TTL ? parseInt(process.env.DEVICE_LINK_TTL, 10) : undefined,
     RECOVERY_RATE_LIMIT: process.env.RECOVERY_RATE_LIMIT ? parseInt(process.env.RECOVERY_RATE_LIMIT, 10) : undefined,
     RECOVERY_RATE_WINDOW: process.env.RECOVERY_RATE_WINDOW ? parseInt(process.env.RECOVERY_RATE_WINDOW, 10) : undefined,
+    BACKUP_MAX_VERSIONS: process.env.BACKUP_MAX_VERSIONS ? parseInt(process.env.BACKUP_MAX_VERSIONS, 10) : undefined,
+    MESSAGE_EDIT_WINDOW: process.env.MESSAGE_EDIT_WINDOW ? parseInt(process.env.MESSAGE_EDIT_WINDOW, 10) : undefined,
+    DELIVERED_MESSAGE_RETENTION: process.env.DELIVERED_MESSAGE_RETENTION ? parseInt(process.env.DELIVERED_MESSAGE_RETENTION, 10) : undefined,
+    UNDELIVERED_MESSAGE_RETENTION: process.env.UNDELIVERED_MESSAGE_RETENTION ? parseInt(process.env.UNDELIVERED_MESSAGE_RETENTION, 10) : undefined,
+    SENDER_CERTIFICATE_TTL: process.env.SENDER_CERTIFICATE_TTL ? parseInt(process.env.SENDER_CERTIFICATE_TTL, 10) : undefined,
+    SEALED_MESSAGE_RATE_LIMIT: process.env.SEALED_MESSAGE_RATE_LIMIT ? parseInt(process.env.SEALED_MESSAGE_RATE_LIMIT, 10) : undefined,
+    SEALED_MESSAGE_RATE_WINDOW: process.env.SEALED_MESSAGE_RATE_WINDOW ? parseInt(process.env.SEALED_MESSAGE_RATE_WINDOW, 10) : undefined,
     DISABLE_RATE_LIMIT: process.env.DISABLE_RATE_LIMIT,
+    PREKEY_LOW_THRESHOLD: process.env.PREKEY_LOW_THRESHOLD ? parseInt(process.env.PREKEY_LOW_THRESHOLD, 10) : undefined,
+    PREKEY_TARGET_COUNT: process.env.PREKEY_TARGET_COUNT ? parseInt(process.env.PREKEY_TARGET_COUNT, 10) : undefined,
+    SIGNED_PREKEY_GRACE_PERIOD: process.env.SIGNED_PREKEY_GRACE_PERIOD ? parseInt(process.env.SIGNED_PREKEY_GRACE_PERIOD, 10) : undefined,
+    PREKEY_BUNDLE_RATE_LIMIT: process.env.PREKEY_BUNDLE_RATE_LIMIT ? parseInt(process.env.PREKEY_BUNDLE_RATE_LIMIT, 10) : undefined,
+    PREKEY_BUNDLE_RATE_WINDOW: process.env.PREKEY_BUNDLE_RATE_WINDOW ? parseInt(process.env.PREKEY_BUNDLE_RATE_WINDOW, 10) : undefined,
     LOG_LEVEL: process.env.LOG_LEVEL,
   };
 
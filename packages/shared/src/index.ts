@@ -6,6 +6,7 @@ export interface IdentityKeyPair {
 
 export interface PreKeyBundle {
   identityKey: string;
+  signingKey?: string; // Ed25519 key that signed the signed prekey
   signedPreKey: {
     keyId: number;
     publicKey: string;
@@ -73,14 +74,21 @@ export interface RecoveryData {
 
 // Platform Abstraction Interfaces
 
+export interface RatchetKeyPair {
+  publicKey: Uint8Array;
+  privateKey: Uint8Array;
+}
+
 export interface RatchetState {
   rootKey: Uint8Array;
   sendingChainKey: Uint8Array;
-  receivingChainKey: Uint8Array;
+  receivingChainKey: Uint8Array; // Empty until the other party's first ratchet key arrives
   sendMessageNumber: number;
   receiveMessageNumber: number;
   previousSendingChainLength: number;
-  skippedKeys: Map<number, Uint8Array>;
+  sendingRatchetKey: RatchetKeyPair; // Our current X25519 ratchet key pair
+  receivingRatchetKey: string | null; // The other party's current ratchet public key (base64)
+  skippedKeys: Map<string, Uint8Array>; // `${ratchetKey}:${messageNumber}` -> message key
 }
 
 export interface EphemeralKeys {
@@ -100,7 +108,11 @@ export interface ICryptoProvider {
   decryptMessage(message: SignalMessage, senderHandle: string): Promise<string>;
   
   // Perfect Forward Secrecy Operations
-  initializeRatchet(sessionKey: Uint8Array): Promise<RatchetState>;
+  initializeRatchet(
+    sessionKey: Uint8Array,
+    isInitiator: boolean,
+    signedPreKey: { publicKey: Uint8Array; privateKey?: Uint8Array }
+  ): Promise<RatchetState>;
   deriveMessageKeys(chainKey: Uint8Array): Promise<EphemeralKeys>;
   advanceChain(ratchetState: RatchetState): Promise<RatchetState>;
   rotateKeys(ratchetState: RatchetState, interval?: number): Promise<RatchetState>;
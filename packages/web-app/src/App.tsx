@@ -9,10 +9,19 @@ import WelcomeScreen from './components/auth/RegisterForm/WelcomeScreen';
 import { addContact as addContactApi } from './lib/api/contactApi';
 import { globalMessageService } from './lib/services/GlobalMessageService';
 import { clearAllCacheOnLogout } from './lib/utils/cacheManager';
+import { answerLoginChallenge, createSession as createSessionApi } from './lib/api/sessionApi';
+import type { SessionResponse } from './lib/api/sessionApi';
+import type { Group } from './lib/api/groupApi';
+import { preKeyService } from './lib/services/PreKeyService';
+import { keyRotationService } from './lib/crypto/keyRotationService';
+import { toIdentityKeyPair } from './lib/crypto/account';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://0.0.0.0:11401';
 import './styles/App.css';
 
+// Stored with the user so the identity keys never have to be guessed as hex or base64
+const KEY_ENCODING = 'base64';
+
 interface User {
   handle: string;
   publicKey: string;
@@ -27,7 +36,9 @@ function App() {
   const [view, setView] = useState<'home' | 'chat'>('home');
   const [selectedContactHandle, setSelectedContactHandle] = useState<string | null>(null);
   const [selectedContactDisplayName, setSelectedContactDisplayName] = useState<string | null>(null);
+  const [selectedGroup, setSelectedGroup] = useState<Group | null>(null);
   const [initialShowNewChat, setInitialShowNewChat] = useState(false);
+  const [showDevices, setShowDevices] = useState(false);
 
   useEffect(() => {
     // Check for existing session on app start
@@ -59,6 +70,16 @@ function App() {
           localStorage.removeItem('secmes_current_session');
           return;
         }
+
+        // Users stored before the encoding was recorded still have the hex keys of account creation
+        if (userData.keyEncoding !== KEY_ENCODING) {
+          userData = {
+            handle: userData.handle,
+            ...toIdentityKeyPair({ pubKey: userData.publicKey, privKey: userData.privateKey }),
+            keyEncoding: KEY_ENCODING
+          };
+          localStorage.setItem('secmes_current_user', JSON.stringify(userData));
+        }
         
         // Validate session with server
         const response = await fetch(`${API_BASE_URL}/api/auth/heartbeat`, {
@@ -91,6 +112,10 @@ function App() {
           } catch (error) {
             console.error('Failed to initialize GlobalMessageService:', error);
           }
+
+          // Top up one-time prekeys consumed while we were away
+          await preKeyService.initialize(user);
+          await keyRotationService.startSignedPreKeyRotation(user, user.sessionToken);
         } else {
           // Clear invalid session
           localStorage.removeItem('secmes_current_user');
@@ -111,31 +136,31 @@ function App() {
     handle: string;
     publicKey: string;
     privateKey: string;
-  }) => {
-    // Account created, so now we create a session
-    createSession(userData);
+  }, session?: SessionResponse) => {
+    // Account created, so now we create a session (recovery already opened one)
+    createSession(userData, session);
   };
 
   const createSession = async (userData: {
     handle: string;
     publicKey: string;
     privateKey: string;
-  }) => {
+  }, existingSession?: SessionResponse) => {
     try {
       const deviceId = getOrCreateDeviceId();
-      
-      // 2. Request a session from the backend
-      const response = await fetch(`${API_BASE_URL}/api/auth/session`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ handle: userData.handle, deviceId })
-      });
-
-      if (!response.ok) {
-        throw new Error('Session creation failed');
-      }
+      let sessionData = existingSession;
 
-      const sessionData = await response.json();
+      if (!sessionData) {
+        // 1. Prove possession of the identity key
+        const answer = await answerLoginChallenge(userData.handle, userData);
+
+        // 2. Request a session from the backend
+        sessionData = await createSessionApi({
+          handle: userData.handle,
+          deviceId,
+          ...answer
+        });
+      }
 
       // Connect to WebSocket after session is established
       await webSocketClient.connect(sessionData.token, sessionData.sessionId);
@@ -149,7 +174,7 @@ function App() {
       };
 
       setCurrentUser(user);
-      
+
       // Initialize global message service
       try {
         await globalMessageService.initialize(user);
@@ -157,12 +182,17 @@ function App() {
       } catch (error) {
         console.error('Failed to initialize GlobalMessageService:', error);
       }
+
+      // Top up this device's one-time prekeys; other devices keep theirs
+      await preKeyService.initialize(user);
+      await keyRotationService.startSignedPreKeyRotation(user, user.sessionToken);
       
       // Store user data and session
       localStorage.setItem('secmes_current_user', JSON.stringify({
         handle: userData.handle,
         publicKey: userData.publicKey,
-        privateKey: userData.privateKey
+        privateKey: userData.privateKey,
+        keyEncoding: KEY_ENCODING
       }));
       
       localStorage.setItem('secmes_current_session', JSON.stringify({
@@ -188,6 +218,8 @@ function App() {
     try {
       // Use the comprehensive cache clearing for session invalidation too
       globalMessageService.cleanup();
+      preKeyService.cleanup();
+      keyRotationService.stopSignedPreKeyRotation();
       await clearAllCacheOnLogout();
       setCurrentUser(null);
               console.log('Session invalidation cleanup completed');
@@ -225,6 +257,8 @@ function App() {
       
       // 2. Cleanup global message service
       globalMessageService.cleanup();
+      preKeyService.cleanup();
+      keyRotationService.stopSignedPreKeyRotation();
               console.log('Global message service cleaned up');
       
       // 3. Clear WebSocket connection
@@ -273,6 +307,7 @@ function App() {
 
   // Handle navigation between Home and Chat
   const handleSelectContact = async (contactHandle: string) => {
+    setSelectedGroup(null);
     setSelectedContactHandle(contactHandle);
     setInitialShowNewChat(false);
     
@@ -305,6 +340,19 @@ function App() {
     setView('chat');
   };
 
+  const handleSelectGroup = (group: Group) => {
+    setSelectedContactHandle(null);
+    setSelectedGroup(group);
+    setSelectedContactDisplayName(group.name);
+    setInitialShowNewChat(false);
+    setView('chat');
+  };
+
+  const handleGroupChange = (group: Group) => {
+    setSelectedGroup(group);
+    setSelectedContactDisplayName(group.name);
+  };
+
   const handleShowContacts = () => {
     setInitialShowNewChat(true);
     setView('chat');
@@ -328,6 +376,7 @@ function App() {
 
   const handleBackHome = () => {
     setSelectedContactHandle(null);
+    setSelectedGroup(null);
     setSelectedContactDisplayName(null);
     setView('home');
   };
@@ -378,6 +427,14 @@ function App() {
               onContactSelect={handleSelectContact}
               onAddContact={handleAddContact}
               onLogout={handleLogout}
+              onShowDevices={() => setShowDevices(true)}
+              onGroupSelect={handleSelectGroup}
+            />
+            <SessionManager
+              currentUser={currentUser}
+              onSessionInvalidated={handleSessionInvalidated}
+              showDevices={showDevices}
+              onCloseDevices={() => setShowDevices(false)}
             />
           </motion.div>
         ) : (
@@ -417,6 +474,17 @@ function App() {
                 minimal={true}
               />
             )}
+            {selectedGroup && (
+              <MessagingComponent
+                currentUser={currentUser}
+                contactHandle=""
+                group={selectedGroup}
+                onGroupChange={handleGroupChange}
+                onLeaveGroup={handleBackHome}
+                onClose={handleBackHome}
+                minimal={true}
+              />
+            )}
           </motion.div>
         )
       )}
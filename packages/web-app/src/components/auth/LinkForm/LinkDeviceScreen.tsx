@@ -0,0 +1,114 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import styles from "../RegisterForm/RegistrationScreen.module.scss";
+import { deviceLinkService } from "../../../lib/services/DeviceLinkService";
+import { getBarcodeDetector } from "../../../lib/utils/barcodeDetector";
+import { useBarcodeScanner } from "../../../lib/utils/useBarcodeScanner";
+
+interface LinkDeviceScreenProps {
+  onBack: () => void;
+  onLinked: (userData: {
+    handle: string;
+    privateKey: string;
+    publicKey: string;
+  }) => void;
+}
+
+const LinkDeviceScreen: React.FC<LinkDeviceScreenProps> = ({ onBack, onLinked }): React.ReactElement => {
+  const [qrText, setQrText] = useState("");
+  const [waiting, setWaiting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop polling when leaving the screen
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const linkWith = useCallback(async (data: string) => {
+    setError(null);
+    setWaiting(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const account = await deviceLinkService.joinAndReceive(data.trim(), controller.signal);
+      onLinked(account);
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      console.error("Device link failed", e);
+      setError(e instanceof Error ? e.message : "Gerät konnte nicht verknüpft werden");
+    } finally {
+      setWaiting(false);
+    }
+  }, [onLinked]);
+
+  const handleDetected = useCallback((data: string) => {
+    setQrText(data);
+    linkWith(data);
+  }, [linkWith]);
+
+  const handleCameraError = useCallback(() => {
+    setError("Kamera nicht verfügbar. Fügen Sie den QR-Code-Inhalt manuell ein.");
+  }, []);
+
+  const { videoRef, scanning, setScanning } = useBarcodeScanner(handleDetected, handleCameraError);
+
+  const handleBack = () => {
+    abortRef.current?.abort();
+    onBack();
+  };
+
+  return (
+    <div className={styles["registration-root"]}>
+      <div className={styles["recovery-label"]}>
+        Mit bestehendem Gerät verknüpfen
+        <div style={{ fontSize: '0.875rem', color: '#6b7280', marginTop: '0.5rem' }}>
+          Öffnen Sie auf Ihrem angemeldeten Gerät „Gerät verknüpfen“ und scannen Sie den angezeigten QR-Code
+        </div>
+      </div>
+
+      {scanning ? (
+        <video ref={videoRef} muted playsInline style={{ width: '16rem', borderRadius: '0.75rem' }} />
+      ) : (
+        <textarea
+          value={qrText}
+          onChange={(e) => {
+            setQrText(e.target.value);
+            setError(null);
+          }}
+          className={styles["input"]}
+          placeholder="QR-Code-Inhalt einfügen"
+          rows={4}
+          disabled={waiting}
+          style={{ resize: 'none' }}
+        />
+      )}
+
+      {getBarcodeDetector() && !waiting && (
+        <button
+          className={styles["copy-btn"]}
+          onClick={() => setScanning((s) => !s)}
+          type="button"
+          style={{ marginTop: "1rem" }}
+        >
+          {scanning ? 'SCAN BEENDEN' : 'QR-CODE SCANNEN'}
+        </button>
+      )}
+
+      {error && (
+        <p className="text-red-500 text-center mb-4 max-w-xl mx-auto">{error}</p>
+      )}
+
+      <button
+        className={styles["fortfahren-btn"]}
+        disabled={!qrText.trim() || waiting || scanning}
+        onClick={() => linkWith(qrText)}
+      >
+        {waiting ? "Warte auf Bestätigung..." : "Verknüpfen"}
+      </button>
+      <button className={styles["back-btn"]} onClick={handleBack} type="button">
+        Zurück
+      </button>
+    </div>
+  );
+};
+
+export default LinkDeviceScreen;
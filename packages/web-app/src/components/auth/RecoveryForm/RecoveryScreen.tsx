@@ -1,8 +1,11 @@
 import React, { useState, useEffect } from "react";
 import styles from "../RegisterForm/RegistrationScreen.module.scss";
 import * as bip39 from "bip39";
-import { deriveKeyPairFromMnemonic } from "../../../lib/crypto/account";
+import { deriveKeyPairFromMnemonic, toIdentityKeyPair } from "../../../lib/crypto/account";
 import { Buffer } from "buffer";
+import { recoverAccount, RecoveryRateLimitError } from "../../../lib/api/recoveryApi";
+import type { SessionResponse } from "../../../lib/api/sessionApi";
+import { getOrCreateDeviceId } from "../../../lib/utils/handle";
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || "https://0.0.0.0:11401";
 
@@ -12,7 +15,7 @@ interface RecoveryScreenProps {
     handle: string;
     privateKey: string;
     publicKey: string;
-  }) => void;
+  }, session?: SessionResponse) => void;
 }
 
 const RecoveryScreen: React.FC<RecoveryScreenProps> = ({ onBack, onRecovered }): React.ReactElement => {
@@ -161,29 +164,25 @@ const RecoveryScreen: React.FC<RecoveryScreenProps> = ({ onBack, onRecovered }):
     try {
       const mnemonic = recoveryWords.join(" ");
       const keyPair = await deriveKeyPairFromMnemonic(mnemonic);
-      const publicKeyBase64 = Buffer.from(keyPair.pubKey, "hex").toString("base64");
+      const identityKeyPair = toIdentityKeyPair(keyPair);
 
-      // Look up account by public key
-      const res = await fetch(`${API_BASE_URL}/api/auth/lookup-by-key`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ publicKey: publicKeyBase64 }),
-      });
-
-      if (!res.ok) {
-        const data = await res.json().catch(() => ({}));
-        throw new Error(data.error || "Konto nicht gefunden");
-      }
-      const data = await res.json();
+      // Prove possession of the derived key; the server opens a session on this device
+      const recovered = await recoverAccount(
+        identityKeyPair.publicKey,
+        identityKeyPair,
+        getOrCreateDeviceId()
+      );
 
       onRecovered({
-        handle: data.account.handle,
-        privateKey: keyPair.privKey,
-        publicKey: keyPair.pubKey,
-      });
+        handle: recovered.account.handle,
+        ...identityKeyPair
+      }, recovered.session);
     } catch (e) {
       console.error("Recovery failed", e);
       setError(e instanceof Error ? e.message : "Fehlgeschlagen, Konto wiederherzustellen");
+      if (e instanceof RecoveryRateLimitError) {
+        setRateLimited(true);
+      }
       recordAttempt(false);
     } finally {
       setLoading(false);
@@ -3,8 +3,11 @@ import styles from "./RegistrationScreen.module.scss";
 import { 
   generateMnemonic, 
   deriveKeyPairFromMnemonic, 
-  deriveHandleFromPublicKey 
+  deriveHandleFromPublicKey,
+  toIdentityKeyPair
 } from "../../../lib/crypto/account";
+import { SignalCrypto } from "../../../lib/crypto/signalCrypto";
+import { preKeyStore } from "../../../lib/crypto/preKeyStore";
 import { Buffer } from 'buffer';
 
 const BASE_URL = import.meta.env.VITE_API_URL || 'https://0.0.0.0:11401';
@@ -142,9 +145,25 @@ const RegistrationScreen: React.FC<RegistrationScreenProps> = ({ onBack, onConti
       const publicKeyBase64 = Buffer.from(keyPair.pubKey, 'hex').toString('base64');
       console.log('Public key (base64):', publicKeyBase64);
       
+      const identityKeyPair = toIdentityKeyPair(keyPair);
+
+      // Ed25519 key that the signed prekey, its rotations and login challenges are verified against
+      const signingKey = await SignalCrypto.getSigningPublicKey(identityKeyPair);
+
+      // The account is published with a real signed prekey right away
+      const signedPreKeyId = await preKeyStore.nextSignedPreKeyId();
+      const signedPreKey = await SignalCrypto.createPreKey();
+      const signedPreKeySignature = await SignalCrypto.signPreKey(signedPreKey, identityKeyPair);
+
       const registrationData = { 
         handle: handle, 
-        publicKey: publicKeyBase64 
+        publicKey: publicKeyBase64,
+        signingKey,
+        signedPreKey: {
+          keyId: signedPreKeyId,
+          publicKey: signedPreKey.publicKey,
+          signature: signedPreKeySignature
+        }
       };
       
       console.log('Sending to backend:', registrationData);
@@ -162,6 +181,14 @@ const RegistrationScreen: React.FC<RegistrationScreenProps> = ({ onBack, onConti
 
       const data = await res.json();
       console.log('Backend response:', data);
+
+      await preKeyStore.storeSignedPreKey({
+        keyId: signedPreKeyId,
+        publicKey: signedPreKey.publicKey,
+        privateKey: signedPreKey.privateKey,
+        signature: signedPreKeySignature,
+        createdAt: Date.now()
+      });
       
       // Verify the handle matches what we sent
       if (data.handle && data.handle !== handle) {
@@ -176,8 +203,7 @@ const RegistrationScreen: React.FC<RegistrationScreenProps> = ({ onBack, onConti
       // Pass real account data to parent component
       onContinue({
         handle: finalHandle,
-        publicKey: keyPair.pubKey,
-        privateKey: keyPair.privKey
+        ...identityKeyPair
       });
       
       console.log('=== REGISTRATION COMPLETE ===');
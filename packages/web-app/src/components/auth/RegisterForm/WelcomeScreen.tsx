@@ -4,7 +4,9 @@ import type { Transition, Variants } from "framer-motion";
 import styles from "./WelcomeScreen.module.scss";
 import RegistrationScreen from "./RegistrationScreen";
 import RecoveryScreen from "../RecoveryForm/RecoveryScreen";
+import LinkDeviceScreen from "../LinkForm/LinkDeviceScreen";
 import HalloAnimation from "./HalloAnimation";
+import type { SessionResponse } from "../../../lib/api/sessionApi";
 
 interface AccountData {
   handle: string;
@@ -13,7 +15,7 @@ interface AccountData {
 }
 
 interface WelcomeScreenProps {
-  onAccountCreated: (userData: AccountData) => void;
+  onAccountCreated: (userData: AccountData, session?: SessionResponse) => void;
 }
 
 const pageVariants: Variants = {
@@ -31,6 +33,7 @@ const pageTransition: Transition = {
 const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onAccountCreated }) => {
   const [showRegistration, setShowRegistration] = useState(false);
   const [showRecovery, setShowRecovery] = useState(false);
+  const [showLink, setShowLink] = useState(false);
   const [direction, setDirection] = useState<1 | -1>(1);
   const [showButtons, setShowButtons] = useState(false);
 
@@ -48,10 +51,16 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onAccountCreated }) => {
     setShowRecovery(false);
   };
 
+  const handleLink = () => {
+    setDirection(1);
+    setShowLink(true);
+  };
+
   const handleBack = () => {
     setDirection(1);
     setShowRegistration(false);
     setShowRecovery(false);
+    setShowLink(false);
   };
 
   const handleHalloAnimationComplete = () => {
@@ -61,7 +70,7 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onAccountCreated }) => {
   return (
     <div className={styles["welcome-root"]}>
       <AnimatePresence mode="wait">
-        {!showRegistration && !showRecovery ? (
+        {!showRegistration && !showRecovery && !showLink ? (
           <motion.div
             key="welcome"
             className={styles["welcome-content"]}
@@ -94,6 +103,9 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onAccountCreated }) => {
                   <div className={styles.button} onClick={handleRegister} tabIndex={0} role="button" aria-label="Registrieren">
                     <span className={styles["button-text"]}>Registrieren</span>
                   </div>
+                  <div className={styles.button} onClick={handleLink} tabIndex={0} role="button" aria-label="Gerät verknüpfen">
+                    <span className={styles["button-text"]}>Verknüpfen</span>
+                  </div>
                 </motion.div>
               ) : (
                 <div className={styles["einreg-frame-placeholder"]} />
@@ -112,6 +124,18 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onAccountCreated }) => {
           >
             <RegistrationScreen onBack={handleBack} onContinue={onAccountCreated} />
           </motion.div>
+        ) : showLink ? (
+          <motion.div
+            key="link"
+            custom={dir}
+            initial="initial"
+            animate="in"
+            exit="out"
+            variants={pageVariants}
+            transition={pageTransition}
+          >
+            <LinkDeviceScreen onBack={handleBack} onLinked={onAccountCreated} />
+          </motion.div>
         ) : (
           <motion.div
             key="recovery"
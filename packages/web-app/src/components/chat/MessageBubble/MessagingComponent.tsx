@@ -1,18 +1,34 @@
 import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { webSocketClient } from '../../../lib/websocket/websocketClient';
 import type { WebSocketMessage, MessageData, ConnectionStatus } from '../../../lib/websocket/websocketClient';
-import { SignalCrypto } from '../../../lib/crypto/signalCrypto';
-import { PFSIntegration } from '../../../lib/crypto/pfsIntegration';
-import { messageStorage } from '../../../lib/storage/messageStorage';
+import { messageStorage, summarizeReactions } from '../../../lib/storage/messageStorage';
 import type { EncryptedMessage } from '../../../lib/storage/messageStorage';
-import { sessionManager } from '../../../lib/crypto/sessionManager';
-import type { Session } from '../../../lib/crypto/signalCrypto';
+import { sessionManager, deviceIdOfAddress } from '../../../lib/crypto/sessionManager';
+import { identityKeyStore, formatSafetyNumber } from '../../../lib/crypto/identityKeyStore';
+import { contactVerificationService } from '../../../lib/services/ContactVerificationService';
+import ContactVerificationPanel from '../../security/ContactVerification/ContactVerificationPanel';
 import type { RatchetState } from '@secure-messenger/shared';
 import { browserStorage } from '../../../lib/storage/browserStorage';
+import { addGroupMembers, removeGroupMember, leaveGroup, groupConversationId } from '../../../lib/api/groupApi';
+import type { Group } from '../../../lib/api/groupApi';
+import { senderKeyStore, SENDER_KEY_MESSAGE_TYPE } from '../../../lib/crypto/senderKeyStore';
+import { encodeMessageContent, quoteSnippet } from '../../../lib/utils/messageContent';
+import type { QuotedMessage } from '../../../lib/utils/messageContent';
+import { EXPIRY_OPTIONS, EXPIRY_TIMER_MESSAGE_TYPE, encodeExpiryTimer, formatExpiry } from '../../../lib/utils/disappearingMessages';
+import { sealedSender, DELIVERY_TOKEN_MESSAGE_TYPE, encodeDeliveryToken } from '../../../lib/crypto/sealedSender';
+import { sendSealedMessage } from '../../../lib/api/sealedSenderApi';
 import styles from './MessagingComponent.module.scss';
 
 const BASE_URL = import.meta.env.VITE_API_URL || 'https://0.0.0.0:11401';
 
+// Matches the server's MESSAGE_EDIT_WINDOW; the server has the final say
+const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+// Temporary ids wrap the idempotency key the server deduplicates retried sends by
+const clientMessageIdOf = (tempId: string) => tempId.slice('temp_'.length);
+
 // Define crypto types to match our updated signalCrypto implementation
 interface KeyPair {
   publicKey: string;
@@ -34,6 +50,13 @@ interface CipherPacket {
   previousChainLength?: number; // For PFS chain management
 }
 
+// Group content is encrypted once; direct content once per device
+interface ChatCiphertext {
+  encryptedData?: string;
+  deviceCiphertexts?: Record<string, string>; // Device.id -> ciphertext
+  pfsMessage: boolean;
+}
+
 interface Message {
   id: string;
   content: string;
@@ -42,11 +65,16 @@ interface Message {
   timestamp: string;
   delivered?: boolean;
   isOwn?: boolean;
-  status?: 'pending' | 'sent' | 'delivered';
+  status?: 'pending' | 'sent' | 'delivered' | 'failed';
+  read?: boolean;
   encrypted?: boolean;
   encryptedData?: string; // Store original encrypted data for retry
   pfsMessage?: boolean; // Flag to indicate PFS encryption
   plaintext?: string; // Store plaintext for our own message
+  replyTo?: QuotedMessage;
+  reactions?: Record<string, string>; // Reacting handle -> emoji
+  isEdited?: boolean;
+  isDeleted?: boolean;
 }
 
 interface MessagingComponentProps {
@@ -60,13 +88,20 @@ interface MessagingComponentProps {
   contactHandle: string;
   onClose: () => void;
   minimal?: boolean;
+  // When set, the chat is a group chat and `contactHandle` is ignored
+  group?: Group;
+  onGroupChange?: (group: Group) => void;
+  onLeaveGroup?: () => void;
 }
 
 const MessagingComponent: React.FC<MessagingComponentProps> = ({
   currentUser,
   contactHandle,
   onClose,
-  minimal = false
+  minimal = false,
+  group,
+  onGroupChange,
+  onLeaveGroup
 }) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
@@ -75,17 +110,37 @@ const MessagingComponent: React.FC<MessagingComponentProps> = ({
     authenticated: false,
     reconnecting: false
   });
-  const [session, setSession] = useState<Session | null>(null);
+  const [sessionsReady, setSessionsReady] = useState<boolean>(false);
   const [pfsInitialized, setPfsInitialized] = useState<boolean>(false);
   const [encryptionError, setEncryptionError] = useState<string>('');
   const [showClearConfirm, setShowClearConfirm] = useState<boolean>(false);
   const [isClearing, setIsClearing] = useState<boolean>(false);
   const [isAtBottom, setIsAtBottom] = useState<boolean>(true);
   const [showScrollToBottom, setShowScrollToBottom] = useState<boolean>(false);
+  const [showMembers, setShowMembers] = useState<boolean>(false);
+  const [inviteHandle, setInviteHandle] = useState<string>('');
+  const [groupError, setGroupError] = useState<string>('');
+  const [isUpdatingGroup, setIsUpdatingGroup] = useState<boolean>(false);
+  const [activeMessageId, setActiveMessageId] = useState<string | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [messageToDelete, setMessageToDelete] = useState<Message | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
+  const [expiresInSeconds, setExpiresInSeconds] = useState<number | null>(null);
+  const [showExpiryOptions, setShowExpiryOptions] = useState<boolean>(false);
+  const [identityKeyChanged, setIdentityKeyChanged] = useState<boolean>(false);
+  const [safetyNumber, setSafetyNumber] = useState<string | null>(null);
+  const [identityVerified, setIdentityVerified] = useState<boolean>(false);
+  const [showVerification, setShowVerification] = useState<boolean>(false);
+  const [isPageVisible, setIsPageVisible] = useState<boolean>(document.visibilityState === 'visible');
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const messageIdsRef = useRef<Set<string>>(new Set());
+  const pendingSendsRef = useRef<Map<string, WebSocketMessage['data']>>(new Map()); // tempId -> frame awaiting message_sent
+  const messageElementsRef = useRef<Map<string, HTMLDivElement>>(new Map());
+  const readReceiptsSentRef = useRef<Set<string>>(new Set());
   const pfsInitializedRef = useRef(pfsInitialized);
   const userHasScrolledRef = useRef<boolean>(false);
   const lastMessageCountRef = useRef<number>(0);
@@ -96,18 +151,104 @@ const MessagingComponent: React.FC<MessagingComponentProps> = ({
   }, [pfsInitialized]);
 
   const conversationId = useMemo(() => {
+    if (group) {
+      return groupConversationId(group.id);
+    }
     return [currentUser.handle, contactHandle].sort((a, b) => a.localeCompare(b)).join('#');
-  }, [currentUser.handle, contactHandle]);
+  }, [currentUser.handle, contactHandle, group]);
+
+  // Everyone we encrypt for: the contact, or every other group member
+  const peerHandles = useMemo(() => {
+    if (!group) {
+      return [contactHandle];
+    }
+    return group.members.map(member => member.handle).filter(handle => handle !== currentUser.handle);
+  }, [group, contactHandle, currentUser.handle]);
+
+  const isGroupAdmin = !!group?.members.some(member => member.handle === currentUser.handle && member.role === 'admin');
+
+  // The socket subscriptions call the latest render's handlers through this
+  // ref, so they stay the same functions for as long as the chat is open
+  const chatHandlersRef = useRef<{
+    initChat: () => Promise<void>;
+    handleMessageSent: (wsMessage: WebSocketMessage) => void;
+    handleDeliveryReceipt: (wsMessage: WebSocketMessage) => void;
+    handleChangeRejected: (wsMessage: WebSocketMessage) => void;
+    handleConnectionChange: (status: ConnectionStatus) => void;
+  } | null>(null);
+  const socketHandlers = useRef({
+    messageSent: (wsMessage: WebSocketMessage) => chatHandlersRef.current?.handleMessageSent(wsMessage),
+    deliveryReceipt: (wsMessage: WebSocketMessage) => chatHandlersRef.current?.handleDeliveryReceipt(wsMessage),
+    changeRejected: (wsMessage: WebSocketMessage) => chatHandlersRef.current?.handleChangeRejected(wsMessage),
+    connectionChange: (status: ConnectionStatus) => chatHandlersRef.current?.handleConnectionChange(status)
+  }).current;
 
   useEffect(() => {
-    initChat();
+    chatHandlersRef.current?.initChat();
     return () => {
       // Clean up only sending-related handlers
-      webSocketClient.offMessage('message_sent', handleMessageSent);
-      webSocketClient.offMessage('delivery_receipt', handleDeliveryReceipt);
-      webSocketClient.offConnectionChange(handleConnectionChange);
+      webSocketClient.offMessage('message_sent', socketHandlers.messageSent);
+      webSocketClient.offMessage('delivery_receipt', socketHandlers.deliveryReceipt);
+      webSocketClient.offMessage('error', socketHandlers.changeRejected);
+      webSocketClient.offConnectionChange(socketHandlers.connectionChange);
+    };
+  }, [contactHandle, group?.id, socketHandlers]);
+
+  useEffect(() => {
+    if (!group) return;
+
+    const handleGroupUpdated = (wsMessage: WebSocketMessage) => {
+      const data = wsMessage.data as { groupId: string; removed?: boolean; group?: Group };
+      if (data.groupId !== group.id) return;
+
+      if (data.removed) {
+        onLeaveGroup?.();
+      } else if (data.group) {
+        onGroupChange?.(data.group);
+      }
     };
-  }, [contactHandle]);
+
+    webSocketClient.onMessage('group_updated', handleGroupUpdated);
+    return () => webSocketClient.offMessage('group_updated', handleGroupUpdated);
+  }, [group, onGroupChange, onLeaveGroup]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => setIsPageVisible(document.visibilityState === 'visible');
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  // Incoming messages count as read once they are on screen; the server
+  // forwards one receipt per conversation batch unless we turned receipts off
+  useEffect(() => {
+    if (!isPageVisible) return;
+
+    const messageIds = messages
+      .filter(msg => !msg.isOwn && !msg.read && !msg.id.startsWith('temp_') && !readReceiptsSentRef.current.has(msg.id))
+      .map(msg => msg.id);
+    if (messageIds.length === 0) return;
+
+    messageIds.forEach(id => readReceiptsSentRef.current.add(id));
+
+    // Group messages have no per-member read state on the server
+    if (!group) {
+      webSocketClient.send({
+        type: 'read_receipt',
+        data: { messageIds },
+        timestamp: Date.now(),
+      });
+    }
+
+    (async () => {
+      try {
+        for (const id of messageIds) {
+          await messageStorage.updateMessageStatus(id, 'read');
+        }
+      } catch (err) {
+        console.warn('Failed to mark messages as read in storage', err);
+      }
+    })();
+  }, [messages, isPageVisible, group]);
 
   // Conservative auto-scroll behavior - only scroll when absolutely necessary
   useEffect(() => {
@@ -146,14 +287,14 @@ const MessagingComponent: React.FC<MessagingComponentProps> = ({
 
   // Refresh messages periodically to pick up messages stored by GlobalMessageService
   useEffect(() => {
-    if (!session) return;
+    if (!sessionsReady && !(group && pfsInitialized)) return;
     
     const refreshInterval = setInterval(() => {
-      loadMessageHistory(session);
+      loadMessageHistory();
     }, 2000); // Refresh every 2 seconds
 
     return () => clearInterval(refreshInterval);
-  }, [session]);
+  }, [sessionsReady, group, pfsInitialized]);
 
   // Initialize scroll position on first load
   useEffect(() => {
@@ -171,18 +312,35 @@ const MessagingComponent: React.FC<MessagingComponentProps> = ({
       // Initialize message storage (safe to call multiple times)
       await messageStorage.initialize(currentUser.privateKey);
       await sessionManager.initialize();
+
+      if (group) {
+        await initGroupPFS();
+        await loadMessageHistory();
+
+        webSocketClient.onMessage('message_sent', socketHandlers.messageSent);
+        webSocketClient.onMessage('error', socketHandlers.changeRejected);
+        webSocketClient.onConnectionChange(socketHandlers.connectionChange);
+        setConnectionStatus(webSocketClient.getConnectionStatus());
+        return;
+      }
       
-      console.log('Initializing session and PFS for:', contactHandle);
-      const newSession = await sessionManager.getOrCreateSession(contactHandle, currentUser);
-      setSession(newSession);
+      await initializePFS();
+      const keyChanged = await identityKeyStore.hasUnverifiedChange(contactHandle);
+      setIdentityKeyChanged(keyChanged);
+      setIdentityVerified(await identityKeyStore.isVerified(contactHandle));
+      if (keyChanged) {
+        contactVerificationService.resetVerification(currentUser, contactHandle)
+          .catch(error => console.warn('Failed to reset contact verification:', error));
+      }
 
-      await initializePFS(newSession);
-      await loadMessageHistory(newSession);
+      await loadMessageHistory();
+      await shareDeliveryToken();
       
       // Register only sending-related handlers (GlobalMessageService handles receiving)
-      webSocketClient.onMessage('message_sent', handleMessageSent);
-      webSocketClient.onMessage('delivery_receipt', handleDeliveryReceipt);
-      webSocketClient.onConnectionChange(handleConnectionChange);
+      webSocketClient.onMessage('message_sent', socketHandlers.messageSent);
+      webSocketClient.onMessage('delivery_receipt', socketHandlers.deliveryReceipt);
+      webSocketClient.onMessage('error', socketHandlers.changeRejected);
+      webSocketClient.onConnectionChange(socketHandlers.connectionChange);
       
       setConnectionStatus(webSocketClient.getConnectionStatus());
 
@@ -192,24 +350,18 @@ const MessagingComponent: React.FC<MessagingComponentProps> = ({
     }
   };
 
-  const initializePFS = async (sessionToInit: Session) => {
-    if (!sessionToInit) return;
-    
+  /**
+   * Sessions with every device of the contact and with our own other devices,
+   * which get a copy of everything we send. New sessions start their PFS
+   * ratchet right away.
+   */
+  const initializePFS = async () => {
     try {
-      console.log('Initializing Perfect Forward Secrecy for:', contactHandle);
-      
-      const isPfsReady = await PFSIntegration.isPFSInitialized(contactHandle);
-      
-      if (!isPfsReady) {
-        await PFSIntegration.initializePFS(contactHandle, sessionToInit);
-        console.log('PFS initialized for:', contactHandle);
-      } else {
-        console.log('PFS already initialized for:', contactHandle);
-      }
-      
-      const pfsStatus = await PFSIntegration.getPFSStatus(contactHandle);
-      console.log('PFS Status:', pfsStatus);
-      
+      console.log('Initializing sessions and PFS for:', contactHandle);
+      await sessionManager.getOrCreateSessions(contactHandle, currentUser);
+      await sessionManager.getOrCreateSessions(currentUser.handle, currentUser);
+
+      setSessionsReady(true);
       setPfsInitialized(true);
       setEncryptionError('');
     } catch (error) {
@@ -219,12 +371,31 @@ const MessagingComponent: React.FC<MessagingComponentProps> = ({
     }
   };
 
-  const loadMessageHistory = async (sessionForHistory: Session | null) => {
-    if (!sessionForHistory) {
-      console.warn("Cannot load message history without a session.");
-      return;
+  /**
+   * Sessions with every member device of the group, including our own other
+   * devices. Sender keys are distributed over them and bound to their
+   * addresses, so a new or removed device re-keys the group.
+   */
+  const groupDeviceAddresses = async (): Promise<string[]> => {
+    const addresses: string[] = [];
+    for (const handle of [...peerHandles, currentUser.handle]) {
+      addresses.push(...await sessionManager.getOrCreateSessions(handle, currentUser));
+    }
+    return addresses;
+  };
+
+  const initGroupPFS = async () => {
+    try {
+      await groupDeviceAddresses();
+      setPfsInitialized(true);
+      setEncryptionError('');
+    } catch (error) {
+      console.error('Failed to initialize PFS for group:', error);
+      setEncryptionError('Failed to initialize Perfect Forward Secrecy');
     }
+  };
 
+  const loadMessageHistory = async () => {
     try {
       console.log(`Loading message history for ${contactHandle}, conversationId: ${conversationId}`);
       const encryptedMsgs: EncryptedMessage[] = await messageStorage.getMessages(conversationId, 100);
@@ -232,9 +403,16 @@ const MessagingComponent: React.FC<MessagingComponentProps> = ({
       
       const chronological = [...encryptedMsgs].reverse();
       const decryptedMessages: Message[] = [];
+      const loadedIds = new Set<string>();
 
       for (const enc of chronological) {
-        const content = enc.plaintext || (enc.senderId === currentUser.handle ? '[Message content unavailable]' : '[Decryption needed]');
+        // Never show a redelivered message twice
+        if (loadedIds.has(enc.id)) continue;
+        loadedIds.add(enc.id);
+
+        const content = enc.isDeleted
+          ? ''
+          : enc.plaintext || (enc.senderId === currentUser.handle ? '[Message content unavailable]' : '[Decryption needed]');
         
         const msg: Message = {
           id: enc.id,
@@ -244,31 +422,46 @@ const MessagingComponent: React.FC<MessagingComponentProps> = ({
           senderHandle: enc.senderId,
           timestamp: new Date(enc.timestamp).toISOString(),
           isOwn: enc.senderId === currentUser.handle,
-          status: enc.status === 'sending' ? 'pending' : (enc.status === 'read' ? 'delivered' : enc.status as 'sent' | 'delivered'),
+          status: enc.status === 'sending' ? 'pending' : (enc.status === 'read' ? 'delivered' : enc.status as 'sent' | 'delivered' | 'failed'),
           delivered: enc.status === 'delivered' || enc.status === 'read',
+          read: enc.status === 'read',
+          replyTo: enc.replyTo,
+          reactions: enc.reactions,
+          isEdited: enc.isEdited,
+          isDeleted: enc.isDeleted,
         };
-        messageIdsRef.current.add(msg.id);
         decryptedMessages.push(msg);
       }
+      messageIdsRef.current = loadedIds;
 
       console.log(`Setze ${decryptedMessages.length} Nachrichten für ${contactHandle} UI`);
       setMessages(decryptedMessages);
+
+      // The contact may have changed the timer since the last refresh
+      setExpiresInSeconds(await messageStorage.getConversationExpiry(conversationId));
     } catch (err) {
       console.error('Fehlgeschlagen, Nachrichtenverlauf zu laden', err);
     }
   };
 
   const handleMessageSent = (wsMessage: WebSocketMessage) => {
-    const data = wsMessage.data as { tempId: string; messageId: string };
-    setMessages(prev => prev.map(msg => 
-      msg.id === data.tempId 
-        ? (() => { messageIdsRef.current.delete(data.tempId); messageIdsRef.current.add(data.messageId); return { ...msg, id: data.messageId, status: 'sent' }; })()
-        : msg
-    ));
+    const data = wsMessage.data as { tempId: string; id: string };
+    pendingSendsRef.current.delete(data.tempId);
+
+    // The refresh may already show the message under the server's id
+    const alreadyShown = messageIdsRef.current.has(data.id);
+    messageIdsRef.current.delete(data.tempId);
+    messageIdsRef.current.add(data.id);
+
+    setMessages(prev => alreadyShown
+      ? prev.filter(msg => msg.id !== data.tempId)
+      : prev.map(msg => msg.id === data.tempId ? { ...msg, id: data.id, status: 'sent' } : msg)
+    );
 
     (async () => {
       try {
-        await messageStorage.updateMessageStatus(data.tempId, 'sent');
+        // Edits and deletions refer to the message by the server's id
+        await messageStorage.confirmSentMessage(data.tempId, data.id);
       } catch (err) {
         console.warn('Failed to update message status in storage', err);
       }
@@ -290,97 +483,548 @@ const MessagingComponent: React.FC<MessagingComponentProps> = ({
     })();
   };
 
+  const handleChangeRejected = (wsMessage: WebSocketMessage) => {
+    const data = wsMessage.data as { messageId?: string; message?: string };
+    if (!data.messageId) return;
+
+    console.warn('Message change rejected:', data.message);
+    setEncryptionError('Nachricht konnte nicht geändert werden.');
+    loadMessageHistory();
+  };
+
+  /**
+   * Send messages again whose confirmation never arrived. They keep their
+   * idempotency key, so the server stores each one only once.
+   */
+  const resendPendingMessages = () => {
+    pendingSendsRef.current.forEach((data) => {
+      webSocketClient.send({ type: 'message', data, timestamp: Date.now() });
+    });
+  };
+
   const handleConnectionChange = (status: ConnectionStatus) => {
     setConnectionStatus(status);
     
     if (status.connected && status.authenticated) {
+      resendPendingMessages();
+
+      if (group) {
+        (async () => {
+          await initGroupPFS();
+          await loadMessageHistory();
+        })();
+        return;
+      }
+
       (async () => {
-        const newSession = await sessionManager.getOrCreateSession(contactHandle, currentUser);
-        setSession(newSession);
-        await initializePFS(newSession);
-        await loadMessageHistory(newSession);
+        await initializePFS();
+        await loadMessageHistory();
+        await shareDeliveryToken();
       })();
     }
   };
 
-  const sendEncryptedMessage = async (content: string, tempId: string) => {
-    if (!session) {
-      setEncryptionError('Session not ready. Cannot send message.');
-      return;
+  chatHandlersRef.current = { initChat, handleMessageSent, handleDeliveryReceipt, handleChangeRejected, handleConnectionChange };
+
+  /**
+   * Give the contact our delivery token, once per token, so they can send to
+   * us sealed. Runs once PFS is initialized, before the state says so.
+   */
+  const shareDeliveryToken = async () => {
+    if (!webSocketClient.getConnectionStatus().authenticated) return;
+
+    try {
+      const deliveryToken = await sealedSender.getOwnDeliveryToken(currentUser);
+      if (!(await sealedSender.needsTokenShare(contactHandle, deliveryToken))) return;
+
+      // Our other devices share their own token
+      const deviceCiphertexts = await sessionManager.encryptForDevices([contactHandle], encodeDeliveryToken(deliveryToken), currentUser);
+      webSocketClient.send({
+        type: 'message',
+        data: {
+          receiverHandle: contactHandle,
+          content: '',
+          messageType: DELIVERY_TOKEN_MESSAGE_TYPE,
+          encrypted: true,
+          deviceCiphertexts,
+          pfsMessage: true,
+        },
+        timestamp: Date.now(),
+      });
+
+      await sealedSender.markTokenShared(contactHandle, deliveryToken);
+    } catch (error) {
+      console.warn('Failed to share delivery token:', error);
     }
-    
+  };
+
+  /**
+   * Seal one envelope per device, each around the ciphertext for that device
+   */
+  const sealForDevices = async (
+    recipientIdentityKey: string,
+    deviceCiphertexts: Record<string, string>,
+    data: WebSocketMessage['data'],
+    destination?: string
+  ): Promise<Record<string, string>> => {
+    const deviceEnvelopes: Record<string, string> = {};
+    for (const [deviceId, encryptedData] of Object.entries(deviceCiphertexts)) {
+      deviceEnvelopes[deviceId] = await sealedSender.seal(currentUser, recipientIdentityKey, {
+        messageType: data.messageType,
+        encryptedData,
+        pfsMessage: data.pfsMessage,
+        destination,
+      });
+    }
+    return deviceEnvelopes;
+  };
+
+  /**
+   * Send a direct message without telling the server it is from us. Our own
+   * other devices get their copies sealed to ourselves. Falls back to a
+   * regular send if the contact replaced their token or the sealed send fails.
+   */
+  const sendSealed = async (
+    data: WebSocketMessage['data'],
+    contactCiphertexts: Record<string, string>,
+    ownCiphertexts: Record<string, string>,
+    deliveryToken: string
+  ) => {
     try {
-      let encryptedData: string;
-      let usePFS = false;
-
-      if (pfsInitialized) {
-        console.log('Encrypting message with PFS');
-        const pfsMessage = await PFSIntegration.encryptMessage(contactHandle, content);
-        encryptedData = JSON.stringify(pfsMessage);
-        usePFS = true;
-      } else {
-        console.log('Encrypting message with basic crypto');
-        const encryptedMessage = await SignalCrypto.encrypt(content, session.keys);
-        encryptedData = JSON.stringify(encryptedMessage);
+      const pinned = await identityKeyStore.getPinnedKey(contactHandle);
+      if (!pinned) {
+        throw new Error(`No identity key known for ${contactHandle}`);
       }
-      
+
+      const sent = await sendSealedMessage({
+        receiverHandle: contactHandle,
+        deliveryToken,
+        deviceEnvelopes: await sealForDevices(pinned.publicKey, contactCiphertexts, data),
+        expiresIn: data.expiresIn,
+        clientMessageId: data.clientMessageId,
+      });
+      if (sent) {
+        handleMessageSent({ type: 'message_sent', data: { tempId: data.tempId, id: sent.id }, timestamp: Date.now() });
+        await syncSealedCopy(data, ownCiphertexts);
+        return;
+      }
+      await sealedSender.removeContactToken(contactHandle);
+    } catch (error) {
+      console.warn('Sealed send failed, sending normally:', error);
+    }
+
+    pendingSendsRef.current.set(data.tempId, data);
+    webSocketClient.send({ type: 'message', data, timestamp: Date.now() });
+  };
+
+  /**
+   * Copy a sealed message to our other devices, sealed to ourselves with our
+   * own delivery token and naming the contact it went to
+   */
+  const syncSealedCopy = async (data: WebSocketMessage['data'], ownCiphertexts: Record<string, string>) => {
+    if (Object.keys(ownCiphertexts).length === 0) return;
+
+    try {
+      const sent = await sendSealedMessage({
+        receiverHandle: currentUser.handle,
+        deliveryToken: await sealedSender.getOwnDeliveryToken(currentUser),
+        deviceEnvelopes: await sealForDevices(currentUser.publicKey, ownCiphertexts, data, contactHandle),
+        expiresIn: data.expiresIn,
+        clientMessageId: data.clientMessageId,
+      });
+      if (!sent) {
+        console.warn('Our delivery token was rejected, other devices miss a sealed message');
+      }
+    } catch (error) {
+      console.warn('Failed to copy sealed message to our other devices:', error);
+    }
+  };
+
+  /**
+   * Create a new sender key for the group and send it to every other member
+   * device over its pairwise session
+   */
+  const distributeSenderKey = async (groupId: string, members: string[]) => {
+    const distribution = await senderKeyStore.createKey(groupId, members);
+    if (members.length === 0) return;
+
+    const deviceCiphertexts: Record<string, string> = {};
+    for (const address of members) {
+      deviceCiphertexts[deviceIdOfAddress(address)] = JSON.stringify(
+        await sessionManager.encryptMessage(address, JSON.stringify(distribution))
+      );
+    }
+
+    webSocketClient.send({
+      type: 'message',
+      data: {
+        groupId,
+        content: '',
+        messageType: SENDER_KEY_MESSAGE_TYPE,
+        encrypted: true,
+        deviceCiphertexts,
+        pfsMessage: true,
+      },
+      timestamp: Date.now(),
+    });
+  };
+
+  /**
+   * Encrypt content for this chat: once with our sender key in groups,
+   * otherwise over PFS for every device of the contact and our own other
+   * devices, each with its own ciphertext
+   */
+  const encryptContent = async (content: string): Promise<ChatCiphertext> => {
+    if (group) {
+      // Re-key whenever the member devices differ from the ones the key went to
+      const members = await groupDeviceAddresses();
+      if (!(await senderKeyStore.getCurrentKey(group.id, members))) {
+        await distributeSenderKey(group.id, members);
+      }
+      return { encryptedData: JSON.stringify(await senderKeyStore.encrypt(group.id, content)), pfsMessage: false };
+    }
+
+    const deviceCiphertexts = await sessionManager.encryptForDevices([contactHandle, currentUser.handle], content, currentUser);
+    return { deviceCiphertexts, pfsMessage: true };
+  };
+
+  // Local expiry of an outgoing message; the server computes its own from `expiresIn`
+  const expiryTimestamp = () => (expiresInSeconds ? Date.now() + expiresInSeconds * 1000 : undefined);
+
+  /**
+   * Change the disappearing-message timer for everyone in the chat. The new
+   * timer travels as an encrypted control message, so the server never sees it.
+   */
+  const changeExpiryTimer = async (seconds: number | null) => {
+    setShowExpiryOptions(false);
+    if (seconds === expiresInSeconds) return;
+
+    try {
+      const ciphertext = await encryptContent(encodeExpiryTimer(seconds));
+
       webSocketClient.send({
         type: 'message',
         data: {
-          receiverHandle: contactHandle,
+          ...(group ? { groupId: group.id } : { receiverHandle: contactHandle }),
           content: '',
-          messageType: 'text',
-          tempId,
+          messageType: EXPIRY_TIMER_MESSAGE_TYPE,
           encrypted: true,
-          encryptedData,
-          pfsMessage: usePFS,
+          ...ciphertext,
         },
         timestamp: Date.now(),
       });
 
+      await messageStorage.setConversationExpiry(conversationId, seconds);
+      setExpiresInSeconds(seconds);
+    } catch (error) {
+      console.error('Failed to change expiry timer:', error);
+      setEncryptionError('Timer konnte nicht geändert werden.');
+    }
+  };
+
+  const sendGroupMessage = async (content: string, tempId: string, replyTo?: QuotedMessage) => {
+    if (!group) return;
+
+    try {
+      const { encryptedData = '' } = await encryptContent(encodeMessageContent({ text: content, replyTo }));
+
+      const data = {
+        groupId: group.id,
+        content: '',
+        messageType: 'text',
+        tempId,
+        clientMessageId: clientMessageIdOf(tempId),
+        encrypted: true,
+        encryptedData,
+        pfsMessage: false,
+        replyToId: replyTo?.id,
+        expiresIn: expiresInSeconds ?? undefined,
+      };
+      pendingSendsRef.current.set(tempId, data);
+      webSocketClient.send({ type: 'message', data, timestamp: Date.now() });
+
       try {
         await messageStorage.storeMessage({
           id: tempId,
           conversationId,
           senderId: currentUser.handle,
-          recipientId: contactHandle,
+          recipientId: group.id,
           encryptedContent: encryptedData,
           plaintext: content,
+          replyTo,
+          messageType: 'text',
+          timestamp: Date.now(),
+          status: 'sending',
+          expiresAt: expiryTimestamp()
+        });
+      } catch (err) {
+        console.error('Failed to persist outgoing message', err);
+      }
+    } catch (error) {
+      console.error('Group encryption failed:', error);
+      setEncryptionError('Failed to encrypt message.');
+    }
+  };
+
+  const sendEncryptedMessage = async (content: string, tempId: string, replyTo?: QuotedMessage) => {
+    if (group) {
+      await sendGroupMessage(content, tempId, replyTo);
+      return;
+    }
+
+    if (!sessionsReady) {
+      setEncryptionError('Session not ready. Cannot send message.');
+      return;
+    }
+    
+    try {
+      // The contact's devices and our own other devices are encrypted for
+      // separately, as a sealed send seals them to different identities
+      const plaintext = encodeMessageContent({ text: content, replyTo });
+      const contactCiphertexts = await sessionManager.encryptForDevices([contactHandle], plaintext, currentUser);
+      const ownCiphertexts = await sessionManager.encryptForDevices([currentUser.handle], plaintext, currentUser);
+      
+      const data = {
+        receiverHandle: contactHandle,
+        content: '',
+        messageType: 'text',
+        tempId,
+        clientMessageId: clientMessageIdOf(tempId),
+        encrypted: true,
+        deviceCiphertexts: { ...contactCiphertexts, ...ownCiphertexts },
+        pfsMessage: true,
+        replyToId: replyTo?.id,
+        expiresIn: expiresInSeconds ?? undefined,
+      };
+
+      // Contacts that gave us their delivery token get the message sealed,
+      // once it is stored under its temporary id
+      const deliveryToken = await sealedSender.getContactToken(contactHandle);
+      if (!deliveryToken) {
+        pendingSendsRef.current.set(tempId, data);
+        webSocketClient.send({ type: 'message', data, timestamp: Date.now() });
+      }
+
+      try {
+        await messageStorage.storeMessage({
+          id: tempId,
+          conversationId,
+          senderId: currentUser.handle,
+          recipientId: contactHandle,
+          encryptedContent: '',
+          plaintext: content,
+          replyTo,
           messageType: 'text',
           timestamp: Date.now(),
-          status: 'sending'
+          status: 'sending',
+          expiresAt: expiryTimestamp()
         });
       } catch (err) {
         console.error('Failed to persist outgoing message', err);
       }
+
+      if (deliveryToken) {
+        await sendSealed(data, contactCiphertexts, ownCiphertexts, deliveryToken);
+      }
     } catch (error) {
       console.error('Encryption failed:', error);
       setEncryptionError('Failed to encrypt message.');
     }
   };
 
+  const canChangeMessage = (msg: Message) =>
+    !!msg.isOwn && !msg.isDeleted && !msg.id.startsWith('temp_') &&
+    Date.now() - new Date(msg.timestamp).getTime() < MESSAGE_EDIT_WINDOW_MS;
+
+  const canReplyTo = (msg: Message) => !msg.isDeleted && !msg.id.startsWith('temp_');
+
+  /**
+   * Set our reaction on a message, or remove it when the same emoji is picked again
+   */
+  const toggleReaction = async (msg: Message, emoji: string) => {
+    setReactionPickerFor(null);
+    setActiveMessageId(null);
+
+    const next = msg.reactions?.[currentUser.handle] === emoji ? null : emoji;
+
+    try {
+      await messageStorage.setReaction(msg.id, currentUser.handle, next);
+      setMessages(prev => prev.map(m => {
+        if (m.id !== msg.id) return m;
+        const reactions = { ...(m.reactions || {}) };
+        if (next) {
+          reactions[currentUser.handle] = next;
+        } else {
+          delete reactions[currentUser.handle];
+        }
+        return { ...m, reactions };
+      }));
+
+      const ciphertext = next ? await encryptContent(next) : null;
+      webSocketClient.send({
+        type: 'reaction',
+        data: {
+          messageId: msg.id,
+          encryptedData: ciphertext?.encryptedData,
+          deviceCiphertexts: ciphertext?.deviceCiphertexts,
+          pfsMessage: ciphertext?.pfsMessage ?? false,
+        },
+        timestamp: Date.now(),
+      });
+    } catch (error) {
+      console.error('Failed to send reaction:', error);
+      setEncryptionError('Failed to encrypt message.');
+    }
+  };
+
+  const startReply = (msg: Message) => {
+    setEditingMessage(null);
+    setReplyingTo(msg);
+    setActiveMessageId(null);
+  };
+
+  /**
+   * Scroll to a quoted message and highlight it briefly. Quotes of messages
+   * that are no longer loaded stay where they are.
+   */
+  const jumpToMessage = (messageId: string) => {
+    const element = messageElementsRef.current.get(messageId);
+    if (!element) return;
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(messageId);
+    setTimeout(() => setHighlightedMessageId(current => (current === messageId ? null : current)), 1500);
+  };
+
+  const startEditing = (msg: Message) => {
+    setReplyingTo(null);
+    setEditingMessage(msg);
+    setNewMessage(msg.content);
+    setActiveMessageId(null);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setNewMessage('');
+  };
+
+  const submitEdit = async () => {
+    if (!editingMessage) return;
+
+    const content = newMessage.trim();
+    const target = editingMessage;
+    setEditingMessage(null);
+    setNewMessage('');
+    if (content === target.content) return;
+
+    try {
+      // Keep the quote so recipients that missed the original still see it
+      const ciphertext = await encryptContent(encodeMessageContent({ text: content, replyTo: target.replyTo }));
+      const editedAt = Date.now();
+
+      await messageStorage.editMessage(target.id, content, ciphertext.encryptedData ?? '', editedAt);
+      setMessages(prev => prev.map(msg =>
+        msg.id === target.id ? { ...msg, content, isEdited: true } : msg
+      ));
+
+      webSocketClient.send({
+        type: 'message_edit',
+        data: { messageId: target.id, ...ciphertext },
+        timestamp: editedAt,
+      });
+    } catch (error) {
+      console.error('Failed to edit message:', error);
+      setEncryptionError('Failed to encrypt message.');
+    }
+  };
+
+  const confirmDeleteMessage = async () => {
+    if (!messageToDelete) return;
+
+    const target = messageToDelete;
+    setMessageToDelete(null);
+
+    try {
+      const deletedAt = Date.now();
+      await messageStorage.markMessageDeleted(target.id, deletedAt);
+      setMessages(prev => prev.map(msg =>
+        msg.id === target.id ? { ...msg, content: '', isDeleted: true } : msg
+      ));
+
+      webSocketClient.send({
+        type: 'message_delete',
+        data: { messageId: target.id },
+        timestamp: deletedAt,
+      });
+    } catch (error) {
+      console.error('Failed to delete message:', error);
+    }
+  };
+
+  const showSafetyNumber = async () => {
+    try {
+      const number = await identityKeyStore.getSafetyNumber(currentUser.handle, currentUser.publicKey, contactHandle);
+      if (!number) {
+        setEncryptionError('Sicherheitsnummer ist noch nicht verfügbar.');
+        return;
+      }
+      setSafetyNumber(number);
+    } catch (error) {
+      console.error('Failed to compute safety number:', error);
+      setEncryptionError('Sicherheitsnummer konnte nicht berechnet werden.');
+    }
+  };
+
+  const verifySafetyNumber = async () => {
+    try {
+      await contactVerificationService.markVerified(currentUser, contactHandle);
+      setIdentityKeyChanged(false);
+      setIdentityVerified(true);
+      setSafetyNumber(null);
+    } catch (error) {
+      console.error('Failed to verify safety number:', error);
+      setEncryptionError('Sicherheitsnummer konnte nicht bestätigt werden.');
+    }
+  };
+
   const sendMessage = async () => {
-    if (!newMessage.trim() || !session || newMessage.length > 350) return;
+    if (editingMessage) {
+      await submitEdit();
+      return;
+    }
+
+    if (!newMessage.trim() || (!sessionsReady && !group) || newMessage.length > 350) return;
+
+    // The key may have changed through a prekey message since the chat opened
+    if (!group && await identityKeyStore.hasUnverifiedChange(contactHandle)) {
+      setIdentityKeyChanged(true);
+      return;
+    }
     
-    const tempId = `temp_${Date.now()}`;
+    const tempId = `temp_${crypto.randomUUID()}`;
+    const replyTo: QuotedMessage | undefined = replyingTo
+      ? { id: replyingTo.id, senderHandle: replyingTo.senderHandle, snippet: quoteSnippet(replyingTo.content) }
+      : undefined;
     const tempMessage: Message = {
       id: tempId,
       content: newMessage.trim(),
+      replyTo,
       messageType: 'text',
       senderHandle: currentUser.handle,
       timestamp: new Date().toISOString(),
       isOwn: true,
       status: 'pending',
       encrypted: true,
-      pfsMessage: pfsInitialized,
+      pfsMessage: !group && pfsInitialized,
     };
 
     // Mark that we should auto-scroll for our own message
     shouldAutoScrollRef.current = true;
     setMessages(prev => [...prev, tempMessage]);
     setNewMessage('');
+    setReplyingTo(null);
     
-    await sendEncryptedMessage(tempMessage.content, tempId);
+    await sendEncryptedMessage(tempMessage.content, tempId, replyTo);
     messageIdsRef.current.add(tempId);
   };
 
@@ -443,6 +1087,15 @@ const MessagingComponent: React.FC<MessagingComponentProps> = ({
 
     setIsClearing(true);
     try {
+      // Group history is only cleared on this device
+      if (group) {
+        await messageStorage.clearMessages(conversationId);
+        setMessages([]);
+        messageIdsRef.current.clear();
+        setShowClearConfirm(false);
+        return;
+      }
+
       // Call backend API to clear messages
       const response = await fetch(`${BASE_URL}/api/messages/clear`, {
         method: 'DELETE',
@@ -477,6 +1130,54 @@ const MessagingComponent: React.FC<MessagingComponentProps> = ({
     }
   };
 
+  const handleInvite = async () => {
+    if (!group || !inviteHandle.trim() || isUpdatingGroup) return;
+
+    setIsUpdatingGroup(true);
+    setGroupError('');
+    try {
+      const updated = await addGroupMembers(group.id, [inviteHandle.trim()], currentUser.sessionToken);
+      setInviteHandle('');
+      onGroupChange?.(updated);
+    } catch (error) {
+      setGroupError(error instanceof Error ? error.message : 'Mitglied konnte nicht hinzugefügt werden');
+    } finally {
+      setIsUpdatingGroup(false);
+    }
+  };
+
+  const handleRemoveMember = async (handle: string) => {
+    if (!group || isUpdatingGroup) return;
+
+    setIsUpdatingGroup(true);
+    setGroupError('');
+    try {
+      const updated = await removeGroupMember(group.id, handle, currentUser.sessionToken);
+      onGroupChange?.(updated);
+    } catch (error) {
+      setGroupError(error instanceof Error ? error.message : 'Mitglied konnte nicht entfernt werden');
+    } finally {
+      setIsUpdatingGroup(false);
+    }
+  };
+
+  const handleLeaveGroup = async () => {
+    if (!group || isUpdatingGroup) return;
+
+    setIsUpdatingGroup(true);
+    setGroupError('');
+    try {
+      await leaveGroup(group.id, currentUser.sessionToken);
+      await messageStorage.clearMessages(conversationId);
+      setShowMembers(false);
+      onLeaveGroup?.();
+    } catch (error) {
+      setGroupError(error instanceof Error ? error.message : 'Gruppe konnte nicht verlassen werden');
+    } finally {
+      setIsUpdatingGroup(false);
+    }
+  };
+
   return (
     <div className={styles.container}>
       <div style={{ height: '8vh', width: '100%', background: 'black', position: 'relative' }}></div>
@@ -488,6 +1189,42 @@ const MessagingComponent: React.FC<MessagingComponentProps> = ({
         <button onClick={onClose} className={styles.backButton}>
           ←
         </button>
+        {group && (
+          <button
+            onClick={() => setShowMembers(true)}
+            className={styles.membersButton}
+            title="Mitglieder"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+  <path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2" />
+  <circle cx="9" cy="7" r="4" />
+  <path d="M23 21v-2a4 4 0 0 0-3-3.87" />
+  <path d="M16 3.13a4 4 0 0 1 0 7.75" />
+</svg>
+          </button>
+        )}
+        {!group && (
+          <button
+            onClick={showSafetyNumber}
+            className={styles.safetyButton}
+            title={identityVerified ? 'Sicherheitsnummer (verifiziert)' : 'Sicherheitsnummer'}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke={identityKeyChanged ? '#f59e0b' : identityVerified ? '#4ade80' : 'white'} strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+  <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z" />
+  {identityVerified && <polyline points="9 12 11 14 15 10" />}
+</svg>
+          </button>
+        )}
+        <button
+          onClick={() => setShowExpiryOptions(true)}
+          className={`${styles.expiryButton} ${group ? styles.besideMembers : ''}`}
+          title={`Selbstlöschende Nachrichten: ${formatExpiry(expiresInSeconds)}`}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke={expiresInSeconds ? '#4ade80' : 'white'} strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+  <circle cx="12" cy="12" r="10" />
+  <polyline points="12 6 12 12 16 14" />
+</svg>
+        </button>
         <button 
           onClick={() => setShowClearConfirm(true)} 
           className={styles.clearButton}
@@ -509,7 +1246,12 @@ const MessagingComponent: React.FC<MessagingComponentProps> = ({
         <div className={styles.modalOverlay}>
           <div className={styles.modalContent}>
             <h3>Chat löschen</h3>
-            <p>Sind Sie sicher, dass Sie alle Nachrichten mit {contactHandle} löschen möchten? Diese Aktion kann nicht rückgängig gemacht werden.</p>
+            <p>
+              {group
+                ? `Sind Sie sicher, dass Sie alle Nachrichten in ${group.name} auf diesem Gerät löschen möchten?`
+                : `Sind Sie sicher, dass Sie alle Nachrichten mit ${contactHandle} löschen möchten?`}
+              {' '}Diese Aktion kann nicht rückgängig gemacht werden.
+            </p>
             <div className={styles.modalActions}>
               <button 
                 onClick={() => setShowClearConfirm(false)}
@@ -530,6 +1272,177 @@ const MessagingComponent: React.FC<MessagingComponentProps> = ({
         </div>
       )}
 
+      {/* Safety number modal */}
+      {safetyNumber && (
+        <div className={styles.modalOverlay}>
+          <div className={styles.modalContent}>
+            <h3>Sicherheitsnummer</h3>
+            <p>
+              Vergleiche diese Nummer mit dem Gerät von {contactHandle}. Stimmt sie überein, ist eure Verbindung Ende-zu-Ende verschlüsselt.
+            </p>
+            <div className={styles.safetyNumber}>
+              {formatSafetyNumber(safetyNumber).map((digits, index) => (
+                <span key={index}>{digits}</span>
+              ))}
+            </div>
+            <div className={styles.modalActions}>
+              <button
+                onClick={() => setSafetyNumber(null)}
+                className={styles.cancelButton}
+              >
+                Abbrechen
+              </button>
+              <button
+                onClick={() => {
+                  setSafetyNumber(null);
+                  setShowVerification(true);
+                }}
+                className={styles.cancelButton}
+              >
+                Per QR-Code
+              </button>
+              <button
+                onClick={verifySafetyNumber}
+                className={styles.verifyButton}
+              >
+                Als verifiziert markieren
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* In-person verification */}
+      {showVerification && (
+        <ContactVerificationPanel
+          currentUser={currentUser}
+          contactHandle={contactHandle}
+          onClose={() => setShowVerification(false)}
+          onVerified={() => {
+            setIdentityKeyChanged(false);
+            setIdentityVerified(true);
+          }}
+        />
+      )}
+
+      {/* Disappearing message timer modal */}
+      {showExpiryOptions && (
+        <div className={styles.modalOverlay}>
+          <div className={styles.modalContent}>
+            <h3>Selbstlöschende Nachrichten</h3>
+            <p>Neue Nachrichten werden nach Ablauf der Zeit auf allen Geräten gelöscht. Die Einstellung gilt für alle Teilnehmer.</p>
+            <ul className={styles.expiryOptions}>
+              {EXPIRY_OPTIONS.map(option => (
+                <li key={option.label}>
+                  <button
+                    onClick={() => changeExpiryTimer(option.seconds)}
+                    className={`${styles.expiryOption} ${option.seconds === expiresInSeconds ? styles.selectedExpiry : ''}`}
+                  >
+                    {option.label}
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className={styles.modalActions}>
+              <button
+                onClick={() => setShowExpiryOptions(false)}
+                className={styles.cancelButton}
+              >
+                Abbrechen
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Delete message confirmation modal */}
+      {messageToDelete && (
+        <div className={styles.modalOverlay}>
+          <div className={styles.modalContent}>
+            <h3>Nachricht löschen</h3>
+            <p>Die Nachricht wird für alle Teilnehmer gelöscht. Diese Aktion kann nicht rückgängig gemacht werden.</p>
+            <div className={styles.modalActions}>
+              <button
+                onClick={() => setMessageToDelete(null)}
+                className={styles.cancelButton}
+              >
+                Abbrechen
+              </button>
+              <button
+                onClick={confirmDeleteMessage}
+                className={styles.clearConfirmButton}
+              >
+                Für alle löschen
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Group members modal */}
+      {group && showMembers && (
+        <div className={styles.modalOverlay}>
+          <div className={styles.modalContent}>
+            <h3>{group.name}</h3>
+            <ul className={styles.memberList}>
+              {group.members.map(member => (
+                <li key={member.handle} className={styles.memberRow}>
+                  <span>
+                    {member.handle}
+                    {member.role === 'admin' && <span className={styles.memberRole}>Admin</span>}
+                  </span>
+                  {isGroupAdmin && member.handle !== currentUser.handle && (
+                    <button
+                      onClick={() => handleRemoveMember(member.handle)}
+                      className={styles.removeMemberButton}
+                      disabled={isUpdatingGroup}
+                    >
+                      Entfernen
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+            {isGroupAdmin && (
+              <div className={styles.inviteRow}>
+                <input
+                  type="text"
+                  value={inviteHandle}
+                  onChange={(e) => setInviteHandle(e.target.value)}
+                  className={styles.inviteInput}
+                  placeholder="Handle"
+                  disabled={isUpdatingGroup}
+                />
+                <button
+                  onClick={handleInvite}
+                  className={styles.cancelButton}
+                  disabled={isUpdatingGroup || !inviteHandle.trim()}
+                >
+                  Einladen
+                </button>
+              </div>
+            )}
+            {groupError && <p className={styles.groupError}>{groupError}</p>}
+            <div className={styles.modalActions}>
+              <button
+                onClick={() => setShowMembers(false)}
+                className={styles.cancelButton}
+                disabled={isUpdatingGroup}
+              >
+                Schließen
+              </button>
+              <button
+                onClick={handleLeaveGroup}
+                className={styles.clearConfirmButton}
+                disabled={isUpdatingGroup}
+              >
+                Verlassen
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Messages Container */}
       <div 
         className={styles.messagesContainer}
@@ -543,14 +1456,96 @@ const MessagingComponent: React.FC<MessagingComponentProps> = ({
         ) : (
           <div className={styles.messagesList}>
             {messages.map((msg, index) => (
-              <div key={msg.id || index} className={`${styles.messageWrapper} ${msg.isOwn ? styles.own : styles.other}`}>
+              <div
+                key={msg.id || index}
+                ref={(element) => {
+                  if (element) messageElementsRef.current.set(msg.id, element);
+                  else messageElementsRef.current.delete(msg.id);
+                }}
+                className={`${styles.messageWrapper} ${msg.isOwn ? styles.own : styles.other}`}
+              >
                 <div
-                  className={`${styles.messageBubble} ${msg.isOwn ? styles.own : styles.other}`}
+                  className={`${styles.messageBubble} ${msg.isOwn ? styles.own : styles.other} ${msg.isDeleted ? styles.deleted : ''} ${highlightedMessageId === msg.id ? styles.highlighted : ''}`}
+                  onClick={() => canReplyTo(msg) && setActiveMessageId(activeMessageId === msg.id ? null : msg.id)}
                 >
-                  <p className={styles.messageText}>{msg.content}</p>
+                  {group && !msg.isOwn && (
+                    <p className={styles.messageSender}>{msg.senderHandle}</p>
+                  )}
+                  {msg.replyTo && !msg.isDeleted && (
+                    <button
+                      className={styles.quote}
+                      onClick={(e) => { e.stopPropagation(); jumpToMessage(msg.replyTo!.id); }}
+                    >
+                      <span className={styles.quoteSender}>
+                        {msg.replyTo.senderHandle === currentUser.handle ? 'Du' : msg.replyTo.senderHandle}
+                      </span>
+                      <span className={styles.quoteSnippet}>{msg.replyTo.snippet}</span>
+                    </button>
+                  )}
+                  {msg.isDeleted ? (
+                    <p className={`${styles.messageText} ${styles.deletedText}`}>Diese Nachricht wurde gelöscht</p>
+                  ) : (
+                    <p className={styles.messageText}>{msg.content}</p>
+                  )}
                   <p className={styles.messageTime}>
+                    {msg.isEdited && !msg.isDeleted && <span className={styles.editedLabel}>bearbeitet</span>}
                     {formatTimestamp(msg.timestamp)}
+                    {msg.isOwn && msg.read && <span className={styles.readLabel}>gelesen</span>}
+                    {msg.isOwn && msg.status === 'failed' && <span className={styles.failedLabel}>nicht zugestellt</span>}
                   </p>
+                  {!msg.isDeleted && msg.reactions && Object.keys(msg.reactions).length > 0 && (
+                    <div className={styles.reactionChips}>
+                      {summarizeReactions(msg.reactions).map(reaction => (
+                        <button
+                          key={reaction.emoji}
+                          className={`${styles.reactionChip} ${reaction.handles.includes(currentUser.handle) ? styles.ownReaction : ''}`}
+                          title={reaction.handles.join(', ')}
+                          onClick={(e) => { e.stopPropagation(); toggleReaction(msg, reaction.emoji); }}
+                        >
+                          {reaction.emoji} {reaction.count}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {reactionPickerFor === msg.id && canReplyTo(msg) && (
+                    <div className={styles.reactionPicker}>
+                      {REACTION_EMOJIS.map(emoji => (
+                        <button
+                          key={emoji}
+                          className={styles.reactionOption}
+                          onClick={(e) => { e.stopPropagation(); toggleReaction(msg, emoji); }}
+                        >
+                          {emoji}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {activeMessageId === msg.id && canReplyTo(msg) && (
+                    <div className={styles.messageActions}>
+                      <button onClick={() => startReply(msg)} className={styles.messageActionButton}>
+                        Antworten
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); setReactionPickerFor(reactionPickerFor === msg.id ? null : msg.id); }}
+                        className={styles.messageActionButton}
+                      >
+                        Reagieren
+                      </button>
+                      {canChangeMessage(msg) && (
+                        <>
+                          <button onClick={() => startEditing(msg)} className={styles.messageActionButton}>
+                            Bearbeiten
+                          </button>
+                          <button
+                            onClick={() => { setActiveMessageId(null); setMessageToDelete(msg); }}
+                            className={styles.messageActionButton}
+                          >
+                            Löschen
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -572,6 +1567,34 @@ const MessagingComponent: React.FC<MessagingComponentProps> = ({
 
       {/* Message Input */}
       <div className={styles.messageInputSection}>
+        {identityKeyChanged && !group && (
+          <div className={styles.identityWarning}>
+            <span>
+              Die Sicherheitsnummer mit {contactHandle} hat sich geändert. Senden ist gesperrt, bis du sie neu verifizierst.
+            </span>
+            <button onClick={showSafetyNumber} className={styles.editCancelButton}>
+              Prüfen
+            </button>
+          </div>
+        )}
+        {replyingTo && (
+          <div className={styles.editBanner}>
+            <span className={styles.replyPreview}>
+              Antwort an {replyingTo.senderHandle === currentUser.handle ? 'dich' : replyingTo.senderHandle}: {quoteSnippet(replyingTo.content)}
+            </span>
+            <button onClick={() => setReplyingTo(null)} className={styles.editCancelButton}>
+              Abbrechen
+            </button>
+          </div>
+        )}
+        {editingMessage && (
+          <div className={styles.editBanner}>
+            <span>Nachricht bearbeiten</span>
+            <button onClick={cancelEditing} className={styles.editCancelButton}>
+              Abbrechen
+            </button>
+          </div>
+        )}
         <div className={styles.inputContainer}>
           <input
             type="text"
@@ -580,10 +1603,11 @@ const MessagingComponent: React.FC<MessagingComponentProps> = ({
             onKeyPress={handleKeyPress}
             className={styles.messageInput}
             placeholder=""
+            disabled={identityKeyChanged && !group}
           />
           <button
             onClick={sendMessage}
-            disabled={!newMessage.trim() || newMessage.length > 350}
+            disabled={!newMessage.trim() || newMessage.length > 350 || (identityKeyChanged && !group)}
             className={styles.sendButton}
             title="Nachricht senden"
           >
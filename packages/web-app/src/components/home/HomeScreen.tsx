@@ -3,6 +3,9 @@ import { motion } from "framer-motion";
 import styles from "./HomeScreen.module.scss";
 import { useState, useEffect } from "react";
 import { updateContactNickname } from "../../lib/api/contactApi";
+import { createGroup, listGroups, leaveGroup } from "../../lib/api/groupApi";
+import type { Group } from "../../lib/api/groupApi";
+import { webSocketClient } from "../../lib/websocket/websocketClient";
 
 const BASE_URL = import.meta.env.VITE_API_URL || 'https://0.0.0.0:11401';
 
@@ -21,9 +24,11 @@ interface HomeScreenProps {
   onContactSelect: (handle: string) => void;
   onAddContact: (handle: string, nickname?: string) => Promise<void> | void;
   onLogout: () => void;
+  onShowDevices?: () => void;
+  onGroupSelect?: (group: Group) => void;
 }
 
-const HomeScreen: React.FC<HomeScreenProps> = ({ handle, onContactSelect, onAddContact, onLogout }) => {
+const HomeScreen: React.FC<HomeScreenProps> = ({ handle, onContactSelect, onAddContact, onLogout, onShowDevices, onGroupSelect }) => {
   const [showPanel, setShowPanel] = useState(false);
   const [handleInput, setHandleInput] = useState("");
   const [nicknameInput, setNicknameInput] = useState("");
@@ -36,12 +41,33 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ handle, onContactSelect, onAddC
   const [isLogoutModalFadingOut, setIsLogoutModalFadingOut] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [expandedContact, setExpandedContact] = useState<string | null>(null);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [showGroupPanel, setShowGroupPanel] = useState(false);
+  const [groupNameInput, setGroupNameInput] = useState("");
+  const [groupMemberHandles, setGroupMemberHandles] = useState<string[]>([]);
+  const [groupError, setGroupError] = useState<string | null>(null);
+  const [isCreatingGroup, setIsCreatingGroup] = useState(false);
 
   // Fetch contacts on mount
   useEffect(() => {
     fetchContacts();
   }, []);
 
+  // Fetch groups on mount and again whenever a membership changes elsewhere
+  useEffect(() => {
+    const fetchGroups = () => {
+      const sessionData = localStorage.getItem('secmes_current_session');
+      if (!sessionData) return;
+      listGroups(JSON.parse(sessionData).token)
+        .then(setGroups)
+        .catch(err => console.error('Fehlgeschlagen, Gruppen zu laden', err));
+    };
+
+    fetchGroups();
+    webSocketClient.onMessage('group_updated', fetchGroups);
+    return () => webSocketClient.offMessage('group_updated', fetchGroups);
+  }, []);
+
 
 
   const fetchContacts = async () => {
@@ -63,6 +89,61 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ handle, onContactSelect, onAddC
     }
   };
 
+  const getSessionToken = (): string | null => {
+    const sessionData = localStorage.getItem('secmes_current_session');
+    if (!sessionData) return null;
+    return JSON.parse(sessionData).token;
+  };
+
+  const toggleGroupMember = (memberHandle: string) => {
+    setGroupMemberHandles(prev => prev.includes(memberHandle)
+      ? prev.filter(h => h !== memberHandle)
+      : [...prev, memberHandle]);
+  };
+
+  const submitGroup = async () => {
+    const trimmedName = groupNameInput.trim();
+    if (!trimmedName) return;
+
+    if (trimmedName.length > 50) {
+      setGroupError('Gruppenname darf maximal 50 Zeichen lang sein.');
+      return;
+    }
+
+    const token = getSessionToken();
+    if (!token) return;
+
+    setGroupError(null);
+    setIsCreatingGroup(true);
+    try {
+      const group = await createGroup(trimmedName, groupMemberHandles, token);
+      setGroups(prev => [group, ...prev.filter(g => g.id !== group.id)]);
+      setGroupNameInput("");
+      setGroupMemberHandles([]);
+      setShowGroupPanel(false);
+    } catch (err) {
+      setGroupError((err as Error).message || 'Gruppe konnte nicht erstellt werden');
+    } finally {
+      setIsCreatingGroup(false);
+    }
+  };
+
+  const handleLeaveGroup = async (group: Group) => {
+    if (!window.confirm(`Möchten Sie die Gruppe ${group.name} wirklich verlassen?`)) {
+      return;
+    }
+
+    try {
+      const token = getSessionToken();
+      if (!token) return;
+      await leaveGroup(group.id, token);
+      setGroups(prev => prev.filter(g => g.id !== group.id));
+    } catch (err) {
+      console.error('Failed to leave group:', err);
+      alert('Fehlgeschlagen, Gruppe zu verlassen. Bitte versuchen Sie es erneut.');
+    }
+  };
+
   const submitHandle = async () => {
     const trimmed = handleInput.trim().toUpperCase();
     const trimmedNickname = nicknameInput.trim();
@@ -244,6 +325,16 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ handle, onContactSelect, onAddC
         </div>
         <div className={styles.handleBadge}>{handle}</div>
         <div className={styles.headerRight}>
+          {onShowDevices && (
+            <button
+              type="button"
+              onClick={onShowDevices}
+              aria-label="Geräte verwalten"
+              className={styles.devicesHeader}
+            >
+              Geräte
+            </button>
+          )}
           <button
             type="button"
             onClick={() => setShowLogoutConfirm(true)}
@@ -342,6 +433,14 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ handle, onContactSelect, onAddC
                     >
                       <div className={styles.contactNameRow}>
                         <div className={styles.contactName}>{getDisplayName(contact)}</div>
+                        {contact.isVerified && (
+                          <span className={styles.verifiedBadge} title="Verifiziert">
+                            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                              <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z" />
+                              <polyline points="9 12 11 14 15 10" />
+                            </svg>
+                          </span>
+                        )}
                         <div className={styles.iconContainer}>
                           <button
                             onClick={(e) => {
@@ -384,6 +483,105 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ handle, onContactSelect, onAddC
             ))
           )}
         </div>
+
+        {/* Groups list */}
+        <div className={styles.groupHeaderRow}>
+          <h2 className="text-white font-semibold text-center">Gruppen</h2>
+          <button
+            type="button"
+            onClick={() => {
+              setShowGroupPanel(!showGroupPanel);
+              setGroupError(null);
+            }}
+            className={styles.newGroupButton}
+          >
+            {showGroupPanel ? 'Abbrechen' : 'Neue Gruppe'}
+          </button>
+        </div>
+
+        {showGroupPanel && (
+          <div className={styles.groupPanel}>
+            {groupError && (
+              <div className={styles.errorMessage}>
+                {groupError}
+              </div>
+            )}
+            <input
+              type="text"
+              placeholder="Gruppenname"
+              value={groupNameInput}
+              onChange={(e) => {
+                setGroupNameInput(e.target.value);
+                if (groupError) setGroupError(null);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !isCreatingGroup) submitGroup();
+              }}
+              className={styles.inputField}
+              maxLength={50}
+              disabled={isCreatingGroup}
+            />
+            <div className={styles.groupMemberOptions}>
+              {contacts.filter(contact => !contact.isBlocked).map(contact => (
+                <label key={contact.id} className={styles.groupMemberOption}>
+                  <input
+                    type="checkbox"
+                    checked={groupMemberHandles.includes(contact.handle)}
+                    onChange={() => toggleGroupMember(contact.handle)}
+                    disabled={isCreatingGroup}
+                  />
+                  {getDisplayName(contact)}
+                </label>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={submitGroup}
+              disabled={isCreatingGroup || !groupNameInput.trim()}
+              className="w-full h-10 bg-white text-black font-semibold rounded-lg shadow-md hover:bg-gray-100 active:scale-95 transition-transform focus:outline-none focus:ring-2 focus:ring-gray-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+            >
+              {isCreatingGroup ? 'Erstellen...' : 'Gruppe erstellen'}
+            </button>
+          </div>
+        )}
+
+        <div className="w-full max-h-60 overflow-y-auto flex flex-col items-center">
+          {groups.length === 0 ? (
+            <p className="text-gray-400 text-sm text-center w-full">Keine Gruppen</p>
+          ) : (
+            groups.map((group) => (
+              <div key={group.id}>
+                <div className={styles.contactCard}>
+                  <div
+                    onClick={() => onGroupSelect?.(group)}
+                    className={styles.contactInfo}
+                  >
+                    <div className={styles.contactNameRow}>
+                      <div className={styles.contactName}>{group.name}</div>
+                      <div className={styles.iconContainer}>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleLeaveGroup(group);
+                          }}
+                          className={styles.deleteButton}
+                          title="Gruppe verlassen"
+                        >
+                          <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                            <path d="M9 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h4" />
+                            <polyline points="16 17 21 12 16 7" />
+                            <line x1="21" y1="12" x2="9" y2="12" />
+                          </svg>
+                        </button>
+                      </div>
+                    </div>
+                    <div className={styles.contactHandle}>{group.members.length} Mitglieder</div>
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
       </motion.div>
 
       {/* Floating Action Button */}
@@ -2,13 +2,14 @@ import React, { useState, useCallback, useEffect } from 'react';
 import _sodium from 'libsodium-wrappers';
 const sodium = _sodium;
 import { formatHandle } from '../../../lib/utils/handle';
-import { userApi } from '../../../lib/api/userApi';
+import { uploadBackup, listBackups, restoreBackup } from '../../../lib/api/backupApi';
 
 interface BackupManagerProps {
   currentUser: {
     handle: string;
     privateKey: string;
     publicKey: string;
+    sessionToken?: string;
   };
   onClose: () => void;
 }
@@ -25,11 +26,27 @@ interface BackupData {
   backupNotes?: string;
 }
 
+interface EncryptedBackup {
+  version: string;
+  timestamp: number;
+  encryptedData: string;
+  salt: string;
+  nonce: string;
+  metadata: {
+    handle: string;
+    backupDate: string;
+    notes?: string;
+  };
+}
+
 const BackupManager: React.FC<BackupManagerProps> = ({ currentUser, onClose }) => {
   const [passphrase, setPassphrase] = useState<string>('');
   const [confirmPassphrase, setConfirmPassphrase] = useState<string>('');
   const [backupNotes, setBackupNotes] = useState<string>('');
   const [isExporting, setIsExporting] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [restorePassphrase, setRestorePassphrase] = useState<string>('');
   const [error, setError] = useState<string>('');
   const [success, setSuccess] = useState<string>('');
   const [lastBackupDate, setLastBackupDate] = useState<string>('');
@@ -41,20 +58,21 @@ const BackupManager: React.FC<BackupManagerProps> = ({ currentUser, onClose }) =
     });
   }, []);
 
-  // Load last backup date
+  // Load last backup date from the newest server-side backup
   useEffect(() => {
+    if (!currentUser.sessionToken) return;
+
     (async () => {
       try {
-        const profile = await userApi.getUserProfile(currentUser.handle);
-        if (profile?.lastBackupDate) {
-          const date = new Date(profile.lastBackupDate);
-          setLastBackupDate(date.toLocaleDateString());
+        const backups = await listBackups(currentUser.sessionToken!);
+        if (backups.length > 0) {
+          setLastBackupDate(new Date(backups[0].createdAt).toLocaleDateString());
         }
       } catch (error) {
         console.error('Failed to load backup date:', error);
       }
     })();
-  }, []);
+  }, [currentUser.sessionToken]);
 
   // Generate backup reminder notification
   const checkBackupReminder = useCallback(() => {
@@ -160,7 +178,7 @@ const BackupManager: React.FC<BackupManagerProps> = ({ currentUser, onClose }) =
     const ciphertext = sodium.crypto_secretbox_easy(dataJson, nonce, key);
 
     // Create final backup structure with separate nonce and encrypted data
-    const backup = {
+    const backup: EncryptedBackup = {
       version: '1.0',
       timestamp: backupData.timestamp,
       encryptedData: sodium.to_hex(ciphertext),
@@ -201,15 +219,6 @@ const BackupManager: React.FC<BackupManagerProps> = ({ currentUser, onClose }) =
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
 
-      // Update last backup date via API
-      try {
-        await userApi.recordBackupCreated(currentUser.handle);
-        setLastBackupDate(new Date().toLocaleDateString());
-      } catch (error) {
-        console.error('Failed to record backup date:', error);
-        // Continue despite API error - backup file was created successfully
-      }
-      
       setSuccess('Backup created successfully! Keep your backup file and passphrase secure.');
     } catch (error) {
       console.error('Backup creation failed:', error);
@@ -219,6 +228,106 @@ const BackupManager: React.FC<BackupManagerProps> = ({ currentUser, onClose }) =
     }
   }, [validatePassphrase, createBackup, currentUser.handle]);
 
+  // Push the encrypted backup to the server; it never sees the passphrase
+  const handleUploadBackup = useCallback(async () => {
+    if (!currentUser.sessionToken) {
+      setError('You need an active session to store backups on the server.');
+      return;
+    }
+
+    if (!validatePassphrase()) {
+      return;
+    }
+
+    setIsUploading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const backupJson = await createBackup();
+      const stored = await uploadBackup(backupJson, currentUser.sessionToken);
+
+      setLastBackupDate(new Date(stored.createdAt).toLocaleDateString());
+      setSuccess(`Backup version ${stored.version} stored on the server. You need your passphrase to restore it.`);
+    } catch (error) {
+      console.error('Backup upload failed:', error);
+      setError('Failed to store backup on the server. Please try again.');
+    } finally {
+      setIsUploading(false);
+    }
+  }, [validatePassphrase, createBackup, currentUser.sessionToken]);
+
+  // Fetch the newest server backup by signing a challenge, then decrypt it locally
+  const handleRestoreBackup = useCallback(async () => {
+    if (!restorePassphrase) {
+      setError('Enter the passphrase of the backup you want to restore.');
+      return;
+    }
+
+    setIsRestoring(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      await sodium.ready;
+
+      const stored = await restoreBackup(currentUser.handle, {
+        publicKey: currentUser.publicKey,
+        privateKey: currentUser.privateKey
+      });
+      const backup: EncryptedBackup = JSON.parse(stored.encryptedBackup);
+
+      const key = sodium.crypto_pwhash(
+        32,
+        restorePassphrase,
+        sodium.from_hex(backup.salt),
+        sodium.crypto_pwhash_OPSLIMIT_INTERACTIVE,
+        sodium.crypto_pwhash_MEMLIMIT_INTERACTIVE,
+        sodium.crypto_pwhash_ALG_ARGON2ID13
+      );
+
+      let dataJson: string;
+      try {
+        dataJson = sodium.to_string(sodium.crypto_secretbox_open_easy(
+          sodium.from_hex(backup.encryptedData),
+          sodium.from_hex(backup.nonce),
+          key
+        ));
+      } catch {
+        setError('Wrong passphrase or corrupted backup.');
+        return;
+      }
+
+      const backupData: BackupData = JSON.parse(dataJson);
+
+      // Never import data that belongs to a different identity
+      if (backupData.handle !== currentUser.handle || backupData.publicKey !== currentUser.publicKey) {
+        setError('This backup belongs to a different account.');
+        return;
+      }
+
+      if (backupData.recoveryWords) {
+        localStorage.setItem('secmes_recovery_words', JSON.stringify(backupData.recoveryWords));
+      }
+      if (backupData.contacts) {
+        localStorage.setItem('secmes_contacts', JSON.stringify(backupData.contacts));
+      }
+      if (backupData.settings) {
+        localStorage.setItem('secmes_settings', JSON.stringify(backupData.settings));
+      }
+
+      setRestorePassphrase('');
+      setSuccess(`Backup from ${new Date(backupData.timestamp).toLocaleDateString()} restored.`);
+    } catch (error) {
+      console.error('Backup restore failed:', error);
+      setError('Failed to restore backup. Please try again.');
+    } finally {
+      setIsRestoring(false);
+    }
+  }, [currentUser, restorePassphrase]);
+
+  const isBusy = isExporting || isUploading || isRestoring;
+
   // Get auto-destroy guidance
   const getAutoDestroyGuidance = (): string => {
     // General guidance since account age tracking moved to server
@@ -295,7 +404,7 @@ const BackupManager: React.FC<BackupManagerProps> = ({ currentUser, onClose }) =
               }}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               placeholder="Enter a strong passphrase"
-              disabled={isExporting}
+              disabled={isBusy}
             />
           </div>
 
@@ -312,7 +421,7 @@ const BackupManager: React.FC<BackupManagerProps> = ({ currentUser, onClose }) =
               }}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               placeholder="Confirm your passphrase"
-              disabled={isExporting}
+              disabled={isBusy}
             />
           </div>
 
@@ -326,7 +435,7 @@ const BackupManager: React.FC<BackupManagerProps> = ({ currentUser, onClose }) =
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               placeholder="Add notes about this backup..."
               rows={3}
-              disabled={isExporting}
+              disabled={isBusy}
             />
           </div>
         </div>
@@ -352,17 +461,54 @@ const BackupManager: React.FC<BackupManagerProps> = ({ currentUser, onClose }) =
           <button
             onClick={onClose}
             className="flex-1 px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
-            disabled={isExporting}
+            disabled={isBusy}
           >
             Cancel
           </button>
           <button
             onClick={handleExportBackup}
-            disabled={isExporting || !passphrase || !confirmPassphrase}
+            disabled={isBusy || !passphrase || !confirmPassphrase}
             className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {isExporting ? 'Creating Backup...' : 'Create Backup'}
           </button>
+          {currentUser.sessionToken && (
+            <button
+              onClick={handleUploadBackup}
+              disabled={isBusy || !passphrase || !confirmPassphrase}
+              className="flex-1 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isUploading ? 'Uploading...' : 'Save to Server'}
+            </button>
+          )}
+        </div>
+
+        {/* Restore from server */}
+        <div className="pt-6 border-t border-gray-200 space-y-4">
+          <div>
+            <h3 className="font-semibold text-gray-900">Restore from Server</h3>
+            <p className="text-sm text-gray-600">
+              Restores contacts, settings and recovery words from your newest server backup.
+            </p>
+          </div>
+          <input
+            type="password"
+            value={restorePassphrase}
+            onChange={(e) => {
+              setRestorePassphrase(e.target.value);
+              setError('');
+            }}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="Passphrase of the backup"
+            disabled={isBusy}
+          />
+          <button
+            onClick={handleRestoreBackup}
+            disabled={isBusy || !restorePassphrase}
+            className="w-full px-6 py-3 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRestoring ? 'Restoring...' : 'Restore Backup'}
+          </button>
         </div>
       </div>
     </div>
@@ -0,0 +1,224 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { contactVerificationService } from '../../../lib/services/ContactVerificationService';
+import { formatSafetyNumber } from '../../../lib/crypto/identityKeyStore';
+import { getBarcodeDetector } from '../../../lib/utils/barcodeDetector';
+import { useBarcodeScanner } from '../../../lib/utils/useBarcodeScanner';
+
+interface ContactVerificationPanelProps {
+  currentUser: {
+    handle: string;
+    publicKey: string;
+    privateKey: string;
+    sessionToken: string;
+  };
+  contactHandle: string;
+  onClose: () => void;
+  onVerified: () => void;
+}
+
+type VerificationStepName = 'loading' | 'showing' | 'done' | 'error';
+
+const buttonStyle: React.CSSProperties = {
+  padding: '0.5rem 1rem',
+  borderRadius: '0.5rem',
+  cursor: 'pointer',
+  color: '#ffffff'
+};
+
+/**
+ * In-person verification of a contact: both users compare the safety number
+ * and scan each other's QR codes until both challenges are answered.
+ */
+const ContactVerificationPanel: React.FC<ContactVerificationPanelProps> = ({
+  currentUser,
+  contactHandle,
+  onClose,
+  onVerified
+}) => {
+  const [step, setStep] = useState<VerificationStepName>('loading');
+  const [qrUrl, setQrUrl] = useState<string | null>(null);
+  const [safetyNumber, setSafetyNumber] = useState<string>('');
+  const [contactVerified, setContactVerified] = useState<boolean>(false);
+  const [qrText, setQrText] = useState<string>('');
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const run = async () => {
+      try {
+        const started = await contactVerificationService.start(currentUser, contactHandle);
+        if (cancelled) return;
+        setQrUrl(started.qr.url);
+        setSafetyNumber(started.safetyNumber);
+        setStep('showing');
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Contact verification failed to start:', err);
+        setError(err instanceof Error ? err.message : 'Verifizierung konnte nicht gestartet werden');
+        setStep('error');
+      }
+    };
+
+    run();
+
+    return () => {
+      cancelled = true;
+      contactVerificationService.cancel();
+    };
+  }, [currentUser, contactHandle]);
+
+  const handleScan = useCallback(async (data: string) => {
+    setError(null);
+    setBusy(true);
+    try {
+      const result = await contactVerificationService.handleScan(currentUser, data.trim());
+      setQrText('');
+      if (result.contactVerified && !contactVerified) {
+        setContactVerified(true);
+        onVerified();
+      }
+      if (result.qr || result.done) {
+        setQrUrl(result.qr?.url ?? null);
+      }
+      if (result.done) {
+        setStep('done');
+      }
+    } catch (err) {
+      console.error('Verification QR code rejected:', err);
+      setError(err instanceof Error ? err.message : 'QR-Code konnte nicht geprüft werden');
+    } finally {
+      setBusy(false);
+    }
+  }, [currentUser, contactVerified, onVerified]);
+
+  const handleCameraError = useCallback(() => {
+    setError('Kamera nicht verfügbar. Fügen Sie den QR-Code-Inhalt manuell ein.');
+  }, []);
+
+  const { videoRef, scanning, setScanning } = useBarcodeScanner(handleScan, handleCameraError);
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: 'rgba(0, 0, 0, 0.8)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 2000
+    }}>
+      <div style={{
+        background: '#1f1f1f',
+        border: '1px solid #333',
+        borderRadius: '0.75rem',
+        padding: '1.5rem',
+        maxWidth: '22rem',
+        width: '90%',
+        color: '#ffffff',
+        textAlign: 'center'
+      }}>
+        <h3 style={{ margin: '0 0 1rem 0', fontSize: '1.25rem', fontWeight: 600 }}>
+          {contactHandle} verifizieren
+        </h3>
+
+        {step === 'loading' && <p style={{ color: '#cccccc' }}>QR-Code wird erstellt...</p>}
+
+        {(step === 'showing' || step === 'done') && (
+          <>
+            <div style={{
+              display: 'grid',
+              gridTemplateColumns: 'repeat(4, 1fr)',
+              gap: '0.25rem 0.75rem',
+              margin: '0 0 1rem 0',
+              fontFamily: 'monospace'
+            }}>
+              {formatSafetyNumber(safetyNumber).map((digits, index) => (
+                <span key={index}>{digits}</span>
+              ))}
+            </div>
+            <p style={{ margin: '0 0 1rem 0', color: '#cccccc', lineHeight: 1.5 }}>
+              Vergleichen Sie die Sicherheitsnummer mit dem Gerät von {contactHandle}.
+            </p>
+          </>
+        )}
+
+        {step === 'showing' && (
+          <>
+            {qrUrl && (
+              <img src={qrUrl} alt="Verifizierungs-QR-Code" style={{ margin: '0 auto 1rem', borderRadius: '0.5rem' }} />
+            )}
+            <p style={{ margin: '0 0 1rem 0', color: '#cccccc', lineHeight: 1.5 }}>
+              {contactVerified
+                ? `${contactHandle} ist verifiziert. Lassen Sie diesen Code noch scannen, damit auch Sie verifiziert werden.`
+                : 'Scannen Sie abwechselnd den Code des anderen Geräts, bis beide Geräte die Verifizierung bestätigen.'}
+            </p>
+
+            {scanning ? (
+              <video ref={videoRef} muted playsInline style={{ width: '16rem', borderRadius: '0.75rem' }} />
+            ) : (
+              <textarea
+                value={qrText}
+                onChange={(e) => {
+                  setQrText(e.target.value);
+                  setError(null);
+                }}
+                placeholder="QR-Code-Inhalt einfügen"
+                rows={3}
+                disabled={busy}
+                style={{ width: '100%', resize: 'none', background: '#111', color: '#fff', border: '1px solid #333', borderRadius: '0.5rem', padding: '0.5rem' }}
+              />
+            )}
+          </>
+        )}
+
+        {step === 'done' && (
+          <>
+            {qrUrl && (
+              <img src={qrUrl} alt="Verifizierungs-QR-Code" style={{ margin: '0 auto 1rem', borderRadius: '0.5rem' }} />
+            )}
+            <p style={{ color: '#4ade80' }}>
+              {qrUrl
+                ? `${contactHandle} ist verifiziert. Lassen Sie diesen Code noch scannen, damit auch Sie verifiziert werden.`
+                : `${contactHandle} und Sie haben sich gegenseitig verifiziert.`}
+            </p>
+          </>
+        )}
+        {error && <p className="text-red-500">{error}</p>}
+
+        <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end', marginTop: '1.5rem' }}>
+          <button
+            onClick={onClose}
+            style={{ ...buttonStyle, background: 'transparent', border: '1px solid #555' }}
+          >
+            {step === 'done' ? 'Schließen' : 'Abbrechen'}
+          </button>
+          {step === 'showing' && getBarcodeDetector() && (
+            <button
+              onClick={() => setScanning((s) => !s)}
+              disabled={busy}
+              style={{ ...buttonStyle, background: 'transparent', border: '1px solid #555' }}
+            >
+              {scanning ? 'Scan beenden' : 'Scannen'}
+            </button>
+          )}
+          {step === 'showing' && !scanning && (
+            <button
+              onClick={() => handleScan(qrText)}
+              disabled={!qrText.trim() || busy}
+              style={{ ...buttonStyle, background: '#2563eb', border: '1px solid #2563eb' }}
+            >
+              Prüfen
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContactVerificationPanel;
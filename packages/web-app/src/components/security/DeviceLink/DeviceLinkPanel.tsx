@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { deviceLinkService } from '../../../lib/services/DeviceLinkService';
+import type { LinkRequest } from '../../../lib/services/DeviceLinkService';
+
+interface DeviceLinkPanelProps {
+  currentUser: {
+    handle: string;
+    publicKey: string;
+    privateKey: string;
+    sessionToken: string;
+  };
+  onClose: () => void;
+}
+
+type LinkStep = 'loading' | 'showing' | 'confirm' | 'sending' | 'done' | 'error';
+
+const buttonStyle: React.CSSProperties = {
+  padding: '0.5rem 1rem',
+  borderRadius: '0.5rem',
+  cursor: 'pointer',
+  color: '#ffffff'
+};
+
+/**
+ * Shown on a signed-in device to link another browser to this account.
+ */
+const DeviceLinkPanel: React.FC<DeviceLinkPanelProps> = ({ currentUser, onClose }) => {
+  const [step, setStep] = useState<LinkStep>('loading');
+  const [qrUrl, setQrUrl] = useState<string | null>(null);
+  const [request, setRequest] = useState<LinkRequest | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const run = async () => {
+      try {
+        const qr = await deviceLinkService.startLink(currentUser);
+        if (controller.signal.aborted) return;
+        setQrUrl(qr.url);
+        setStep('showing');
+
+        const linkRequest = await deviceLinkService.waitForRequest(currentUser.sessionToken, controller.signal);
+        setRequest(linkRequest);
+        setStep('confirm');
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Device link failed:', err);
+        setError(err instanceof Error ? err.message : 'Gerät konnte nicht verknüpft werden');
+        setStep('error');
+      }
+    };
+
+    run();
+
+    return () => controller.abort();
+  }, [currentUser]);
+
+  const handleApprove = async () => {
+    setStep('sending');
+    try {
+      await deviceLinkService.approve(currentUser);
+      setStep('done');
+    } catch (err) {
+      console.error('Device link approval failed:', err);
+      setError(err instanceof Error ? err.message : 'Gerät konnte nicht verknüpft werden');
+      setStep('error');
+    }
+  };
+
+  const handleClose = async () => {
+    if (step !== 'done') {
+      try {
+        await deviceLinkService.reject(currentUser.sessionToken);
+      } catch (err) {
+        console.warn('Failed to cancel device link:', err);
+      }
+    }
+    onClose();
+  };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: 'rgba(0, 0, 0, 0.8)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        background: '#1f1f1f',
+        border: '1px solid #333',
+        borderRadius: '0.75rem',
+        padding: '1.5rem',
+        maxWidth: '22rem',
+        width: '90%',
+        color: '#ffffff',
+        textAlign: 'center'
+      }}>
+        <h3 style={{ margin: '0 0 1rem 0', fontSize: '1.25rem', fontWeight: 600 }}>
+          Neues Gerät verknüpfen
+        </h3>
+
+        {step === 'loading' && <p style={{ color: '#cccccc' }}>QR-Code wird erstellt...</p>}
+
+        {step === 'showing' && qrUrl && (
+          <>
+            <img src={qrUrl} alt="Geräte-QR-Code" style={{ margin: '0 auto 1rem', borderRadius: '0.5rem' }} />
+            <p style={{ margin: 0, color: '#cccccc', lineHeight: 1.5 }}>
+              Scannen Sie diesen Code auf dem neuen Gerät unter „Verknüpfen“. Der Code ist 5 Minuten gültig.
+            </p>
+          </>
+        )}
+
+        {step === 'confirm' && request && (
+          <p style={{ margin: '0 0 1rem 0', color: '#cccccc', lineHeight: 1.5 }}>
+            Ein Gerät ({request.deviceId.slice(0, 8)}) möchte sich mit Ihrem Konto verbinden.
+            Ihr Identitätsschlüssel und Ihre Kontakte werden verschlüsselt übertragen.
+          </p>
+        )}
+
+        {step === 'sending' && <p style={{ color: '#cccccc' }}>Daten werden übertragen...</p>}
+        {step === 'done' && <p style={{ color: '#cccccc' }}>Das neue Gerät wurde verknüpft.</p>}
+        {step === 'error' && <p className="text-red-500">{error}</p>}
+
+        <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end', marginTop: '1.5rem' }}>
+          <button
+            onClick={handleClose}
+            disabled={step === 'sending'}
+            style={{ ...buttonStyle, background: 'transparent', border: '1px solid #555' }}
+          >
+            {step === 'done' ? 'Schließen' : 'Abbrechen'}
+          </button>
+          {step === 'confirm' && (
+            <button
+              onClick={handleApprove}
+              style={{ ...buttonStyle, background: '#2563eb', border: '1px solid #2563eb' }}
+            >
+              Verknüpfen
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeviceLinkPanel;
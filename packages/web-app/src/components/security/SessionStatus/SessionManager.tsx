@@ -1,5 +1,11 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { sendHeartbeat as apiSendHeartbeat, logout as apiLogout } from '../../../lib/api/sessionApi';
+import { sendHeartbeat as apiSendHeartbeat, answerLoginChallenge } from '../../../lib/api/sessionApi';
+import { listDevices, renameDevice, revokeDevice } from '../../../lib/api/devicesApi';
+import type { DeviceInfo } from '../../../lib/api/devicesApi';
+import { getSettings, updateSettings } from '../../../lib/api/settingsApi';
+import { webSocketClient } from '../../../lib/websocket/websocketClient';
+import DeviceLinkPanel from '../DeviceLink/DeviceLinkPanel';
+import BackupManager from '../BackupManager/BackupManager';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://0.0.0.0:11401';
 
@@ -19,15 +25,24 @@ interface SessionManagerProps {
     handle: string;
     privateKey: string;
     publicKey: string;
+    sessionToken: string;
   };
   onSessionInvalidated: () => void;
+  showDevices?: boolean;
+  onCloseDevices?: () => void;
 }
 
-const SessionManager: React.FC<SessionManagerProps> = ({ currentUser, onSessionInvalidated }) => {
+const SessionManager: React.FC<SessionManagerProps> = ({ currentUser, onSessionInvalidated, showDevices = false, onCloseDevices }) => {
   const [sessionState, setSessionState] = useState<SessionState | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<'connected' | 'disconnected' | 'reconnecting'>('disconnected');
-  const [sessionConflict, setSessionConflict] = useState<boolean>(false);
   const [isInitialized, setIsInitialized] = useState<boolean>(false);
+  const [devices, setDevices] = useState<DeviceInfo[]>([]);
+  const [devicesError, setDevicesError] = useState<string | null>(null);
+  const [renamingDevice, setRenamingDevice] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [showLinkPanel, setShowLinkPanel] = useState(false);
+  const [showBackups, setShowBackups] = useState(false);
+  const [sendReadReceipts, setSendReadReceipts] = useState<boolean | null>(null);
   
   // Use refs to prevent dependency issues
   const heartbeatIntervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -48,52 +63,11 @@ const SessionManager: React.FC<SessionManagerProps> = ({ currentUser, onSessionI
     return deviceId;
   }, []);
 
-  // Check for existing sessions
-  const checkExistingSession = useCallback(async (userId: string): Promise<SessionState | null> => {
-    try {
-      const response = await fetch(`${API_BASE_URL}/auth/me?handle=${encodeURIComponent(userId)}`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        }
-      });
-
-      if (response.ok) {
-        // User exists, check if we have a valid session
-        const savedSession = localStorage.getItem('secmes_current_session');
-        if (savedSession) {
-          try {
-            const parsed = JSON.parse(savedSession);
-            // Validate session structure
-            if (parsed && typeof parsed === 'object' && parsed.sessionId && parsed.userId) {
-              return parsed;
-            } else {
-              console.warn('Invalid session structure, clearing corrupted session data');
-              localStorage.removeItem('secmes_current_session');
-              return null;
-            }
-          } catch (error) {
-            console.error('JSON parsing error for session data:', error);
-            console.log('Corrupted session data:', savedSession);
-            // Clear corrupted session data
-            localStorage.removeItem('secmes_current_session');
-            return null;
-          }
-        }
-      }
-      return null;
-    } catch (error) {
-      console.warn('Could not check existing sessions:', error);
-      return null;
-    }
-  }, []);
-
   const invalidateSession = useCallback(() => {
     stopHeartbeat();
     localStorage.removeItem('secmes_current_session');
     localStorage.removeItem('secmes_offline_session');
     setSessionState(null);
-    setSessionConflict(false);
     onSessionInvalidated();
   }, [onSessionInvalidated]);
 
@@ -143,21 +117,63 @@ const SessionManager: React.FC<SessionManagerProps> = ({ currentUser, onSessionI
     }
   }, [sessionState]);
 
-  // Force logout from another device
-  const forceLogoutOtherDevice = useCallback(async () => {
-    const currentSession = JSON.parse(localStorage.getItem('secmes_current_session') || '{}');
-    if (!currentSession.token) return;
+  // Devices of this account, as known to the server
+  const loadDevices = useCallback(async () => {
     try {
-      await apiLogout({
-        sessionId: currentSession.sessionId,
-        token: currentSession.token,
-      });
+      setDevices(await listDevices(currentUser.sessionToken));
+      setDevicesError(null);
     } catch (error) {
-      console.error('Force logout failed, proceeding locally:', error);
-    } finally {
-      invalidateSession();
+      console.error('Failed to load devices:', error);
+      setDevicesError('Geräte konnten nicht geladen werden');
     }
-  }, [invalidateSession]);
+  }, [currentUser.sessionToken]);
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const settings = await getSettings(currentUser.sessionToken);
+      setSendReadReceipts(settings.sendReadReceipts);
+    } catch (error) {
+      console.error('Failed to load settings:', error);
+    }
+  }, [currentUser.sessionToken]);
+
+  const handleToggleReadReceipts = useCallback(async (enabled: boolean) => {
+    setSendReadReceipts(enabled);
+    try {
+      const settings = await updateSettings({ sendReadReceipts: enabled }, currentUser.sessionToken);
+      setSendReadReceipts(settings.sendReadReceipts);
+      setDevicesError(null);
+    } catch (error) {
+      console.error('Failed to update settings:', error);
+      setSendReadReceipts(!enabled);
+      setDevicesError('Einstellung konnte nicht gespeichert werden');
+    }
+  }, [currentUser.sessionToken]);
+
+  const handleRename = useCallback(async (deviceId: string) => {
+    const name = renameValue.trim();
+    if (!name) return;
+    try {
+      await renameDevice(deviceId, name, currentUser.sessionToken);
+      setRenamingDevice(null);
+      await loadDevices();
+    } catch (error) {
+      console.error('Failed to rename device:', error);
+      setDevicesError('Gerät konnte nicht umbenannt werden');
+    }
+  }, [renameValue, currentUser.sessionToken, loadDevices]);
+
+  // Revoking ends the device's sessions on the server and closes its socket
+  const handleRevoke = useCallback(async (device: DeviceInfo) => {
+    if (!window.confirm(`Gerät "${device.name || device.id.slice(0, 8)}" wirklich abmelden?`)) return;
+    try {
+      await revokeDevice(device.id, currentUser.sessionToken);
+      await loadDevices();
+    } catch (error) {
+      console.error('Failed to revoke device:', error);
+      setDevicesError('Gerät konnte nicht abgemeldet werden');
+    }
+  }, [currentUser.sessionToken, loadDevices]);
 
   // Initialize session
   const initializeSession = useCallback(async () => {
@@ -166,18 +182,12 @@ const SessionManager: React.FC<SessionManagerProps> = ({ currentUser, onSessionI
     try {
       const deviceId = generateDeviceId();
 
-      // Check for existing sessions first
-      const existingSession = await checkExistingSession(currentUser.handle);
-      if (existingSession && existingSession.isActive) {
-        setSessionConflict(true);
-        return;
-      }
-
-      // Create new session
+      // Prove possession of the identity key, then create the session
+      const answer = await answerLoginChallenge(currentUser.handle, currentUser);
       const response = await fetch(`${API_BASE_URL}/api/auth/session`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ handle: currentUser.handle, deviceId: generateDeviceId() }),
+        body: JSON.stringify({ handle: currentUser.handle, deviceId, ...answer }),
       });
 
       if (response.ok) {
@@ -197,9 +207,6 @@ const SessionManager: React.FC<SessionManagerProps> = ({ currentUser, onSessionI
         setConnectionStatus('connected');
         localStorage.setItem('secmes_current_session', JSON.stringify(newSession));
         startHeartbeat();
-      } else if (response.status === 409) {
-        // Session conflict - another device is active
-        setSessionConflict(true);
       } else {
         // Offline mode - create local session
         console.log('Session API unavailable, creating local session');
@@ -223,7 +230,7 @@ const SessionManager: React.FC<SessionManagerProps> = ({ currentUser, onSessionI
       console.error('Session initialization failed:', error);
       setConnectionStatus('disconnected');
     }
-  }, [currentUser, generateDeviceId, checkExistingSession, startHeartbeat]);
+  }, [currentUser, generateDeviceId, startHeartbeat]);
 
   // Initialize session on mount - only run once per user
   useEffect(() => {
@@ -267,6 +274,23 @@ const SessionManager: React.FC<SessionManagerProps> = ({ currentUser, onSessionI
     };
   }, []); // Run once
 
+  // This device was revoked from another one
+  useEffect(() => {
+    const handleRevoked = () => {
+      console.log('This device was revoked');
+      invalidateSession();
+    };
+    webSocketClient.onMessage('device_revoked', handleRevoked);
+    return () => webSocketClient.offMessage('device_revoked', handleRevoked);
+  }, [invalidateSession]);
+
+  useEffect(() => {
+    if (showDevices) {
+      loadDevices();
+      loadSettings();
+    }
+  }, [showDevices, loadDevices, loadSettings]);
+
   // Get connection status color
   const getConnectionStatusColor = () => {
     switch (connectionStatus) {
@@ -288,10 +312,9 @@ const SessionManager: React.FC<SessionManagerProps> = ({ currentUser, onSessionI
     }
   };
 
-  // Format last heartbeat time
-  const formatLastHeartbeat = () => {
-    if (!sessionState) return 'Never';
-    const diff = Date.now() - sessionState.lastHeartbeat;
+  // Format a past timestamp relative to now
+  const formatAgo = (timestamp: number) => {
+    const diff = Date.now() - timestamp;
     const seconds = Math.floor(diff / 1000);
     if (seconds < 60) return `${seconds}s ago`;
     const minutes = Math.floor(seconds / 60);
@@ -300,44 +323,122 @@ const SessionManager: React.FC<SessionManagerProps> = ({ currentUser, onSessionI
     return `${hours}h ago`;
   };
 
-  // Show session conflict dialog
-  if (sessionConflict) {
-    return (
+  const formatLastHeartbeat = () => {
+    if (!sessionState) return 'Never';
+    return formatAgo(sessionState.lastHeartbeat);
+  };
+
+  // Session status indicator (always visible but minimized)
+  return (
+    <>
+    {showDevices && (
       <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
         <div className="bg-white rounded-xl shadow-2xl w-full max-w-md p-6">
-          <div className="text-center">
-            <div className="w-16 h-16 bg-yellow-100 rounded-full flex items-center justify-center mx-auto mb-4">
-              <svg className="w-8 h-8 text-yellow-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16c-.77.833.192 2.5 1.732 2.5z" />
-              </svg>
-            </div>
-            <h2 className="text-xl font-bold text-gray-900 mb-2">Device Conflict</h2>
-            <p className="text-gray-600 mb-6">
-              Your account is already active on another device. For security, only one device can be active at a time.
-            </p>
-            <div className="space-y-3">
-              <button
-                onClick={forceLogoutOtherDevice}
-                className="w-full px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-              >
-                Log out other device and continue here
-              </button>
-              <button
-                onClick={invalidateSession}
-                className="w-full px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
-              >
-                Cancel and log out
-              </button>
-            </div>
+          <h2 className="text-xl font-bold text-gray-900 mb-4">Geräte</h2>
+          {devicesError && <p className="text-red-600 text-sm mb-3">{devicesError}</p>}
+          <ul className="space-y-3 max-h-80 overflow-y-auto">
+            {devices.filter((device) => device.isActive).map((device) => (
+              <li key={device.id} className="border border-gray-200 rounded-lg p-3">
+                {renamingDevice === device.id ? (
+                  <div className="flex space-x-2">
+                    <input
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRename(device.id);
+                        if (e.key === 'Escape') setRenamingDevice(null);
+                      }}
+                      maxLength={50}
+                      className="flex-1 border border-gray-300 rounded px-2 py-1 text-sm text-gray-900"
+                      autoFocus
+                    />
+                    <button onClick={() => handleRename(device.id)} className="text-sm text-blue-600">Speichern</button>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="font-medium text-gray-900 flex items-center space-x-2">
+                        <span className={`w-2 h-2 rounded-full ${device.online ? 'bg-green-500' : 'bg-gray-400'}`}></span>
+                        <span>{device.name || `Gerät ${device.id.slice(0, 8)}`}</span>
+                        {device.isCurrent && <span className="text-xs text-gray-500">(dieses Gerät)</span>}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        Zuletzt aktiv: {formatAgo(new Date(device.lastSeen).getTime())} · {device.sessions.length} aktive Sitzung(en)
+                      </div>
+                    </div>
+                    <div className="flex space-x-2 text-sm">
+                      <button
+                        onClick={() => {
+                          setRenamingDevice(device.id);
+                          setRenameValue(device.name || '');
+                        }}
+                        className="text-blue-600"
+                      >
+                        Umbenennen
+                      </button>
+                      {!device.isCurrent && (
+                        <button onClick={() => handleRevoke(device)} className="text-red-600">
+                          Abmelden
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+          {sendReadReceipts !== null && (
+            <label className="flex items-center justify-between mt-6 text-sm text-gray-900">
+              <span>Lesebestätigungen senden</span>
+              <input
+                type="checkbox"
+                checked={sendReadReceipts}
+                onChange={(e) => handleToggleReadReceipts(e.target.checked)}
+                className="w-4 h-4"
+              />
+            </label>
+          )}
+          <div className="space-y-3 mt-6">
+            <button
+              onClick={() => setShowLinkPanel(true)}
+              className="w-full px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Neues Gerät verknüpfen
+            </button>
+            <button
+              onClick={() => setShowBackups(true)}
+              className="w-full px-4 py-3 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 transition-colors"
+            >
+              Backups
+            </button>
+            <button
+              onClick={onCloseDevices}
+              className="w-full px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Schließen
+            </button>
           </div>
         </div>
       </div>
-    );
-  }
-
-  // Session status indicator (always visible but minimized)
-  return (
-    <div className="fixed top-4 right-4 z-40">
+    )}
+    {showLinkPanel && (
+      <DeviceLinkPanel
+        currentUser={currentUser}
+        onClose={() => {
+          setShowLinkPanel(false);
+          loadDevices();
+        }}
+      />
+    )}
+    {showBackups && (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 overflow-y-auto p-4">
+        <BackupManager
+          currentUser={currentUser}
+          onClose={() => setShowBackups(false)}
+        />
+      </div>
+    )}
+    <div className="fixed bottom-4 left-4 z-40">
       <div className="bg-white border border-gray-200 rounded-lg shadow-sm p-3 text-xs">
         <div className="flex items-center space-x-2">
           <div className={`w-2 h-2 rounded-full ${getConnectionStatusColor()}`}></div>
@@ -358,6 +459,7 @@ const SessionManager: React.FC<SessionManagerProps> = ({ currentUser, onSessionI
         )}
       </div>
     </div>
+    </>
   );
 };
 
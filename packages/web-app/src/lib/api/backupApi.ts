@@ -0,0 +1,112 @@
+import { answerLoginChallenge } from './sessionApi';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://0.0.0.0:11401';
+
+export interface BackupVersion {
+  version: number;
+  createdAt: string;
+}
+
+export interface StoredBackup extends BackupVersion {
+  encryptedBackup: string;
+}
+
+interface IdentityKeys {
+  publicKey: string;
+  privateKey: string;
+}
+
+const readError = async (response: Response, fallback: string): Promise<Error> => {
+  const err = await response.json().catch(() => ({ message: fallback }));
+  return new Error(err.message || fallback);
+};
+
+/**
+ * Upload a passphrase-encrypted backup. The server keeps a few versions and prunes the rest.
+ */
+export const uploadBackup = async (encryptedBackup: string, authToken: string): Promise<BackupVersion> => {
+  const response = await fetch(`${API_BASE_URL}/api/backups`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authToken}`,
+    },
+    body: JSON.stringify({ encryptedBackup })
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to upload backup');
+  }
+
+  const result = await response.json();
+  return { version: result.version, createdAt: result.createdAt };
+};
+
+export const listBackups = async (authToken: string): Promise<BackupVersion[]> => {
+  const response = await fetch(`${API_BASE_URL}/api/backups`, {
+    headers: {
+      'Authorization': `Bearer ${authToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to list backups');
+  }
+
+  const result = await response.json();
+  return result.backups;
+};
+
+export const fetchBackup = async (version: number, authToken: string): Promise<StoredBackup> => {
+  const response = await fetch(`${API_BASE_URL}/api/backups/${version}`, {
+    headers: {
+      'Authorization': `Bearer ${authToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to fetch backup');
+  }
+
+  const result = await response.json();
+  return { version: result.version, createdAt: result.createdAt, encryptedBackup: result.encryptedBackup };
+};
+
+export const pruneBackups = async (keep: number, authToken: string): Promise<number> => {
+  const response = await fetch(`${API_BASE_URL}/api/backups?keep=${keep}`, {
+    method: 'DELETE',
+    headers: {
+      'Authorization': `Bearer ${authToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to prune backups');
+  }
+
+  const result = await response.json();
+  return result.deleted;
+};
+
+/**
+ * Fetch a backup without a session by signing a login challenge with the identity key.
+ * Omitting `version` returns the newest backup.
+ */
+export const restoreBackup = async (handle: string, identity: IdentityKeys, version?: number): Promise<StoredBackup> => {
+  const answer = await answerLoginChallenge(handle, identity);
+
+  const response = await fetch(`${API_BASE_URL}/api/backups/restore`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ handle, ...answer, version })
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to restore backup');
+  }
+
+  const result = await response.json();
+  return { version: result.version, createdAt: result.createdAt, encryptedBackup: result.encryptedBackup };
+};
@@ -48,4 +48,43 @@ export const updateContactNickname = async (contactId: string, nickname: string,
     const err = await response.json().catch(()=>({message:'Failed'}));
     throw new Error(err.message||'Failed to update contact nickname');
   }
-}; 
\ No newline at end of file
+};
+
+export interface ContactSummary {
+  id: string;
+  handle: string;
+  isVerified: boolean;
+  verifiedAt?: string | null;
+}
+
+export const fetchContacts = async (authToken: string): Promise<ContactSummary[]> => {
+  const response = await fetch(`${API_BASE_URL}/api/contacts`, {
+    headers: {
+      'Authorization': `Bearer ${authToken}`,
+    },
+  });
+  if (!response.ok) {
+    const err = await response.json().catch(()=>({message:'Failed'}));
+    throw new Error(err.message||'Failed to fetch contacts');
+  }
+  const data = await response.json();
+  return data.contacts || [];
+};
+
+export const updateContactVerification = async (contactId: string, isVerified: boolean, authToken: string): Promise<void> => {
+  const response = await fetch(`${API_BASE_URL}/api/contacts`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authToken}`,
+    },
+    body: JSON.stringify({ 
+      contactId,
+      isVerified
+    })
+  });
+  if (!response.ok) {
+    const err = await response.json().catch(()=>({message:'Failed'}));
+    throw new Error(err.message||'Failed to update contact verification');
+  }
+};
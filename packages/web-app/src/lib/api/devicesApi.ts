@@ -0,0 +1,197 @@
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://0.0.0.0:11401';
+
+export type DeviceLinkStatus = 'pending' | 'joined' | 'approved' | 'rejected' | 'completed';
+
+export interface CreatedDeviceLink {
+  linkId: string;
+  code: string;
+  expiresAt: string;
+}
+
+export interface DeviceLinkState {
+  linkId: string;
+  status: DeviceLinkStatus;
+  ephemeralKey: string | null;
+  proof: string | null;
+  deviceId: string | null;
+  expiresAt: string;
+}
+
+export interface DeviceLinkClaim {
+  status: DeviceLinkStatus;
+  payload?: string;
+}
+
+const readError = async (response: Response, fallback: string): Promise<Error> => {
+  const err = await response.json().catch(() => ({ message: fallback }));
+  return new Error(err.message || fallback);
+};
+
+export const createDeviceLink = async (ephemeralKey: string, authToken: string): Promise<CreatedDeviceLink> => {
+  const response = await fetch(`${API_BASE_URL}/api/devices/link`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authToken}`,
+    },
+    body: JSON.stringify({ ephemeralKey })
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to create device link');
+  }
+
+  const result = await response.json();
+  return { linkId: result.linkId, code: result.code, expiresAt: result.expiresAt };
+};
+
+export const getDeviceLink = async (linkId: string, authToken: string): Promise<DeviceLinkState> => {
+  const response = await fetch(`${API_BASE_URL}/api/devices/link/${encodeURIComponent(linkId)}`, {
+    headers: {
+      'Authorization': `Bearer ${authToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to get device link');
+  }
+
+  const result = await response.json();
+  return {
+    linkId: result.linkId,
+    status: result.status,
+    ephemeralKey: result.ephemeralKey,
+    proof: result.proof,
+    deviceId: result.deviceId,
+    expiresAt: result.expiresAt
+  };
+};
+
+export const approveDeviceLink = async (linkId: string, payload: string, authToken: string): Promise<void> => {
+  const response = await fetch(`${API_BASE_URL}/api/devices/link/${encodeURIComponent(linkId)}/approve`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authToken}`,
+    },
+    body: JSON.stringify({ payload })
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to approve device link');
+  }
+};
+
+export const rejectDeviceLink = async (linkId: string, authToken: string): Promise<void> => {
+  const response = await fetch(`${API_BASE_URL}/api/devices/link/${encodeURIComponent(linkId)}/reject`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${authToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to reject device link');
+  }
+};
+
+/**
+ * Called by the new device, which has no session yet; the link code from the
+ * QR code is its only credential.
+ */
+export const joinDeviceLink = async (
+  code: string,
+  ephemeralKey: string,
+  proof: string,
+  deviceId: string
+): Promise<void> => {
+  const response = await fetch(`${API_BASE_URL}/api/devices/link/join`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ code, ephemeralKey, proof, deviceId })
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to join device link');
+  }
+};
+
+export const claimDeviceLink = async (code: string): Promise<DeviceLinkClaim> => {
+  const response = await fetch(`${API_BASE_URL}/api/devices/link/claim`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ code })
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to claim device link');
+  }
+
+  const result = await response.json();
+  return { status: result.status, payload: result.payload };
+};
+
+export interface DeviceSessionInfo {
+  id: string;
+  lastHeartbeat: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface DeviceInfo {
+  id: string;
+  name: string | null;
+  isActive: boolean;
+  isCurrent: boolean;
+  online: boolean;
+  lastSeen: string;
+  createdAt: string;
+  sessions: DeviceSessionInfo[];
+}
+
+export const listDevices = async (authToken: string): Promise<DeviceInfo[]> => {
+  const response = await fetch(`${API_BASE_URL}/api/devices`, {
+    headers: {
+      'Authorization': `Bearer ${authToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to list devices');
+  }
+
+  const result = await response.json();
+  return result.devices;
+};
+
+export const renameDevice = async (deviceId: string, name: string, authToken: string): Promise<void> => {
+  const response = await fetch(`${API_BASE_URL}/api/devices/${encodeURIComponent(deviceId)}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authToken}`,
+    },
+    body: JSON.stringify({ name })
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to rename device');
+  }
+};
+
+export const revokeDevice = async (deviceId: string, authToken: string): Promise<void> => {
+  const response = await fetch(`${API_BASE_URL}/api/devices/${encodeURIComponent(deviceId)}`, {
+    method: 'DELETE',
+    headers: {
+      'Authorization': `Bearer ${authToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to revoke device');
+  }
+};
@@ -0,0 +1,155 @@
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://0.0.0.0:11401';
+
+export type GroupRole = 'admin' | 'member';
+
+export interface GroupMember {
+  handle: string;
+  role: GroupRole;
+  joinedAt: string;
+}
+
+export interface Group {
+  id: string;
+  name: string;
+  createdAt: string;
+  members: GroupMember[];
+}
+
+export interface GroupMessage {
+  id: string;
+  groupId: string;
+  content: string;
+  messageType: string;
+  timestamp: string;
+  senderHandle: string;
+  delivered: boolean;
+  encrypted: boolean;
+  pfsMessage: boolean;
+  encryptedData?: string;
+}
+
+const readError = async (response: Response, fallback: string): Promise<Error> => {
+  const err = await response.json().catch(() => ({ message: fallback }));
+  if (err.handles?.length) {
+    return new Error(`${err.message || fallback}: ${err.handles.join(', ')}`);
+  }
+  return new Error(err.message || fallback);
+};
+
+/**
+ * Conversation id under which a group's messages are stored locally
+ */
+export const groupConversationId = (groupId: string) => `group:${groupId}`;
+
+export const createGroup = async (name: string, memberHandles: string[], authToken: string): Promise<Group> => {
+  const response = await fetch(`${API_BASE_URL}/api/groups`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authToken}`,
+    },
+    body: JSON.stringify({ name, memberHandles })
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Gruppe konnte nicht erstellt werden');
+  }
+
+  const result = await response.json();
+  return result.group;
+};
+
+export const listGroups = async (authToken: string): Promise<Group[]> => {
+  const response = await fetch(`${API_BASE_URL}/api/groups`, {
+    headers: {
+      'Authorization': `Bearer ${authToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to list groups');
+  }
+
+  const result = await response.json();
+  return result.groups;
+};
+
+export const getGroup = async (groupId: string, authToken: string): Promise<Group> => {
+  const response = await fetch(`${API_BASE_URL}/api/groups/${encodeURIComponent(groupId)}`, {
+    headers: {
+      'Authorization': `Bearer ${authToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Gruppe nicht gefunden');
+  }
+
+  const result = await response.json();
+  return result.group;
+};
+
+export const addGroupMembers = async (groupId: string, handles: string[], authToken: string): Promise<Group> => {
+  const response = await fetch(`${API_BASE_URL}/api/groups/${encodeURIComponent(groupId)}/members`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authToken}`,
+    },
+    body: JSON.stringify({ handles })
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Mitglieder konnten nicht hinzugefügt werden');
+  }
+
+  const result = await response.json();
+  return result.group;
+};
+
+export const removeGroupMember = async (groupId: string, handle: string, authToken: string): Promise<Group> => {
+  const response = await fetch(
+    `${API_BASE_URL}/api/groups/${encodeURIComponent(groupId)}/members/${encodeURIComponent(handle)}`,
+    {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${authToken}`,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    throw await readError(response, 'Mitglied konnte nicht entfernt werden');
+  }
+
+  const result = await response.json();
+  return result.group;
+};
+
+export const leaveGroup = async (groupId: string, authToken: string): Promise<void> => {
+  const response = await fetch(`${API_BASE_URL}/api/groups/${encodeURIComponent(groupId)}/leave`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${authToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Gruppe konnte nicht verlassen werden');
+  }
+};
+
+export const getGroupMessages = async (groupId: string, authToken: string, limit = 50): Promise<GroupMessage[]> => {
+  const response = await fetch(`${API_BASE_URL}/api/groups/${encodeURIComponent(groupId)}/messages?limit=${limit}`, {
+    headers: {
+      'Authorization': `Bearer ${authToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to get group messages');
+  }
+
+  const result = await response.json();
+  return result.messages;
+};
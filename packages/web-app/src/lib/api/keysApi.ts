@@ -0,0 +1,158 @@
+import type { PreKeyBundle } from '@secure-messenger/shared';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://0.0.0.0:11401';
+
+export interface OneTimePreKeyUpload {
+  keyId: number;
+  publicKey: string;
+}
+
+/**
+ * Devices of a user we need a session with, each encrypting for itself.
+ * Our own device is left out when we ask for our own handle.
+ */
+export const listSessionDevices = async (handle: string, authToken: string): Promise<string[]> => {
+  const response = await fetch(`${API_BASE_URL}/api/keys/devices/${encodeURIComponent(handle)}`, {
+    headers: {
+      'Authorization': `Bearer ${authToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({ message: 'Failed' }));
+    throw new Error(err.message || err.error || 'Failed to list devices');
+  }
+
+  const result = await response.json();
+  return result.deviceIds;
+};
+
+/**
+ * Fetches the PreKey bundle of one device of a user. The server hands out (and
+ * consumes) one one-time prekey per call, so only call this when building a new session.
+ */
+export const fetchPreKeyBundle = async (handle: string, deviceId: string, authToken: string): Promise<PreKeyBundle> => {
+  const response = await fetch(`${API_BASE_URL}/api/keys/bundle/${encodeURIComponent(handle)}/${encodeURIComponent(deviceId)}`, {
+    headers: {
+      'Authorization': `Bearer ${authToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to fetch key bundle: ${response.status} ${errorText}`);
+  }
+
+  return response.json();
+};
+
+export const uploadPreKeys = async (
+  preKeys: OneTimePreKeyUpload[],
+  authToken: string,
+  replace: boolean = false
+): Promise<number> => {
+  const response = await fetch(`${API_BASE_URL}/api/keys/prekeys`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authToken}`,
+    },
+    body: JSON.stringify({ preKeys, replace })
+  });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({ message: 'Failed' }));
+    throw new Error(err.message || 'Failed to upload prekeys');
+  }
+
+  const result = await response.json();
+  return result.stored;
+};
+
+/**
+ * Ids of our device's one-time prekeys the server has not handed out yet
+ */
+export const listUnusedPreKeyIds = async (authToken: string): Promise<number[]> => {
+  const response = await fetch(`${API_BASE_URL}/api/keys/prekeys`, {
+    headers: {
+      'Authorization': `Bearer ${authToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({ message: 'Failed' }));
+    throw new Error(err.message || 'Failed to list prekeys');
+  }
+
+  const result = await response.json();
+  return result.keyIds;
+};
+
+export interface PreKeyCount {
+  count: number;
+  threshold: number;
+  target: number;
+}
+
+export const getPreKeyCount = async (authToken: string): Promise<PreKeyCount> => {
+  const response = await fetch(`${API_BASE_URL}/api/keys/prekeys/count`, {
+    headers: {
+      'Authorization': `Bearer ${authToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({ message: 'Failed' }));
+    throw new Error(err.message || 'Failed to get prekey count');
+  }
+
+  const result = await response.json();
+  return { count: result.count, threshold: result.threshold, target: result.target };
+};
+
+export interface SignedPreKeyUpload {
+  keyId: number;
+  publicKey: string;
+  signature: string;
+}
+
+export interface PublishedSignedPreKey {
+  keyId: number;
+  publicKey: string;
+  createdAt: string;
+}
+
+/**
+ * The signed prekey the server hands out for our device, or null if it has none
+ */
+export const getSignedPreKey = async (authToken: string): Promise<PublishedSignedPreKey | null> => {
+  const response = await fetch(`${API_BASE_URL}/api/keys/signed-prekey`, {
+    headers: {
+      'Authorization': `Bearer ${authToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({ message: 'Failed' }));
+    throw new Error(err.message || 'Failed to get signed prekey');
+  }
+
+  const result = await response.json();
+  return result.signedPreKey;
+};
+
+export const rotateSignedPreKey = async (signedPreKey: SignedPreKeyUpload, authToken: string): Promise<void> => {
+  const response = await fetch(`${API_BASE_URL}/api/keys/signed-prekey`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authToken}`,
+    },
+    body: JSON.stringify(signedPreKey)
+  });
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({ message: 'Failed' }));
+    throw new Error(err.message || 'Failed to rotate signed prekey');
+  }
+};
@@ -0,0 +1,86 @@
+import { signChallenge } from './sessionApi';
+import type { LoginChallenge, SessionResponse } from './sessionApi';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://0.0.0.0:11401';
+
+export interface RecoveredAccount {
+  account: {
+    handle: string;
+    publicKey: string;
+    createdAt: string;
+  };
+  session: SessionResponse;
+  deviceId: string;
+}
+
+interface RecoveryChallenge extends LoginChallenge {
+  handle: string;
+}
+
+interface IdentityKeys {
+  publicKey: string;
+  privateKey: string;
+}
+
+/**
+ * Thrown when the server's per-IP recovery limit is reached
+ */
+export class RecoveryRateLimitError extends Error {
+  constructor(message: string, public retryAfter: number) {
+    super(message);
+    this.name = 'RecoveryRateLimitError';
+  }
+}
+
+const readError = async (response: Response, fallback: string): Promise<Error> => {
+  const err = await response.json().catch(() => ({ message: fallback }));
+  if (response.status === 429) {
+    return new RecoveryRateLimitError(err.message || fallback, err.retryAfter || 0);
+  }
+  return new Error(err.message || err.error || fallback);
+};
+
+/**
+ * Recover an account from keys derived with `deriveKeyPairFromMnemonic`.
+ * `accountKey` is the public key as registered with the server; the identity
+ * key pair signs the challenge so the server can check possession.
+ */
+export const recoverAccount = async (
+  accountKey: string,
+  identity: IdentityKeys,
+  deviceId: string
+): Promise<RecoveredAccount> => {
+  const challengeResponse = await fetch(`${API_BASE_URL}/api/recover/challenge`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ publicKey: accountKey })
+  });
+
+  if (!challengeResponse.ok) {
+    throw await readError(challengeResponse, 'Konto nicht gefunden');
+  }
+
+  const challenge: RecoveryChallenge = await challengeResponse.json();
+  const answer = await signChallenge(challenge.handle, challenge, identity);
+
+  const response = await fetch(`${API_BASE_URL}/api/recover`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      publicKey: accountKey,
+      deviceId,
+      ...answer
+    })
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Fehlgeschlagen, Konto wiederherzustellen');
+  }
+
+  const result = await response.json();
+  return { account: result.account, session: result.session, deviceId: result.deviceId };
+};
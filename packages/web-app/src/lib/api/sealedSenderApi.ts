@@ -0,0 +1,78 @@
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://0.0.0.0:11401';
+
+export interface SignedSenderCertificate {
+  certificate: string; // JSON of { handle, deviceId, identityKey, expiresAt }
+  signature: string;
+  serverKey: string;
+}
+
+export interface SealedMessageRequest {
+  receiverHandle: string;
+  deliveryToken: string;
+  deviceEnvelopes: Record<string, string>; // Device.id -> envelope sealed for that device
+  expiresIn?: number;
+  clientMessageId?: string;
+}
+
+const readError = async (response: Response, fallback: string): Promise<Error> => {
+  const err = await response.json().catch(() => ({ message: fallback }));
+  return new Error(err.message || fallback);
+};
+
+export const updateDeliveryToken = async (deliveryToken: string, authToken: string): Promise<void> => {
+  const response = await fetch(`${API_BASE_URL}/api/users/me/delivery-token`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authToken}`,
+    },
+    body: JSON.stringify({ deliveryToken })
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to update delivery token');
+  }
+};
+
+export const fetchSenderCertificate = async (authToken: string): Promise<SignedSenderCertificate> => {
+  const response = await fetch(`${API_BASE_URL}/api/users/me/sender-certificate`, {
+    headers: {
+      'Authorization': `Bearer ${authToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to load sender certificate');
+  }
+
+  const result = await response.json();
+  return result.data;
+};
+
+/**
+ * Send a sealed message. Deliberately unauthenticated, so the server cannot
+ * tell who sent it. Returns null if the receiver rejected the delivery token.
+ */
+export const sendSealedMessage = async (
+  request: SealedMessageRequest
+): Promise<{ id: string; timestamp: string } | null> => {
+  const response = await fetch(`${API_BASE_URL}/api/messages/sealed`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'omit',
+    body: JSON.stringify(request)
+  });
+
+  if (response.status === 403) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to send sealed message');
+  }
+
+  const result = await response.json();
+  return result.data;
+};
@@ -1,3 +1,5 @@
+import { SignalCrypto } from '../crypto/signalCrypto';
+
 const BASE_URL = import.meta.env.VITE_API_URL || 'https://0.0.0.0:11401';
 
 export interface HeartbeatRequest {
@@ -11,11 +13,85 @@ export interface HeartbeatResponse {
   message: string;
 }
 
-export interface SessionRequest {
-  handle: string;
+export interface LoginChallenge {
+  challengeId: string;
+  nonce: string;
+  expiresAt: string;
+  sealedProof?: string; // only for accounts without a registered signing key
+}
+
+export interface ChallengeAnswer {
+  challengeId: string;
   signature: string;
+  signingKey?: string;
+  legacyProof?: string;
+}
+
+export interface SessionRequest extends ChallengeAnswer {
+  handle: string;
+  deviceId: string;
+}
+
+interface IdentityKeys {
+  publicKey: string;
+  privateKey: string;
 }
 
+/**
+ * Must match buildChallengeMessage on the backend.
+ */
+export const buildChallengeMessage = (handle: string, nonce: string): string =>
+  `secmes-login:${handle}:${nonce}`;
+
+/**
+ * Request a single-use nonce for logging in as `handle`
+ */
+export const requestLoginChallenge = async (handle: string): Promise<LoginChallenge> => {
+  const response = await fetch(`${BASE_URL}/api/auth/challenge`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ handle }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || error.error || 'Failed to request login challenge');
+  }
+
+  return response.json();
+};
+
+/**
+ * Sign a challenge with our identity key. Accounts registered before signing
+ * keys existed also open the sealed proof and send the signing key along,
+ * which the server registers once the proof checks out.
+ */
+export const signChallenge = async (
+  handle: string,
+  challenge: Pick<LoginChallenge, 'challengeId' | 'nonce' | 'sealedProof'>,
+  identity: IdentityKeys
+): Promise<ChallengeAnswer> => {
+  const signature = await SignalCrypto.signMessage(buildChallengeMessage(handle, challenge.nonce), identity);
+  if (!challenge.sealedProof) {
+    return { challengeId: challenge.challengeId, signature };
+  }
+
+  return {
+    challengeId: challenge.challengeId,
+    signature,
+    signingKey: await SignalCrypto.getSigningPublicKey(identity),
+    legacyProof: await SignalCrypto.openSealedToIdentity(challenge.sealedProof, identity)
+  };
+};
+
+/**
+ * Fetch a challenge and sign it with our identity key
+ */
+export const answerLoginChallenge = async (handle: string, identity: IdentityKeys): Promise<ChallengeAnswer> =>
+  signChallenge(handle, await requestLoginChallenge(handle), identity);
+
 export interface SessionResponse {
   sessionId: string;
   token: string;
@@ -24,7 +100,7 @@ export interface SessionResponse {
 
 
 export const createSession = async (data: SessionRequest): Promise<SessionResponse> => {
-  console.log('Creating session with data:', data);
+  console.log('Creating session for:', data.handle);
   
   const response = await fetch(`${BASE_URL}/api/auth/session`, {
     method: 'POST',
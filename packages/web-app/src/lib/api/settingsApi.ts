@@ -0,0 +1,43 @@
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://0.0.0.0:11401';
+
+export interface UserSettings {
+  sendReadReceipts: boolean;
+}
+
+const readError = async (response: Response, fallback: string): Promise<Error> => {
+  const err = await response.json().catch(() => ({ message: fallback }));
+  return new Error(err.message || fallback);
+};
+
+export const getSettings = async (authToken: string): Promise<UserSettings> => {
+  const response = await fetch(`${API_BASE_URL}/api/users/me/settings`, {
+    headers: {
+      'Authorization': `Bearer ${authToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to load settings');
+  }
+
+  const result = await response.json();
+  return result.settings;
+};
+
+export const updateSettings = async (settings: Partial<UserSettings>, authToken: string): Promise<UserSettings> => {
+  const response = await fetch(`${API_BASE_URL}/api/users/me/settings`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authToken}`,
+    },
+    body: JSON.stringify(settings)
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to update settings');
+  }
+
+  const result = await response.json();
+  return result.settings;
+};
@@ -37,6 +37,15 @@ export const deriveKeyPairFromMnemonic = async (mnemonic: string): Promise<{ pub
   return result;
 };
 
+/**
+ * The identity key pair as the app stores and uses it: base64, like the
+ * public key registered with the server, instead of the hex of derivation.
+ */
+export const toIdentityKeyPair = (keyPair: { pubKey: string; privKey: string }): { publicKey: string; privateKey: string } => ({
+  publicKey: Buffer.from(keyPair.pubKey, 'hex').toString('base64'),
+  privateKey: Buffer.from(keyPair.privKey, 'hex').toString('base64'),
+});
+
 /**
  * Derives a handle in format ABC-123 from a public key.
  * This is a deterministic method for generating a user-friendly handle 
@@ -0,0 +1,171 @@
+import sodium from 'libsodium-wrappers';
+import { SignalCrypto } from './signalCrypto';
+import { browserStorage } from '../storage/browserStorage';
+
+const IDENTITY_KEY_PREFIX = 'identity_key_';
+
+// Iterations of the fingerprint hash, as in Signal's numeric fingerprints
+const FINGERPRINT_ITERATIONS = 5200;
+const FINGERPRINT_VERSION = new Uint8Array([0, 0]);
+
+export interface PinnedIdentityKey {
+  handle: string;
+  publicKey: string; // Pinned identity key (base64)
+  firstSeenAt: number;
+  verifiedAt?: number; // Set once the user compared the safety number
+  changedKey?: string; // Key seen since that differs from the pinned one; blocks sending
+  changedAt?: number;
+}
+
+export type IdentityKeyStatus = 'new' | 'trusted' | 'changed';
+
+/**
+ * Pins the identity key of every contact on first use. A different key
+ * showing up later (re-registration, recovery or a man in the middle) is
+ * recorded and blocks sending until the user re-verifies the safety number.
+ */
+class IdentityKeyStore {
+  private normalize(publicKey: string): string {
+    return sodium.to_base64(SignalCrypto.publicKeyBytes(publicKey));
+  }
+
+  async getPinnedKey(handle: string): Promise<PinnedIdentityKey | null> {
+    return browserStorage.getItem(`${IDENTITY_KEY_PREFIX}${handle}`);
+  }
+
+  /**
+   * Compare a contact's identity key from a key bundle or prekey message
+   * with the pinned one, pinning it if there is none yet.
+   */
+  async checkIdentityKey(handle: string, publicKey: string): Promise<IdentityKeyStatus> {
+    await sodium.ready;
+    const key = this.normalize(publicKey);
+    const pinned = await this.getPinnedKey(handle);
+
+    if (!pinned) {
+      const record: PinnedIdentityKey = { handle, publicKey: key, firstSeenAt: Date.now() };
+      await browserStorage.setItem(`${IDENTITY_KEY_PREFIX}${handle}`, record);
+      return 'new';
+    }
+
+    if (pinned.publicKey === key) {
+      return pinned.changedKey ? 'changed' : 'trusted';
+    }
+
+    if (pinned.changedKey !== key) {
+      console.warn(`Identity key of ${handle} changed`);
+      const record: PinnedIdentityKey = { ...pinned, changedKey: key, changedAt: Date.now() };
+      await browserStorage.setItem(`${IDENTITY_KEY_PREFIX}${handle}`, record);
+    }
+    return 'changed';
+  }
+
+  async hasUnverifiedChange(handle: string): Promise<boolean> {
+    const pinned = await this.getPinnedKey(handle);
+    return !!pinned?.changedKey;
+  }
+
+  /**
+   * Whether the user verified the contact's current key. A key change
+   * after verification makes the contact unverified again.
+   */
+  async isVerified(handle: string): Promise<boolean> {
+    const pinned = await this.getPinnedKey(handle);
+    return !!pinned?.verifiedAt && !pinned.changedKey;
+  }
+
+  /**
+   * Whether a key shown in person is the one the safety number is computed
+   * from, i.e. the key sending to the contact would use.
+   */
+  async matchesIdentityKey(handle: string, publicKey: string): Promise<boolean> {
+    await sodium.ready;
+    const pinned = await this.getPinnedKey(handle);
+    return !!pinned && (pinned.changedKey ?? pinned.publicKey) === this.normalize(publicKey);
+  }
+
+  /**
+   * The user compared the safety number: pin the key it was computed from
+   * (the changed one, if any) and unblock sending.
+   */
+  async markVerified(handle: string): Promise<void> {
+    const pinned = await this.getPinnedKey(handle);
+    if (!pinned) {
+      throw new Error(`No identity key known for ${handle}`);
+    }
+
+    const record: PinnedIdentityKey = {
+      handle,
+      publicKey: pinned.changedKey ?? pinned.publicKey,
+      firstSeenAt: pinned.firstSeenAt,
+      verifiedAt: Date.now()
+    };
+    await browserStorage.setItem(`${IDENTITY_KEY_PREFIX}${handle}`, record);
+  }
+
+  /**
+   * Safety number of the conversation with a contact, computed from both
+   * identity keys. Uses the changed key if there is one, since that is the
+   * key the user has to verify.
+   */
+  async getSafetyNumber(ourHandle: string, ourPublicKey: string, theirHandle: string): Promise<string | null> {
+    const pinned = await this.getPinnedKey(theirHandle);
+    if (!pinned) {
+      return null;
+    }
+    return computeSafetyNumber(ourHandle, ourPublicKey, theirHandle, pinned.changedKey ?? pinned.publicKey);
+  }
+
+  async removeIdentityKey(handle: string): Promise<void> {
+    await browserStorage.removeItem(`${IDENTITY_KEY_PREFIX}${handle}`);
+  }
+}
+
+/**
+ * 30-digit fingerprint of one identity: the key and its owner's handle are
+ * hashed FINGERPRINT_ITERATIONS times with SHA-512, then six 5-byte chunks
+ * of the result become six 5-digit groups.
+ */
+const fingerprint = (handle: string, publicKey: Uint8Array): string => {
+  const handleBytes = sodium.from_string(handle);
+  let hash = sodium.crypto_hash(new Uint8Array([...FINGERPRINT_VERSION, ...publicKey, ...handleBytes]));
+  for (let i = 1; i < FINGERPRINT_ITERATIONS; i++) {
+    hash = sodium.crypto_hash(new Uint8Array([...hash, ...publicKey]));
+  }
+
+  let digits = '';
+  for (let chunk = 0; chunk < 6; chunk++) {
+    let value = 0;
+    for (let i = 0; i < 5; i++) {
+      value = value * 256 + hash[chunk * 5 + i];
+    }
+    digits += (value % 100000).toString().padStart(5, '0');
+  }
+  return digits;
+};
+
+/**
+ * 60-digit safety number shared by both parties. The two fingerprints are
+ * sorted so that both sides see the same number.
+ */
+export const computeSafetyNumber = async (
+  ourHandle: string,
+  ourPublicKey: string,
+  theirHandle: string,
+  theirPublicKey: string
+): Promise<string> => {
+  await sodium.ready;
+  const fingerprints = [
+    fingerprint(ourHandle, SignalCrypto.publicKeyBytes(ourPublicKey)),
+    fingerprint(theirHandle, SignalCrypto.publicKeyBytes(theirPublicKey))
+  ].sort();
+  return fingerprints.join('');
+};
+
+/**
+ * Split a safety number into groups of five digits for display
+ */
+export const formatSafetyNumber = (safetyNumber: string): string[] =>
+  safetyNumber.match(/.{1,5}/g) ?? [];
+
+export const identityKeyStore = new IdentityKeyStore();
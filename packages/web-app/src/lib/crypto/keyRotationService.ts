@@ -2,12 +2,21 @@ import type { RatchetState } from '@secure-messenger/shared';
 import { SignalCrypto } from './signalCrypto';
 import { PerfectForwardSecrecy } from './perfectForwardSecrecy';
 import { browserStorage } from '../storage/browserStorage';
+import { preKeyStore } from './preKeyStore';
+import { getSignedPreKey, rotateSignedPreKey } from '../api/keysApi';
 
 interface RotationConfig {
   messageInterval: number; // Rotate keys every N messages
   timeInterval: number; // Rotate keys every N milliseconds
   maxSkippedKeys: number; // Maximum number of skipped keys to store
   cleanupInterval: number; // Clean up old keys every N milliseconds
+  signedPreKeyInterval: number; // Rotate the signed prekey every N milliseconds
+  signedPreKeyGracePeriod: number; // Keep superseded signed prekeys for N milliseconds
+}
+
+interface IdentityKeys {
+  publicKey: string;
+  privateKey: string;
 }
 
 interface RotationTimer {
@@ -19,11 +28,14 @@ interface RotationTimer {
 export class KeyRotationService {
   private static instance: KeyRotationService | null = null;
   private rotationTimers: Map<string, RotationTimer> = new Map();
+  private signedPreKeyTimer: NodeJS.Timeout | null = null;
   private config: RotationConfig = {
     messageInterval: 100, // Rotate every 100 messages
     timeInterval: 24 * 60 * 60 * 1000, // Rotate every 24 hours
     maxSkippedKeys: 50, // Keep max 50 skipped keys
-    cleanupInterval: 60 * 60 * 1000 // Clean up every hour
+    cleanupInterval: 60 * 60 * 1000, // Clean up every hour
+    signedPreKeyInterval: 7 * 24 * 60 * 60 * 1000, // Rotate signed prekey weekly
+    signedPreKeyGracePeriod: 7 * 24 * 60 * 60 * 1000 // Keep the previous one for a week
   };
 
   private constructor() {}
@@ -97,7 +109,7 @@ export class KeyRotationService {
 
     if (shouldRotate) {
               console.log(`Performing message-based key rotation for ${address} at message ${ratchetState.sendMessageNumber}`);
-      const rotatedState = await SignalCrypto.rotateKeys(ratchetState, this.config.messageInterval);
+      const rotatedState = await SignalCrypto.rotateKeys(ratchetState);
       await browserStorage.storeRatchetState(address, rotatedState);
       return rotatedState;
     }
@@ -172,6 +184,66 @@ export class KeyRotationService {
     console.log(`🧹 Started global cleanup timer (interval: ${this.config.cleanupInterval}ms)`);
   }
 
+  /**
+   * Start signed prekey rotation. Rotates right away if the current signed
+   * prekey is missing, older than the interval or not the one the server
+   * hands out for this device, then checks once an hour.
+   */
+  async startSignedPreKeyRotation(identity: IdentityKeys, authToken: string): Promise<void> {
+    this.stopSignedPreKeyRotation();
+
+    const check = async () => {
+      try {
+        const current = await preKeyStore.getCurrentSignedPreKey();
+        const published = await getSignedPreKey(authToken);
+        if (
+          !current ||
+          published?.publicKey !== current.publicKey ||
+          Date.now() - current.createdAt >= this.config.signedPreKeyInterval
+        ) {
+          await this.rotateSignedPreKey(identity, authToken);
+        }
+        await preKeyStore.removeExpiredSignedPreKeys(this.config.signedPreKeyGracePeriod);
+      } catch (error) {
+        console.error('Signed prekey rotation failed:', error);
+      }
+    };
+
+    await check();
+    this.signedPreKeyTimer = setInterval(check, Math.min(this.config.signedPreKeyInterval, 60 * 60 * 1000));
+    console.log(`Started signed prekey rotation (interval: ${this.config.signedPreKeyInterval}ms)`);
+  }
+
+  stopSignedPreKeyRotation(): void {
+    if (this.signedPreKeyTimer) {
+      clearInterval(this.signedPreKeyTimer);
+      this.signedPreKeyTimer = null;
+    }
+  }
+
+  /**
+   * Generate, sign and publish a new signed prekey. The private key is only
+   * stored once the server accepted the signature.
+   */
+  async rotateSignedPreKey(identity: IdentityKeys, authToken: string): Promise<number> {
+    const keyId = await preKeyStore.nextSignedPreKeyId();
+    const preKey = await SignalCrypto.createPreKey();
+    const signature = await SignalCrypto.signPreKey(preKey, identity);
+
+    await rotateSignedPreKey({ keyId, publicKey: preKey.publicKey, signature }, authToken);
+
+    await preKeyStore.storeSignedPreKey({
+      keyId,
+      publicKey: preKey.publicKey,
+      privateKey: preKey.privateKey,
+      signature,
+      createdAt: Date.now()
+    });
+
+    console.log(`Rotated signed prekey to keyId ${keyId}`);
+    return keyId;
+  }
+
   /**
    * Get rotation status for a conversation
    */
@@ -226,6 +298,7 @@ export class KeyRotationService {
    */
   shutdown(): void {
     this.stopAllRotations();
+    this.stopSignedPreKeyRotation();
     console.log('Key rotation service shutdown complete');
   }
 }
@@ -0,0 +1,52 @@
+import sodium from 'libsodium-wrappers';
+import { expect, test } from '@playwright/test';
+import type { RatchetState } from '@secure-messenger/shared';
+import { PerfectForwardSecrecy } from './perfectForwardSecrecy';
+
+test.describe('Double Ratchet', () => {
+  let alice: RatchetState;
+  let bob: RatchetState;
+
+  test.beforeEach(async () => {
+    await sodium.ready;
+    const sessionKey = sodium.randombytes_buf(32);
+    const signedPreKey = sodium.crypto_box_keypair();
+    alice = await PerfectForwardSecrecy.initializeRatchet(sessionKey, true, { publicKey: signedPreKey.publicKey });
+    bob = await PerfectForwardSecrecy.initializeRatchet(sessionKey, false, signedPreKey);
+  });
+
+  test('exchanges messages in both directions', async () => {
+    for (let round = 0; round < 3; round++) {
+      const fromAlice = await PerfectForwardSecrecy.encryptWithPFS(`alice ${round}`, alice);
+      alice = fromAlice.newRatchetState;
+      const receivedByBob = await PerfectForwardSecrecy.decryptWithPFS(fromAlice.cipherPacket, bob);
+      bob = receivedByBob.newRatchetState;
+      expect(receivedByBob.message).toBe(`alice ${round}`);
+
+      const fromBob = await PerfectForwardSecrecy.encryptWithPFS(`bob ${round}`, bob);
+      bob = fromBob.newRatchetState;
+      const receivedByAlice = await PerfectForwardSecrecy.decryptWithPFS(fromBob.cipherPacket, alice);
+      alice = receivedByAlice.newRatchetState;
+      expect(receivedByAlice.message).toBe(`bob ${round}`);
+    }
+  });
+
+  test('lets the responder send first', async () => {
+    const fromBob = await PerfectForwardSecrecy.encryptWithPFS('hi first', bob);
+    bob = fromBob.newRatchetState;
+    const received = await PerfectForwardSecrecy.decryptWithPFS(fromBob.cipherPacket, alice);
+    expect(received.message).toBe('hi first');
+    alice = received.newRatchetState;
+
+    const fromAlice = await PerfectForwardSecrecy.encryptWithPFS('hi back', alice);
+    const reply = await PerfectForwardSecrecy.decryptWithPFS(fromAlice.cipherPacket, bob);
+    expect(reply.message).toBe('hi back');
+  });
+
+  test('rejects replayed messages', async () => {
+    const sent = await PerfectForwardSecrecy.encryptWithPFS('once', alice);
+    bob = (await PerfectForwardSecrecy.decryptWithPFS(sent.cipherPacket, bob)).newRatchetState;
+
+    await expect(PerfectForwardSecrecy.decryptWithPFS(sent.cipherPacket, bob)).rejects.toThrow();
+  });
+});
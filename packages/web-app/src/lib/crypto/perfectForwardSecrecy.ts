@@ -1,56 +1,116 @@
 import sodium from 'libsodium-wrappers';
-import type { RatchetState, EphemeralKeys } from '@secure-messenger/shared';
+import type { RatchetState, RatchetKeyPair, EphemeralKeys } from '@secure-messenger/shared';
 
 const CHAIN_KEY_CONSTANT = new Uint8Array([0x02]);
 const MESSAGE_KEY_CONSTANT = new Uint8Array([0x01]);
 const ROOT_KEY_CONTEXT = 'PFSROOT0';
 
+// Default for RotationConfig.maxSkippedKeys
+export const DEFAULT_MAX_SKIPPED_KEYS = 50;
+
+export interface RatchetHeader {
+  ratchetKey: string; // Sender's current ratchet public key (base64)
+  previousChainLength: number; // Messages the sender sent in its previous sending chain
+  messageNumber: number; // Position in the current sending chain
+}
+
+export interface RatchetCipherPacket extends RatchetHeader {
+  c: string; // ciphertext (base64 urlsafe no padding)
+  n: string; // nonce (base64 urlsafe no padding)
+}
+
+/**
+ * Double Ratchet (Signal specification): every reply carries a fresh X25519
+ * ratchet key, and each DH ratchet step mixes a new shared secret into the
+ * root key, so a leaked chain key stops exposing messages once the other
+ * party answers.
+ */
 export class PerfectForwardSecrecy {
   static async initialize(): Promise<void> {
     await sodium.ready;
   }
 
-  static async initializeRatchet(sessionKey: Uint8Array): Promise<RatchetState> {
+  /**
+   * The responder's signed prekey from X3DH is its first ratchet key pair, as
+   * in the Signal specification. The initiator, which only has the public
+   * half, immediately ratchets against it; the responder sends on the shared
+   * initial chain until the initiator's first ratchet key arrives, so either
+   * side can send first.
+   */
+  static async initializeRatchet(
+    sessionKey: Uint8Array,
+    isInitiator: boolean,
+    signedPreKey: { publicKey: Uint8Array; privateKey?: Uint8Array }
+  ): Promise<RatchetState> {
     await sodium.ready;
-    
+
     const rootKey = sodium.crypto_kdf_derive_from_key(
       32,
       1,
       ROOT_KEY_CONTEXT,
       sessionKey
     );
-    
-    const sendingChainKey = sodium.crypto_kdf_derive_from_key(
-      32,
-      2,
-      ROOT_KEY_CONTEXT,
-      sessionKey
-    );
-    
-    const receivingChainKey = sodium.crypto_kdf_derive_from_key(
+
+    const responderChainKey = sodium.crypto_kdf_derive_from_key(
       32,
       3,
       ROOT_KEY_CONTEXT,
       sessionKey
     );
 
-    return {
+    if (!isInitiator) {
+      if (!signedPreKey.privateKey) {
+        throw new Error('Responder needs the private half of its signed prekey');
+      }
+
+      return {
+        rootKey,
+        sendingChainKey: responderChainKey,
+        receivingChainKey: new Uint8Array(0),
+        sendMessageNumber: 0,
+        receiveMessageNumber: 0,
+        previousSendingChainLength: 0,
+        // Copied, since ratchet keys are wiped with the state but the signed prekey stays in use
+        sendingRatchetKey: this.toRatchetKeyPair({
+          publicKey: signedPreKey.publicKey.slice(),
+          privateKey: signedPreKey.privateKey.slice()
+        }),
+        receivingRatchetKey: null,
+        skippedKeys: new Map<string, Uint8Array>()
+      };
+    }
+
+    const sendingRatchetKey = this.toRatchetKeyPair(sodium.crypto_box_keypair());
+    const sendingStep = this.kdfRootKey(
       rootKey,
-      sendingChainKey,
-      receivingChainKey,
+      sodium.crypto_scalarmult(sendingRatchetKey.privateKey, signedPreKey.publicKey)
+    );
+
+    this.zeroizeKey(rootKey);
+
+    return {
+      rootKey: sendingStep.rootKey,
+      sendingChainKey: sendingStep.chainKey,
+      receivingChainKey: responderChainKey,
       sendMessageNumber: 0,
       receiveMessageNumber: 0,
       previousSendingChainLength: 0,
-      skippedKeys: new Map<number, Uint8Array>()
+      sendingRatchetKey,
+      receivingRatchetKey: this.encodeKey(signedPreKey.publicKey),
+      skippedKeys: new Map<string, Uint8Array>()
     };
   }
 
   static async deriveMessageKeys(chainKey: Uint8Array): Promise<EphemeralKeys> {
     await sodium.ready;
-    
+
+    if (chainKey.length === 0) {
+      throw new Error('Chain key not established yet');
+    }
+
     const messageKey = sodium.crypto_auth(MESSAGE_KEY_CONSTANT, chainKey);
     const nextChainKey = sodium.crypto_auth(CHAIN_KEY_CONSTANT, chainKey);
-    
+
     return {
       messageKey: messageKey.slice(0, 32),
       nextChainKey: nextChainKey.slice(0, 32)
@@ -59,7 +119,7 @@ export class PerfectForwardSecrecy {
 
   static async advanceChain(ratchetState: RatchetState): Promise<RatchetState> {
     const { messageKey, nextChainKey } = await this.deriveMessageKeys(ratchetState.sendingChainKey);
-    
+
     const newState: RatchetState = {
       ...ratchetState,
       sendingChainKey: nextChainKey,
@@ -67,152 +127,269 @@ export class PerfectForwardSecrecy {
     };
 
     this.zeroizeKey(messageKey);
-    
+
     return newState;
   }
 
-  static async rotateKeys(ratchetState: RatchetState, interval: number = 100): Promise<RatchetState> {
-    if (ratchetState.sendMessageNumber % interval === 0 && ratchetState.sendMessageNumber > 0) {
-      const newRootKey = sodium.crypto_kdf_derive_from_key(
-        32,
-        ratchetState.sendMessageNumber,
-        ROOT_KEY_CONTEXT,
-        ratchetState.rootKey
-      );
-      
-      const newSendingChainKey = sodium.crypto_kdf_derive_from_key(
-        32,
-        1,
-        ROOT_KEY_CONTEXT,
-        newRootKey
-      );
-      
-      const newReceivingChainKey = sodium.crypto_kdf_derive_from_key(
-        32,
-        2,
-        ROOT_KEY_CONTEXT,
-        newRootKey
-      );
-
-      this.zeroizeKey(ratchetState.rootKey);
-      this.zeroizeKey(ratchetState.sendingChainKey);
-      this.zeroizeKey(ratchetState.receivingChainKey);
-
-      return {
-        ...ratchetState,
-        rootKey: newRootKey,
-        sendingChainKey: newSendingChainKey,
-        receivingChainKey: newReceivingChainKey,
-        previousSendingChainLength: ratchetState.sendMessageNumber
-      };
-    }
-    
+  /**
+   * Kept for the rotation schedule. Fresh key material now comes from the DH
+   * ratchet step on every reply; re-deriving the chains on one side alone
+   * would leave the other party unable to decrypt.
+   */
+  static async rotateKeys(ratchetState: RatchetState): Promise<RatchetState> {
     return ratchetState;
   }
 
   static async encryptWithPFS(
     message: string,
     ratchetState: RatchetState
-  ): Promise<{ cipherPacket: any; newRatchetState: RatchetState }> {
+  ): Promise<{ cipherPacket: RatchetCipherPacket; newRatchetState: RatchetState }> {
     await sodium.ready;
-    
+
     const { messageKey, nextChainKey } = await this.deriveMessageKeys(ratchetState.sendingChainKey);
-    
-    const nonce = sodium.randombytes_buf(sodium.crypto_secretbox_NONCEBYTES);
+
+    const header: RatchetHeader = {
+      ratchetKey: this.encodeKey(ratchetState.sendingRatchetKey.publicKey),
+      previousChainLength: ratchetState.previousSendingChainLength,
+      messageNumber: ratchetState.sendMessageNumber
+    };
+
+    // The header is authenticated so it cannot be swapped onto another message
+    const nonce = sodium.randombytes_buf(sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
     const messageBytes = sodium.from_string(message);
-    const ciphertext = sodium.crypto_secretbox_easy(messageBytes, nonce, messageKey);
-    
-    const cipherPacket = {
+    const ciphertext = sodium.crypto_aead_xchacha20poly1305_ietf_encrypt(
+      messageBytes,
+      this.encodeHeader(header),
+      null,
+      nonce,
+      messageKey
+    );
+
+    const cipherPacket: RatchetCipherPacket = {
       c: sodium.to_base64(ciphertext, sodium.base64_variants.URLSAFE_NO_PADDING),
       n: sodium.to_base64(nonce, sodium.base64_variants.URLSAFE_NO_PADDING),
-      messageNumber: ratchetState.sendMessageNumber,
-      previousChainLength: ratchetState.previousSendingChainLength
+      ...header
     };
-    
+
     const newRatchetState: RatchetState = {
       ...ratchetState,
       sendingChainKey: nextChainKey,
       sendMessageNumber: ratchetState.sendMessageNumber + 1
     };
-    
+
     this.zeroizeKey(messageKey);
-    
-    const rotatedState = await this.rotateKeys(newRatchetState);
-    
-    return { cipherPacket, newRatchetState: rotatedState };
+
+    return { cipherPacket, newRatchetState };
   }
 
+  /**
+   * Decrypt a message and advance the ratchet. The given state is left
+   * untouched, so a message that fails to decrypt cannot corrupt the session.
+   */
   static async decryptWithPFS(
-    cipherPacket: any,
-    ratchetState: RatchetState
+    cipherPacket: RatchetCipherPacket,
+    ratchetState: RatchetState,
+    maxSkippedKeys: number = DEFAULT_MAX_SKIPPED_KEYS
   ): Promise<{ message: string; newRatchetState: RatchetState }> {
     await sodium.ready;
-    
-    const messageNumber = cipherPacket.messageNumber || 0;
-    const expectedNumber = ratchetState.receiveMessageNumber;
-    
-    if (messageNumber < expectedNumber) {
-      const skippedKey = ratchetState.skippedKeys.get(messageNumber);
-      if (!skippedKey) {
-        throw new Error('Message key not found for out-of-order message');
-      }
-      
-      const message = await this.decryptMessage(cipherPacket, skippedKey);
-      ratchetState.skippedKeys.delete(messageNumber);
-      
-      return { message, newRatchetState: ratchetState };
+
+    if (!cipherPacket.ratchetKey) {
+      throw new Error('Message has no ratchet key');
     }
-    
-    let currentChainKey = ratchetState.receivingChainKey;
-    let currentMessageNumber = ratchetState.receiveMessageNumber;
-    
-    while (currentMessageNumber < messageNumber) {
-      const { messageKey, nextChainKey } = await this.deriveMessageKeys(currentChainKey);
-      
-      if (currentMessageNumber < messageNumber) {
-        ratchetState.skippedKeys.set(currentMessageNumber, messageKey);
-      }
-      
-      currentChainKey = nextChainKey;
-      currentMessageNumber++;
+
+    const header: RatchetHeader = {
+      ratchetKey: cipherPacket.ratchetKey,
+      previousChainLength: cipherPacket.previousChainLength || 0,
+      messageNumber: cipherPacket.messageNumber || 0
+    };
+
+    let state: RatchetState = {
+      ...ratchetState,
+      skippedKeys: new Map(
+        Array.from(ratchetState.skippedKeys.entries()).map(([id, key]) => [id, key.slice()])
+      )
+    };
+
+    const skippedId = this.skippedKeyId(header.ratchetKey, header.messageNumber);
+    const skippedKey = state.skippedKeys.get(skippedId);
+    if (skippedKey) {
+      const message = await this.decryptMessage(cipherPacket, header, skippedKey);
+      this.zeroizeKey(skippedKey);
+      state.skippedKeys.delete(skippedId);
+
+      return { message, newRatchetState: state };
+    }
+
+    if (header.ratchetKey !== state.receivingRatchetKey) {
+      state = await this.skipMessageKeys(state, header.previousChainLength, maxSkippedKeys);
+      state = this.dhRatchet(state, header.ratchetKey);
+    } else if (header.messageNumber < state.receiveMessageNumber) {
+      throw new Error('Message key not found for out-of-order message');
     }
-    
-    const { messageKey, nextChainKey } = await this.deriveMessageKeys(currentChainKey);
-    const message = await this.decryptMessage(cipherPacket, messageKey);
-    
+
+    state = await this.skipMessageKeys(state, header.messageNumber, maxSkippedKeys);
+
+    const { messageKey, nextChainKey } = await this.deriveMessageKeys(state.receivingChainKey);
+    const message = await this.decryptMessage(cipherPacket, header, messageKey);
+
     const newRatchetState: RatchetState = {
-      ...ratchetState,
+      ...state,
       receivingChainKey: nextChainKey,
-      receiveMessageNumber: currentMessageNumber + 1
+      receiveMessageNumber: header.messageNumber + 1
     };
-    
+
     this.zeroizeKey(messageKey);
-    
+
     return { message, newRatchetState };
   }
 
-  private static async decryptMessage(cipherPacket: any, messageKey: Uint8Array): Promise<string> {
+  private static async decryptMessage(
+    cipherPacket: RatchetCipherPacket,
+    header: RatchetHeader,
+    messageKey: Uint8Array
+  ): Promise<string> {
     const ciphertext = sodium.from_base64(cipherPacket.c, sodium.base64_variants.URLSAFE_NO_PADDING);
     const nonce = sodium.from_base64(cipherPacket.n, sodium.base64_variants.URLSAFE_NO_PADDING);
-    
-    const decryptedBytes = sodium.crypto_secretbox_open_easy(ciphertext, nonce, messageKey);
+
+    const decryptedBytes = sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
+      null,
+      ciphertext,
+      this.encodeHeader(header),
+      nonce,
+      messageKey
+    );
     return sodium.to_string(decryptedBytes);
   }
 
-  static cleanupOldKeys(ratchetState: RatchetState, maxAge: number = 50): RatchetState {
-    const currentNumber = ratchetState.receiveMessageNumber;
-    const cutoff = currentNumber - maxAge;
-    
-    for (const [messageNumber] of ratchetState.skippedKeys) {
-      if (messageNumber < cutoff) {
-        const key = ratchetState.skippedKeys.get(messageNumber);
-        if (key) {
-          this.zeroizeKey(key);
-          ratchetState.skippedKeys.delete(messageNumber);
-        }
+  /**
+   * Store the keys of messages in the current receiving chain that have not
+   * arrived yet, up to (excluding) the given message number
+   */
+  private static async skipMessageKeys(
+    ratchetState: RatchetState,
+    until: number,
+    maxSkippedKeys: number
+  ): Promise<RatchetState> {
+    if (ratchetState.receivingChainKey.length === 0 || !ratchetState.receivingRatchetKey) {
+      return ratchetState;
+    }
+
+    if (until - ratchetState.receiveMessageNumber > maxSkippedKeys) {
+      throw new Error('Too many skipped messages');
+    }
+
+    let chainKey = ratchetState.receivingChainKey;
+    let messageNumber = ratchetState.receiveMessageNumber;
+
+    while (messageNumber < until) {
+      const { messageKey, nextChainKey } = await this.deriveMessageKeys(chainKey);
+      ratchetState.skippedKeys.set(this.skippedKeyId(ratchetState.receivingRatchetKey, messageNumber), messageKey);
+      chainKey = nextChainKey;
+      messageNumber++;
+    }
+
+    return this.cleanupOldKeys(
+      {
+        ...ratchetState,
+        receivingChainKey: chainKey,
+        receiveMessageNumber: messageNumber
+      },
+      maxSkippedKeys
+    );
+  }
+
+  /**
+   * Start new receiving and sending chains for the other party's new
+   * ratchet key, with a fresh ratchet key pair of our own
+   */
+  private static dhRatchet(ratchetState: RatchetState, remoteRatchetKey: string): RatchetState {
+    const remotePublicKey = this.decodeKey(remoteRatchetKey);
+
+    const receivingStep = this.kdfRootKey(
+      ratchetState.rootKey,
+      sodium.crypto_scalarmult(ratchetState.sendingRatchetKey.privateKey, remotePublicKey)
+    );
+
+    const sendingRatchetKey = this.toRatchetKeyPair(sodium.crypto_box_keypair());
+    const sendingStep = this.kdfRootKey(
+      receivingStep.rootKey,
+      sodium.crypto_scalarmult(sendingRatchetKey.privateKey, remotePublicKey)
+    );
+
+    this.zeroizeKey(receivingStep.rootKey);
+
+    return {
+      ...ratchetState,
+      rootKey: sendingStep.rootKey,
+      sendingChainKey: sendingStep.chainKey,
+      receivingChainKey: receivingStep.chainKey,
+      previousSendingChainLength: ratchetState.sendMessageNumber,
+      sendMessageNumber: 0,
+      receiveMessageNumber: 0,
+      sendingRatchetKey,
+      receivingRatchetKey: remoteRatchetKey
+    };
+  }
+
+  /**
+   * KDF_RK: BLAKE2b keyed with the root key over the DH output, split into
+   * the next root key and a chain key
+   */
+  private static kdfRootKey(
+    rootKey: Uint8Array,
+    dhOutput: Uint8Array
+  ): { rootKey: Uint8Array; chainKey: Uint8Array } {
+    const output = sodium.crypto_generichash(64, dhOutput, rootKey);
+    const keys = {
+      rootKey: output.slice(0, 32),
+      chainKey: output.slice(32, 64)
+    };
+
+    this.zeroizeKey(output);
+    this.zeroizeKey(dhOutput);
+
+    return keys;
+  }
+
+  private static encodeHeader(header: RatchetHeader): Uint8Array {
+    return sodium.from_string(`${header.ratchetKey}.${header.previousChainLength}.${header.messageNumber}`);
+  }
+
+  private static skippedKeyId(ratchetKey: string, messageNumber: number): string {
+    return `${ratchetKey}:${messageNumber}`;
+  }
+
+  private static toRatchetKeyPair(keyPair: { publicKey: Uint8Array; privateKey: Uint8Array }): RatchetKeyPair {
+    return { publicKey: keyPair.publicKey, privateKey: keyPair.privateKey };
+  }
+
+  private static encodeKey(key: Uint8Array): string {
+    return sodium.to_base64(key, sodium.base64_variants.URLSAFE_NO_PADDING);
+  }
+
+  private static decodeKey(key: string): Uint8Array {
+    return sodium.from_base64(key, sodium.base64_variants.URLSAFE_NO_PADDING);
+  }
+
+  /**
+   * Drop the oldest skipped message keys beyond the limit
+   */
+  static cleanupOldKeys(ratchetState: RatchetState, maxSkippedKeys: number = DEFAULT_MAX_SKIPPED_KEYS): RatchetState {
+    const excess = ratchetState.skippedKeys.size - maxSkippedKeys;
+    if (excess <= 0) {
+      return ratchetState;
+    }
+
+    // Map iteration follows insertion order, so the first entries are the oldest
+    const oldest = Array.from(ratchetState.skippedKeys.keys()).slice(0, excess);
+    for (const id of oldest) {
+      const key = ratchetState.skippedKeys.get(id);
+      if (key) {
+        this.zeroizeKey(key);
       }
+      ratchetState.skippedKeys.delete(id);
     }
-    
+
     return ratchetState;
   }
 
@@ -226,10 +403,11 @@ export class PerfectForwardSecrecy {
     this.zeroizeKey(ratchetState.rootKey);
     this.zeroizeKey(ratchetState.sendingChainKey);
     this.zeroizeKey(ratchetState.receivingChainKey);
-    
+    this.zeroizeKey(ratchetState.sendingRatchetKey.privateKey);
+
     for (const [, key] of ratchetState.skippedKeys) {
       this.zeroizeKey(key);
     }
     ratchetState.skippedKeys.clear();
   }
-}
\ No newline at end of file
+}
@@ -1,6 +1,6 @@
 import { browserStorage } from '../storage/browserStorage';
 import { SignalCrypto } from './signalCrypto';
-import type { Session } from './signalCrypto';
+import type { Session, PreKeyMessage } from './signalCrypto';
 import { keyRotationService } from './keyRotationService';
 import type { RatchetState, SignalMessage } from '@secure-messenger/shared';
 
@@ -11,23 +11,29 @@ interface PFSSessionData {
   lastActivity: Date;
 }
 
-interface PFSMessage extends SignalMessage {
+export interface PFSMessage extends SignalMessage {
   messageNumber: number;
   previousChainLength: number;
+  preKey?: PreKeyMessage; // X3DH setup of a session the recipient has not confirmed yet
 }
 
 export class PFSIntegration {
   private static sessions: Map<string, PFSSessionData> = new Map();
 
   /**
-   * Initialize PFS for a given contact address
+   * Initialize PFS for a given contact address. A session we accepted also
+   * needs the signed prekey it was accepted on.
    */
-  static async initializePFS(address: string, session: Session): Promise<void> {
+  static async initializePFS(
+    address: string,
+    session: Session,
+    ourSignedPreKey?: { publicKey: string; privateKey: string }
+  ): Promise<void> {
     try {
       console.log(`Initializing PFS for ${address}`);
       
       // Create ratchet state from session keys
-      const ratchetState = await SignalCrypto.initializeRatchet(session);
+      const ratchetState = await SignalCrypto.initializeRatchet(session, ourSignedPreKey);
       
       // Store ratchet state
       await browserStorage.storeRatchetState(address, ratchetState);
@@ -138,7 +144,11 @@ export class PFSIntegration {
       cipherPacket.previousChainLength = pfsMessage.previousChainLength;
       
       // Decrypt with PFS
-      const result = await SignalCrypto.decryptWithPFS(cipherPacket, sessionData.ratchetState);
+      const result = await SignalCrypto.decryptWithPFS(
+        cipherPacket,
+        sessionData.ratchetState,
+        keyRotationService.getConfig().maxSkippedKeys
+      );
       
       // Update session data
       sessionData.ratchetState = result.newRatchetState;
@@ -0,0 +1,191 @@
+import { SignalCrypto } from './signalCrypto';
+import { browserStorage } from '../storage/browserStorage';
+import { uploadPreKeys } from '../api/keysApi';
+
+const PREKEY_PREFIX = 'prekey_';
+const PREKEY_INDEX_KEY = 'prekey_index';
+const NEXT_PREKEY_ID_KEY = 'prekey_next_id';
+const SIGNED_PREKEY_PREFIX = 'signed_prekey_';
+const SIGNED_PREKEY_INDEX_KEY = 'signed_prekey_index';
+
+export const DEFAULT_PREKEY_BATCH_SIZE = 50;
+
+// A claimed prekey is kept as long as the server keeps undelivered messages,
+// since the prekey message that uses it may still be queued
+const CLAIMED_PREKEY_RETENTION = 30 * 24 * 60 * 60 * 1000;
+
+// Signal limits prekey ids to 24 bits
+const MAX_PREKEY_ID = 0xffffff;
+
+interface StoredPreKey {
+  keyId: number;
+  publicKey: string;
+  privateKey: string;
+  createdAt: number;
+}
+
+interface StoredOneTimePreKey extends StoredPreKey {
+  claimedAt?: number; // when we first saw the server no longer holds it unused
+}
+
+export interface StoredSignedPreKey extends StoredPreKey {
+  signature: string;
+  supersededAt?: number;
+}
+
+/**
+ * Keeps the private halves of our one-time and signed prekeys in IndexedDB.
+ * Only the public halves are uploaded; the server marks each one-time prekey
+ * used when it hands it out in a PreKey bundle.
+ */
+class PreKeyStore {
+  private async nextKeyId(): Promise<number> {
+    const stored = await browserStorage.getItem(NEXT_PREKEY_ID_KEY);
+    if (typeof stored === 'number') {
+      return stored;
+    }
+    // Random start so a wiped device does not reuse ids still known to the server
+    return Math.floor(Math.random() * (MAX_PREKEY_ID / 2)) + 1;
+  }
+
+  /**
+   * Generates `count` prekeys, persists the private keys and returns the public parts.
+   */
+  async generatePreKeys(count: number = DEFAULT_PREKEY_BATCH_SIZE): Promise<{ keyId: number; publicKey: string }[]> {
+    let keyId = await this.nextKeyId();
+    const generated: { keyId: number; publicKey: string }[] = [];
+    const index: number[] = (await browserStorage.getItem(PREKEY_INDEX_KEY)) || [];
+
+    for (let i = 0; i < count; i++) {
+      const keyPair = await SignalCrypto.createPreKey();
+      const record: StoredOneTimePreKey = {
+        keyId,
+        publicKey: keyPair.publicKey,
+        privateKey: keyPair.privateKey,
+        createdAt: Date.now()
+      };
+      await browserStorage.setItem(`${PREKEY_PREFIX}${keyId}`, record);
+      generated.push({ keyId, publicKey: keyPair.publicKey });
+      keyId = keyId >= MAX_PREKEY_ID ? 1 : keyId + 1;
+    }
+
+    await browserStorage.setItem(PREKEY_INDEX_KEY, [...index, ...generated.map((p) => p.keyId)]);
+    await browserStorage.setItem(NEXT_PREKEY_ID_KEY, keyId);
+    return generated;
+  }
+
+  async getPreKey(keyId: number): Promise<StoredOneTimePreKey | null> {
+    return browserStorage.getItem(`${PREKEY_PREFIX}${keyId}`);
+  }
+
+  /**
+   * One-time prekeys must be discarded once a session was built from them.
+   */
+  async removePreKey(keyId: number): Promise<void> {
+    const index: number[] = (await browserStorage.getItem(PREKEY_INDEX_KEY)) || [];
+    await browserStorage.removeItem(`${PREKEY_PREFIX}${keyId}`);
+    await browserStorage.setItem(PREKEY_INDEX_KEY, index.filter((id) => id !== keyId));
+  }
+
+  /**
+   * Drops one-time prekeys the server handed out but no session was built
+   * from. `unusedKeyIds` are the ones the server still holds; the others are
+   * marked claimed and removed once no prekey message can arrive for them.
+   */
+  async pruneClaimedPreKeys(unusedKeyIds: number[], retention: number = CLAIMED_PREKEY_RETENTION): Promise<void> {
+    const index: number[] = (await browserStorage.getItem(PREKEY_INDEX_KEY)) || [];
+    const unused = new Set(unusedKeyIds);
+    const kept: number[] = [];
+
+    for (const keyId of index) {
+      const preKey = await this.getPreKey(keyId);
+      if (!preKey) {
+        continue;
+      }
+
+      if (unused.has(keyId)) {
+        // Marked while an upload was still in flight
+        if (preKey.claimedAt) {
+          await browserStorage.setItem(`${PREKEY_PREFIX}${keyId}`, { ...preKey, claimedAt: undefined });
+        }
+        kept.push(keyId);
+      } else if (!preKey.claimedAt) {
+        await browserStorage.setItem(`${PREKEY_PREFIX}${keyId}`, { ...preKey, claimedAt: Date.now() });
+        kept.push(keyId);
+      } else if (Date.now() - preKey.claimedAt > retention) {
+        await browserStorage.removeItem(`${PREKEY_PREFIX}${keyId}`);
+      } else {
+        kept.push(keyId);
+      }
+    }
+
+    await browserStorage.setItem(PREKEY_INDEX_KEY, kept);
+  }
+
+  /**
+   * Signed prekeys are kept by id; the newest entry in the index is the active one.
+   * Older entries are marked superseded and dropped once their grace window ends.
+   */
+  async storeSignedPreKey(preKey: StoredSignedPreKey): Promise<void> {
+    const index: number[] = (await browserStorage.getItem(SIGNED_PREKEY_INDEX_KEY)) || [];
+    const previousId = index[index.length - 1];
+
+    if (previousId !== undefined) {
+      const previous = await this.getSignedPreKey(previousId);
+      if (previous) {
+        await browserStorage.setItem(`${SIGNED_PREKEY_PREFIX}${previousId}`, { ...previous, supersededAt: Date.now() });
+      }
+    }
+
+    await browserStorage.setItem(`${SIGNED_PREKEY_PREFIX}${preKey.keyId}`, preKey);
+    await browserStorage.setItem(SIGNED_PREKEY_INDEX_KEY, [...index, preKey.keyId]);
+  }
+
+  async getSignedPreKey(keyId: number): Promise<StoredSignedPreKey | null> {
+    return browserStorage.getItem(`${SIGNED_PREKEY_PREFIX}${keyId}`);
+  }
+
+  async getCurrentSignedPreKey(): Promise<StoredSignedPreKey | null> {
+    const index: number[] = (await browserStorage.getItem(SIGNED_PREKEY_INDEX_KEY)) || [];
+    if (index.length === 0) {
+      return null;
+    }
+    return this.getSignedPreKey(index[index.length - 1]);
+  }
+
+  async nextSignedPreKeyId(): Promise<number> {
+    const current = await this.getCurrentSignedPreKey();
+    return current ? (current.keyId % MAX_PREKEY_ID) + 1 : Math.floor(Math.random() * (MAX_PREKEY_ID / 2)) + 1;
+  }
+
+  /**
+   * Drops superseded signed prekeys whose grace window has passed.
+   */
+  async removeExpiredSignedPreKeys(gracePeriod: number): Promise<void> {
+    const index: number[] = (await browserStorage.getItem(SIGNED_PREKEY_INDEX_KEY)) || [];
+    const kept: number[] = [];
+
+    for (const keyId of index) {
+      const preKey = await this.getSignedPreKey(keyId);
+      if (preKey?.supersededAt && Date.now() - preKey.supersededAt > gracePeriod) {
+        await browserStorage.removeItem(`${SIGNED_PREKEY_PREFIX}${keyId}`);
+      } else if (preKey) {
+        kept.push(keyId);
+      }
+    }
+
+    await browserStorage.setItem(SIGNED_PREKEY_INDEX_KEY, kept);
+  }
+
+  /**
+   * Generates a batch and uploads it. With `replace` the server drops this
+   * device's unused prekeys first, which is needed whenever local private
+   * keys might have been lost.
+   */
+  async generateAndUpload(authToken: string, count: number = DEFAULT_PREKEY_BATCH_SIZE, replace: boolean = false): Promise<number> {
+    const preKeys = await this.generatePreKeys(count);
+    return uploadPreKeys(preKeys, authToken, replace);
+  }
+}
+
+export const preKeyStore = new PreKeyStore();
@@ -0,0 +1,182 @@
+import sodium from 'libsodium-wrappers';
+import { SignalCrypto } from './signalCrypto';
+import { identityKeyStore } from './identityKeyStore';
+import { browserStorage } from '../storage/browserStorage';
+import { fetchSenderCertificate, updateDeliveryToken } from '../api/sealedSenderApi';
+import type { SignedSenderCertificate } from '../api/sealedSenderApi';
+
+// Message type of the encrypted control message that hands a contact our delivery token
+export const DELIVERY_TOKEN_MESSAGE_TYPE = 'delivery_token';
+
+const OWN_TOKEN_PREFIX = 'sealed_sender_token_';
+const CONTACT_TOKEN_PREFIX = 'delivery_token_';
+const SHARED_TOKEN_PREFIX = 'delivery_token_shared_';
+
+// Fetch a new certificate this long before the current one expires
+const CERTIFICATE_REFRESH_MARGIN_MS = 60 * 60 * 1000;
+
+interface User {
+  handle: string;
+  publicKey: string;
+  privateKey: string;
+  sessionToken: string;
+}
+
+interface SenderCertificate {
+  handle: string;
+  deviceId: string;
+  identityKey: string;
+  expiresAt: number;
+}
+
+/**
+ * What the server would otherwise see of a message: its type, the session
+ * ciphertext and, on copies for our own other devices, the contact it went to
+ */
+export interface SealedContent {
+  messageType: string;
+  encryptedData: string;
+  pfsMessage: boolean;
+  destination?: string;
+}
+
+export interface OpenedEnvelope extends SealedContent {
+  senderHandle: string;
+  senderDeviceId: string;
+}
+
+interface EnvelopeContent extends SealedContent {
+  certificate: string;
+  signature: string;
+}
+
+/**
+ * Sealed sender: messages to contacts that gave us their delivery token are
+ * sent without authentication, and the sender's certificate travels inside
+ * an envelope only the recipient can open. The server authorises delivery
+ * by the token and never learns who sent the message.
+ */
+class SealedSender {
+  private certificates = new Map<string, SignedSenderCertificate>(); // our handle -> certificate
+
+  /**
+   * Our delivery token, created and registered with the server on first use
+   */
+  async getOwnDeliveryToken(user: User): Promise<string> {
+    const stored: string | null = await browserStorage.getItem(`${OWN_TOKEN_PREFIX}${user.handle}`);
+    if (stored) {
+      return stored;
+    }
+
+    await sodium.ready;
+    const token = sodium.to_base64(sodium.randombytes_buf(32));
+    await updateDeliveryToken(token, user.sessionToken);
+    await browserStorage.setItem(`${OWN_TOKEN_PREFIX}${user.handle}`, token);
+    return token;
+  }
+
+  /**
+   * Whether a contact still needs our current token
+   */
+  async needsTokenShare(handle: string, token: string): Promise<boolean> {
+    return (await browserStorage.getItem(`${SHARED_TOKEN_PREFIX}${handle}`)) !== token;
+  }
+
+  async markTokenShared(handle: string, token: string): Promise<void> {
+    await browserStorage.setItem(`${SHARED_TOKEN_PREFIX}${handle}`, token);
+  }
+
+  async getContactToken(handle: string): Promise<string | null> {
+    return browserStorage.getItem(`${CONTACT_TOKEN_PREFIX}${handle}`);
+  }
+
+  async storeContactToken(handle: string, token: string): Promise<void> {
+    await browserStorage.setItem(`${CONTACT_TOKEN_PREFIX}${handle}`, token);
+  }
+
+  /**
+   * The contact replaced their token; send normally until they share the new one
+   */
+  async removeContactToken(handle: string): Promise<void> {
+    await browserStorage.removeItem(`${CONTACT_TOKEN_PREFIX}${handle}`);
+  }
+
+  /**
+   * Seal a message for one device of a contact: certificate and the content
+   * encrypted for that device, encrypted to the contact's identity key
+   */
+  async seal(user: User, recipientIdentityKey: string, content: SealedContent): Promise<string> {
+    const { certificate, signature } = await this.getCertificate(user);
+    const envelope: EnvelopeContent = { ...content, certificate, signature };
+    return SignalCrypto.sealToIdentity(JSON.stringify(envelope), recipientIdentityKey);
+  }
+
+  /**
+   * Open a sealed message and check its sender certificate. The certified
+   * identity key is compared with the pinned one like the key of a prekey
+   * message, so a changed key blocks replies until it is verified.
+   */
+  async open(user: User, sealed: string): Promise<OpenedEnvelope> {
+    const envelope: EnvelopeContent = JSON.parse(await SignalCrypto.openSealedToIdentity(sealed, user));
+    const { serverKey } = await this.getCertificate(user);
+
+    if (!await SignalCrypto.verifySignature(envelope.certificate, envelope.signature, serverKey)) {
+      throw new Error('Sender certificate signature is invalid');
+    }
+
+    const certificate: SenderCertificate = JSON.parse(envelope.certificate);
+    if (certificate.expiresAt < Date.now()) {
+      throw new Error(`Sender certificate of ${certificate.handle} expired`);
+    }
+
+    await identityKeyStore.checkIdentityKey(certificate.handle, certificate.identityKey);
+
+    return {
+      senderHandle: certificate.handle,
+      senderDeviceId: certificate.deviceId,
+      messageType: envelope.messageType,
+      encryptedData: envelope.encryptedData,
+      pfsMessage: envelope.pfsMessage,
+      destination: envelope.destination
+    };
+  }
+
+  /**
+   * Our sender certificate, which also carries the server key that
+   * certificates of others are checked with
+   */
+  private async getCertificate(user: User): Promise<SignedSenderCertificate> {
+    const cached = this.certificates.get(user.handle);
+    const expiresAt = cached ? (JSON.parse(cached.certificate) as SenderCertificate).expiresAt : 0;
+    if (cached && expiresAt - CERTIFICATE_REFRESH_MARGIN_MS > Date.now()) {
+      return cached;
+    }
+
+    const certificate = await fetchSenderCertificate(user.sessionToken);
+    this.certificates.set(user.handle, certificate);
+    return certificate;
+  }
+}
+
+/**
+ * Plaintext of the control message that shares our delivery token
+ */
+export const encodeDeliveryToken = (deliveryToken: string): string =>
+  JSON.stringify({ type: DELIVERY_TOKEN_MESSAGE_TYPE, deliveryToken });
+
+/**
+ * Read the token from a decrypted control message, or undefined if malformed
+ */
+export const decodeDeliveryToken = (plaintext: string): string | undefined => {
+  try {
+    const parsed = JSON.parse(plaintext);
+    if (parsed?.type !== DELIVERY_TOKEN_MESSAGE_TYPE || typeof parsed.deliveryToken !== 'string') {
+      return undefined;
+    }
+    return parsed.deliveryToken;
+  } catch {
+    return undefined;
+  }
+};
+
+export const sealedSender = new SealedSender();
@@ -0,0 +1,251 @@
+import sodium from 'libsodium-wrappers';
+import { browserStorage } from '../storage/browserStorage';
+
+const OWN_SENDER_KEY_PREFIX = 'sender_key_own_';
+const RECEIVED_SENDER_KEYS_PREFIX = 'sender_keys_';
+
+// Group messages carrying a sender key distribution instead of chat content
+export const SENDER_KEY_MESSAGE_TYPE = 'sender_key';
+
+// Message keys derived ahead for out-of-order delivery, per sender key
+const MAX_SKIPPED_ITERATIONS = 1000;
+
+// Superseded keys of a sender stay around for messages that were still in flight when they re-keyed
+const MAX_KEYS_PER_SENDER = 3;
+
+/**
+ * Sent to every member device over the pairwise PFS session; it lets them
+ * decrypt our group messages until we re-key.
+ */
+export interface SenderKeyDistribution {
+  groupId: string;
+  keyId: string;
+  chainKey: string;
+  iteration: number;
+  signingKey: string;
+}
+
+/**
+ * A group message encrypted once for all members
+ */
+export interface SenderKeyPacket {
+  keyId: string;
+  iteration: number;
+  n: string;
+  c: string;
+  s: string; // Signature by the sender key's signing key
+}
+
+interface OwnSenderKey {
+  keyId: string;
+  chainKey: string;
+  iteration: number;
+  signingPublicKey: string;
+  signingPrivateKey: string;
+  members: string[]; // Device addresses the key was distributed to, sorted
+  createdAt: number;
+}
+
+interface ReceivedSenderKey {
+  keyId: string;
+  chainKey: string;
+  iteration: number;
+  signingKey: string;
+  skipped: Record<number, string>; // iteration -> message key
+}
+
+type ReceivedSenderKeys = Record<string, ReceivedSenderKey[]>; // sender device address -> keys, newest first
+
+const MESSAGE_KEY_SEED = Uint8Array.of(1);
+const CHAIN_KEY_SEED = Uint8Array.of(2);
+
+const signedBytes = (packet: Omit<SenderKeyPacket, 's'>) =>
+  sodium.from_string(`${packet.keyId}:${packet.iteration}:${packet.n}:${packet.c}`);
+
+const sameMembers = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((address, i) => address === b[i]);
+
+/**
+ * Sender keys for group messages. Each member device has its own symmetric
+ * chain per group: every message advances it, so a leaked message key does
+ * not expose earlier messages. Messages are signed so members cannot forge
+ * each other's. A key is bound to the member devices it was distributed to
+ * and is replaced as soon as they change.
+ */
+class SenderKeyStore {
+  private deriveStep(chainKey: string): { messageKey: Uint8Array; nextChainKey: string } {
+    const chainKeyBytes = sodium.from_base64(chainKey);
+    return {
+      messageKey: sodium.crypto_generichash(32, MESSAGE_KEY_SEED, chainKeyBytes),
+      nextChainKey: sodium.to_base64(sodium.crypto_generichash(32, CHAIN_KEY_SEED, chainKeyBytes))
+    };
+  }
+
+  private async getOwnKey(groupId: string): Promise<OwnSenderKey | null> {
+    return browserStorage.getItem(`${OWN_SENDER_KEY_PREFIX}${groupId}`);
+  }
+
+  private async getReceivedKeys(groupId: string): Promise<ReceivedSenderKeys> {
+    return (await browserStorage.getItem(`${RECEIVED_SENDER_KEYS_PREFIX}${groupId}`)) || {};
+  }
+
+  /**
+   * Our current key for the group, or null if there is none yet or it was
+   * distributed to a different set of member devices.
+   */
+  async getCurrentKey(groupId: string, members: string[]): Promise<OwnSenderKey | null> {
+    const ownKey = await this.getOwnKey(groupId);
+    if (!ownKey || !sameMembers(ownKey.members, [...members].sort())) {
+      return null;
+    }
+    return ownKey;
+  }
+
+  /**
+   * Create a fresh key for the group, replacing any previous one, and return
+   * the distribution message to send to `members`.
+   */
+  async createKey(groupId: string, members: string[]): Promise<SenderKeyDistribution> {
+    await sodium.ready;
+    const signingKeyPair = sodium.crypto_sign_keypair();
+    const ownKey: OwnSenderKey = {
+      keyId: sodium.to_hex(sodium.randombytes_buf(16)),
+      chainKey: sodium.to_base64(sodium.randombytes_buf(32)),
+      iteration: 0,
+      signingPublicKey: sodium.to_base64(signingKeyPair.publicKey),
+      signingPrivateKey: sodium.to_base64(signingKeyPair.privateKey),
+      members: [...members].sort(),
+      createdAt: Date.now()
+    };
+
+    await browserStorage.setItem(`${OWN_SENDER_KEY_PREFIX}${groupId}`, ownKey);
+
+    return {
+      groupId,
+      keyId: ownKey.keyId,
+      chainKey: ownKey.chainKey,
+      iteration: ownKey.iteration,
+      signingKey: ownKey.signingPublicKey
+    };
+  }
+
+  /**
+   * Encrypt a group message with our current key and advance the chain
+   */
+  async encrypt(groupId: string, plaintext: string): Promise<SenderKeyPacket> {
+    await sodium.ready;
+    const ownKey = await this.getOwnKey(groupId);
+    if (!ownKey) {
+      throw new Error(`No sender key for group ${groupId}. Create one first.`);
+    }
+
+    const { messageKey, nextChainKey } = this.deriveStep(ownKey.chainKey);
+    const nonce = sodium.randombytes_buf(sodium.crypto_secretbox_NONCEBYTES);
+    const unsigned = {
+      keyId: ownKey.keyId,
+      iteration: ownKey.iteration,
+      n: sodium.to_base64(nonce),
+      c: sodium.to_base64(sodium.crypto_secretbox_easy(sodium.from_string(plaintext), nonce, messageKey))
+    };
+    const signature = sodium.crypto_sign_detached(signedBytes(unsigned), sodium.from_base64(ownKey.signingPrivateKey));
+
+    await browserStorage.setItem(`${OWN_SENDER_KEY_PREFIX}${groupId}`, {
+      ...ownKey,
+      chainKey: nextChainKey,
+      iteration: ownKey.iteration + 1
+    });
+
+    return { ...unsigned, s: sodium.to_base64(signature) };
+  }
+
+  /**
+   * Store a key a member device distributed to us
+   */
+  async processDistribution(senderAddress: string, distribution: SenderKeyDistribution): Promise<void> {
+    const keys = await this.getReceivedKeys(distribution.groupId);
+    const senderKeys = (keys[senderAddress] || []).filter(key => key.keyId !== distribution.keyId);
+
+    keys[senderAddress] = [
+      {
+        keyId: distribution.keyId,
+        chainKey: distribution.chainKey,
+        iteration: distribution.iteration,
+        signingKey: distribution.signingKey,
+        skipped: {}
+      },
+      ...senderKeys
+    ].slice(0, MAX_KEYS_PER_SENDER);
+
+    await browserStorage.setItem(`${RECEIVED_SENDER_KEYS_PREFIX}${distribution.groupId}`, keys);
+  }
+
+  /**
+   * Decrypt a member device's group message. Message keys for skipped iterations are
+   * kept so messages that arrive out of order can still be read once.
+   */
+  async decrypt(groupId: string, senderAddress: string, packet: SenderKeyPacket): Promise<string> {
+    await sodium.ready;
+    const keys = await this.getReceivedKeys(groupId);
+    const senderKey = keys[senderAddress]?.find(key => key.keyId === packet.keyId);
+    if (!senderKey) {
+      throw new Error(`No sender key ${packet.keyId} from ${senderAddress} for group ${groupId}`);
+    }
+
+    const { s, ...unsigned } = packet;
+    if (!sodium.crypto_sign_verify_detached(sodium.from_base64(s), signedBytes(unsigned), sodium.from_base64(senderKey.signingKey))) {
+      throw new Error(`Invalid sender key signature from ${senderAddress}`);
+    }
+
+    let messageKey: Uint8Array;
+    if (packet.iteration < senderKey.iteration) {
+      const skippedKey = senderKey.skipped[packet.iteration];
+      if (!skippedKey) {
+        throw new Error(`Message key ${packet.iteration} from ${senderAddress} already used or never derived`);
+      }
+      messageKey = sodium.from_base64(skippedKey);
+      delete senderKey.skipped[packet.iteration];
+    } else {
+      if (packet.iteration - senderKey.iteration > MAX_SKIPPED_ITERATIONS) {
+        throw new Error(`Too many skipped messages from ${senderAddress}`);
+      }
+
+      let step = this.deriveStep(senderKey.chainKey);
+      while (senderKey.iteration < packet.iteration) {
+        senderKey.skipped[senderKey.iteration] = sodium.to_base64(step.messageKey);
+        senderKey.chainKey = step.nextChainKey;
+        senderKey.iteration++;
+        step = this.deriveStep(senderKey.chainKey);
+      }
+
+      messageKey = step.messageKey;
+      senderKey.chainKey = step.nextChainKey;
+      senderKey.iteration++;
+    }
+
+    const plaintext = sodium.crypto_secretbox_open_easy(
+      sodium.from_base64(packet.c),
+      sodium.from_base64(packet.n),
+      messageKey
+    );
+
+    await browserStorage.setItem(`${RECEIVED_SENDER_KEYS_PREFIX}${groupId}`, keys);
+    return sodium.to_string(plaintext);
+  }
+
+  /**
+   * Drop our own key so the next message re-keys the group
+   */
+  async invalidateKey(groupId: string): Promise<void> {
+    await browserStorage.removeItem(`${OWN_SENDER_KEY_PREFIX}${groupId}`);
+  }
+
+  /**
+   * Forget all keys of a group we left or were removed from
+   */
+  async removeGroup(groupId: string): Promise<void> {
+    await browserStorage.removeItem(`${OWN_SENDER_KEY_PREFIX}${groupId}`);
+    await browserStorage.removeItem(`${RECEIVED_SENDER_KEYS_PREFIX}${groupId}`);
+  }
+}
+
+export const senderKeyStore = new SenderKeyStore();
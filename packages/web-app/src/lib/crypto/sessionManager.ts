@@ -1,5 +1,11 @@
 import { SignalCrypto } from './signalCrypto';
-import type { Session } from './signalCrypto';
+import type { Session, PreKeyMessage } from './signalCrypto';
+import { PFSIntegration } from './pfsIntegration';
+import type { PFSMessage } from './pfsIntegration';
+import { preKeyStore } from './preKeyStore';
+import { identityKeyStore } from './identityKeyStore';
+import { listSessionDevices } from '../api/keysApi';
+import { SessionError } from '@secure-messenger/shared';
 
 interface SessionKeys {
   tx: Uint8Array; // Transmit key (for encrypting our messages)
@@ -20,8 +26,30 @@ interface SerializableSessionKeys {
 interface SerializableSession {
   keys: SerializableSessionKeys;
   role: 'CLIENT' | 'SERVER';
+  baseKey: string;
+  remoteIdentityKey: string;
+  signedPreKey: string;
+  preKeyMessage?: PreKeyMessage;
+  preKeySent?: boolean;
 }
 
+interface CurrentUser {
+  handle: string;
+  publicKey: string;
+  privateKey: string;
+  sessionToken: string;
+}
+
+/**
+ * Sessions are pairwise between devices, so one is addressed by the handle
+ * and the server's id of the device
+ */
+export const deviceAddress = (handle: string, deviceId: string): string => `${handle}.${deviceId}`;
+
+export const handleOfAddress = (address: string): string => address.slice(0, address.indexOf('.'));
+
+export const deviceIdOfAddress = (address: string): string => address.slice(address.indexOf('.') + 1);
+
 /**
  * Global session manager to persist encryption sessions across chat tabs
  */
@@ -29,7 +57,7 @@ class SessionManager {
   private sessionCache = new Map<string, Session>();
   private pendingSessionPromises = new Map<string, Promise<Session>>();
   private initialized = false;
-  private readonly STORAGE_KEY = 'secmes_sessions_v2'; // v2 to avoid conflicts with old format
+  private readonly STORAGE_KEY = 'secmes_sessions_v6'; // v6: sessions are per device, keyed by device address
 
   async initialize() {
     if (!this.initialized) {
@@ -47,15 +75,20 @@ class SessionManager {
       const stored = localStorage.getItem(this.STORAGE_KEY);
       if (stored) {
         const parsed = JSON.parse(stored) as Record<string, SerializableSession>;
-        for (const [userHandle, serializedSession] of Object.entries(parsed)) {
+        for (const [address, serializedSession] of Object.entries(parsed)) {
           const session: Session = {
             keys: {
               tx: new Uint8Array(serializedSession.keys.tx),
               rx: new Uint8Array(serializedSession.keys.rx)
             },
-            role: serializedSession.role
+            role: serializedSession.role,
+            baseKey: serializedSession.baseKey,
+            remoteIdentityKey: serializedSession.remoteIdentityKey,
+            signedPreKey: serializedSession.signedPreKey,
+            preKeyMessage: serializedSession.preKeyMessage,
+            preKeySent: serializedSession.preKeySent
           };
-          this.sessionCache.set(userHandle, session);
+          this.sessionCache.set(address, session);
         }
         console.log('Restored', this.sessionCache.size, 'persisted sessions from storage');
       }
@@ -72,13 +105,18 @@ class SessionManager {
   private persistSessions(): void {
     try {
       const serializable: Record<string, SerializableSession> = {};
-      for (const [userHandle, session] of this.sessionCache.entries()) {
-        serializable[userHandle] = {
+      for (const [address, session] of this.sessionCache.entries()) {
+        serializable[address] = {
           keys: {
             tx: Array.from(session.keys.tx),
             rx: Array.from(session.keys.rx)
           },
-          role: session.role
+          role: session.role,
+          baseKey: session.baseKey,
+          remoteIdentityKey: session.remoteIdentityKey,
+          signedPreKey: session.signedPreKey,
+          preKeyMessage: session.preKeyMessage,
+          preKeySent: session.preKeySent
         };
       }
       localStorage.setItem(this.STORAGE_KEY, JSON.stringify(serializable));
@@ -89,81 +127,232 @@ class SessionManager {
   }
 
   /**
-   * Get or create a session with a user, caching the result globally
+   * Get or create a session with one device of a user, caching the result globally
    */
-  async getOrCreateSession(
-    userHandle: string,
-    currentUser: {
-      handle: string;
-      publicKey: string;
-      privateKey: string;
-      sessionToken: string;
-    }
-  ): Promise<Session> {
+  async getOrCreateSession(address: string, currentUser: CurrentUser): Promise<Session> {
     // Ensure initialized
     await this.initialize();
 
     // 1) Return cached session immediately if present
-    const cached = this.sessionCache.get(userHandle);
+    const cached = this.sessionCache.get(address);
     if (cached) {
-      console.log('📋 Using cached session for:', userHandle);
+      console.log('📋 Using cached session for:', address);
       return cached;
     }
 
-    // 2) If another caller is already deriving a session for this peer,
+    // 2) If another caller is already deriving a session for this device,
     //    wait for it to finish instead of starting a second attempt.
-    const pending = this.pendingSessionPromises.get(userHandle);
+    const pending = this.pendingSessionPromises.get(address);
     if (pending) {
-      console.log('⏳ Awaiting in-flight session derivation for:', userHandle);
+      console.log('⏳ Awaiting in-flight session derivation for:', address);
       return pending;
     }
 
-          console.log('Creating new session with:', userHandle);
+          console.log('Creating new session with:', address);
 
     const ourIdentityKey: KeyPair = {
       publicKey: currentUser.publicKey,
       privateKey: currentUser.privateKey,
     };
+    const userHandle = handleOfAddress(address);
 
     // Kick off the async derivation and store the promise *before* awaiting
     const derivationPromise = SignalCrypto
       .establishSessionWithUser(
         ourIdentityKey,
         userHandle,
+        deviceIdOfAddress(address),
         currentUser.sessionToken
       )
-      .then((newSession) => {
+      .then(async (newSession) => {
+        // Pin the identity key from the bundle, or record that it changed
+        await identityKeyStore.checkIdentityKey(userHandle, newSession.remoteIdentityKey);
+
+        // A ratchet left over from an earlier session cannot talk to this one
+        await PFSIntegration.removePFSData(address);
+        await PFSIntegration.initializePFS(address, newSession);
+
         // Cache the session once resolved
-        this.sessionCache.set(userHandle, newSession);
+        this.sessionCache.set(address, newSession);
         
         // Persist to localStorage for tab switching
         this.persistSessions();
 
         // Clean up the pending map
-        this.pendingSessionPromises.delete(userHandle);
+        this.pendingSessionPromises.delete(address);
 
-        console.log('Session cached for:', userHandle, 'cache size:', this.sessionCache.size);
+        console.log('Session cached for:', address, 'cache size:', this.sessionCache.size);
         return newSession;
       })
       .catch((err) => {
-        this.pendingSessionPromises.delete(userHandle);
+        this.pendingSessionPromises.delete(address);
         throw err;
       });
 
-    this.pendingSessionPromises.set(userHandle, derivationPromise);
+    this.pendingSessionPromises.set(address, derivationPromise);
     return derivationPromise;
   }
 
+  /**
+   * Get or create sessions with every device of a user. For our own handle
+   * these are our other devices. Returns their addresses.
+   */
+  async getOrCreateSessions(userHandle: string, currentUser: CurrentUser): Promise<string[]> {
+    const deviceIds = await listSessionDevices(userHandle, currentUser.sessionToken);
+    const addresses = deviceIds.map((deviceId) => deviceAddress(userHandle, deviceId));
+    for (const address of addresses) {
+      await this.getOrCreateSession(address, currentUser);
+    }
+    return addresses;
+  }
+
+  /**
+   * Encrypt one plaintext for every device of the given users, keyed by the
+   * server's device id as the server expects its deviceCiphertexts. Our own
+   * handle stands for our other devices, which may be none.
+   */
+  async encryptForDevices(userHandles: string[], plaintext: string, currentUser: CurrentUser): Promise<Record<string, string>> {
+    const deviceCiphertexts: Record<string, string> = {};
+    for (const userHandle of userHandles) {
+      const addresses = await this.getOrCreateSessions(userHandle, currentUser);
+      if (addresses.length === 0 && userHandle !== currentUser.handle) {
+        throw new SessionError(`${userHandle} has no device to encrypt for`);
+      }
+      for (const address of addresses) {
+        deviceCiphertexts[deviceIdOfAddress(address)] = JSON.stringify(await this.encryptMessage(address, plaintext));
+      }
+    }
+    return deviceCiphertexts;
+  }
+
+  /**
+   * Use the session a prekey message belongs to, running the responder side
+   * of X3DH if it is new. When both sides started a session and already
+   * sent on it, both keep the one with the lower base key.
+   */
+  async acceptPreKeyMessage(address: string, preKeyMessage: PreKeyMessage, currentUser: CurrentUser): Promise<Session> {
+    await this.initialize();
+
+    // Several messages of a new session may arrive at once; derive it only once
+    const pending = this.pendingSessionPromises.get(address);
+    if (pending) {
+      await pending.catch(() => undefined);
+    }
+
+    const current = this.sessionCache.get(address);
+    if (current?.baseKey === preKeyMessage.baseKey) {
+      return current;
+    }
+
+    const acceptPromise = this.deriveAcceptedSession(address, preKeyMessage, currentUser, current)
+      .finally(() => this.pendingSessionPromises.delete(address));
+    this.pendingSessionPromises.set(address, acceptPromise);
+    return acceptPromise;
+  }
+
+  private async deriveAcceptedSession(
+    address: string,
+    preKeyMessage: PreKeyMessage,
+    currentUser: CurrentUser,
+    current: Session | undefined
+  ): Promise<Session> {
+    if (current?.preKeyMessage && current.preKeySent && current.baseKey < preKeyMessage.baseKey) {
+      throw new Error(`Concurrent session from ${address} rejected, our session takes precedence`);
+    }
+
+    const signedPreKey = await preKeyStore.getSignedPreKey(preKeyMessage.signedPreKeyId);
+    if (!signedPreKey) {
+      throw new Error(`Signed prekey ${preKeyMessage.signedPreKeyId} is no longer available`);
+    }
+
+    const oneTimePreKey = preKeyMessage.preKeyId !== undefined
+      ? await preKeyStore.getPreKey(preKeyMessage.preKeyId)
+      : null;
+    if (preKeyMessage.preKeyId !== undefined && !oneTimePreKey) {
+      throw new Error(`One-time prekey ${preKeyMessage.preKeyId} was already used`);
+    }
+
+    const session = await SignalCrypto.acceptSession(
+      { publicKey: currentUser.publicKey, privateKey: currentUser.privateKey },
+      preKeyMessage,
+      signedPreKey,
+      oneTimePreKey ?? undefined
+    );
+
+    // Messages from a changed identity are still readable, but replies are blocked
+    await identityKeyStore.checkIdentityKey(handleOfAddress(address), preKeyMessage.identityKey);
+
+    if (preKeyMessage.preKeyId !== undefined) {
+      await preKeyStore.removePreKey(preKeyMessage.preKeyId);
+    }
+
+    await PFSIntegration.removePFSData(address);
+    await PFSIntegration.initializePFS(address, session, signedPreKey);
+
+    this.sessionCache.set(address, session);
+    this.persistSessions();
+    console.log('Accepted X3DH session from:', address);
+    return session;
+  }
+
+  /**
+   * Encrypt for a contact's device over the PFS session. Until the device
+   * replies, the message carries the X3DH prekey message of the session.
+   * Refuses to encrypt while the contact's identity key changed and is not
+   * re-verified.
+   */
+  async encryptMessage(address: string, plaintext: string): Promise<PFSMessage> {
+    const userHandle = handleOfAddress(address);
+    if (await identityKeyStore.hasUnverifiedChange(userHandle)) {
+      throw new SessionError(`Identity key of ${userHandle} changed, verify the safety number before sending`);
+    }
+
+    const pfsMessage = await PFSIntegration.encryptMessage(address, plaintext);
+
+    const session = this.sessionCache.get(address);
+    if (!session?.preKeyMessage) {
+      return pfsMessage;
+    }
+
+    if (!session.preKeySent) {
+      session.preKeySent = true;
+      this.persistSessions();
+    }
+    return { ...pfsMessage, preKey: session.preKeyMessage };
+  }
+
+  /**
+   * Decrypt a PFS message from a contact's device, accepting the session it
+   * starts if it carries a prekey message
+   */
+  async decryptMessage(address: string, pfsMessage: PFSMessage, currentUser: CurrentUser): Promise<string> {
+    if (pfsMessage.preKey) {
+      await this.acceptPreKeyMessage(address, pfsMessage.preKey, currentUser);
+    }
+
+    const plaintext = await PFSIntegration.decryptMessage(address, pfsMessage);
+
+    // A reply without prekey message means the contact has built our session
+    const session = this.sessionCache.get(address);
+    if (!pfsMessage.preKey && session?.preKeyMessage) {
+      delete session.preKeyMessage;
+      delete session.preKeySent;
+      this.persistSessions();
+    }
+
+    return plaintext;
+  }
+
   /**
    * Get a cached session if it exists
    */
-  getCachedSession(userHandle: string): Session | undefined {
+  getCachedSession(address: string): Session | undefined {
     // Ensure we load from storage if not initialized
     if (!this.initialized) {
       this.loadPersistedSessions();
       this.initialized = true;
     }
-    return this.sessionCache.get(userHandle);
+    return this.sessionCache.get(address);
   }
 
   /**
@@ -179,10 +368,10 @@ class SessionManager {
   /**
    * Remove a specific session
    */
-  removeSession(userHandle: string): void {
-    this.sessionCache.delete(userHandle);
+  removeSession(address: string): void {
+    this.sessionCache.delete(address);
     this.persistSessions();
-    console.log('Session removed for:', userHandle);
+    console.log('Session removed for:', address);
   }
 
   /**
@@ -1,9 +1,8 @@
 import sodium from 'libsodium-wrappers';
 import { toB64, fromB64 } from '../utils/base64';
 import { PerfectForwardSecrecy } from './perfectForwardSecrecy';
-import type { RatchetState, EphemeralKeys } from '@secure-messenger/shared';
-
-const BASE_URL = import.meta.env.VITE_API_URL || 'https://0.0.0.0:11401';
+import type { RatchetState, EphemeralKeys, PreKeyBundle } from '@secure-messenger/shared';
+import { fetchPreKeyBundle } from '../api/keysApi';
 
 // Define interfaces for our E2EE system
 interface KeyPair {
@@ -11,34 +10,47 @@ interface KeyPair {
   privateKey: string;
 }
 
-interface SignalKeyBundle {
-  identityKey: string;
-  signedPreKey: {
-    key: string;
-    signature: string;
-  };
-}
-
 interface CipherPacket {
   n: string; // nonce (base64 urlsafe no padding)
   c: string; // ciphertext (base64 urlsafe no padding)
   messageNumber?: number; // For PFS message ordering
   previousChainLength?: number; // For PFS chain management
+  ratchetKey?: string; // Sender's Double Ratchet public key
 }
 
+// Domain separation for the X3DH shared secret and the session keys split from it
+const X3DH_INFO = 'SecureMessengerX3DH';
+const X3DH_KDF_CONTEXT = 'X3DHSESS';
+
 interface SessionKeys {
   tx: Uint8Array; // Transmit key (for encrypting our messages)
   rx: Uint8Array; // Receive key (for decrypting their messages)
 }
 
+/**
+ * Sent with our first messages of a session so the partner can run the
+ * responder side of X3DH.
+ */
+export interface PreKeyMessage {
+  identityKey: string; // Initiator's identity public key
+  baseKey: string; // Initiator's ephemeral X3DH public key
+  signedPreKeyId: number;
+  preKeyId?: number; // One-time prekey that was used, if the bundle had one
+}
+
 export interface Session {
   keys: SessionKeys;
-  role: 'CLIENT' | 'SERVER';
+  role: 'CLIENT' | 'SERVER'; // CLIENT started the session with X3DH, SERVER accepted it
+  baseKey: string; // Initiator's ephemeral key; identifies the session in prekey messages
+  remoteIdentityKey: string; // Partner's identity key the session was agreed with
+  signedPreKey: string; // Responder's signed prekey (public), its first Double Ratchet key
+  preKeyMessage?: PreKeyMessage; // Sent with our messages until the partner replies on this session
+  preKeySent?: boolean; // Whether the partner may already have received the prekey message
 }
 
 /**
  * Secure E2EE implementation using libsodium best practices.
- * Uses crypto_kx for key exchange and crypto_secretbox_easy for encryption.
+ * Uses X3DH for key agreement and crypto_secretbox_easy for encryption.
  */
 export class SignalCrypto {
   /**
@@ -88,16 +100,93 @@ export class SignalCrypto {
     console.log('Signing pre-key with identity key...');
     
     const preKeyBytes = sodium.from_base64(preKey.publicKey);
-    const identityPrivateKeyBytes = sodium.from_base64(identityKey.privateKey);
-    
-    // Create Ed25519 signing key from X25519 private key
-    const signingKeyPair = sodium.crypto_sign_seed_keypair(identityPrivateKeyBytes.slice(0, 32));
+    const signingKeyPair = this.signingKeyPair(identityKey);
     const signature = sodium.crypto_sign_detached(preKeyBytes, signingKeyPair.privateKey);
     
     console.log('Pre-key signed successfully');
     return sodium.to_base64(signature);
   }
 
+  /**
+   * Returns the Ed25519 public key that signPreKey signs with.
+   * The server verifies signed pre-key rotations against it.
+   */
+  static async getSigningPublicKey(identityKey: KeyPair): Promise<string> {
+    await sodium.ready;
+    return sodium.to_base64(this.signingKeyPair(identityKey).publicKey);
+  }
+
+  /**
+   * Signs a UTF-8 message (e.g. a login challenge) with the identity's signing key.
+   */
+  static async signMessage(message: string, identityKey: KeyPair): Promise<string> {
+    await sodium.ready;
+    const signature = sodium.crypto_sign_detached(sodium.from_string(message), this.signingKeyPair(identityKey).privateKey);
+    return sodium.to_base64(signature);
+  }
+
+  /**
+   * Verifies a pre-key signature created by signPreKey.
+   */
+  static async verifyPreKeySignature(preKey: string, signature: string, signingKey: string): Promise<boolean> {
+    await sodium.ready;
+    try {
+      return sodium.crypto_sign_verify_detached(
+        this.base64ToBytes(signature),
+        this.base64ToBytes(preKey),
+        this.base64ToBytes(signingKey)
+      );
+    } catch (error) {
+      console.warn('Pre-key signature could not be verified:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Verifies an Ed25519 signature over a UTF-8 message (e.g. a sender certificate).
+   */
+  static async verifySignature(message: string, signature: string, signingKey: string): Promise<boolean> {
+    await sodium.ready;
+    try {
+      return sodium.crypto_sign_verify_detached(
+        this.base64ToBytes(signature),
+        sodium.from_string(message),
+        this.base64ToBytes(signingKey)
+      );
+    } catch (error) {
+      console.warn('Signature could not be verified:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Encrypts to a contact's X25519 identity key without revealing the sender
+   * (libsodium sealed box with an ephemeral key).
+   */
+  static async sealToIdentity(plaintext: string, theirIdentityKey: string): Promise<string> {
+    await sodium.ready;
+    const sealed = sodium.crypto_box_seal(sodium.from_string(plaintext), this.publicKeyBytes(theirIdentityKey));
+    return sodium.to_base64(sealed);
+  }
+
+  /**
+   * Opens a sealed box created by sealToIdentity with our identity key.
+   */
+  static async openSealedToIdentity(sealed: string, ourIdentityKey: KeyPair): Promise<string> {
+    await sodium.ready;
+    const keys = this.identityKeyBytes(ourIdentityKey);
+    const opened = sodium.crypto_box_seal_open(this.base64ToBytes(sealed), keys.publicKey, keys.privateKey);
+    return sodium.to_string(opened);
+  }
+
+  /**
+   * Create Ed25519 signing key from the base64 X25519 private key.
+   */
+  private static signingKeyPair(identityKey: KeyPair): { publicKey: Uint8Array; privateKey: Uint8Array } {
+    const identityPrivateKeyBytes = this.base64ToBytes(identityKey.privateKey);
+    return sodium.crypto_sign_seed_keypair(identityPrivateKeyBytes.slice(0, 32));
+  }
+
   /**
    * Converts hex-encoded keys to Uint8Array format.
    */
@@ -107,121 +196,173 @@ export class SignalCrypto {
   }
 
   /**
-   * Establish a session using crypto_kx key exchange.
-   * This creates separate tx/rx keys for each direction.
+   * Decode our identity key pair, which is stored as base64 (see toIdentityKeyPair).
    */
-  static async buildSession(
-    ourIdentityKey: KeyPair,
-    theirKeyBundle: SignalKeyBundle,
-    isClient: boolean = true
-  ): Promise<SessionKeys> {
+  private static identityKeyBytes(identityKey: KeyPair): { publicKey: Uint8Array; privateKey: Uint8Array } {
+    return {
+      publicKey: this.base64ToBytes(identityKey.publicKey),
+      privateKey: this.base64ToBytes(identityKey.privateKey)
+    };
+  }
+
+  /**
+   * X3DH key derivation: the shared secret is the hash of all DH outputs,
+   * prefixed with 32 0xFF bytes as in the Signal specification. Both parties
+   * then split it into the tx/rx keys of their role.
+   */
+  private static deriveX3DHSession(dhOutputs: Uint8Array[], role: 'CLIENT' | 'SERVER'): SessionKeys {
+    const input = new Uint8Array(32 + dhOutputs.length * 32);
+    input.fill(0xff, 0, 32);
+    dhOutputs.forEach((output, index) => input.set(output, 32 + index * 32));
+
+    const sharedSecret = sodium.crypto_generichash(32, input, sodium.from_string(X3DH_INFO));
+    const initiatorKey = sodium.crypto_kdf_derive_from_key(32, 1, X3DH_KDF_CONTEXT, sharedSecret);
+    const responderKey = sodium.crypto_kdf_derive_from_key(32, 2, X3DH_KDF_CONTEXT, sharedSecret);
+
+    PerfectForwardSecrecy.zeroizeKey(input);
+    PerfectForwardSecrecy.zeroizeKey(sharedSecret);
+    dhOutputs.forEach((output) => PerfectForwardSecrecy.zeroizeKey(output));
+
+    return role === 'CLIENT'
+      ? { tx: initiatorKey, rx: responderKey }
+      : { tx: responderKey, rx: initiatorKey };
+  }
+
+  /**
+   * Start a session with X3DH: our identity key and a fresh ephemeral key
+   * are combined with the partner's identity, signed prekey and one-time
+   * prekey. The returned session carries the prekey message the partner
+   * needs to derive the same keys offline.
+   */
+  static async initiateSession(ourIdentityKey: KeyPair, theirKeyBundle: PreKeyBundle): Promise<Session> {
     await sodium.ready;
 
     try {
-      console.log('Building crypto_kx session...', {
-        role: isClient ? 'CLIENT' : 'SERVER',
-        ourKeyLength: ourIdentityKey.privateKey.length,
-        theirKeyPreview: theirKeyBundle.identityKey.slice(0, 20) + '...'
-      });
+      // Every account registers a signing key, so a bundle without one
+      // cannot be trusted
+      if (!theirKeyBundle.signingKey) {
+        throw new Error('Key bundle has no signing key');
+      }
+      const validSignature = await this.verifyPreKeySignature(
+        theirKeyBundle.signedPreKey.publicKey,
+        theirKeyBundle.signedPreKey.signature,
+        theirKeyBundle.signingKey
+      );
+      if (!validSignature) {
+        throw new Error('Signed prekey signature is invalid');
+      }
 
-      // Convert keys to Uint8Array format
-      let ourPrivateKey: Uint8Array;
-      let ourPublicKey: Uint8Array;
-      let theirPublicKey: Uint8Array;
-
-      // Handle different key formats (hex from account creation vs base64 from createIdentity)
-      if (ourIdentityKey.privateKey.length > 50) { // Likely hex format
-        console.log('Converting hex keys to Uint8Array');
-        ourPrivateKey = await this.convertHexToUint8Array(ourIdentityKey.privateKey);
-        ourPublicKey = await this.convertHexToUint8Array(ourIdentityKey.publicKey);
-        theirPublicKey = this.base64ToBytes(theirKeyBundle.identityKey);
-      } else {
-        console.log('Using base64 keys directly');
-        ourPrivateKey = this.base64ToBytes(ourIdentityKey.privateKey);
-        ourPublicKey = this.base64ToBytes(ourIdentityKey.publicKey);
-        theirPublicKey = this.base64ToBytes(theirKeyBundle.identityKey);
+      const ourKeys = this.identityKeyBytes(ourIdentityKey);
+      const theirIdentityKey = this.publicKeyBytes(theirKeyBundle.identityKey);
+      const theirSignedPreKey = this.base64ToBytes(theirKeyBundle.signedPreKey.publicKey);
+      const ephemeralKey = sodium.crypto_box_keypair();
+
+      const dhOutputs = [
+        sodium.crypto_scalarmult(ourKeys.privateKey, theirSignedPreKey),
+        sodium.crypto_scalarmult(ephemeralKey.privateKey, theirIdentityKey),
+        sodium.crypto_scalarmult(ephemeralKey.privateKey, theirSignedPreKey)
+      ];
+      if (theirKeyBundle.preKey) {
+        dhOutputs.push(sodium.crypto_scalarmult(ephemeralKey.privateKey, this.base64ToBytes(theirKeyBundle.preKey.publicKey)));
       }
 
-      console.log('Key sizes for crypto_kx:', {
-        ourPrivateKeyLength: ourPrivateKey.length,
-        ourPublicKeyLength: ourPublicKey.length,
-        theirPublicKeyLength: theirPublicKey.length
+      const keys = this.deriveX3DHSession(dhOutputs, 'CLIENT');
+      PerfectForwardSecrecy.zeroizeKey(ephemeralKey.privateKey);
+
+      const baseKey = toB64(ephemeralKey.publicKey);
+      const session: Session = {
+        keys,
+        role: 'CLIENT',
+        baseKey,
+        remoteIdentityKey: theirKeyBundle.identityKey,
+        signedPreKey: theirKeyBundle.signedPreKey.publicKey,
+        preKeyMessage: {
+          identityKey: ourIdentityKey.publicKey,
+          baseKey,
+          signedPreKeyId: theirKeyBundle.signedPreKey.keyId,
+          preKeyId: theirKeyBundle.preKey?.keyId
+        }
+      };
+
+      console.log('X3DH session initiated:', {
+        signedPreKeyId: theirKeyBundle.signedPreKey.keyId,
+        preKeyId: theirKeyBundle.preKey?.keyId
       });
 
-      // Generate session keys using crypto_kx
-      let sessionKeys: { sharedRx: Uint8Array; sharedTx: Uint8Array };
-      
-      if (isClient) {
-        // Client side: generates (rx, tx) where rx is for receiving from server, tx for sending to server
-        sessionKeys = sodium.crypto_kx_client_session_keys(ourPublicKey, ourPrivateKey, theirPublicKey);
-        console.log('Generated CLIENT session keys');
-      } else {
-        // Server side: generates (rx, tx) where rx is for receiving from client, tx for sending to client
-        sessionKeys = sodium.crypto_kx_server_session_keys(ourPublicKey, ourPrivateKey, theirPublicKey);
-        console.log('Generated SERVER session keys');
-      }
+      return session;
+    } catch (error) {
+      console.error('Error in initiateSession:', error);
+      throw new Error(`Session building failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      const result: SessionKeys = {
-        tx: sessionKeys.sharedTx, // Key for encrypting our outgoing messages
-        rx: sessionKeys.sharedRx, // Key for decrypting their incoming messages
-      };
+  /**
+   * Derive the session a partner started with initiateSession from their
+   * prekey message and the private halves of the prekeys it names.
+   */
+  static async acceptSession(
+    ourIdentityKey: KeyPair,
+    preKeyMessage: PreKeyMessage,
+    signedPreKey: KeyPair,
+    oneTimePreKey?: KeyPair
+  ): Promise<Session> {
+    await sodium.ready;
 
-      console.log('Session keys established:', {
-        role: isClient ? 'CLIENT' : 'SERVER',
-        txKeyPreview: Array.from(result.tx.slice(0, 8)).map(b => b.toString(16).padStart(2, '0')).join(''),
-        rxKeyPreview: Array.from(result.rx.slice(0, 8)).map(b => b.toString(16).padStart(2, '0')).join('')
+    try {
+      const ourKeys = this.identityKeyBytes(ourIdentityKey);
+      const theirIdentityKey = this.publicKeyBytes(preKeyMessage.identityKey);
+      const theirBaseKey = this.base64ToBytes(preKeyMessage.baseKey);
+      const signedPreKeyPrivate = this.base64ToBytes(signedPreKey.privateKey);
+
+      const dhOutputs = [
+        sodium.crypto_scalarmult(signedPreKeyPrivate, theirIdentityKey),
+        sodium.crypto_scalarmult(ourKeys.privateKey, theirBaseKey),
+        sodium.crypto_scalarmult(signedPreKeyPrivate, theirBaseKey)
+      ];
+      if (oneTimePreKey) {
+        dhOutputs.push(sodium.crypto_scalarmult(this.base64ToBytes(oneTimePreKey.privateKey), theirBaseKey));
+      }
+
+      console.log('X3DH session accepted:', {
+        signedPreKeyId: preKeyMessage.signedPreKeyId,
+        preKeyId: preKeyMessage.preKeyId
       });
 
-      return result;
+      return {
+        keys: this.deriveX3DHSession(dhOutputs, 'SERVER'),
+        role: 'SERVER',
+        baseKey: preKeyMessage.baseKey,
+        remoteIdentityKey: preKeyMessage.identityKey,
+        signedPreKey: signedPreKey.publicKey
+      };
     } catch (error) {
-      console.error('Error in buildSession:', error);
+      console.error('Error in acceptSession:', error);
       throw new Error(`Session building failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Establishes a session by fetching the partner's key bundle and deriving session keys.
+   * Establishes a session with one of the partner's devices by fetching its
+   * key bundle and running X3DH.
    */
   static async establishSessionWithUser(
     ourIdentityKey: KeyPair,
     partnerHandle: string,
-    authToken: string,
-    isClient?: boolean
+    partnerDeviceId: string,
+    authToken: string
   ): Promise<Session> {
-    console.log('Establishing session with:', partnerHandle);
-    
-    const response = await fetch(`${BASE_URL}/api/keys/bundle/${encodeURIComponent(partnerHandle)}`, {
-      headers: { 
-        'Authorization': `Bearer ${authToken}`,
-      }
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Failed to fetch key bundle: ${response.status} ${errorText}`);
-    }
+    console.log('Establishing session with:', partnerHandle, 'device', partnerDeviceId);
     
-    const theirKeyBundle: SignalKeyBundle = await response.json();
+    const theirKeyBundle = await fetchPreKeyBundle(partnerHandle, partnerDeviceId, authToken);
     console.log('Key bundle received:', {
       partnerHandle,
+      partnerDeviceId,
       identityKey: theirKeyBundle.identityKey.slice(0, 20) + '...',
-      signedPreKey: theirKeyBundle.signedPreKey.key.slice(0, 20) + '...'
+      signedPreKey: theirKeyBundle.signedPreKey.publicKey.slice(0, 20) + '...',
+      preKeyId: theirKeyBundle.preKey?.keyId
     });
     
-    // If caller already decided the role, respect it; otherwise decide here (legacy)
-    let role: 'CLIENT' | 'SERVER';
-    if (typeof isClient !== 'undefined') {
-      role = isClient ? 'CLIENT' : 'SERVER';
-    } else {
-      role = this.determineRole(ourIdentityKey.publicKey, theirKeyBundle.identityKey) ? 'CLIENT' : 'SERVER';
-    }
-    
-    const sessionKeys = await this.buildSession(ourIdentityKey, theirKeyBundle, role === 'CLIENT');
-    
-    const session: Session = {
-      keys: sessionKeys,
-      role: role
-    };
+    const session = await this.initiateSession(ourIdentityKey, theirKeyBundle);
 
     console.log('Session established:', {
       partnerHandle,
@@ -312,61 +453,14 @@ export class SignalCrypto {
   }
 
   /**
-   * Determine the session role (client/server) using a stable ordering of
-   * the two identity public-keys.
-   *
-   * The rule is simple: the party whose public-key is lexicographically lower
-   * (as raw bytes) takes the CLIENT role; the other takes SERVER.  This gives
-   * a deterministic, independent decision for both parties.
-   *
-   * Both hex-encoded and base64-encoded inputs are accepted.  For hex strings
-   * we convert to bytes manually; for anything else we assume standard
-   * libsodium base64.
+   * Decode a published identity key, which is hex for accounts created with
+   * hex keys and base64 otherwise.
    */
-  static determineRole(ourPublicKey: string, theirPublicKey: string): boolean {
-    const toBytes = (key: string): Uint8Array => {
-      // Detect hex: only 0-9 or a-f characters and even length (32 bytes -> 64 hex)
-      const isHex = /^[0-9a-fA-F]+$/.test(key) && key.length % 2 === 0;
-      if (isHex) {
-        const bytes = new Uint8Array(key.length / 2);
-        for (let i = 0; i < key.length; i += 2) {
-          bytes[i / 2] = parseInt(key.substr(i, 2), 16);
-        }
-        return bytes;
-      }
-
-      // Fallback to base64 parsing (handles both standard and URL-safe w/ or w/o padding)
-      try {
-    
-        return sodium.from_base64(key, sodium.base64_variants.URLSAFE_NO_PADDING);
-      } catch (_) {
-        // If that fails, attempt original (+/ with optional padding)
-        return sodium.from_base64(key, sodium.base64_variants.ORIGINAL);
-      }
-    };
-
-    const ourKeyBytes = toBytes(ourPublicKey);
-    const theirKeyBytes = toBytes(theirPublicKey);
-
-    // Compare byte-by-byte
-    for (let i = 0; i < Math.min(ourKeyBytes.length, theirKeyBytes.length); i++) {
-      if (ourKeyBytes[i] !== theirKeyBytes[i]) {
-        const role = ourKeyBytes[i] < theirKeyBytes[i] ? 'CLIENT' : 'SERVER';
-        console.log(
-          'Determining role - diff at index',
-          i,
-          {
-            ourByte: ourKeyBytes[i],
-            theirByte: theirKeyBytes[i],
-            role,
-          }
-        );
-        return role === 'CLIENT';
-      }
+  static publicKeyBytes(key: string): Uint8Array {
+    if (/^[0-9a-fA-F]{64}$/.test(key)) {
+      return sodium.from_hex(key);
     }
-    // Keys identical (extremely unlikely) – default to CLIENT
-    console.log('Role determined: CLIENT (keys identical)');
-    return true;
+    return this.base64ToBytes(key);
   }
 
   private static base64ToBytes(data: string): Uint8Array {
@@ -385,9 +479,14 @@ export class SignalCrypto {
 
   /**
    * Initializes a new ratchet state from the session keys.
-   * The role determines how the initial chain keys are assigned.
+   * The CLIENT starts the Double Ratchet as initiator, the SERVER as responder
+   * with the key pair of the signed prekey the session was accepted on.
    */
-  static async initializeRatchet(session: Session): Promise<RatchetState> {
+  static async initializeRatchet(session: Session, ourSignedPreKey?: KeyPair): Promise<RatchetState> {
+    if (session.role === 'SERVER' && !ourSignedPreKey) {
+      throw new Error('The responder ratchet needs the signed prekey the session was accepted on');
+    }
+
     const combinedKey = new Uint8Array(64);
     if (session.role === 'CLIENT') {
       combinedKey.set(session.keys.tx, 0);
@@ -400,12 +499,13 @@ export class SignalCrypto {
     }
     
     const sessionKey = sodium.crypto_generichash(32, combinedKey);
-    const baseRatchetState = await PerfectForwardSecrecy.initializeRatchet(sessionKey);
-    const initialState: RatchetState = {
-      ...baseRatchetState,
-      sendingChainKey: session.role === 'CLIENT' ? baseRatchetState.sendingChainKey : baseRatchetState.receivingChainKey,
-      receivingChainKey: session.role === 'CLIENT' ? baseRatchetState.receivingChainKey : baseRatchetState.sendingChainKey,
-    };
+    const initialState = await PerfectForwardSecrecy.initializeRatchet(
+      sessionKey,
+      session.role === 'CLIENT',
+      ourSignedPreKey
+        ? { publicKey: this.base64ToBytes(ourSignedPreKey.publicKey), privateKey: this.base64ToBytes(ourSignedPreKey.privateKey) }
+        : { publicKey: this.base64ToBytes(session.signedPreKey) }
+    );
     
     // Securely wipe the intermediate keys from memory
     PerfectForwardSecrecy.zeroizeKey(sessionKey);
@@ -430,10 +530,11 @@ export class SignalCrypto {
   }
 
   /**
-   * Rotate keys based on configurable interval
+   * Rotate keys based on configurable interval (a no-op since the DH
+   * ratchet renews the keys with every reply)
    */
-  static async rotateKeys(ratchetState: RatchetState, interval: number = 100): Promise<RatchetState> {
-    return await PerfectForwardSecrecy.rotateKeys(ratchetState, interval);
+  static async rotateKeys(ratchetState: RatchetState): Promise<RatchetState> {
+    return await PerfectForwardSecrecy.rotateKeys(ratchetState);
   }
 
   /**
@@ -458,9 +559,23 @@ export class SignalCrypto {
    */
   static async decryptWithPFS(
     cipherPacket: CipherPacket,
-    ratchetState: RatchetState
+    ratchetState: RatchetState,
+    maxSkippedKeys?: number
   ): Promise<{ message: string; newRatchetState: RatchetState }> {
-    const result = await PerfectForwardSecrecy.decryptWithPFS(cipherPacket, ratchetState);
+    if (!cipherPacket.ratchetKey) {
+      throw new Error('Cipher packet has no ratchet key');
+    }
+
+    const result = await PerfectForwardSecrecy.decryptWithPFS(
+      {
+        ...cipherPacket,
+        ratchetKey: cipherPacket.ratchetKey,
+        messageNumber: cipherPacket.messageNumber ?? 0,
+        previousChainLength: cipherPacket.previousChainLength ?? 0
+      },
+      ratchetState,
+      maxSkippedKeys
+    );
     
     console.log('Message decrypted with PFS:', {
       messageNumber: cipherPacket.messageNumber,
@@ -473,8 +588,8 @@ export class SignalCrypto {
   /**
    * Clean up old message keys to prevent memory bloat
    */
-  static cleanupOldKeys(ratchetState: RatchetState, maxAge: number = 50): RatchetState {
-    return PerfectForwardSecrecy.cleanupOldKeys(ratchetState, maxAge);
+  static cleanupOldKeys(ratchetState: RatchetState, maxSkippedKeys?: number): RatchetState {
+    return PerfectForwardSecrecy.cleanupOldKeys(ratchetState, maxSkippedKeys);
   }
 
   /**
@@ -20,54 +20,34 @@ export class CryptoTester {
       console.log('Alice public key:', aliceKeys.publicKey.slice(0, 20) + '...');
       console.log('Bob public key:', bobKeys.publicKey.slice(0, 20) + '...');
       
-      // Determine roles (lower public key becomes client)
-      const aliceIsClient = SignalCrypto.determineRole(aliceKeys.publicKey, bobKeys.publicKey);
-      const bobIsClient = !aliceIsClient;
-      
-      console.log('Roles determined:', {
-        alice: aliceIsClient ? 'CLIENT' : 'SERVER',
-        bob: bobIsClient ? 'CLIENT' : 'SERVER'
-      });
-      
       // Create Bob's key bundle (normally fetched from server)
       const bobPreKey = await SignalCrypto.createPreKey();
       const bobPreKeySignature = await SignalCrypto.signPreKey(bobPreKey, bobKeys);
+      const bobOneTimePreKey = await SignalCrypto.createPreKey();
       
       const bobKeyBundle = {
         identityKey: bobKeys.publicKey,
+        signingKey: await SignalCrypto.getSigningPublicKey(bobKeys),
         signedPreKey: {
-          key: bobPreKey.publicKey,
+          keyId: 1,
+          publicKey: bobPreKey.publicKey,
           signature: bobPreKeySignature
+        },
+        preKey: {
+          keyId: 1,
+          publicKey: bobOneTimePreKey.publicKey
         }
       };
       
-      // Create Alice's key bundle
-      const alicePreKey = await SignalCrypto.createPreKey();
-      const alicePreKeySignature = await SignalCrypto.signPreKey(alicePreKey, aliceKeys);
-      
-      const aliceKeyBundle = {
-        identityKey: aliceKeys.publicKey,
-        signedPreKey: {
-          key: alicePreKey.publicKey,
-          signature: alicePreKeySignature
-        }
-      };
-      
-      // Alice establishes session with Bob
+      // Alice starts the session with X3DH
       console.log('Alice establishing session with Bob...');
-      const aliceSessionKeys = await SignalCrypto.buildSession(
-        aliceKeys,
-        bobKeyBundle,
-        aliceIsClient
-      );
-      
-      // Bob establishes session with Alice
-      console.log('Bob establishing session with Alice...');
-      const bobSessionKeys = await SignalCrypto.buildSession(
-        bobKeys,
-        aliceKeyBundle,
-        bobIsClient
-      );
+      const aliceSession = await SignalCrypto.initiateSession(aliceKeys, bobKeyBundle);
+      const aliceSessionKeys = aliceSession.keys;
+      
+      // Bob derives the same session from Alice's prekey message
+      console.log('Bob accepting session from Alice...');
+      const bobSession = await SignalCrypto.acceptSession(bobKeys, aliceSession.preKeyMessage, bobPreKey, bobOneTimePreKey);
+      const bobSessionKeys = bobSession.keys;
       
       // Test message from Alice to Bob
       const aliceMessage = "Hello Bob! This is a secure message from Alice.";
@@ -166,15 +146,18 @@ export class CryptoTester {
       const aliceKeys = await SignalCrypto.createIdentity();
       const bobKeys = await SignalCrypto.createIdentity();
       
+      const bobPreKey = await SignalCrypto.createPreKey();
       const bobKeyBundle = {
         identityKey: bobKeys.publicKey,
+        signingKey: await SignalCrypto.getSigningPublicKey(bobKeys),
         signedPreKey: {
-          key: (await SignalCrypto.createPreKey()).publicKey,
-          signature: 'dummy_signature'
+          keyId: 1,
+          publicKey: bobPreKey.publicKey,
+          signature: await SignalCrypto.signPreKey(bobPreKey, bobKeys)
         }
       };
       
-      const aliceSessionKeys = await SignalCrypto.buildSession(aliceKeys, bobKeyBundle, true);
+      const aliceSessionKeys = (await SignalCrypto.initiateSession(aliceKeys, bobKeyBundle)).keys;
       
       // Test with invalid ciphertext
       const invalidMessage = {
@@ -1,6 +1,7 @@
 import QRCode from 'qrcode';
 import sodium from 'libsodium-wrappers';
 import { formatHandle } from '../utils/handle';
+import { SignalCrypto } from '../crypto/signalCrypto';
 
 interface QRCodeData {
   handle: string;
@@ -8,8 +9,12 @@ interface QRCodeData {
   nonce: string;
   timestamp: number;
   challenge?: string;
+  signingKey?: string; // Ed25519 key challenge responses are signed with
+  response?: string; // Signature over the peer's challenge
+  linkCode?: string;
+  linkSecret?: string;
   version: string;
-  type: 'identity' | 'verification';
+  type: 'identity' | 'verification' | 'device_link';
 }
 
 interface VerificationChallenge {
@@ -19,6 +24,12 @@ interface VerificationChallenge {
   expiresAt: number;
 }
 
+interface VerificationFields {
+  signingKey: string;
+  challenge?: string; // Challenge the peer has to answer, until they did
+  response?: string; // Our answer to the peer's challenge
+}
+
 interface QRCodeResult {
   data: string;
   url: string;
@@ -100,12 +111,14 @@ class QRCodeManager {
   }
 
   /**
-   * Generate verification QR code with challenge-response
+   * Generate verification QR code with challenge-response. Each step of the
+   * in-person verification shows one, carrying our challenge and/or the
+   * response to the one we scanned.
    */
   async generateVerificationQR(
     handle: string,
     publicKey: string,
-    challenge: string,
+    verification: VerificationFields,
     options: {
       size?: number;
       errorCorrectionLevel?: 'L' | 'M' | 'Q' | 'H';
@@ -124,7 +137,9 @@ class QRCodeManager {
         publicKey,
         nonce,
         timestamp,
-        challenge,
+        challenge: verification.challenge,
+        signingKey: verification.signingKey,
+        response: verification.response,
         version: '1.0',
         type: 'verification'
       };
@@ -145,7 +160,9 @@ class QRCodeManager {
 
       // Store nonce and challenge
       this.storeNonce(nonce, expiresAt);
-      this.storeChallenge(challenge, expiresAt);
+      if (verification.challenge) {
+        this.storeChallenge(verification.challenge, timestamp + this.CHALLENGE_EXPIRY_TIME);
+      }
 
       return {
         data: dataString,
@@ -159,6 +176,66 @@ class QRCodeManager {
     }
   }
 
+  /**
+   * Generate device link QR code. Carries the server-side link code, the
+   * initiator's ephemeral key and a secret the server never sees.
+   */
+  async generateDeviceLinkQR(
+    handle: string,
+    ephemeralKey: string,
+    linkCode: string,
+    linkSecret: string,
+    options: {
+      size?: number;
+      errorCorrectionLevel?: 'L' | 'M' | 'Q' | 'H';
+      margin?: number;
+    } = {}
+  ): Promise<QRCodeResult> {
+    await sodium.ready;
+
+    try {
+      const timestamp = Date.now();
+      const nonce = this.generateSecureNonce();
+      const expiresAt = timestamp + this.QR_EXPIRY_TIME;
+
+      const qrData: QRCodeData = {
+        handle: formatHandle(handle),
+        publicKey: ephemeralKey,
+        nonce,
+        timestamp,
+        linkCode,
+        linkSecret,
+        version: '1.0',
+        type: 'device_link'
+      };
+
+      const dataString = JSON.stringify(qrData);
+
+      const qrCodeUrl = await QRCode.toDataURL(dataString, {
+        errorCorrectionLevel: options.errorCorrectionLevel || 'M',
+        type: 'image/png',
+        margin: options.margin || 2,
+        width: options.size || 256,
+        color: {
+          dark: '#000000',
+          light: '#FFFFFF'
+        }
+      });
+
+      this.storeNonce(nonce, expiresAt);
+
+      return {
+        data: dataString,
+        url: qrCodeUrl,
+        nonce,
+        expiresAt
+      };
+    } catch (error) {
+      console.error('Failed to generate device link QR code:', error);
+      throw new Error('Failed to generate device link QR code');
+    }
+  }
+
   /**
    * Parse and validate QR code data
    */
@@ -200,17 +277,8 @@ class QRCodeManager {
       // Mark nonce as used
       this.markNonceAsUsed(qrData.nonce);
 
-      // Additional security checks for verification QR codes
-      if (qrData.type === 'verification' && qrData.challenge) {
-        const challengeValid = this.validateChallenge(qrData.challenge);
-        if (!challengeValid) {
-          return {
-            valid: false,
-            error: 'Invalid or expired verification challenge.',
-            securityWarning: 'Verification challenge failed'
-          };
-        }
-      }
+      // The challenge belongs to the device that showed the code; it is
+      // checked there when our response comes back (verifyChallengeResponse)
 
       // Security warning for old QR codes (but still within expiry)
       let securityWarning: string | undefined;
@@ -282,13 +350,32 @@ class QRCodeManager {
     }
 
     // Validate type
-    if (!['identity', 'verification'].includes(qrData.type)) {
+    if (!['identity', 'verification', 'device_link'].includes(qrData.type)) {
       return {
         valid: false,
         error: 'Invalid QR code type'
       };
     }
 
+    // Verification codes have to carry something to answer or check
+    if (qrData.type === 'verification' && (
+      typeof qrData.signingKey !== 'string' ||
+      (typeof qrData.challenge !== 'string' && typeof qrData.response !== 'string')
+    )) {
+      return {
+        valid: false,
+        error: 'Invalid verification QR code'
+      };
+    }
+
+    // Device link codes are useless without the link code and secret
+    if (qrData.type === 'device_link' && (typeof qrData.linkCode !== 'string' || typeof qrData.linkSecret !== 'string')) {
+      return {
+        valid: false,
+        error: 'Invalid device link QR code'
+      };
+    }
+
     return { valid: true };
   }
 
@@ -301,48 +388,57 @@ class QRCodeManager {
   }
 
   /**
-   * Create challenge response
+   * Create challenge response: the challenge and our identity key signed
+   * with our signing key, so the response also vouches for the identity key.
    */
   async createChallengeResponse(
     challenge: string,
-    privateKey: string
+    identityKey: { publicKey: string; privateKey: string }
   ): Promise<string> {
-    await sodium.ready;
-
     try {
-      const keyData = JSON.parse(privateKey);
-      const signKey = sodium.from_hex(keyData.sign);
-      
-      // Sign the challenge with the private key
-      const signature = sodium.crypto_sign_detached(challenge, signKey);
-      return sodium.to_hex(signature);
+      return await SignalCrypto.signMessage(this.buildChallengeMessage(challenge, identityKey.publicKey), identityKey);
     } catch (error) {
       throw new Error('Failed to create challenge response');
     }
   }
 
   /**
-   * Verify challenge response
+   * Verify challenge response to a challenge this device issued. A challenge
+   * can be answered once and only before it expires.
    */
   async verifyChallengeResponse(
     challenge: string,
     response: string,
-    publicKey: string
+    publicKey: string,
+    signingKey: string
   ): Promise<boolean> {
     await sodium.ready;
 
+    if (!this.validateChallenge(challenge)) {
+      console.warn('Challenge response for an unknown or expired challenge');
+      return false;
+    }
+
     try {
-      const keyData = JSON.parse(publicKey);
-      const pubKey = sodium.from_hex(keyData.sign);
-      const signature = sodium.from_hex(response);
-      
-      return sodium.crypto_sign_verify_detached(signature, challenge, pubKey);
+      const valid = sodium.crypto_sign_verify_detached(
+        sodium.from_base64(response),
+        sodium.from_string(this.buildChallengeMessage(challenge, publicKey)),
+        sodium.from_base64(signingKey)
+      );
+      if (valid) {
+        this.activeChallenges.delete(challenge);
+      }
+      return valid;
     } catch (error) {
       console.error('Challenge response verification failed:', error);
       return false;
     }
   }
 
+  private buildChallengeMessage(challenge: string, publicKey: string): string {
+    return `secmes-verify:${challenge}:${publicKey}`;
+  }
+
   /**
    * Generate secure nonce
    */
@@ -492,7 +588,7 @@ class QRCodeManager {
       expiryTime: this.QR_EXPIRY_TIME,
       challengeExpiryTime: this.CHALLENGE_EXPIRY_TIME,
       supportedVersions: ['1.0'],
-      supportedTypes: ['identity', 'verification'],
+      supportedTypes: ['identity', 'verification', 'device_link'],
       replayProtection: true,
       challengeResponse: true
     };
@@ -501,4 +597,4 @@ class QRCodeManager {
 
 // Singleton instance
 export const qrCodeManager = new QRCodeManager();
-export type { QRCodeData, QRCodeResult, VerificationChallenge }; 
\ No newline at end of file
+export type { QRCodeData, QRCodeResult, VerificationChallenge, VerificationFields }; 
\ No newline at end of file
@@ -0,0 +1,182 @@
+import sodium from 'libsodium-wrappers';
+import { qrCodeManager } from '../qr/qrCodeManager';
+import type { QRCodeResult } from '../qr/qrCodeManager';
+import { SignalCrypto } from '../crypto/signalCrypto';
+import { identityKeyStore } from '../crypto/identityKeyStore';
+import { sessionManager } from '../crypto/sessionManager';
+import { browserStorage } from '../storage/browserStorage';
+import { fetchContacts, updateContactVerification } from '../api/contactApi';
+import { formatHandle } from '../utils/handle';
+
+interface User {
+  handle: string;
+  publicKey: string;
+  privateKey: string;
+  sessionToken: string;
+}
+
+export interface VerificationStep {
+  qr: QRCodeResult | null; // Code to show the contact next, if they still need one
+  contactVerified: boolean; // We checked the contact's response to our challenge
+  done: boolean;
+}
+
+interface PendingVerification {
+  contactHandle: string;
+  challenge: string;
+  contactVerified: boolean;
+  answered: boolean; // We signed the contact's challenge
+}
+
+/**
+ * In-person verification of a contact.
+ *
+ * Both devices show the safety number and a QR code with their identity key,
+ * signing key and a challenge. Whoever scans checks the key against the
+ * pinned one and shows a code with the signed answer and its own challenge;
+ * the codes go back and forth until both challenges are answered. Each side
+ * then marks the contact verified locally and on the server.
+ */
+class ContactVerificationService {
+  private static instance: ContactVerificationService | null = null;
+  private pending: PendingVerification | null = null;
+
+  static getInstance(): ContactVerificationService {
+    if (!ContactVerificationService.instance) {
+      ContactVerificationService.instance = new ContactVerificationService();
+    }
+    return ContactVerificationService.instance;
+  }
+
+  /**
+   * Start verifying a contact: the QR code to show and the safety number
+   * both users compare.
+   */
+  async start(user: User, contactHandle: string): Promise<{ qr: QRCodeResult; safetyNumber: string }> {
+    await sodium.ready;
+
+    // Pins the contact's key if we never talked to them
+    await sessionManager.getOrCreateSessions(contactHandle, user);
+    const safetyNumber = await identityKeyStore.getSafetyNumber(user.handle, user.publicKey, contactHandle);
+    if (!safetyNumber) {
+      throw new Error(`No identity key known for ${contactHandle}`);
+    }
+
+    this.pending = {
+      contactHandle,
+      challenge: qrCodeManager.generateVerificationChallenge(),
+      contactVerified: false,
+      answered: false
+    };
+
+    return { qr: await this.nextQR(user), safetyNumber };
+  }
+
+  /**
+   * Handle a code scanned from the contact's device
+   */
+  async handleScan(user: User, qrDataString: string): Promise<VerificationStep> {
+    const pending = this.pending;
+    if (!pending) {
+      throw new Error('No verification in progress');
+    }
+
+    const parsed = await qrCodeManager.parseQRCode(qrDataString);
+    if (!parsed.valid || !parsed.data || parsed.data.type !== 'verification') {
+      throw new Error(parsed.error || 'Not a verification QR code');
+    }
+    const { handle: qrHandle, publicKey, signingKey, challenge, response } = parsed.data;
+    const handle = pending.contactHandle;
+
+    // QR codes carry the formatted handle (ABC-123)
+    if (qrHandle !== formatHandle(handle)) {
+      throw new Error(`QR code belongs to ${qrHandle}, not ${handle}`);
+    }
+    if (!await identityKeyStore.matchesIdentityKey(handle, publicKey)) {
+      throw new Error('Identity key does not match the safety number');
+    }
+
+    if (response && !pending.contactVerified) {
+      const valid = await qrCodeManager.verifyChallengeResponse(pending.challenge, response, publicKey, signingKey!);
+      if (!valid) {
+        throw new Error('Challenge response is invalid');
+      }
+      pending.contactVerified = true;
+      await this.markVerified(user, handle);
+    }
+
+    // Answer the contact's challenge with a new code, which also carries ours
+    // until the contact answered it
+    let qr: QRCodeResult | null = null;
+    if (challenge) {
+      const answer = await qrCodeManager.createChallengeResponse(challenge, user);
+      pending.answered = true;
+      qr = await this.nextQR(user, answer);
+    }
+
+    const done = pending.contactVerified && pending.answered;
+    if (done) {
+      this.pending = null;
+    }
+
+    return { qr, contactVerified: pending.contactVerified, done };
+  }
+
+  cancel(): void {
+    this.pending = null;
+  }
+
+  private async nextQR(user: User, response?: string): Promise<QRCodeResult> {
+    const pending = this.pending!;
+    return qrCodeManager.generateVerificationQR(user.handle, user.publicKey, {
+      signingKey: await SignalCrypto.getSigningPublicKey(user),
+      challenge: pending.contactVerified ? undefined : pending.challenge,
+      response
+    });
+  }
+
+  /**
+   * Persist the verified status locally and through the contact on the
+   * server. Also used when the user compared the safety number by hand.
+   */
+  async markVerified(user: User, handle: string): Promise<void> {
+    await identityKeyStore.markVerified(handle);
+    const pinned = await identityKeyStore.getPinnedKey(handle);
+
+    const existing = await browserStorage.getContact(handle);
+    await browserStorage.storeContact({
+      ...existing,
+      handle,
+      publicKey: pinned!.publicKey,
+      verified: true,
+      verificationDate: new Date()
+    });
+
+    await this.updateServerStatus(user, handle, true);
+  }
+
+  /**
+   * The contact's identity key changed since it was verified: drop the
+   * verified status until the user verifies again.
+   */
+  async resetVerification(user: User, handle: string): Promise<void> {
+    const existing = await browserStorage.getContact(handle);
+    if (!existing?.verified) {
+      return;
+    }
+
+    await browserStorage.storeContact({ ...existing, verified: false, verificationDate: undefined });
+    await this.updateServerStatus(user, handle, false);
+  }
+
+  private async updateServerStatus(user: User, handle: string, isVerified: boolean): Promise<void> {
+    const contact = (await fetchContacts(user.sessionToken)).find(c => c.handle === handle);
+    if (contact) {
+      await updateContactVerification(contact.id, isVerified, user.sessionToken);
+    } else {
+      console.warn(`${handle} is not in the contact list, verification kept local`);
+    }
+  }
+}
+
+export const contactVerificationService = ContactVerificationService.getInstance();
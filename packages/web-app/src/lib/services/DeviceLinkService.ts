@@ -0,0 +1,264 @@
+import sodium from 'libsodium-wrappers';
+import type { Contact } from '@secure-messenger/shared';
+import { qrCodeManager } from '../qr/qrCodeManager';
+import type { QRCodeResult } from '../qr/qrCodeManager';
+import { browserStorage } from '../storage/browserStorage';
+import { webSocketClient } from '../websocket/websocketClient';
+import type { WebSocketMessage } from '../websocket/websocketClient';
+import { getOrCreateDeviceId } from '../utils/handle';
+import {
+  approveDeviceLink,
+  claimDeviceLink,
+  createDeviceLink,
+  getDeviceLink,
+  joinDeviceLink,
+  rejectDeviceLink
+} from '../api/devicesApi';
+
+interface User {
+  handle: string;
+  publicKey: string;
+  privateKey: string;
+  sessionToken: string;
+}
+
+export interface LinkRequest {
+  linkId: string;
+  deviceId: string;
+  ephemeralKey: string;
+}
+
+export interface LinkedAccount {
+  handle: string;
+  publicKey: string;
+  privateKey: string;
+}
+
+interface TransferPayload extends LinkedAccount {
+  contacts: Contact[];
+}
+
+interface PendingLink {
+  linkId: string;
+  keyPair: sodium.KeyPair;
+  secret: Uint8Array;
+  request: LinkRequest | null;
+}
+
+const POLL_INTERVAL = 2000;
+
+/**
+ * Links a new browser to an existing account without the recovery phrase.
+ *
+ * The signed-in device shows a QR code with its ephemeral X25519 key and a
+ * secret the server never sees. The new device answers with its own ephemeral
+ * key and a MAC over it keyed with that secret, so the server cannot swap keys.
+ * The identity key and contacts are then sealed with crypto_box and relayed
+ * through the server.
+ */
+class DeviceLinkService {
+  private static instance: DeviceLinkService | null = null;
+  private pending: PendingLink | null = null;
+
+  static getInstance(): DeviceLinkService {
+    if (!DeviceLinkService.instance) {
+      DeviceLinkService.instance = new DeviceLinkService();
+    }
+    return DeviceLinkService.instance;
+  }
+
+  /**
+   * Existing device: open a link and render it as QR code.
+   */
+  async startLink(user: User): Promise<QRCodeResult> {
+    await sodium.ready;
+
+    const keyPair = sodium.crypto_box_keypair();
+    const secret = sodium.randombytes_buf(sodium.crypto_auth_KEYBYTES);
+    const ephemeralKey = sodium.to_base64(keyPair.publicKey);
+
+    const link = await createDeviceLink(ephemeralKey, user.sessionToken);
+    this.pending = { linkId: link.linkId, keyPair, secret, request: null };
+
+    return qrCodeManager.generateDeviceLinkQR(user.handle, ephemeralKey, link.code, sodium.to_base64(secret));
+  }
+
+  /**
+   * Existing device: resolves once a new device joined with a valid proof.
+   * Listens for the push and polls in case it was missed.
+   */
+  waitForRequest(authToken: string, signal: AbortSignal): Promise<LinkRequest> {
+    return new Promise((resolve, reject) => {
+      const pending = this.pending;
+      if (!pending) {
+        reject(new Error('No device link in progress'));
+        return;
+      }
+
+      let settled = false;
+      const finish = (error: Error | null, request?: LinkRequest) => {
+        if (settled) return;
+        settled = true;
+        clearInterval(timer);
+        webSocketClient.offMessage('device_link_request', pushHandler);
+        signal.removeEventListener('abort', abortHandler);
+        if (error) {
+          reject(error);
+        } else {
+          resolve(request!);
+        }
+      };
+
+      const accept = (linkId: string, ephemeralKey: string | null, proof: string | null, deviceId: string | null) => {
+        if (linkId !== pending.linkId || !ephemeralKey || !proof || !deviceId) {
+          return;
+        }
+        if (!this.verifyProof(ephemeralKey, proof, pending.secret)) {
+          finish(new Error('Device link proof is invalid'));
+          return;
+        }
+        pending.request = { linkId, deviceId, ephemeralKey };
+        finish(null, pending.request);
+      };
+
+      const pushHandler = (wsMessage: WebSocketMessage) => {
+        const { linkId, ephemeralKey, proof, deviceId } = wsMessage.data;
+        accept(linkId, ephemeralKey, proof, deviceId);
+      };
+
+      const abortHandler = () => finish(new Error('Device link cancelled'));
+
+      const timer = setInterval(async () => {
+        try {
+          const state = await getDeviceLink(pending.linkId, authToken);
+          if (state.status === 'joined') {
+            accept(state.linkId, state.ephemeralKey, state.proof, state.deviceId);
+          } else if (state.status !== 'pending') {
+            finish(new Error(`Device link ${state.status}`));
+          }
+        } catch (error) {
+          finish(error instanceof Error ? error : new Error('Device link expired'));
+        }
+      }, POLL_INTERVAL);
+
+      webSocketClient.onMessage('device_link_request', pushHandler);
+      signal.addEventListener('abort', abortHandler);
+    });
+  }
+
+  /**
+   * Existing device: seal the identity and contacts to the new device.
+   */
+  async approve(user: User): Promise<void> {
+    const request = this.pending?.request;
+    if (!this.pending || !request) {
+      throw new Error('No device waiting for approval');
+    }
+    await sodium.ready;
+
+    const transfer: TransferPayload = {
+      handle: user.handle,
+      publicKey: user.publicKey,
+      privateKey: user.privateKey,
+      contacts: await browserStorage.getAllContacts()
+    };
+
+    const nonce = sodium.randombytes_buf(sodium.crypto_box_NONCEBYTES);
+    const ciphertext = sodium.crypto_box_easy(
+      JSON.stringify(transfer),
+      nonce,
+      sodium.from_base64(request.ephemeralKey),
+      this.pending.keyPair.privateKey
+    );
+
+    const sealed = new Uint8Array(nonce.length + ciphertext.length);
+    sealed.set(nonce);
+    sealed.set(ciphertext, nonce.length);
+
+    await approveDeviceLink(request.linkId, sodium.to_base64(sealed), user.sessionToken);
+    this.pending = null;
+  }
+
+  async reject(authToken: string): Promise<void> {
+    const pending = this.pending;
+    this.pending = null;
+    if (pending) {
+      await rejectDeviceLink(pending.linkId, authToken);
+    }
+  }
+
+  /**
+   * New device: join the link from the scanned QR code and wait for approval.
+   * Contacts are imported locally; the caller then signs in with the identity.
+   */
+  async joinAndReceive(qrDataString: string, signal: AbortSignal): Promise<LinkedAccount> {
+    await sodium.ready;
+
+    const parsed = await qrCodeManager.parseQRCode(qrDataString);
+    if (!parsed.valid || !parsed.data || parsed.data.type !== 'device_link') {
+      throw new Error(parsed.error || 'Not a device link QR code');
+    }
+    const { linkCode, linkSecret, publicKey: initiatorKey, handle } = parsed.data;
+
+    const keyPair = sodium.crypto_box_keypair();
+    const ephemeralKey = sodium.to_base64(keyPair.publicKey);
+    const proof = sodium.to_base64(sodium.crypto_auth(ephemeralKey, sodium.from_base64(linkSecret!)));
+
+    await joinDeviceLink(linkCode!, ephemeralKey, proof, getOrCreateDeviceId());
+
+    const sealed = await this.pollForPayload(linkCode!, signal);
+    const nonce = sealed.slice(0, sodium.crypto_box_NONCEBYTES);
+    const ciphertext = sealed.slice(sodium.crypto_box_NONCEBYTES);
+
+    let transfer: TransferPayload;
+    try {
+      const plaintext = sodium.crypto_box_open_easy(ciphertext, nonce, sodium.from_base64(initiatorKey), keyPair.privateKey);
+      transfer = JSON.parse(sodium.to_string(plaintext));
+    } catch (error) {
+      console.error('Failed to open device link payload:', error);
+      throw new Error('Device link payload could not be decrypted');
+    }
+
+    if (transfer.handle !== handle) {
+      throw new Error('Device link payload does not match the QR code');
+    }
+
+    for (const contact of transfer.contacts) {
+      await browserStorage.storeContact({
+        ...contact,
+        verificationDate: contact.verificationDate ? new Date(contact.verificationDate) : undefined
+      });
+    }
+
+    return {
+      handle: transfer.handle,
+      publicKey: transfer.publicKey,
+      privateKey: transfer.privateKey
+    };
+  }
+
+  private async pollForPayload(code: string, signal: AbortSignal): Promise<Uint8Array> {
+    while (!signal.aborted) {
+      const claim = await claimDeviceLink(code);
+      if (claim.status === 'approved' && claim.payload) {
+        return sodium.from_base64(claim.payload);
+      }
+      if (claim.status === 'rejected' || claim.status === 'completed') {
+        throw new Error(`Device link ${claim.status}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+    }
+    throw new Error('Device link cancelled');
+  }
+
+  private verifyProof(ephemeralKey: string, proof: string, secret: Uint8Array): boolean {
+    try {
+      return sodium.crypto_auth_verify(sodium.from_base64(proof), ephemeralKey, secret);
+    } catch (error) {
+      console.error('Device link proof verification failed:', error);
+      return false;
+    }
+  }
+}
+
+export const deviceLinkService = DeviceLinkService.getInstance();
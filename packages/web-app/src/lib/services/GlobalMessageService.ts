@@ -1,9 +1,13 @@
 import { webSocketClient } from '../websocket/websocketClient';
 import type { WebSocketMessage, MessageData } from '../websocket/websocketClient';
-import { SignalCrypto } from '../crypto/signalCrypto';
-import { PFSIntegration } from '../crypto/pfsIntegration';
 import { messageStorage } from '../storage/messageStorage';
-import { sessionManager } from '../crypto/sessionManager';
+import { sessionManager, deviceAddress } from '../crypto/sessionManager';
+import { groupConversationId } from '../api/groupApi';
+import { senderKeyStore, SENDER_KEY_MESSAGE_TYPE } from '../crypto/senderKeyStore';
+import type { SenderKeyDistribution, SenderKeyPacket } from '../crypto/senderKeyStore';
+import { decodeMessageContent } from '../utils/messageContent';
+import { EXPIRY_TIMER_MESSAGE_TYPE, EXPIRY_SWEEP_INTERVAL_MS, decodeExpiryTimer } from '../utils/disappearingMessages';
+import { sealedSender, DELIVERY_TOKEN_MESSAGE_TYPE, decodeDeliveryToken } from '../crypto/sealedSender';
 
 interface User {
   handle: string;
@@ -13,18 +17,36 @@ interface User {
   privateKey: string;
 }
 
-interface CipherPacket {
-  c: string;
-  n: string;
-  messageNumber?: number;
-  previousChainLength?: number;
+interface SealedMessageData {
+  id: string;
+  envelope: string;
+  timestamp: number;
+  expiresAt?: number;
 }
 
+type IncomingMessageData = MessageData & {
+  senderDeviceId?: string;
+  receiverHandle?: string; // Set on direct messages; copies of our own name the contact
+  encryptedData?: string;
+  encrypted?: boolean;
+  pfsMessage?: boolean;
+  groupId?: string;
+  expiresAt?: number;
+};
+
 class GlobalMessageService {
   private static instance: GlobalMessageService | null = null;
   private currentUser: User | null = null;
   private isInitialized = false;
   private messageHandler = this.handleIncomingMessage.bind(this);
+  private sealedMessageHandler = this.handleSealedMessage.bind(this);
+  private groupUpdatedHandler = this.handleGroupUpdated.bind(this);
+  private messageEditedHandler = this.handleMessageEdited.bind(this);
+  private messageDeletedHandler = this.handleMessageDeleted.bind(this);
+  private reactionHandler = this.handleReaction.bind(this);
+  private readReceiptHandler = this.handleReadReceipt.bind(this);
+  private messageExpiredHandler = this.handleMessageExpired.bind(this);
+  private expirySweepTimer: ReturnType<typeof setInterval> | null = null;
 
   // Singleton pattern
   static getInstance(): GlobalMessageService {
@@ -51,10 +73,23 @@ class GlobalMessageService {
 
       // Register WebSocket message handler
       webSocketClient.onMessage('message', this.messageHandler);
+      webSocketClient.onMessage('sealed_message', this.sealedMessageHandler);
+      webSocketClient.onMessage('message_edited', this.messageEditedHandler);
+      webSocketClient.onMessage('message_deleted', this.messageDeletedHandler);
+      webSocketClient.onMessage('reaction', this.reactionHandler);
+      webSocketClient.onMessage('read_receipt', this.readReceiptHandler);
+      webSocketClient.onMessage('message_expired', this.messageExpiredHandler);
       
       // Register handler for contact_added notifications for auto-session init
       webSocketClient.onMessage('contact_added', this.handleContactAdded.bind(this));
 
+      // Membership changes re-key our sender key for the group
+      webSocketClient.onMessage('group_updated', this.groupUpdatedHandler);
+
+      // Disappearing messages expire locally, whether or not we are online
+      await this.sweepExpiredMessages();
+      this.expirySweepTimer = setInterval(() => this.sweepExpiredMessages(), EXPIRY_SWEEP_INTERVAL_MS);
+
       this.isInitialized = true;
       console.log('GlobalMessageService initialized successfully');
     } catch (error) {
@@ -69,16 +104,7 @@ class GlobalMessageService {
       return;
     }
 
-    const messageData = wsMessage.data as MessageData & { 
-      encryptedData?: string; 
-      encrypted?: boolean; 
-      pfsMessage?: boolean;
-    };
-
-    // Skip our own messages
-    if (messageData.senderHandle === this.currentUser.handle) {
-      return;
-    }
+    const messageData = wsMessage.data as IncomingMessageData;
 
     if (!messageData.id) {
       console.warn('Message without ID, ignoring');
@@ -87,104 +113,443 @@ class GlobalMessageService {
 
     console.log('GlobalMessageService: Incoming message from', messageData.senderHandle);
 
-    let decryptedContent: string | undefined = undefined;
+    // A redelivery of a message we stored but whose ack got lost; decrypting
+    // it again would fail once its ratchet key is used up
+    if (await messageStorage.hasMessage(messageData.id)) {
+      this.acknowledge(messageData.id);
+      return;
+    }
 
-    // Decrypt message if encrypted
-    if (messageData.encrypted && messageData.encryptedData) {
-      try {
-        console.log('Getting/creating session for', messageData.senderHandle);
-        
-        // Ensure we have a proper session for the sender
-        const senderSession = await sessionManager.getOrCreateSession(
-          messageData.senderHandle, 
-          this.currentUser
-        );
+    // Sender key distributions are key material, not chat messages
+    if (messageData.groupId && messageData.messageType === SENDER_KEY_MESSAGE_TYPE) {
+      await this.handleSenderKeyDistribution(messageData.groupId, this.senderAddressOf(messageData), messageData.encryptedData);
+      this.acknowledge(messageData.id);
+      return;
+    }
 
-        console.log('Session ready for', messageData.senderHandle, 'attempting decryption');
-
-        if (messageData.pfsMessage) {
-          const pfsMessage = JSON.parse(messageData.encryptedData);
-          decryptedContent = await PFSIntegration.decryptMessage(
-            messageData.senderHandle, 
-            pfsMessage
-          );
-                      console.log('PFS message decrypted from', messageData.senderHandle);
-        } else {
-          const encryptedSignalMessage: CipherPacket = JSON.parse(messageData.encryptedData);
-          decryptedContent = await SignalCrypto.decrypt(
-            encryptedSignalMessage, 
-            senderSession.keys
-          );
-                      console.log('Basic message decrypted from', messageData.senderHandle);
-        }
-      } catch (error) {
-                  console.error('Decryption failed for', messageData.senderHandle, ':', error);
-        
-        // Try to recover by refreshing the session
-        try {
-                      console.log('Attempting session recovery for', messageData.senderHandle);
-          await sessionManager.initialize(); // Re-initialize session manager
-          const freshSession = await sessionManager.getOrCreateSession(
-            messageData.senderHandle, 
-            this.currentUser
-          );
-          
-          if (messageData.pfsMessage) {
-            const pfsMessage = JSON.parse(messageData.encryptedData);
-            decryptedContent = await PFSIntegration.decryptMessage(
-              messageData.senderHandle, 
-              pfsMessage
-            );
-                          console.log('PFS message decrypted after session recovery');
-          } else {
-            const encryptedSignalMessage: CipherPacket = JSON.parse(messageData.encryptedData);
-            decryptedContent = await SignalCrypto.decrypt(
-              encryptedSignalMessage, 
-              freshSession.keys
-            );
-                          console.log('Basic message decrypted after session recovery');
-          }
-        } catch (recoveryError) {
-                      console.error('Session recovery also failed:', recoveryError);
-        }
-      }
+    // Our other devices copy us on what they send, naming the contact it went to
+    const peerHandle = this.peerOf(messageData);
+    if (!messageData.groupId && !peerHandle) {
+      console.warn('Copy of our own message without recipient, ignoring', messageData.id);
+      this.acknowledge(messageData.id);
+      return;
+    }
+
+    const decryptedContent = await this.decryptIncoming(messageData);
+
+    // Timer changes are settings, not chat messages
+    if (messageData.messageType === EXPIRY_TIMER_MESSAGE_TYPE) {
+      await this.handleExpiryTimer(messageData, decryptedContent);
+      this.acknowledge(messageData.id);
+      return;
+    }
+
+    if (messageData.messageType === DELIVERY_TOKEN_MESSAGE_TYPE) {
+      await this.handleDeliveryToken(messageData, decryptedContent);
+      this.acknowledge(messageData.id);
+      return;
     }
 
+    const content = decryptedContent !== undefined ? decodeMessageContent(decryptedContent) : undefined;
+
     const finalContent = decryptedContent || messageData.content || '[Decryption Failed]';
 
-    // Store the message
-    const conversationId = [this.currentUser.handle, messageData.senderHandle]
-      .sort((a, b) => a.localeCompare(b))
-      .join('#');
+    // Store the message; group messages belong to the group's conversation
+    const conversationId = this.conversationIdFor(peerHandle, messageData.groupId);
+    const isOwn = messageData.senderHandle === this.currentUser.handle;
 
     try {
       await messageStorage.storeMessage({
         id: messageData.id,
         conversationId,
         senderId: messageData.senderHandle,
-        recipientId: this.currentUser.handle,
+        recipientId: this.recipientOf(messageData),
         encryptedContent: messageData.encryptedData || '',
-        plaintext: decryptedContent,
+        plaintext: content?.text,
+        replyTo: content?.replyTo,
         messageType: (messageData.messageType as 'text' | 'image' | 'file') || 'text',
         timestamp: Date.now(),
-        status: 'delivered'
+        status: isOwn ? 'sent' : 'delivered',
+        expiresAt: messageData.expiresAt
       });
 
                 console.log('GlobalMessageService: Message stored from', messageData.senderHandle);
+
+      // Only stored messages are acked; anything else is redelivered on reconnect
+      this.acknowledge(messageData.id);
     } catch (error) {
               console.error('Failed to store message:', error);
     }
+  }
 
-    // Send delivery receipt
-    if (messageData.encrypted) {
-      webSocketClient.send({ 
-        type: 'delivery_receipt', 
-        data: { 
-          messageId: messageData.id, 
-          receiverHandle: messageData.senderHandle 
-        }, 
-        timestamp: Date.now() 
-      });
+  /**
+   * A message without sender. The envelope names the sender and carries what
+   * a regular message frame would, so it continues as one from there.
+   */
+  private async handleSealedMessage(wsMessage: WebSocketMessage): Promise<void> {
+    if (!this.currentUser) return;
+
+    const sealed = wsMessage.data as SealedMessageData;
+    if (!sealed.id || !sealed.envelope) {
+      return;
+    }
+
+    if (await messageStorage.hasMessage(sealed.id)) {
+      this.acknowledge(sealed.id);
+      return;
+    }
+
+    let opened;
+    try {
+      opened = await sealedSender.open(this.currentUser, sealed.envelope);
+    } catch (error) {
+      // An envelope that cannot be opened now never will be
+      console.error('Failed to open sealed message:', error);
+      this.acknowledge(sealed.id);
+      return;
+    }
+
+    await this.handleIncomingMessage({
+      type: 'message',
+      data: {
+        id: sealed.id,
+        content: '',
+        messageType: opened.messageType,
+        senderHandle: opened.senderHandle,
+        senderDeviceId: opened.senderDeviceId,
+        receiverHandle: opened.destination,
+        timestamp: new Date(sealed.timestamp).toISOString(),
+        encrypted: true,
+        encryptedData: opened.encryptedData,
+        pfsMessage: opened.pfsMessage,
+        expiresAt: sealed.expiresAt
+      },
+      timestamp: wsMessage.timestamp
+    });
+  }
+
+  /**
+   * Tell the server this device processed a message, so it stops redelivering it
+   */
+  private acknowledge(messageId: string): void {
+    webSocketClient.send({
+      type: 'ack',
+      data: { messageIds: [messageId] },
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Tell the server this device processed a reaction, so it stops redelivering it
+   */
+  private acknowledgeReaction(reactionId: string | undefined): void {
+    if (!reactionId) return;
+    webSocketClient.send({
+      type: 'ack',
+      data: { reactionIds: [reactionId] },
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * A participant changed the conversation's disappearing-message timer.
+   * The last change wins on both sides.
+   */
+  private async handleExpiryTimer(messageData: IncomingMessageData, decryptedContent?: string): Promise<void> {
+    const expiresInSeconds = decryptedContent !== undefined ? decodeExpiryTimer(decryptedContent) : undefined;
+    if (expiresInSeconds === undefined) {
+      console.warn('Ignoring unreadable expiry timer from', messageData.senderHandle);
+      return;
+    }
+
+    try {
+      const conversationId = this.conversationIdFor(this.peerOf(messageData), messageData.groupId);
+      await messageStorage.setConversationExpiry(conversationId, expiresInSeconds);
+      console.log('GlobalMessageService: Expiry timer for', conversationId, 'set to', expiresInSeconds, 'by', messageData.senderHandle);
+    } catch (error) {
+      console.error('Failed to store expiry timer:', error);
+    }
+  }
+
+  /**
+   * A contact shared their delivery token; messages to them are sent sealed from now on
+   */
+  private async handleDeliveryToken(messageData: IncomingMessageData, decryptedContent?: string): Promise<void> {
+    const deliveryToken = decryptedContent !== undefined ? decodeDeliveryToken(decryptedContent) : undefined;
+    if (!deliveryToken) {
+      console.warn('Ignoring unreadable delivery token from', messageData.senderHandle);
+      return;
+    }
+
+    try {
+      await sealedSender.storeContactToken(messageData.senderHandle, deliveryToken);
+    } catch (error) {
+      console.error('Failed to store delivery token:', error);
+    }
+  }
+
+  private async sweepExpiredMessages(): Promise<void> {
+    const deleted = await messageStorage.deleteExpiredMessages();
+    if (deleted > 0) {
+      console.log('GlobalMessageService: Deleted', deleted, 'expired messages');
+    }
+  }
+
+  /**
+   * Decrypt the content of an incoming message or edit. Returns undefined if
+   * it cannot be decrypted.
+   */
+  private async decryptIncoming(messageData: IncomingMessageData): Promise<string | undefined> {
+    if (!this.currentUser) return undefined;
+
+    const senderAddress = this.senderAddressOf(messageData);
+    let decryptedContent: string | undefined = undefined;
+
+    // Group messages without PFS are encrypted once with the sender's group key
+    if (messageData.groupId && !messageData.pfsMessage && messageData.encrypted && messageData.encryptedData) {
+      try {
+        const packet: SenderKeyPacket = JSON.parse(messageData.encryptedData);
+        decryptedContent = await senderKeyStore.decrypt(messageData.groupId, senderAddress, packet);
+      } catch (error) {
+        console.error('Group message decryption failed for', senderAddress, ':', error);
+      }
+    } else if (messageData.pfsMessage && messageData.encryptedData) {
+      // A session we do not have can only come from the message's own prekey
+      // message; starting one of our own would not decrypt it
+      try {
+        decryptedContent = await sessionManager.decryptMessage(
+          senderAddress,
+          JSON.parse(messageData.encryptedData),
+          this.currentUser
+        );
+                    console.log('PFS message decrypted from', senderAddress);
+      } catch (error) {
+                  console.error('PFS decryption failed for', senderAddress, ':', error);
+      }
+    }
+
+    return decryptedContent;
+  }
+
+  /**
+   * Sessions are per device, so ciphertexts are read with the session of the
+   * device that sent them
+   */
+  private senderAddressOf(messageData: { senderHandle: string; senderDeviceId?: string }): string {
+    return deviceAddress(messageData.senderHandle, messageData.senderDeviceId ?? '');
+  }
+
+  /**
+   * The contact a direct message was exchanged with: its sender, or for a
+   * copy of what our other device sent, the contact it went to
+   */
+  private peerOf(messageData: { senderHandle: string; receiverHandle?: string }): string | undefined {
+    return messageData.senderHandle === this.currentUser?.handle ? messageData.receiverHandle : messageData.senderHandle;
+  }
+
+  /**
+   * Who a message went to: its group, us, or the contact we sent it to
+   */
+  private recipientOf(messageData: { senderHandle: string; receiverHandle?: string; groupId?: string }): string {
+    if (messageData.groupId) {
+      return messageData.groupId;
+    }
+    return this.peerOf(messageData) === messageData.senderHandle
+      ? this.currentUser?.handle ?? ''
+      : messageData.receiverHandle ?? '';
+  }
+
+  private conversationIdFor(peerHandle: string | undefined, groupId?: string): string {
+    if (groupId) {
+      return groupConversationId(groupId);
+    }
+    return [this.currentUser?.handle ?? '', peerHandle ?? '']
+      .sort((a, b) => a.localeCompare(b))
+      .join('#');
+  }
+
+  /**
+   * A sender edited one of their messages, possibly we on another device.
+   * Edits of messages we never got are stored as new messages.
+   */
+  private async handleMessageEdited(wsMessage: WebSocketMessage): Promise<void> {
+    if (!this.currentUser) return;
+
+    const messageData = wsMessage.data as IncomingMessageData & { editedAt: number };
+    if (!messageData.id) return;
+
+    const decryptedContent = await this.decryptIncoming(messageData);
+    const content = decryptedContent !== undefined ? decodeMessageContent(decryptedContent) : undefined;
+    const editedAt = messageData.editedAt || Date.now();
+
+    try {
+      const updated = await messageStorage.editMessage(
+        messageData.id,
+        content?.text || '[Decryption Failed]',
+        messageData.encryptedData || '',
+        editedAt
+      );
+
+      const peerHandle = this.peerOf(messageData);
+      if (!updated && (messageData.groupId || peerHandle)) {
+        await messageStorage.storeMessage({
+          id: messageData.id,
+          conversationId: this.conversationIdFor(peerHandle, messageData.groupId),
+          senderId: messageData.senderHandle,
+          recipientId: this.recipientOf(messageData),
+          encryptedContent: messageData.encryptedData || '',
+          plaintext: content?.text,
+          replyTo: content?.replyTo,
+          messageType: (messageData.messageType as 'text' | 'image' | 'file') || 'text',
+          timestamp: messageData.timestamp ? new Date(messageData.timestamp).getTime() : Date.now(),
+          status: messageData.senderHandle === this.currentUser.handle ? 'sent' : 'delivered',
+          isEdited: true,
+          editedAt
+        });
+      }
+      console.log('GlobalMessageService: Message', messageData.id, 'edited by', messageData.senderHandle);
+      this.acknowledge(messageData.id);
+    } catch (error) {
+      console.error('Failed to store edited message:', error);
+    }
+  }
+
+  /**
+   * A sender deleted one of their messages for everyone, possibly we on
+   * another device
+   */
+  private async handleMessageDeleted(wsMessage: WebSocketMessage): Promise<void> {
+    if (!this.currentUser) return;
+
+    const messageData = wsMessage.data as IncomingMessageData & { deletedAt: number };
+    if (!messageData.id) return;
+
+    const deletedAt = messageData.deletedAt || Date.now();
+
+    try {
+      const updated = await messageStorage.markMessageDeleted(messageData.id, deletedAt);
+
+      // Keep a tombstone so the chat shows that something was deleted
+      const peerHandle = this.peerOf(messageData);
+      if (!updated && (messageData.groupId || peerHandle)) {
+        await messageStorage.storeMessage({
+          id: messageData.id,
+          conversationId: this.conversationIdFor(peerHandle, messageData.groupId),
+          senderId: messageData.senderHandle,
+          recipientId: this.recipientOf(messageData),
+          encryptedContent: '',
+          messageType: (messageData.messageType as 'text' | 'image' | 'file') || 'text',
+          timestamp: messageData.timestamp ? new Date(messageData.timestamp).getTime() : Date.now(),
+          status: messageData.senderHandle === this.currentUser.handle ? 'sent' : 'delivered',
+          isDeleted: true,
+          deletedAt
+        });
+      }
+      console.log('GlobalMessageService: Message', messageData.id, 'deleted by', messageData.senderHandle);
+      this.acknowledge(messageData.id);
+    } catch (error) {
+      console.error('Failed to delete message:', error);
+    }
+  }
+
+  /**
+   * A participant reacted to a message, or removed their reaction; our own
+   * reactions come from our other devices. Reactions to messages we do not
+   * have, or that cannot be decrypted, are dropped and acked like stored ones.
+   */
+  private async handleReaction(wsMessage: WebSocketMessage): Promise<void> {
+    if (!this.currentUser) return;
+
+    const reactionData = wsMessage.data as Omit<IncomingMessageData, 'id'> & { reactionId?: string; messageId: string; removed?: boolean };
+    if (!reactionData.messageId) return;
+
+    let emoji: string | null = null;
+    if (!reactionData.removed) {
+      emoji = (await this.decryptIncoming({ ...reactionData, id: reactionData.messageId })) ?? null;
+      if (!emoji) {
+        console.warn('Could not decrypt reaction from', reactionData.senderHandle);
+        this.acknowledgeReaction(reactionData.reactionId);
+        return;
+      }
+    }
+
+    try {
+      const stored = await messageStorage.setReaction(reactionData.messageId, reactionData.senderHandle, emoji);
+      if (!stored) {
+        console.warn('Reaction for unknown message', reactionData.messageId);
+      }
+      // Unacked reactions are redelivered on reconnect
+      this.acknowledgeReaction(reactionData.reactionId);
+    } catch (error) {
+      console.error('Failed to store reaction:', error);
+    }
+  }
+
+  /**
+   * A contact displayed some of our messages
+   */
+  private async handleReadReceipt(wsMessage: WebSocketMessage): Promise<void> {
+    const { messageIds } = wsMessage.data as { messageIds?: string[] };
+    if (!Array.isArray(messageIds)) return;
+
+    try {
+      for (const messageId of messageIds) {
+        await messageStorage.updateMessageStatus(messageId, 'read');
+      }
+    } catch (error) {
+      console.error('Failed to store read receipt:', error);
+    }
+  }
+
+  /**
+   * The server dropped one of our messages because no device received it in time
+   */
+  private async handleMessageExpired(wsMessage: WebSocketMessage): Promise<void> {
+    const { messageId } = wsMessage.data as { messageId?: string };
+    if (!messageId) return;
+
+    try {
+      await messageStorage.updateMessageStatus(messageId, 'failed');
+      console.log('GlobalMessageService: Message', messageId, 'expired undelivered');
+    } catch (error) {
+      console.error('Failed to mark expired message:', error);
+    }
+  }
+
+  /**
+   * Store the sender key of a member device. It arrives over our pairwise PFS
+   * session with the device, which its prekey message sets up if needed.
+   */
+  private async handleSenderKeyDistribution(groupId: string, senderAddress: string, encryptedData?: string): Promise<void> {
+    if (!this.currentUser || !encryptedData) return;
+
+    try {
+      const distribution: SenderKeyDistribution = JSON.parse(
+        await sessionManager.decryptMessage(senderAddress, JSON.parse(encryptedData), this.currentUser)
+      );
+      if (distribution.groupId !== groupId) {
+        console.warn('Ignoring sender key from', senderAddress, 'sent for another group');
+        return;
+      }
+      await senderKeyStore.processDistribution(senderAddress, distribution);
+      console.log('Stored sender key from', senderAddress, 'for group', distribution.groupId);
+    } catch (error) {
+      console.error('Failed to process sender key from', senderAddress, ':', error);
+    }
+  }
+
+  private async handleGroupUpdated(wsMessage: WebSocketMessage): Promise<void> {
+    const { groupId, removed } = wsMessage.data as { groupId: string; removed?: boolean };
+    if (!groupId) return;
+
+    try {
+      if (removed) {
+        await senderKeyStore.removeGroup(groupId);
+      } else {
+        await senderKeyStore.invalidateKey(groupId);
+      }
+    } catch (error) {
+      console.error('Failed to re-key group', groupId, ':', error);
     }
   }
 
@@ -204,18 +569,10 @@ class GlobalMessageService {
           console.log('Someone added you as contact:', addedByHandle, '- auto-initializing session');
 
     try {
-      // Auto-create session with the person who added you
-      const session = await sessionManager.getOrCreateSession(addedByHandle, this.currentUser);
-                console.log('Auto-initialized session with', addedByHandle);
-
-      // Also initialize PFS for this contact
-      const isPfsReady = await PFSIntegration.isPFSInitialized(addedByHandle);
-      if (!isPfsReady) {
-        await PFSIntegration.initializePFS(addedByHandle, session);
-                    console.log('Auto-initialized PFS with', addedByHandle);
-          } else {
-            console.log('PFS already initialized with', addedByHandle);
-          }
+      // Auto-create sessions with every device of the person who added you;
+      // each starts its PFS ratchet right away
+      await sessionManager.getOrCreateSessions(addedByHandle, this.currentUser);
+                console.log('Auto-initialized sessions with', addedByHandle);
           
           console.log('One-way messaging enabled with', addedByHandle);
     } catch (error) {
@@ -227,7 +584,18 @@ class GlobalMessageService {
     if (this.isInitialized) {
       console.log('Cleaning up GlobalMessageService');
       webSocketClient.offMessage('message', this.messageHandler);
+      webSocketClient.offMessage('sealed_message', this.sealedMessageHandler);
+      webSocketClient.offMessage('message_edited', this.messageEditedHandler);
+      webSocketClient.offMessage('message_deleted', this.messageDeletedHandler);
+      webSocketClient.offMessage('reaction', this.reactionHandler);
+      webSocketClient.offMessage('read_receipt', this.readReceiptHandler);
+      webSocketClient.offMessage('message_expired', this.messageExpiredHandler);
+      webSocketClient.offMessage('group_updated', this.groupUpdatedHandler);
       webSocketClient.offMessage('contact_added', this.handleContactAdded.bind(this));
+      if (this.expirySweepTimer) {
+        clearInterval(this.expirySweepTimer);
+        this.expirySweepTimer = null;
+      }
       this.isInitialized = false;
       this.currentUser = null;
     }
@@ -0,0 +1,111 @@
+import { webSocketClient } from '../websocket/websocketClient';
+import type { WebSocketMessage, ConnectionStatus } from '../websocket/websocketClient';
+import { preKeyStore } from '../crypto/preKeyStore';
+import { getPreKeyCount, listUnusedPreKeyIds } from '../api/keysApi';
+
+interface User {
+  handle: string;
+  sessionToken: string;
+}
+
+/**
+ * Keeps this device's supply of one-time prekeys on the server topped up.
+ * Reacts to prekeys_low pushes and re-checks the count after every
+ * (re)authentication, since pushes are lost while we are offline.
+ * The same check drops private halves of prekeys the server handed out.
+ */
+class PreKeyService {
+  private static instance: PreKeyService | null = null;
+  private currentUser: User | null = null;
+  private isInitialized = false;
+  private replenishing: Promise<void> | null = null;
+  private lowHandler = this.handlePreKeysLow.bind(this);
+  private connectionHandler = this.handleConnectionChange.bind(this);
+
+  static getInstance(): PreKeyService {
+    if (!PreKeyService.instance) {
+      PreKeyService.instance = new PreKeyService();
+    }
+    return PreKeyService.instance;
+  }
+
+  async initialize(user: User): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    this.currentUser = user;
+    webSocketClient.onMessage('prekeys_low', this.lowHandler);
+    webSocketClient.onConnectionChange(this.connectionHandler);
+    this.isInitialized = true;
+
+    await this.checkSupply();
+  }
+
+  private handlePreKeysLow(wsMessage: WebSocketMessage): void {
+    const { remaining, target } = wsMessage.data as { remaining: number; target: number };
+    console.log(`Server reports ${remaining} one-time prekeys left`);
+    this.replenish(target - remaining);
+  }
+
+  private handleConnectionChange(status: ConnectionStatus): void {
+    if (status.authenticated) {
+      this.checkSupply();
+    }
+  }
+
+  /**
+   * Catch up on prekeys consumed while we were offline.
+   */
+  async checkSupply(): Promise<void> {
+    if (!this.currentUser) {
+      return;
+    }
+
+    try {
+      // Let a running upload land first so its keys are not taken for claimed ones
+      await this.replenishing;
+      await preKeyStore.pruneClaimedPreKeys(await listUnusedPreKeyIds(this.currentUser.sessionToken));
+
+      const { count, threshold, target } = await getPreKeyCount(this.currentUser.sessionToken);
+      if (count < threshold) {
+        await this.replenish(target - count);
+      }
+    } catch (error) {
+      console.error('Failed to check prekey supply:', error);
+    }
+  }
+
+  private replenish(count: number): Promise<void> {
+    if (!this.currentUser || count <= 0) {
+      return Promise.resolve();
+    }
+    // Coalesce concurrent triggers into a single upload
+    if (this.replenishing) {
+      return this.replenishing;
+    }
+
+    const token = this.currentUser.sessionToken;
+    this.replenishing = preKeyStore.generateAndUpload(token, count)
+      .then(() => undefined)
+      .catch((error) => {
+        console.error('Failed to replenish one-time prekeys:', error);
+      })
+      .finally(() => {
+        this.replenishing = null;
+      });
+
+    return this.replenishing;
+  }
+
+  cleanup(): void {
+    if (this.isInitialized) {
+      webSocketClient.offMessage('prekeys_low', this.lowHandler);
+      webSocketClient.offConnectionChange(this.connectionHandler);
+      this.isInitialized = false;
+      this.currentUser = null;
+    }
+  }
+}
+
+export const preKeyService = PreKeyService.getInstance();
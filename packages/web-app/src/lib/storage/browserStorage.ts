@@ -177,6 +177,11 @@ export class BrowserStorageProvider implements IStorageProvider {
         sendMessageNumber: ratchetState.sendMessageNumber,
         receiveMessageNumber: ratchetState.receiveMessageNumber,
         previousSendingChainLength: ratchetState.previousSendingChainLength,
+        sendingRatchetKey: {
+          publicKey: Array.from(ratchetState.sendingRatchetKey.publicKey),
+          privateKey: Array.from(ratchetState.sendingRatchetKey.privateKey)
+        },
+        receivingRatchetKey: ratchetState.receivingRatchetKey,
         skippedKeys: Array.from(ratchetState.skippedKeys.entries()).map(([key, value]) => [key, Array.from(value)]),
         updatedAt: new Date()
       };
@@ -197,6 +202,9 @@ export class BrowserStorageProvider implements IStorageProvider {
 
       if (!result) return null;
 
+      // States from before the Double Ratchet have no ratchet key; the session is initialized again
+      if (!result.sendingRatchetKey) return null;
+
       return {
         rootKey: new Uint8Array(result.rootKey),
         sendingChainKey: new Uint8Array(result.sendingChainKey),
@@ -204,7 +212,12 @@ export class BrowserStorageProvider implements IStorageProvider {
         sendMessageNumber: result.sendMessageNumber,
         receiveMessageNumber: result.receiveMessageNumber,
         previousSendingChainLength: result.previousSendingChainLength,
-        skippedKeys: new Map(result.skippedKeys.map(([key, value]: [number, number[]]) => [key, new Uint8Array(value)]))
+        sendingRatchetKey: {
+          publicKey: new Uint8Array(result.sendingRatchetKey.publicKey),
+          privateKey: new Uint8Array(result.sendingRatchetKey.privateKey)
+        },
+        receivingRatchetKey: result.receivingRatchetKey ?? null,
+        skippedKeys: new Map(result.skippedKeys.map(([key, value]: [string, number[]]) => [key, new Uint8Array(value)]))
       };
     } catch (error) {
       console.error(`Failed to get ratchet state for ${address}:`, error);
@@ -1,6 +1,7 @@
 import { openDB } from 'idb';
 import type { IDBPDatabase } from 'idb';
 import sodium from 'libsodium-wrappers';
+import type { QuotedMessage } from '../utils/messageContent';
 
 // Database configuration
 const DB_NAME = 'secmes_messages';
@@ -21,10 +22,23 @@ interface EncryptedMessage {
   status: 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
   mediaUrl?: string;
   encryptedMediaKey?: string;
+  replyTo?: QuotedMessage; // From inside the decrypted payload
+  reactions?: Record<string, string>; // Reacting handle -> emoji
+  isEdited?: boolean;
+  editedAt?: number;
+  isDeleted?: boolean; // Deleted by the sender for everyone; content is dropped
+  deletedAt?: number;
+  expiresAt?: number; // Disappearing messages are removed after this time
   createdAt: number;
   updatedAt: number;
 }
 
+interface ReactionSummary {
+  emoji: string;
+  count: number;
+  handles: string[];
+}
+
 interface Contact {
   id: string;
   handle: string;
@@ -42,6 +56,7 @@ interface ConversationMetadata {
   lastMessageId?: string;
   lastMessageTimestamp?: number;
   unreadCount: number;
+  expiresInSeconds?: number; // Agreed disappearing-message timer, unset when off
   createdAt: number;
   updatedAt: number;
 }
@@ -172,7 +187,7 @@ class MessageStorage {
   }
 
   /**
-   * Store a message
+   * Store a message. A message already stored under the same id is kept as it is.
    */
   async storeMessage(message: Omit<EncryptedMessage, 'createdAt' | 'updatedAt'>): Promise<string> {
     if (!this.db) throw new Error('Datenbank nicht initialisiert');
@@ -190,7 +205,15 @@ class MessageStorage {
 
     try {
       const tx = this.db.transaction(STORE_MESSAGES, 'readwrite');
-      await tx.objectStore(STORE_MESSAGES).add(encryptedMessage);
+      const store = tx.objectStore(STORE_MESSAGES);
+
+      // The server redelivers messages until they are acked; keep the first copy
+      if (message.id && await store.get(message.id)) {
+        await tx.done;
+        return messageId;
+      }
+
+      await store.add(encryptedMessage);
       await tx.done;
 
       // Update conversation metadata
@@ -203,6 +226,15 @@ class MessageStorage {
     }
   }
 
+  /**
+   * Whether a message with this id is stored
+   */
+  async hasMessage(messageId: string): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return (await this.db.getKey(STORE_MESSAGES, messageId)) !== undefined;
+  }
+
   /**
    * Get messages for a conversation with pagination
    */
@@ -221,6 +253,10 @@ class MessageStorage {
       // Get messages for conversation
       let messages = await index.getAll(IDBKeyRange.only(conversationId));
 
+      // Expired messages may not have been swept yet
+      const now = Date.now();
+      messages = messages.filter((msg: EncryptedMessage) => !msg.expiresAt || msg.expiresAt > now);
+
       // Filter by timestamp if provided
       if (beforeTimestamp) {
         messages = messages.filter((msg: any) => msg.timestamp < beforeTimestamp);
@@ -267,6 +303,189 @@ class MessageStorage {
     }
   }
 
+  /**
+   * Replace the temporary id of an outgoing message with the id the server assigned
+   */
+  async confirmSentMessage(tempId: string, messageId: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const tx = this.db.transaction(STORE_MESSAGES, 'readwrite');
+      const store = tx.objectStore(STORE_MESSAGES);
+
+      const message = await store.get(tempId);
+      if (message) {
+        await store.delete(tempId);
+        await store.put({ ...message, id: messageId, status: 'sent', updatedAt: Date.now() });
+      }
+
+      await tx.done;
+    } catch (error) {
+      console.error('Failed to confirm sent message:', error);
+      throw new Error('Failed to confirm sent message');
+    }
+  }
+
+  /**
+   * Replace the content of an edited message. Returns false if the message is
+   * not stored or was already deleted.
+   */
+  async editMessage(messageId: string, plaintext: string | undefined, encryptedContent: string, editedAt: number): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const tx = this.db.transaction(STORE_MESSAGES, 'readwrite');
+      const store = tx.objectStore(STORE_MESSAGES);
+
+      const message = await store.get(messageId);
+      const updated = !!message && !message.isDeleted;
+      if (updated) {
+        await store.put({
+          ...message,
+          plaintext,
+          encryptedContent: this.encryptData(encryptedContent),
+          isEdited: true,
+          editedAt,
+          updatedAt: Date.now()
+        });
+      }
+
+      await tx.done;
+      return updated;
+    } catch (error) {
+      console.error('Failed to edit message:', error);
+      throw new Error('Failed to edit message');
+    }
+  }
+
+  /**
+   * Turn a message into a tombstone. Returns false if the message is not stored.
+   */
+  async markMessageDeleted(messageId: string, deletedAt: number): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const tx = this.db.transaction(STORE_MESSAGES, 'readwrite');
+      const store = tx.objectStore(STORE_MESSAGES);
+
+      const message = await store.get(messageId);
+      if (message) {
+        await store.put({
+          ...message,
+          plaintext: undefined,
+          encryptedContent: this.encryptData(''),
+          isDeleted: true,
+          deletedAt,
+          updatedAt: Date.now()
+        });
+      }
+
+      await tx.done;
+      return !!message;
+    } catch (error) {
+      console.error('Failed to delete message:', error);
+      throw new Error('Failed to delete message');
+    }
+  }
+
+  /**
+   * Set or clear one user's reaction on a message. Returns false if the
+   * message is not stored.
+   */
+  async setReaction(messageId: string, handle: string, emoji: string | null): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const tx = this.db.transaction(STORE_MESSAGES, 'readwrite');
+      const store = tx.objectStore(STORE_MESSAGES);
+
+      const message = await store.get(messageId);
+      if (message) {
+        const reactions: Record<string, string> = { ...(message.reactions || {}) };
+        if (emoji) {
+          reactions[handle] = emoji;
+        } else {
+          delete reactions[handle];
+        }
+        await store.put({ ...message, reactions, updatedAt: Date.now() });
+      }
+
+      await tx.done;
+      return !!message;
+    } catch (error) {
+      console.error('Failed to store reaction:', error);
+      throw new Error('Failed to store reaction');
+    }
+  }
+
+  /**
+   * Delete every message whose expiry time has passed. Runs locally, so
+   * disappearing messages go away even while the app is offline.
+   * Returns the number of deleted messages.
+   */
+  async deleteExpiredMessages(): Promise<number> {
+    if (!this.db) return 0;
+
+    try {
+      const tx = this.db.transaction(STORE_MESSAGES, 'readwrite');
+      const store = tx.objectStore(STORE_MESSAGES);
+      const now = Date.now();
+      let deleted = 0;
+
+      let cursor = await store.openCursor();
+      while (cursor) {
+        if (cursor.value.expiresAt && cursor.value.expiresAt <= now) {
+          await cursor.delete();
+          deleted++;
+        }
+        cursor = await cursor.continue();
+      }
+
+      await tx.done;
+      return deleted;
+    } catch (error) {
+      console.error('Failed to delete expired messages:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get the disappearing-message timer of a conversation in seconds, or null if off
+   */
+  async getConversationExpiry(conversationId: string): Promise<number | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const metadata = await this.db.get(STORE_METADATA, conversationId);
+    return metadata?.expiresInSeconds || null;
+  }
+
+  /**
+   * Set the disappearing-message timer of a conversation; null turns it off
+   */
+  async setConversationExpiry(conversationId: string, expiresInSeconds: number | null): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    try {
+      const tx = this.db.transaction(STORE_METADATA, 'readwrite');
+      const store = tx.objectStore(STORE_METADATA);
+      const now = Date.now();
+
+      const metadata: ConversationMetadata = (await store.get(conversationId)) || {
+        conversationId,
+        participantIds: [],
+        unreadCount: 0,
+        createdAt: now,
+        updatedAt: now
+      };
+      await store.put({ ...metadata, expiresInSeconds: expiresInSeconds || undefined, updatedAt: now });
+
+      await tx.done;
+    } catch (error) {
+      console.error('Failed to set conversation expiry:', error);
+      throw new Error('Failed to set conversation expiry');
+    }
+  }
+
   /**
    * Store contact information
    */
@@ -476,6 +695,17 @@ class MessageStorage {
   }
 }
 
+/**
+ * Group a message's reactions by emoji, in the order each emoji was first used
+ */
+export const summarizeReactions = (reactions: Record<string, string> = {}): ReactionSummary[] => {
+  const byEmoji = new Map<string, string[]>();
+  for (const [handle, emoji] of Object.entries(reactions)) {
+    byEmoji.set(emoji, [...(byEmoji.get(emoji) || []), handle]);
+  }
+  return Array.from(byEmoji, ([emoji, handles]) => ({ emoji, count: handles.length, handles }));
+};
+
 // Singleton instance
 export const messageStorage = new MessageStorage();
-export type { EncryptedMessage, Contact, ConversationMetadata }; 
\ No newline at end of file
+export type { EncryptedMessage, Contact, ConversationMetadata, ReactionSummary }; 
\ No newline at end of file
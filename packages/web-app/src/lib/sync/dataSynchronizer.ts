@@ -88,8 +88,14 @@ class DataSynchronizer {
    * Queue an item for synchronization
    */
   queueForSync(item: Omit<SyncQueueItem, 'id' | 'timestamp' | 'retries'>) {
+    // New messages carry an idempotency key, so retries never store them twice
+    const data = item.type === 'message' && item.action === 'create'
+      ? { clientMessageId: crypto.randomUUID(), ...item.data }
+      : item.data;
+
     const syncItem: SyncQueueItem = {
       ...item,
+      data,
       id: this.generateSyncId(),
       timestamp: Date.now(),
       retries: 0
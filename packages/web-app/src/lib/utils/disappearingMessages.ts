@@ -0,0 +1,53 @@
+// Message type of the encrypted control message that changes a conversation's timer
+export const EXPIRY_TIMER_MESSAGE_TYPE = 'expiry_timer';
+
+// How often expired messages are removed from local storage
+export const EXPIRY_SWEEP_INTERVAL_MS = 10 * 1000;
+
+export interface ExpiryOption {
+  label: string;
+  seconds: number | null;
+}
+
+export const EXPIRY_OPTIONS: ExpiryOption[] = [
+  { label: 'Aus', seconds: null },
+  { label: '30 Sekunden', seconds: 30 },
+  { label: '5 Minuten', seconds: 5 * 60 },
+  { label: '1 Stunde', seconds: 60 * 60 },
+  { label: '1 Tag', seconds: 24 * 60 * 60 },
+  { label: '1 Woche', seconds: 7 * 24 * 60 * 60 }
+];
+
+/**
+ * Label of a timer for display, e.g. "5 Minuten"
+ */
+export const formatExpiry = (seconds: number | null): string => {
+  const option = EXPIRY_OPTIONS.find((candidate) => candidate.seconds === seconds);
+  if (option) {
+    return option.label;
+  }
+  return seconds ? `${seconds} Sekunden` : 'Aus';
+};
+
+/**
+ * Plaintext of the control message. Both sides apply whatever timer they
+ * receive last, so the latest change wins.
+ */
+export const encodeExpiryTimer = (expiresInSeconds: number | null): string =>
+  JSON.stringify({ type: EXPIRY_TIMER_MESSAGE_TYPE, expiresInSeconds });
+
+/**
+ * Read the timer from a decrypted control message, or undefined if malformed
+ */
+export const decodeExpiryTimer = (plaintext: string): number | null | undefined => {
+  try {
+    const parsed = JSON.parse(plaintext);
+    if (parsed?.type !== EXPIRY_TIMER_MESSAGE_TYPE) {
+      return undefined;
+    }
+    const seconds = parsed.expiresInSeconds;
+    return typeof seconds === 'number' && seconds > 0 ? seconds : null;
+  } catch {
+    return undefined;
+  }
+};
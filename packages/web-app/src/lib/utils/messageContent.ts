@@ -0,0 +1,75 @@
+// Longest quoted snippet carried in a reply
+const MAX_QUOTE_LENGTH = 120;
+
+/**
+ * The message a reply quotes. It travels inside the encrypted payload, so the
+ * server only ever sees the id.
+ */
+export interface QuotedMessage {
+  id: string;
+  senderHandle: string;
+  snippet: string;
+}
+
+export interface MessageContent {
+  text: string;
+  replyTo?: QuotedMessage;
+}
+
+interface ReplyEnvelope {
+  type: 'reply';
+  text: string;
+  quote: QuotedMessage;
+}
+
+/**
+ * Shorten a message to the snippet shown in a quote.
+ */
+export const quoteSnippet = (text: string): string => {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > MAX_QUOTE_LENGTH ? `${singleLine.slice(0, MAX_QUOTE_LENGTH - 1)}…` : singleLine;
+};
+
+/**
+ * Build the plaintext to encrypt. Plain messages stay plain strings, so
+ * clients that do not know about replies still read them.
+ */
+export const encodeMessageContent = (content: MessageContent): string => {
+  if (!content.replyTo) {
+    return content.text;
+  }
+
+  const envelope: ReplyEnvelope = {
+    type: 'reply',
+    text: content.text,
+    quote: { ...content.replyTo, snippet: quoteSnippet(content.replyTo.snippet) }
+  };
+  return JSON.stringify(envelope);
+};
+
+/**
+ * Split decrypted plaintext into the text and the quoted message, if any.
+ */
+export const decodeMessageContent = (plaintext: string): MessageContent => {
+  if (!plaintext.startsWith('{')) {
+    return { text: plaintext };
+  }
+
+  try {
+    const envelope = JSON.parse(plaintext) as Partial<ReplyEnvelope>;
+    if (envelope.type === 'reply' && typeof envelope.text === 'string' && envelope.quote?.id) {
+      return {
+        text: envelope.text,
+        replyTo: {
+          id: String(envelope.quote.id),
+          senderHandle: String(envelope.quote.senderHandle ?? ''),
+          snippet: String(envelope.quote.snippet ?? '')
+        }
+      };
+    }
+  } catch {
+    // Not an envelope, just text that looks like JSON
+  }
+
+  return { text: plaintext };
+};
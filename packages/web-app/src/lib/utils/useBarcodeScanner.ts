@@ -0,0 +1,59 @@
+import { useEffect, useRef, useState } from 'react';
+import { getBarcodeDetector } from './barcodeDetector';
+
+const SCAN_INTERVAL_MS = 500;
+
+/**
+ * Scan QR codes with the camera while `scanning` is on. The returned ref goes
+ * on the preview <video>; scanning stops on the first code or when the camera
+ * cannot be opened.
+ */
+export const useBarcodeScanner = (
+  onDetected: (rawValue: string) => void,
+  onCameraError: () => void
+) => {
+  const [scanning, setScanning] = useState(false);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+
+  useEffect(() => {
+    if (!scanning) return;
+
+    const Detector = getBarcodeDetector();
+    if (!Detector) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    const detector = new Detector({ formats: ['qr_code'] });
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (!videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        timer = setInterval(async () => {
+          if (!videoRef.current) return;
+          const codes = await detector.detect(videoRef.current).catch(() => []);
+          if (codes.length > 0) {
+            setScanning(false);
+            onDetected(codes[0].rawValue);
+          }
+        }, SCAN_INTERVAL_MS);
+      } catch (err) {
+        console.error('Camera access failed', err);
+        setScanning(false);
+        onCameraError();
+      }
+    };
+
+    start();
+
+    return () => {
+      clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [scanning, onDetected, onCameraError]);
+
+  return { videoRef, scanning, setScanning };
+};
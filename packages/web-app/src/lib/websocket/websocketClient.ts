@@ -1,5 +1,5 @@
 export interface WebSocketMessage {
-  type: 'message' | 'typing' | 'heartbeat' | 'auth' | 'auth_success' | 'auth_error' | 'message_sent' | 'error' | 'heartbeat_ack' | 'delivery_receipt' | 'contact_added';
+  type: 'message' | 'sealed_message' | 'typing' | 'heartbeat' | 'auth' | 'auth_success' | 'auth_error' | 'message_sent' | 'error' | 'heartbeat_ack' | 'delivery_receipt' | 'contact_added' | 'prekeys_low' | 'device_link_request' | 'device_revoked' | 'group_updated' | 'message_edit' | 'message_delete' | 'message_edited' | 'message_deleted' | 'message_edit_sent' | 'message_delete_sent' | 'reaction' | 'read_receipt' | 'message_expired' | 'ack';
   data: any;
   timestamp: number;
 }